@@ -0,0 +1,169 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  buildChapterMetadata,
+  detectCaptionFormat,
+  formatTimestamp,
+  parseCaptions,
+  parseTimestamp,
+  remapTimestamp,
+  retimeCaptions,
+  retimeChapters,
+  retimeCues
+} from './captionRetiming';
+
+// 保留 0–10 與 20–30 秒，移除 10–20 秒
+const SEGMENTS = [{ start: 0, end: 10 }, { start: 20, end: 30 }];
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+Hello
+
+2
+00:00:12,000 --> 00:00:14,000
+removed
+
+3
+00:00:08,000 --> 00:00:22,000
+spans the cut
+second line
+`;
+
+const VTT = `WEBVTT - lecture
+
+STYLE
+::cue { color: yellow }
+
+NOTE this is dropped
+
+intro
+00:01.000 --> 00:03.000 align:start
+Welcome
+
+00:00:25.250 --> 00:00:27.000
+<v Speaker>Later
+`;
+
+describe('timestamps', () => {
+  it('parses SRT and WebVTT timestamps', () => {
+    expect(parseTimestamp('01:02:03,456')).toBe(3723.456);
+    expect(parseTimestamp('02:03.5')).toBe(123.5);
+  });
+
+  it('formats with the separator of each format', () => {
+    expect(formatTimestamp(3723.456, 'srt')).toBe('01:02:03,456');
+    expect(formatTimestamp(0.5, 'vtt')).toBe('00:00:00.500');
+  });
+});
+
+describe('detectCaptionFormat', () => {
+  it('uses the WEBVTT header or the extension', () => {
+    expect(detectCaptionFormat('captions.txt', 'WEBVTT\n\n')).toBe('vtt');
+    expect(detectCaptionFormat('captions.SRT', '')).toBe('srt');
+    expect(detectCaptionFormat('captions', SRT)).toBe('srt');
+    expect(detectCaptionFormat('notes.txt', 'hello')).toBeNull();
+  });
+});
+
+describe('parseCaptions', () => {
+  it('parses SRT cues with multi-line text and CRLF', () => {
+    const { cues } = parseCaptions(SRT.replace(/\n/g, '\r\n'), 'srt');
+    expect(cues).toHaveLength(3);
+    expect(cues[2]).toEqual({ id: '3', start: 8, end: 22, settings: undefined, text: 'spans the cut\nsecond line' });
+  });
+
+  it('keeps the WebVTT header, style blocks, ids and settings', () => {
+    const document = parseCaptions(VTT, 'vtt');
+    expect(document.header).toBe('WEBVTT - lecture\n\nSTYLE\n::cue { color: yellow }');
+    expect(document.cues[0]).toEqual({ id: 'intro', start: 1, end: 3, settings: 'align:start', text: 'Welcome' });
+    expect(document.cues).toHaveLength(2);
+  });
+});
+
+describe('remapTimestamp', () => {
+  it('shifts kept times and drops removed ones', () => {
+    expect(remapTimestamp(5, SEGMENTS)).toBe(5);
+    expect(remapTimestamp(25, SEGMENTS)).toBe(15);
+    expect(remapTimestamp(15, SEGMENTS)).toBeNull();
+    expect(remapTimestamp(35, SEGMENTS)).toBeNull();
+  });
+
+  it('can snap removed times forward to the next kept segment', () => {
+    expect(remapTimestamp(15, SEGMENTS, 'forward')).toBe(10);
+  });
+});
+
+describe('retimeCues', () => {
+  const cue = (start: number, end: number) => ({ start, end, text: 'x' });
+
+  it('drops cues that fall entirely in removed regions', () => {
+    expect(retimeCues([cue(12, 18)], SEGMENTS)).toEqual([]);
+  });
+
+  it('clamps cues that span a cut', () => {
+    expect(retimeCues([cue(8, 22)], SEGMENTS)).toEqual([cue(8, 12)]);
+    expect(retimeCues([cue(15, 22)], SEGMENTS)).toEqual([cue(10, 12)]);
+  });
+
+  it('can split cues at cuts', () => {
+    expect(retimeCues([{ ...cue(8, 22), id: 'a' }], SEGMENTS, { splitAtCuts: true })).toEqual([
+      { ...cue(8, 10), id: 'a' },
+      { ...cue(10, 12), id: 'a-2' }
+    ]);
+  });
+
+  it('drops slivers shorter than the minimum duration', () => {
+    expect(retimeCues([cue(19, 20.05)], SEGMENTS)).toEqual([]);
+    expect(retimeCues([cue(19, 20.05)], SEGMENTS, { minDuration: 0 })).toHaveLength(1);
+  });
+});
+
+describe('retimeCaptions', () => {
+  it('renumbers SRT output', () => {
+    expect(retimeCaptions(SRT, 'srt', SEGMENTS)).toBe(
+      '1\n00:00:01,000 --> 00:00:03,500\nHello\n\n' +
+      '2\n00:00:08,000 --> 00:00:12,000\nspans the cut\nsecond line\n'
+    );
+  });
+
+  it('writes WebVTT with the original header', () => {
+    const output = retimeCaptions(VTT, 'vtt', SEGMENTS);
+    expect(output.startsWith('WEBVTT - lecture\n\nSTYLE\n')).toBe(true);
+    expect(output).toContain('intro\n00:00:01.000 --> 00:00:03.000 align:start\nWelcome');
+    expect(output).toContain('00:00:15.250 --> 00:00:17.000\n<v Speaker>Later');
+  });
+});
+
+describe('retimeChapters', () => {
+  it('moves removed chapter starts forward and recomputes ends', () => {
+    expect(retimeChapters([
+      { start: 0, end: 12, title: 'Intro' },
+      { start: 12, end: 25, title: 'Topic' },
+      { start: 25, end: 40, title: 'Outro' }
+    ], SEGMENTS)).toEqual([
+      { start: 0, end: 10, title: 'Intro' },
+      { start: 10, end: 15, title: 'Topic' },
+      { start: 15, end: 20, title: 'Outro' }
+    ]);
+  });
+
+  it('keeps the last chapter when several collapse to the same time', () => {
+    expect(retimeChapters([
+      { start: 0, title: 'A' },
+      { start: 12, title: 'B' },
+      { start: 15, title: 'C' },
+      { start: 35, title: 'D' }
+    ], SEGMENTS)).toEqual([
+      { start: 0, end: 10, title: 'A' },
+      { start: 10, end: 20, title: 'C' }
+    ]);
+  });
+});
+
+describe('buildChapterMetadata', () => {
+  it('writes FFMETADATA chapters in milliseconds', () => {
+    expect(buildChapterMetadata([{ start: 0, end: 1.5, title: 'Part=1; #a' }])).toBe(
+      ';FFMETADATA1\n[CHAPTER]\nTIMEBASE=1/1000\nSTART=0\nEND=1500\ntitle=Part\\=1\\; \\#a\n'
+    );
+  });
+});
@@ -0,0 +1,226 @@
+// 字幕與章節重新對時：將原始媒體的時間對應到剪輯後的輸出時間 (純函數，不依賴 FFmpeg)
+import { Chapter, Segment } from './videoProcessing';
+
+export type CaptionFormat = 'srt' | 'vtt';
+
+export interface Cue {
+  id?: string;       // SRT 的序號在輸出時會重新編號，WebVTT 的識別碼則保留
+  start: number;     // 秒
+  end: number;       // 秒
+  settings?: string; // WebVTT 的 cue 設定，例如 "align:start line:0"
+  text: string;
+}
+
+export interface CaptionDocument {
+  format: CaptionFormat;
+  header?: string;   // WebVTT 的 WEBVTT 標頭與 STYLE / REGION 區塊，原樣保留
+  cues: Cue[];
+}
+
+export interface RetimeOptions {
+  // true 時跨越剪輯點的字幕在每個保留段落各輸出一條；預設合併為一條並截去被移除的部分
+  splitAtCuts?: boolean;
+  // 重新對時後短於此長度 (秒) 的字幕會被捨棄，避免只剩一小段的字幕閃現
+  minDuration?: number;
+}
+
+export const MIN_CUE_DURATION = 0.1;
+
+const TIMING_PATTERN = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})(.*)$/;
+
+/**
+ * 依副檔名或內容判斷字幕格式，無法判斷時返回 null
+ */
+export function detectCaptionFormat(fileName: string, content: string): CaptionFormat | null {
+  if (/^\uFEFF?WEBVTT/.test(content)) return 'vtt';
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'vtt') return 'vtt';
+  if (extension === 'srt') return 'srt';
+  // 沒有可辨識的副檔名時，含有 SRT 時間格式 (逗號分隔毫秒) 即視為 SRT
+  return /\d{2}:\d{2}:\d{2},\d{3}\s*-->/.test(content) ? 'srt' : null;
+}
+
+// 將 "01:02:03,456" 或 "02:03.456" 轉換為秒數
+export function parseTimestamp(timestamp: string): number {
+  const [clock, fraction] = timestamp.trim().split(/[.,]/);
+  const seconds = clock.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  return seconds + Number(fraction.padEnd(3, '0')) / 1000;
+}
+
+// 將秒數格式化為 "HH:MM:SS,mmm" (SRT) 或 "HH:MM:SS.mmm" (WebVTT)
+export function formatTimestamp(time: number, format: CaptionFormat): string {
+  const totalMs = Math.max(0, Math.round(time * 1000));
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const ms = totalMs % 1000;
+  const totalSeconds = Math.floor(totalMs / 1000);
+  const clock = `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}`;
+  return `${clock}${format === 'srt' ? ',' : '.'}${pad(ms, 3)}`;
+}
+
+/**
+ * 解析 SRT 或 WebVTT 字幕；無法解析的區塊 (例如 WebVTT 的 NOTE) 會被略過
+ */
+export function parseCaptions(content: string, format: CaptionFormat): CaptionDocument {
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+    .map(block => block.replace(/^\n+|\n+$/g, ''))
+    .filter(block => block.length > 0);
+
+  const headerBlocks: string[] = [];
+  const cues: Cue[] = [];
+
+  for (const [index, block] of blocks.entries()) {
+    if (format === 'vtt' && (index === 0 && block.startsWith('WEBVTT') || /^(STYLE|REGION)\b/.test(block))) {
+      headerBlocks.push(block);
+      continue;
+    }
+
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => TIMING_PATTERN.test(line));
+    if (timingIndex < 0 || timingIndex > 1) continue;
+
+    const [, start, end, rest] = lines[timingIndex].match(TIMING_PATTERN)!;
+    const settings = rest.trim();
+    cues.push({
+      id: timingIndex === 1 ? lines[0].trim() : undefined,
+      start: parseTimestamp(start),
+      end: parseTimestamp(end),
+      settings: format === 'vtt' && settings ? settings : undefined,
+      text: lines.slice(timingIndex + 1).join('\n')
+    });
+  }
+
+  return {
+    format,
+    header: format === 'vtt' ? (headerBlocks.length > 0 ? headerBlocks.join('\n\n') : 'WEBVTT') : undefined,
+    cues
+  };
+}
+
+/**
+ * 將字幕輸出為文字；SRT 會重新編號
+ */
+export function formatCaptions(document: CaptionDocument): string {
+  const { format } = document;
+  const blocks = document.cues.map((cue, index) => {
+    const timing = `${formatTimestamp(cue.start, format)} --> ${formatTimestamp(cue.end, format)}`;
+    if (format === 'srt') {
+      return `${index + 1}\n${timing}\n${cue.text}`;
+    }
+    const lines = cue.id ? [cue.id] : [];
+    lines.push(cue.settings ? `${timing} ${cue.settings}` : timing, cue.text);
+    return lines.join('\n');
+  });
+  if (format === 'vtt') blocks.unshift(document.header ?? 'WEBVTT');
+  return blocks.join('\n\n') + '\n';
+}
+
+/**
+ * 將原始媒體中的時間點對應到剪輯後的輸出時間
+ * @param time 原始時間 (秒)
+ * @param segments 依時間排序、互不重疊的保留段落
+ * @param snap 'forward' 時，落在被移除區間的時間點移到下一個保留段落的開頭；預設返回 null
+ * @returns 輸出時間 (秒)；時間點被移除時返回 null
+ */
+export function remapTimestamp(time: number, segments: Segment[], snap: 'none' | 'forward' = 'none'): number | null {
+  let offset = 0;
+  for (const segment of segments) {
+    if (time < segment.start) {
+      return snap === 'forward' ? offset : null;
+    }
+    if (time <= segment.end) {
+      return offset + time - segment.start;
+    }
+    offset += segment.end - segment.start;
+  }
+  return null;
+}
+
+/**
+ * 重新對時字幕：完全落在被移除區間的字幕會被捨棄，跨越剪輯點的字幕會被截斷或分割
+ */
+export function retimeCues(cues: Cue[], segments: Segment[], options: RetimeOptions = {}): Cue[] {
+  const minDuration = options.minDuration ?? MIN_CUE_DURATION;
+  const result: Cue[] = [];
+
+  for (const cue of cues) {
+    // 字幕在每個保留段落中的部分，對應到輸出時間後在時間線上是連續的
+    const pieces = segments
+      .filter(segment => segment.end > cue.start && segment.start < cue.end)
+      .map(segment => ({
+        start: remapTimestamp(Math.max(cue.start, segment.start), segments)!,
+        end: remapTimestamp(Math.min(cue.end, segment.end), segments)!
+      }));
+    if (pieces.length === 0) continue;
+
+    const ranges = options.splitAtCuts
+      ? pieces
+      : [{ start: pieces[0].start, end: pieces[pieces.length - 1].end }];
+    ranges
+      .filter(range => range.end - range.start >= minDuration)
+      .forEach((range, index) => {
+        result.push({
+          ...cue,
+          id: cue.id && index > 0 ? `${cue.id}-${index + 1}` : cue.id,
+          start: range.start,
+          end: range.end
+        });
+      });
+  }
+  return result;
+}
+
+/**
+ * 重新對時章節：章節開頭被移除時移到下一個保留段落的開頭，
+ * 多個章節落在同一時間點時保留最後一個，結束時間重新計算為下一章的開頭
+ * @param chapters 依時間排序的章節
+ * @param segments 保留段落
+ */
+export function retimeChapters(chapters: Chapter[], segments: Segment[]): Chapter[] {
+  const outputDuration = segments.reduce((total, segment) => total + segment.end - segment.start, 0);
+  const mapped: Chapter[] = [];
+
+  for (const chapter of chapters) {
+    const start = remapTimestamp(chapter.start, segments, 'forward');
+    if (start === null || start >= outputDuration) continue;
+    if (mapped.length > 0 && mapped[mapped.length - 1].start === start) {
+      mapped.pop();
+    }
+    mapped.push({ start, title: chapter.title });
+  }
+
+  return mapped.map((chapter, index) => ({
+    ...chapter,
+    end: index + 1 < mapped.length ? mapped[index + 1].start : outputDuration
+  }));
+}
+
+/**
+ * 解析、重新對時並輸出字幕檔
+ */
+export function retimeCaptions(content: string, format: CaptionFormat, segments: Segment[], options?: RetimeOptions): string {
+  const document = parseCaptions(content, format);
+  return formatCaptions({ ...document, cues: retimeCues(document.cues, segments, options) });
+}
+
+// FFmpeg metadata 中需要跳脫的字元
+const escapeMetadata = (value: string) => value.replace(/[=;#\\\n]/g, match => `\\${match}`);
+
+/**
+ * 產生 FFMETADATA 格式的章節資訊，供 FFmpeg 寫入輸出檔案
+ */
+export function buildChapterMetadata(chapters: Chapter[]): string {
+  const lines = [';FFMETADATA1'];
+  for (const chapter of chapters) {
+    lines.push(
+      '[CHAPTER]',
+      'TIMEBASE=1/1000',
+      `START=${Math.round(chapter.start * 1000)}`,
+      `END=${Math.round((chapter.end ?? chapter.start) * 1000)}`,
+      `title=${escapeMetadata(chapter.title)}`
+    );
+  }
+  return lines.join('\n') + '\n';
+}
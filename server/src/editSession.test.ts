@@ -0,0 +1,52 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { keptSegments, parseEditSession } from './editSession';
+import { ValidationError } from './processingOptions';
+
+const project = {
+  format: 'wellcut-project',
+  version: 1,
+  savedAt: '2026-01-01T00:00:00.000Z',
+  source: { fileName: 'interview.mp4', duration: 10 },
+  detection: { silenceThreshold: -30 },
+  ranges: [
+    { start: 0, end: 1, action: 'remove' },
+    { start: 1, end: 2.5, action: 'keep', label: '開場' },
+    { start: 2.5, end: 4, action: 'keep' },
+    { start: 4, end: 6, action: 'remove' },
+    { start: 6, end: 10, action: 'keep' }
+  ]
+};
+
+describe('parseEditSession', () => {
+  it('parses a project and merges adjacent kept ranges', () => {
+    const session = parseEditSession(project, 10);
+    expect(session.ranges[1]).toEqual({ start: 1, end: 2.5, action: 'keep', label: '開場' });
+    expect(keptSegments(session)).toEqual([{ start: 1, end: 4 }, { start: 6, end: 10 }]);
+  });
+
+  it('accepts small differences in the probed duration', () => {
+    expect(() => parseEditSession(project, 10.02)).not.toThrow();
+  });
+
+  it('rejects projects for other media', () => {
+    expect(() => parseEditSession(project, 12)).toThrow('與上傳檔案的 12 秒不符');
+  });
+
+  it('rejects malformed projects', () => {
+    expect(() => parseEditSession({ ...project, format: 'wellcut-edl' }, 10)).toThrow(ValidationError);
+    expect(() => parseEditSession({ ...project, version: 2 }, 10)).toThrow('不支援的專案版本');
+    expect(() => parseEditSession({ ...project, ranges: [] }, 10)).toThrow('缺少剪輯區間');
+    expect(() => parseEditSession({ ...project, ranges: project.ranges.slice(1) }, 10)).toThrow('沒有緊接前一個區間');
+    expect(() => parseEditSession({ ...project, ranges: project.ranges.slice(0, -1) }, 10)).toThrow('沒有涵蓋整個媒體時長');
+    expect(() => parseEditSession({
+      ...project,
+      ranges: [{ start: 0, end: 10, action: 'mute' }]
+    }, 10)).toThrow('keep 或 remove');
+  });
+
+  it('returns no segments when everything is removed', () => {
+    const session = parseEditSession({ ...project, ranges: [{ start: 0, end: 10, action: 'remove' }] }, 10);
+    expect(keptSegments(session)).toEqual([]);
+  });
+});
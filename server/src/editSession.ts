@@ -0,0 +1,98 @@
+import { MAX_SEGMENTS, ValidationError } from './processingOptions';
+import { Segment } from './videoProcessing';
+
+// 前端的剪輯工作階段 (.wellcut.json 專案檔)：依時間排序、首尾相接的保留 / 移除區間
+export const PROJECT_FORMAT = 'wellcut-project';
+export const PROJECT_VERSION = 1;
+
+export interface EditRange {
+  start: number;
+  end: number;
+  action: 'keep' | 'remove';
+  label?: string;
+}
+
+export interface EditSession {
+  source: { fileName: string; duration: number };
+  ranges: EditRange[];
+}
+
+// 區間邊界之間容許的誤差 (秒)
+const TIME_TOLERANCE = 1e-3;
+
+// 專案檔記錄的時長與伺服器探測到的時長容許的差距 (秒)
+const SOURCE_DURATION_TOLERANCE = 0.05;
+
+// 保留區間之間各有一個移除區間，因此上限約為段落上限的兩倍
+const MAX_RANGES = MAX_SEGMENTS * 2 + 1;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * 驗證請求中的剪輯工作階段 (專案檔內容)
+ * 偵測參數只是記錄，剪輯時不使用，因此不驗證
+ * @param duration 上傳檔案的媒體時長，專案檔必須是同一個媒體
+ */
+export function parseEditSession(raw: unknown, duration: number): EditSession {
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new ValidationError('參數 session 不是 WellCut 專案');
+  }
+  if (!Number.isInteger(raw.version) || (raw.version as number) < 1 || (raw.version as number) > PROJECT_VERSION) {
+    throw new ValidationError(`不支援的專案版本: ${String(raw.version)}`);
+  }
+
+  const { source, ranges } = raw;
+  if (!isRecord(source) || typeof source.fileName !== 'string' || !isFiniteNumber(source.duration)) {
+    throw new ValidationError('專案缺少來源媒體的檔名或時長');
+  }
+  if (Math.abs(source.duration - duration) > SOURCE_DURATION_TOLERANCE) {
+    throw new ValidationError(`專案的來源時長 ${source.duration} 秒與上傳檔案的 ${duration} 秒不符`);
+  }
+
+  if (!Array.isArray(ranges) || ranges.length === 0) {
+    throw new ValidationError('專案缺少剪輯區間');
+  }
+  if (ranges.length > MAX_RANGES) {
+    throw new ValidationError(`區間數量不能超過 ${MAX_RANGES}，收到: ${ranges.length}`);
+  }
+  let cursor = 0;
+  const parsed = ranges.map((item, index): EditRange => {
+    const { start, end, action, label } = isRecord(item) ? item : {};
+    if (!isFiniteNumber(start) || !isFiniteNumber(end) || end <= start) {
+      throw new ValidationError(`第 ${index + 1} 個區間的範圍無效`);
+    }
+    if (action !== 'keep' && action !== 'remove') {
+      throw new ValidationError(`第 ${index + 1} 個區間的動作必須是 keep 或 remove`);
+    }
+    if (Math.abs(start - cursor) > TIME_TOLERANCE) {
+      throw new ValidationError(`第 ${index + 1} 個區間沒有緊接前一個區間`);
+    }
+    cursor = end;
+    return typeof label === 'string' ? { start, end, action, label } : { start, end, action };
+  });
+  if (Math.abs(cursor - source.duration) > TIME_TOLERANCE) {
+    throw new ValidationError('剪輯區間沒有涵蓋整個媒體時長');
+  }
+
+  return { source: { fileName: source.fileName, duration: source.duration }, ranges: parsed };
+}
+
+/**
+ * 取得要輸出的段落：相鄰的保留區間合併為一段
+ */
+export function keptSegments(session: EditSession): Segment[] {
+  const segments: Segment[] = [];
+  for (const range of session.ranges) {
+    if (range.action !== 'keep') continue;
+    const last = segments[segments.length - 1];
+    if (last && range.start - last.end <= TIME_TOLERANCE) {
+      last.end = range.end;
+    } else {
+      segments.push({ start: range.start, end: range.end });
+    }
+  }
+  return segments;
+}
@@ -0,0 +1,157 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  buildEdlEvents,
+  CMX3600_MAX_EVENTS,
+  exportCmx3600,
+  exportEdl,
+  exportFcpxml,
+  exportJson,
+  exportXmeml,
+  framesToTimecode,
+  parseEdlFormat,
+  resolveFrameRate,
+  WellCutEdlDocument
+} from './edlExport';
+import { ValidationError } from './processingOptions';
+import { MediaInfo } from './videoProcessing';
+
+const VIDEO: MediaInfo = {
+  duration: 60,
+  hasVideo: true,
+  hasAudio: true,
+  width: 1920,
+  height: 1080,
+  fps: 25,
+  channels: 2,
+  sampleRate: 48000,
+  audioStreams: [{ index: 0, channels: 2 }],
+  chapters: []
+};
+const source = { fileName: 'interview.mp4', media: VIDEO };
+const segments = [{ start: 1, end: 3 }, { start: 10.5, end: 12 }];
+
+describe('resolveFrameRate', () => {
+  it('keeps integer frame rates', () => {
+    expect(resolveFrameRate({ hasVideo: true, fps: 25 })).toEqual({ fps: 25, timebase: 25, ntsc: false });
+  });
+
+  it('detects NTSC frame rates', () => {
+    const rate = resolveFrameRate({ hasVideo: true, fps: 30000 / 1001 });
+    expect(rate.timebase).toBe(30);
+    expect(rate.ntsc).toBe(true);
+  });
+
+  it('falls back to the default rate for audio-only media', () => {
+    expect(resolveFrameRate({ hasVideo: false }).timebase).toBe(25);
+  });
+});
+
+describe('buildEdlEvents', () => {
+  it('snaps to frames and lays events out back to back', () => {
+    expect(buildEdlEvents([{ start: 1.01, end: 2 }, { start: 3, end: 3.5 }], { fps: 25, timebase: 25, ntsc: false })).toEqual([
+      { sourceIn: 25, sourceOut: 50, recordIn: 0, recordOut: 25 },
+      { sourceIn: 75, sourceOut: 88, recordIn: 25, recordOut: 38 }
+    ]);
+  });
+
+  it('drops segments shorter than a frame', () => {
+    expect(buildEdlEvents([{ start: 1, end: 1.01 }], { fps: 25, timebase: 25, ntsc: false })).toEqual([]);
+  });
+});
+
+describe('framesToTimecode', () => {
+  it('formats non-drop-frame timecode', () => {
+    expect(framesToTimecode(0, 25)).toBe('00:00:00:00');
+    expect(framesToTimecode(25 * 3661 + 7, 25)).toBe('01:01:01:07');
+  });
+});
+
+describe('exportCmx3600', () => {
+  it('writes one event per segment starting at 01:00:00:00', () => {
+    expect(exportCmx3600(segments, source)).toBe([
+      'TITLE: interview',
+      'FCM: NON-DROP FRAME',
+      '',
+      '001  AX       AA/V  C        00:00:01:00 00:00:03:00 01:00:00:00 01:00:02:00',
+      '* FROM CLIP NAME: interview.mp4',
+      '',
+      '002  AX       AA/V  C        00:00:10:13 00:00:12:00 01:00:02:00 01:00:03:12',
+      '* FROM CLIP NAME: interview.mp4',
+      ''
+    ].join('\n'));
+  });
+
+  it('uses an audio track for audio-only media', () => {
+    const edl = exportCmx3600(segments, { fileName: 'podcast.wav', media: { ...VIDEO, hasVideo: false } });
+    expect(edl).toContain('001  AX       AA    C');
+  });
+
+  it('rejects more events than the format allows', () => {
+    const many = Array.from({ length: CMX3600_MAX_EVENTS + 1 }, (_, i) => ({ start: i * 0.2, end: i * 0.2 + 0.1 }));
+    expect(() => exportCmx3600(many, { ...source, media: { ...VIDEO, duration: 300 } })).toThrow(ValidationError);
+  });
+});
+
+describe('exportFcpxml', () => {
+  it('uses rational frame times', () => {
+    const xml = exportFcpxml(segments, source);
+    expect(xml).toContain('<format id="r1" frameDuration="100/2500s" width="1920" height="1080"/>');
+    expect(xml).toContain('offset="0s" start="2500/2500s" duration="5000/2500s"');
+    expect(xml).toContain('offset="5000/2500s" start="26300/2500s" duration="3700/2500s"');
+  });
+
+  it('uses 1001 frame durations for NTSC', () => {
+    const xml = exportFcpxml(segments, { ...source, media: { ...VIDEO, fps: 30000 / 1001 } });
+    expect(xml).toContain('frameDuration="1001/30000s"');
+  });
+
+  it('escapes file names', () => {
+    expect(exportFcpxml(segments, { ...source, fileName: 'Q&A "live".mp4' })).toContain('name="Q&amp;A &quot;live&quot;"');
+  });
+});
+
+describe('exportXmeml', () => {
+  it('places clips on a video and an audio track', () => {
+    const xml = exportXmeml(segments, source);
+    expect(xml.match(/<clipitem /g)).toHaveLength(4);
+    expect(xml.match(/<file id="file-1">/g)).toHaveLength(1);
+    expect(xml).toContain('<in>263</in>');
+    expect(xml).toContain('<mediatype>audio</mediatype>');
+  });
+
+  it('omits the video track for audio-only media', () => {
+    const xml = exportXmeml(segments, { fileName: 'podcast.wav', media: { ...VIDEO, hasVideo: false } });
+    expect(xml).not.toContain('<video>');
+    expect(xml.match(/<clipitem /g)).toHaveLength(2);
+  });
+});
+
+describe('exportJson', () => {
+  it('writes the documented structure', () => {
+    const document: WellCutEdlDocument = JSON.parse(exportJson(segments, source, 'Episode 1'));
+    expect(document.format).toBe('wellcut-edl');
+    expect(document.version).toBe(1);
+    expect(document.title).toBe('Episode 1');
+    expect(document.duration).toBeCloseTo(3.48);
+    expect(document.events[1]).toEqual({
+      index: 2,
+      sourceStart: 10.52,
+      sourceEnd: 12,
+      recordStart: 2,
+      recordEnd: 3.48,
+      frames: { sourceIn: 263, sourceOut: 300, recordIn: 50, recordOut: 87 }
+    });
+  });
+});
+
+describe('exportEdl', () => {
+  it('dispatches by format', () => {
+    expect(exportEdl('cmx3600', segments, source)).toBe(exportCmx3600(segments, source));
+  });
+
+  it('validates the format name', () => {
+    expect(parseEdlFormat('fcpxml')).toBe('fcpxml');
+    expect(() => parseEdlFormat('aaf')).toThrow(ValidationError);
+  });
+});
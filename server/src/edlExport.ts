@@ -0,0 +1,376 @@
+// 剪輯決定清單 (EDL) 匯出：將保留段落轉換為剪輯軟體可匯入的時間線 (純函數，不依賴 FFmpeg)
+import path from 'path';
+import { ValidationError } from './processingOptions';
+import { MediaInfo, Segment } from './videoProcessing';
+
+export const EDL_FORMATS = ['cmx3600', 'fcpxml', 'xmeml', 'json'] as const;
+export type EdlFormat = typeof EDL_FORMATS[number];
+
+// 各格式的下載副檔名與 MIME 類型
+export const EDL_FILE_TYPES: Record<EdlFormat, { extension: string; mimeType: string }> = {
+  cmx3600: { extension: 'edl', mimeType: 'text/plain; charset=utf-8' },
+  fcpxml: { extension: 'fcpxml', mimeType: 'application/xml; charset=utf-8' },
+  xmeml: { extension: 'xml', mimeType: 'application/xml; charset=utf-8' },
+  json: { extension: 'json', mimeType: 'application/json; charset=utf-8' }
+};
+
+// 沒有影像 (純音訊) 或無法取得幀率時使用的時間碼幀率
+export const DEFAULT_EDL_FPS = 25;
+// CMX3600 的事件編號只有三位數
+export const CMX3600_MAX_EVENTS = 999;
+// 時間線的起始時間碼 (剪輯軟體慣用 01:00:00:00)
+const RECORD_START_SECONDS = 60 * 60;
+
+export interface EdlSource {
+  fileName: string; // 原始檔名，剪輯軟體以此重新連結媒體
+  media: MediaInfo;
+}
+
+/**
+ * 時間碼幀率：timebase 為整數幀率，ntsc 表示實際幀率為 timebase × 1000/1001 (例如 29.97)
+ * 時間碼一律使用非丟幀 (NDF) 計數
+ */
+export interface FrameRate {
+  fps: number;
+  timebase: number;
+  ntsc: boolean;
+}
+
+// 對齊到幀的事件，所有位置以幀為單位
+export interface EdlEvent {
+  sourceIn: number;
+  sourceOut: number;
+  recordIn: number;
+  recordOut: number;
+}
+
+/**
+ * WellCut JSON 匯出格式 (format: "wellcut-edl", version: 1)
+ * 所有秒數都已對齊到 frameRate 的幀邊界，frames 欄位為對應的整數幀數
+ */
+export interface WellCutEdlDocument {
+  format: 'wellcut-edl';
+  version: 1;
+  title: string;
+  source: {
+    fileName: string;
+    duration: number;        // 原始媒體時長 (秒)
+    hasVideo: boolean;
+    hasAudio: boolean;
+    width?: number;
+    height?: number;
+  };
+  frameRate: FrameRate;
+  duration: number;          // 輸出時間線總長 (秒)
+  events: Array<{
+    index: number;           // 從 1 開始的事件編號
+    sourceStart: number;     // 在原始媒體中的起點 (秒)
+    sourceEnd: number;       // 在原始媒體中的終點 (秒，不含)
+    recordStart: number;     // 在輸出時間線中的起點 (秒，從 0 開始)
+    recordEnd: number;       // 在輸出時間線中的終點 (秒，不含)
+    frames: { sourceIn: number; sourceOut: number; recordIn: number; recordOut: number };
+  }>;
+}
+
+/**
+ * 由媒體幀率推算時間碼幀率；29.97、59.94 等 NTSC 幀率以 timebase 30、60 表示
+ */
+export function resolveFrameRate(media: Pick<MediaInfo, 'fps' | 'hasVideo'>): FrameRate {
+  const fps = media.hasVideo && media.fps ? media.fps : DEFAULT_EDL_FPS;
+  const timebase = Math.round(fps);
+  const ntsc = Math.abs(fps - timebase * 1000 / 1001) < 0.01 && Math.abs(fps - timebase) >= 0.01;
+  return { fps: ntsc ? timebase * 1000 / 1001 : fps, timebase, ntsc };
+}
+
+/**
+ * 將段落對齊到幀並排成連續的時間線，對齊後長度為 0 的段落會被略過
+ */
+export function buildEdlEvents(segments: Segment[], rate: FrameRate): EdlEvent[] {
+  const events: EdlEvent[] = [];
+  let record = 0;
+  for (const segment of segments) {
+    const sourceIn = Math.round(segment.start * rate.fps);
+    const sourceOut = Math.round(segment.end * rate.fps);
+    if (sourceOut <= sourceIn) continue;
+    events.push({ sourceIn, sourceOut, recordIn: record, recordOut: record + sourceOut - sourceIn });
+    record += sourceOut - sourceIn;
+  }
+  return events;
+}
+
+/**
+ * 將幀數格式化為非丟幀時間碼 HH:MM:SS:FF
+ */
+export function framesToTimecode(frames: number, timebase: number): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const ff = frames % timebase;
+  const totalSeconds = Math.floor(frames / timebase);
+  const ss = totalSeconds % 60;
+  const mm = Math.floor(totalSeconds / 60) % 60;
+  const hh = Math.floor(totalSeconds / 3600);
+  return `${pad(hh)}:${pad(mm)}:${pad(ss)}:${pad(ff)}`;
+}
+
+// 時間線名稱預設使用不含副檔名的原始檔名
+const defaultTitle = (source: EdlSource) => path.parse(source.fileName).name || 'WellCut';
+
+// EDL 的標題與註解不能換行
+const singleLine = (text: string) => text.replace(/[\r\n]+/g, ' ');
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+/**
+ * 產生 CMX3600 EDL；所有事件使用同一個 reel (AX)，並以 FROM CLIP NAME 註解標示原始檔名
+ */
+export function exportCmx3600(segments: Segment[], source: EdlSource, title = defaultTitle(source)): string {
+  const rate = resolveFrameRate(source.media);
+  const events = buildEdlEvents(segments, rate);
+  if (events.length > CMX3600_MAX_EVENTS) {
+    throw new ValidationError(`CMX3600 最多只能包含 ${CMX3600_MAX_EVENTS} 個事件，目前有 ${events.length} 個段落`);
+  }
+
+  const { hasVideo, hasAudio } = source.media;
+  const track = hasVideo && hasAudio ? 'AA/V' : hasVideo ? 'V' : 'AA';
+  const recordOffset = RECORD_START_SECONDS * rate.timebase;
+  const tc = (frames: number) => framesToTimecode(frames, rate.timebase);
+
+  const lines = [`TITLE: ${singleLine(title)}`, 'FCM: NON-DROP FRAME', ''];
+  events.forEach((event, index) => {
+    const number = String(index + 1).padStart(3, '0');
+    lines.push(
+      `${number}  AX       ${track.padEnd(5)} C        ` +
+      `${tc(event.sourceIn)} ${tc(event.sourceOut)} ${tc(recordOffset + event.recordIn)} ${tc(recordOffset + event.recordOut)}`,
+      `* FROM CLIP NAME: ${singleLine(source.fileName)}`,
+      ''
+    );
+  });
+  return lines.join('\n');
+}
+
+/**
+ * 產生 Final Cut Pro X 的 FCPXML (1.9)；時間以幀長度的有理數表示，避免浮點誤差
+ */
+export function exportFcpxml(segments: Segment[], source: EdlSource, title = defaultTitle(source)): string {
+  const rate = resolveFrameRate(source.media);
+  const events = buildEdlEvents(segments, rate);
+  const { media } = source;
+
+  // 每幀長度 = frameNumerator / frameDenominator 秒
+  const frameNumerator = rate.ntsc ? 1001 : 100;
+  const frameDenominator = rate.ntsc ? rate.timebase * 1000 : Math.round(rate.fps * 100);
+  const time = (frames: number) => frames === 0 ? '0s' : `${frames * frameNumerator}/${frameDenominator}s`;
+  const sourceFrames = Math.round(media.duration * rate.fps);
+  const sequenceFrames = events.length > 0 ? events[events.length - 1].recordOut : 0;
+
+  const formatAttributes = [
+    'id="r1"',
+    `frameDuration="${frameNumerator}/${frameDenominator}s"`,
+    ...(media.width && media.height ? [`width="${media.width}"`, `height="${media.height}"`] : [])
+  ].join(' ');
+  const assetAttributes = [
+    'id="r2"',
+    `name="${escapeXml(path.parse(source.fileName).name)}"`,
+    `src="${escapeXml(encodeURI(source.fileName))}"`,
+    'start="0s"',
+    `duration="${time(sourceFrames)}"`,
+    `hasVideo="${media.hasVideo ? 1 : 0}"`,
+    `hasAudio="${media.hasAudio ? 1 : 0}"`,
+    'format="r1"',
+    ...(media.hasAudio ? ['audioSources="1"', `audioChannels="${media.channels ?? 2}"`] : []),
+    ...(media.sampleRate ? [`audioRate="${media.sampleRate}"`] : [])
+  ].join(' ');
+
+  const clips = events.map((event, index) =>
+    `            <asset-clip ref="r2" name="${escapeXml(title)} ${index + 1}" ` +
+    `offset="${time(event.recordIn)}" start="${time(event.sourceIn)}" duration="${time(event.sourceOut - event.sourceIn)}" format="r1"/>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '<fcpxml version="1.9">',
+    '  <resources>',
+    `    <format ${formatAttributes}/>`,
+    `    <asset ${assetAttributes}/>`,
+    '  </resources>',
+    '  <library>',
+    '    <event name="WellCut">',
+    `      <project name="${escapeXml(title)}">`,
+    `        <sequence format="r1" duration="${time(sequenceFrames)}" tcStart="0s" tcFormat="NDF">`,
+    '          <spine>',
+    ...clips,
+    '          </spine>',
+    '        </sequence>',
+    '      </project>',
+    '    </event>',
+    '  </library>',
+    '</fcpxml>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * 產生 Premiere Pro 可匯入的 Final Cut Pro 7 XML (XMEML version 4)
+ * 影像與音訊分別放在一條影像軌與一條音訊軌，第一個 clipitem 帶完整的 file 定義，其餘以 id 參照
+ */
+export function exportXmeml(segments: Segment[], source: EdlSource, title = defaultTitle(source)): string {
+  const rate = resolveFrameRate(source.media);
+  const events = buildEdlEvents(segments, rate);
+  const { media } = source;
+  const sourceFrames = Math.round(media.duration * rate.fps);
+  const sequenceFrames = events.length > 0 ? events[events.length - 1].recordOut : 0;
+  const rateXml = (indent: string) => [
+    `${indent}<rate>`,
+    `${indent}  <timebase>${rate.timebase}</timebase>`,
+    `${indent}  <ntsc>${rate.ntsc ? 'TRUE' : 'FALSE'}</ntsc>`,
+    `${indent}</rate>`
+  ];
+
+  const fileXml = (indent: string) => [
+    `${indent}<file id="file-1">`,
+    `${indent}  <name>${escapeXml(source.fileName)}</name>`,
+    `${indent}  <pathurl>${escapeXml(encodeURI(source.fileName))}</pathurl>`,
+    ...rateXml(`${indent}  `),
+    `${indent}  <duration>${sourceFrames}</duration>`,
+    `${indent}  <media>`,
+    ...(media.hasVideo ? [
+      `${indent}    <video>`,
+      `${indent}      <samplecharacteristics>`,
+      ...(media.width ? [`${indent}        <width>${media.width}</width>`] : []),
+      ...(media.height ? [`${indent}        <height>${media.height}</height>`] : []),
+      `${indent}      </samplecharacteristics>`,
+      `${indent}    </video>`
+    ] : []),
+    ...(media.hasAudio ? [
+      `${indent}    <audio>`,
+      `${indent}      <channelcount>${media.channels ?? 2}</channelcount>`,
+      `${indent}    </audio>`
+    ] : []),
+    `${indent}  </media>`,
+    `${indent}</file>`
+  ];
+
+  let fileDefined = false;
+  const clipItems = (mediaType: 'video' | 'audio') => events.flatMap((event, index) => {
+    const indent = '          ';
+    const file = fileDefined ? [`${indent}  <file id="file-1"/>`] : fileXml(`${indent}  `);
+    fileDefined = true;
+    return [
+      `${indent}<clipitem id="${mediaType}-clipitem-${index + 1}">`,
+      `${indent}  <name>${escapeXml(`${title} ${index + 1}`)}</name>`,
+      `${indent}  <duration>${sourceFrames}</duration>`,
+      ...rateXml(`${indent}  `),
+      `${indent}  <start>${event.recordIn}</start>`,
+      `${indent}  <end>${event.recordOut}</end>`,
+      `${indent}  <in>${event.sourceIn}</in>`,
+      `${indent}  <out>${event.sourceOut}</out>`,
+      ...file,
+      ...(mediaType === 'audio' ? [
+        `${indent}  <sourcetrack>`,
+        `${indent}    <mediatype>audio</mediatype>`,
+        `${indent}    <trackindex>1</trackindex>`,
+        `${indent}  </sourcetrack>`
+      ] : []),
+      `${indent}</clipitem>`
+    ];
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE xmeml>',
+    '<xmeml version="4">',
+    '  <sequence id="sequence-1">',
+    `    <name>${escapeXml(title)}</name>`,
+    `    <duration>${sequenceFrames}</duration>`,
+    ...rateXml('    '),
+    '    <media>',
+    ...(media.hasVideo ? [
+      '      <video>',
+      '        <track>',
+      ...clipItems('video'),
+      '        </track>',
+      '      </video>'
+    ] : []),
+    ...(media.hasAudio ? [
+      '      <audio>',
+      '        <track>',
+      ...clipItems('audio'),
+      '        </track>',
+      '      </audio>'
+    ] : []),
+    '    </media>',
+    '  </sequence>',
+    '</xmeml>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * 產生 WellCut JSON 格式 (見 WellCutEdlDocument)
+ */
+export function exportJson(segments: Segment[], source: EdlSource, title = defaultTitle(source)): string {
+  const rate = resolveFrameRate(source.media);
+  const events = buildEdlEvents(segments, rate);
+  const seconds = (frames: number) => frames / rate.fps;
+  const { media } = source;
+
+  const document: WellCutEdlDocument = {
+    format: 'wellcut-edl',
+    version: 1,
+    title,
+    source: {
+      fileName: source.fileName,
+      duration: media.duration,
+      hasVideo: media.hasVideo,
+      hasAudio: media.hasAudio,
+      width: media.width,
+      height: media.height
+    },
+    frameRate: rate,
+    duration: seconds(events.length > 0 ? events[events.length - 1].recordOut : 0),
+    events: events.map((event, index) => ({
+      index: index + 1,
+      sourceStart: seconds(event.sourceIn),
+      sourceEnd: seconds(event.sourceOut),
+      recordStart: seconds(event.recordIn),
+      recordEnd: seconds(event.recordOut),
+      frames: { ...event }
+    }))
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * 依格式匯出剪輯決定清單
+ * @param format 匯出格式
+ * @param segments 依時間排序的保留段落
+ * @param source 原始檔名與媒體資訊
+ * @param title 時間線名稱，預設為原始檔名
+ */
+export function exportEdl(format: EdlFormat, segments: Segment[], source: EdlSource, title?: string): string {
+  switch (format) {
+    case 'cmx3600':
+      return exportCmx3600(segments, source, title);
+    case 'fcpxml':
+      return exportFcpxml(segments, source, title);
+    case 'xmeml':
+      return exportXmeml(segments, source, title);
+    case 'json':
+      return exportJson(segments, source, title);
+  }
+}
+
+/**
+ * 解析匯出格式參數
+ */
+export function parseEdlFormat(raw: unknown): EdlFormat {
+  if (typeof raw === 'string' && (EDL_FORMATS as readonly string[]).includes(raw)) {
+    return raw as EdlFormat;
+  }
+  throw new ValidationError(`參數 format 必須是 ${EDL_FORMATS.join(', ')} 之一，收到: ${String(raw)}`);
+}
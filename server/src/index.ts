@@ -1,12 +1,31 @@
 import express, { Request, Response } from 'express';
 import multer from 'multer';
+import os from 'os';
 import path from 'path';
 import fs from 'fs';
-import ffmpeg from 'fluent-ffmpeg';
-import { exec } from 'child_process'; // 用於執行 FFmpeg 命令
+import { createJobQueue, isJobFinished, Job, JobContext } from './jobQueue';
+import { Chapter, detectSpeechWithFFmpeg, MediaInfo, probeDuration, probeMedia, Segment } from './videoProcessing';
+import { cutVideoBySegments, CutStrategy, resolveOutputExtension } from './videoCutting';
+import { LoudnessComparison, normalizeLoudness } from './loudnessNormalization';
+import {
+  CutOptions,
+  DetectionOptions,
+  parseCutOptions,
+  parseDetectionOptions,
+  parseSegments,
+  parseUploadedSegments,
+  ValidationError
+} from './processingOptions';
+import { postProcessSegments } from './segmentPostProcessing';
+import { EDL_FILE_TYPES, exportEdl, parseEdlFormat } from './edlExport';
+import { keptSegments, parseEditSession } from './editSession';
+import { createUploadStore, StoredCaptions, StoredUpload } from './uploadStore';
+import { detectCaptionFormat, retimeCaptions, retimeChapters } from './captionRetiming';
+import { assertWithinRetention, enforceRetention, listOutputs, resolveOutputPath, RetentionPolicy } from './outputStore';
 
 const app = express();
 const port = 3000; // 後端伺服器端口
+const maxConcurrentJobs = Number(process.env.MAX_CONCURRENT_JOBS) || 2; // 同時處理的任務上限
 
 // 設置上傳目錄和 Multer
 const uploadDir = path.join(__dirname, '..', 'uploads');
@@ -27,165 +46,554 @@ const storage = multer.diskStorage({
   }
 });
 const upload = multer({ storage: storage });
+// 影片以 video 欄位上傳，純音訊檔案以 audio 欄位上傳 (兩者擇一)；可另外以 captions 欄位附上 SRT / WebVTT 字幕
+const mediaUpload = upload.fields([
+  { name: 'video', maxCount: 1 },
+  { name: 'audio', maxCount: 1 },
+  { name: 'captions', maxCount: 1 }
+]);
+
+const uploadedFiles = (req: Request) => (req.files ?? {}) as Record<string, Express.Multer.File[]>;
+
+// 取得上傳的媒體檔案，同時上傳多個欄位時刪除多餘的檔案
+function takeMediaFile(req: Request): Express.Multer.File | undefined {
+  const files = uploadedFiles(req);
+  const [file, ...extra] = [...(files.video ?? []), ...(files.audio ?? [])];
+  extra.forEach(other => fs.unlinkSync(other.path));
+  return file;
+}
+
+// 取得並驗證一同上傳的字幕檔，格式無法辨識時拋出 ValidationError
+function takeCaptionFile(req: Request): StoredCaptions | undefined {
+  const file = uploadedFiles(req).captions?.[0];
+  if (!file) return undefined;
+  const format = detectCaptionFormat(file.originalname, fs.readFileSync(file.path, 'utf8'));
+  if (!format) {
+    throw new ValidationError(`無法辨識字幕格式，只支援 SRT 與 WebVTT: ${file.originalname}`);
+  }
+  return { path: file.path, originalName: file.originalname, format };
+}
+
+// 刪除請求中上傳的所有檔案 (參數驗證失敗時使用)
+function discardUploadedFiles(req: Request): void {
+  for (const file of Object.values(uploadedFiles(req)).flat()) {
+    if (fs.existsSync(file.path)) fs.unlinkSync(file.path);
+  }
+}
+
+// 輸出檔案保留策略 (可用環境變數調整)
+const retentionPolicy: RetentionPolicy = {
+  maxAgeMs: (Number(process.env.OUTPUT_MAX_AGE_HOURS) || 24) * 60 * 60 * 1000,
+  maxTotalBytes: (Number(process.env.OUTPUT_MAX_TOTAL_MB) || 5120) * 1024 * 1024
+};
+const RETENTION_INTERVAL_MS = 10 * 60 * 1000;
+// 分析後保留在伺服器上的上傳檔案，閒置超過此時間即刪除
+const uploadStore = createUploadStore(uploadDir, (Number(process.env.UPLOAD_MAX_AGE_HOURS) || 6) * 60 * 60 * 1000);
+// 正在寫入中的輸出檔案，保留策略不會刪除
+const activeOutputs = new Set<string>();
 
 // 允許跨域請求 (用於開發)
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*'); // 允許所有來源
-  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept');
+  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Range');
+  res.header('Access-Control-Expose-Headers', 'Content-Range, Accept-Ranges, Content-Length, Content-Disposition');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.sendStatus(204);
+    return;
+  }
   next();
 });
 
-// 上傳端點
-app.post('/upload', upload.single('video'), async (req: Request, res: Response): Promise<void> => {
-  if (!req.file) {
-    res.status(400).send('No file uploaded.');
+// 處理結果：剪輯完成的輸出檔案
+interface ProcessResult {
+  message: string;
+  outputId: string;
+  outputUrl: string;
+  segments: Segment[];
+  cutStrategy: CutStrategy;
+  chapters: Chapter[];   // 對應到輸出時間的章節 (已寫入輸出檔案)
+  captionsId?: string;   // 重新對時後的字幕檔 (上傳時附有字幕才會產生)
+  captionsUrl?: string;
+  loudness?: LoudnessComparison; // 響度標準化前後的量測值 (指定 loudnessTarget 時才會產生)
+}
+
+// 分析結果：僅包含段落與媒體資訊，上傳檔案保留在伺服器供後續剪輯
+interface AnalyzeResult {
+  message: string;
+  uploadId: string;
+  fileName: string;
+  media: MediaInfo;
+  segments: Segment[];
+}
+
+type JobResult = ProcessResult | AnalyzeResult;
+
+// 處理任務佇列 (偵測 / 剪輯)，限制同時執行的 FFmpeg 任務數量
+const jobQueue = createJobQueue<JobResult>(maxConcurrentJobs);
+
+// 一次完成偵測與剪輯時，各階段在整體進度中所佔的比例
+const DETECT_WEIGHT = 30;
+const CUT_WEIGHT = 70;
+// 剪輯後需要響度標準化時，標準化在剪輯階段進度中所佔的比例
+const NORMALIZE_SHARE = 0.3;
+
+// 將參數驗證錯誤轉換為 400 回應，其他錯誤交由 Express 處理
+function sendValidationError(res: Response, error: unknown): void {
+  if (error instanceof ValidationError) {
+    res.status(400).send(error.message);
     return;
   }
+  throw error;
+}
+
+// 確認指定的音軌存在；沒有音軌的檔案只在需要以音訊偵測語音 (requireAudio) 時視為錯誤
+function assertAudioStream(media: MediaInfo, audioStream: number, requireAudio = false): void {
+  const { audioStreams } = media;
+  if (audioStreams.length === 0) {
+    if (requireAudio) {
+      throw new ValidationError('此檔案沒有音軌，無法偵測語音段落，請提供 segments');
+    }
+    return;
+  }
+  if (audioStream >= audioStreams.length) {
+    throw new ValidationError(`音軌 ${audioStream} 不存在，此檔案共有 ${audioStreams.length} 條音軌`);
+  }
+}
 
-  const filePath = req.file.path;
-  const outputFileName = `processed-${Date.now()}.mp4`;
+// 探測媒體資訊或驗證參數失敗時的回應：驗證錯誤返回 400，其他錯誤返回 500
+function sendProbeError(res: Response, error: unknown): void {
+  if (error instanceof ValidationError) {
+    sendValidationError(res, error);
+  } else {
+    res.status(500).send(`讀取媒體資訊失敗: ${error instanceof Error ? error.message : '未知錯誤'}`);
+  }
+}
+
+// 偵測語音段落，並將進度換算到整體進度的 [from, from + weight] 區間
+async function runDetection(
+  filePath: string,
+  detectionOptions: DetectionOptions,
+  { signal, update }: JobContext,
+  from = 0,
+  weight = 100
+): Promise<Segment[]> {
+  console.log('正在偵測語音段落...');
+  update({ stage: 'detecting', stageProgress: 0, progress: from });
+  const speechSegments = await detectSpeechWithFFmpeg(filePath, detectionOptions, {
+    signal,
+    onProgress: (percent) => update({ stageProgress: percent, progress: from + percent * weight / 100 })
+  });
+  console.log(`偵測到語音段落:`, speechSegments);
+
+  // 段落後處理：合併短間隔並加上前後保留長度
+  const totalDuration = await probeDuration(filePath);
+  const processedSegments = postProcessSegments(speechSegments, detectionOptions, totalDuration);
+
+  if (processedSegments.length === 0) {
+    throw new Error('未偵測到任何語音段落');
+  }
+  return processedSegments;
+}
+
+// 根據段落剪輯上傳的檔案並返回輸出檔案資訊，進度換算方式同 runDetection
+// 有影像時輸出 mp4，純音訊時依 audioFormat 或原始副檔名輸出音訊檔
+// 指定 loudnessTarget 時先剪輯到暫存檔，再以兩次 loudnorm 標準化響度後寫入輸出檔
+async function runCut(
+  stored: StoredUpload,
+  segments: Segment[],
+  cutOptions: CutOptions,
+  { signal, update }: JobContext,
+  from = 0,
+  weight = 100
+): Promise<ProcessResult> {
+  const media = stored.media ?? await probeMedia(stored.path);
+  stored.media = media;
+  const extension = resolveOutputExtension(media, stored.originalName, cutOptions.audioFormat);
+  const outputBaseName = `processed-${Date.now()}`;
+  const outputFileName = `${outputBaseName}.${extension}`;
   const outputPath = path.join(outputDir, outputFileName);
-  const audioPath = path.join(uploadDir, `${req.file.filename}.wav`);
+  const captionsFileName = stored.captions ? `${outputBaseName}.${stored.captions.format}` : undefined;
+  const captionsPath = captionsFileName ? path.join(outputDir, captionsFileName) : undefined;
+  activeOutputs.add(outputFileName);
+  if (captionsFileName) activeOutputs.add(captionsFileName);
 
-  console.log(`接收到檔案: ${filePath}`);
-  const silenceThreshold = '-30dB'; // 靜音偵測閾值
-  const minSilenceDuration = 0.5; // 最小靜音持續時間 (秒)
+  // 沒有音訊時不需要標準化
+  const loudnessTarget = media.hasAudio ? cutOptions.loudnessTarget : undefined;
+  const cutWeight = loudnessTarget !== undefined ? weight * (1 - NORMALIZE_SHARE) : weight;
+  const tempDir = loudnessTarget !== undefined ? fs.mkdtempSync(path.join(os.tmpdir(), 'wellcut-')) : null;
+  const cutPath = tempDir ? path.join(tempDir, `cut.${extension}`) : outputPath;
 
   try {
-    // 1. 使用 FFmpeg silencedetect 偵測非靜音 (語音) 段落
-    console.log('正在偵測語音段落...');
-    const speechSegments = await detectSpeechWithFFmpeg(filePath, silenceThreshold, minSilenceDuration);
-    console.log(`偵測到語音段落:`, speechSegments);
+    console.log(media.hasVideo ? '正在剪輯影片...' : '正在剪輯音訊...');
+    update({ stage: 'cutting', stageProgress: 0, progress: from });
+    const chapters = retimeChapters(media.chapters, segments);
+    const cutStrategy = await cutVideoBySegments(stored.path, cutPath, segments, media, {
+      ...cutOptions,
+      chapters,
+      signal,
+      onProgress: (percent) => update({ stageProgress: percent, progress: from + percent * cutWeight / 100 })
+    });
+    console.log(`剪輯完成: ${cutPath}`);
 
-    if (speechSegments.length === 0) {
-      throw new Error('未偵測到任何語音段落');
+    let loudness: LoudnessComparison | undefined;
+    if (loudnessTarget !== undefined) {
+      console.log('正在標準化響度...');
+      update({ stage: 'normalizing', stageProgress: 0, progress: from + cutWeight });
+      const stream = media.audioStreams[cutOptions.audioStream];
+      loudness = await normalizeLoudness(cutPath, outputPath, {
+        integrated: loudnessTarget,
+        truePeak: cutOptions.truePeakCeiling,
+        range: cutOptions.loudnessRange
+      }, {
+        duration: segments.reduce((total, segment) => total + segment.end - segment.start, 0),
+        hasVideo: media.hasVideo,
+        sampleRate: stream?.sampleRate ?? media.sampleRate
+      }, {
+        signal,
+        onProgress: (percent) => update({
+          stageProgress: percent,
+          progress: from + cutWeight + percent * (weight - cutWeight) / 100
+        })
+      });
     }
 
-    // 2. 使用 FFmpeg 根據語音段落剪輯影片
-    console.log('正在剪輯影片...');
-    await cutVideoBySegments(filePath, outputPath, speechSegments);
-    console.log(`影片剪輯完成: ${outputPath}`);
+    // 字幕與輸出使用相同的段落重新對時
+    if (stored.captions && captionsPath) {
+      const content = fs.readFileSync(stored.captions.path, 'utf8');
+      fs.writeFileSync(captionsPath, retimeCaptions(content, stored.captions.format, segments));
+      console.log(`字幕重新對時完成: ${captionsPath}`);
+    }
 
-    // 3. 返回處理後的影片路徑或檔案 (實際應用中可能需要提供下載鏈接)
-    res.json({
-      message: '影片處理成功',
-      processedFilePath: outputPath, // 提供相對路徑或 URL
-      segments: speechSegments
-    });
+    // 輸出本身就超過容量上限時讓任務失敗，避免回報一個馬上會被刪除的 outputUrl
+    assertWithinRetention(outputDir, captionsFileName ? [outputFileName, captionsFileName] : [outputFileName], retentionPolicy);
 
+    return {
+      message: media.hasVideo ? '影片處理成功' : '音訊處理成功',
+      outputId: outputFileName,
+      outputUrl: `/outputs/${outputFileName}`,
+      segments,
+      cutStrategy,
+      chapters,
+      captionsId: captionsFileName,
+      captionsUrl: captionsFileName ? `/outputs/${captionsFileName}` : undefined,
+      loudness
+    };
   } catch (error) {
-    console.error('處理影片時發生錯誤:', error);
-    res.status(500).send(`處理影片時發生錯誤: ${error instanceof Error ? error.message : '未知錯誤'}`);
     // 清理可能產生的臨時檔案
     if (fs.existsSync(outputPath)) fs.unlinkSync(outputPath);
+    if (captionsPath && fs.existsSync(captionsPath)) fs.unlinkSync(captionsPath);
+    throw error;
   } finally {
-    // 清理上傳的原始檔案
-    fs.unlinkSync(filePath);
-    console.log(`已刪除原始檔案: ${filePath}`);
+    if (tempDir) fs.rmSync(tempDir, { recursive: true, force: true });
+    // 先以剛完成的輸出為保護對象騰出空間，之後才移出使用中清單
+    enforceRetention(outputDir, retentionPolicy, activeOutputs);
+    activeOutputs.delete(outputFileName);
+    if (captionsFileName) activeOutputs.delete(captionsFileName);
   }
-});
+}
 
-// 使用 FFmpeg silencedetect 偵測語音段落
-function detectSpeechWithFFmpeg(inputPath: string, threshold: string, minDuration: number): Promise<{ start: number; end: number }[]> {
-  return new Promise((resolve, reject) => {
-    let ffmpegOutput = '';
-    const command = ffmpeg(inputPath)
-      .outputOptions([
-        '-af', `silencedetect=noise=${threshold}:d=${minDuration}`,
-        '-f', 'null', // 不需要輸出文件，只關心控制台輸出
-        '-' // 輸出到 stdout/stderr
-      ])
-      .on('stderr', (stderrLine) => {
-        ffmpegOutput += stderrLine + '\n'; // 收集 FFmpeg 的輸出
-      })
-      .on('error', (err) => {
-        console.error('FFmpeg silencedetect 錯誤:', err.message);
-        console.error('FFmpeg 完整輸出:', ffmpegOutput);
-        reject(new Error(`FFmpeg silencedetect 失敗: ${err.message}`));
-      })
-      .on('end', () => {
-        console.log('FFmpeg silencedetect 輸出:\n', ffmpegOutput);
-        const silenceStarts = ffmpegOutput.match(/silence_start: (\d+(\.\d+)?)/g)?.map(s => parseFloat(s.split(' ')[1])) || [];
-        const silenceEnds = ffmpegOutput.match(/silence_end: (\d+(\.\d+)?)/g)?.map(s => parseFloat(s.split(' ')[1])) || [];
-        const silenceDurations = ffmpegOutput.match(/silence_duration: (\d+(\.\d+)?)/g)?.map(s => parseFloat(s.split(' ')[1])) || [];
-
-        if (silenceStarts.length !== silenceEnds.length || silenceStarts.length !== silenceDurations.length) {
-           console.warn('silencedetect 輸出解析不匹配，可能起始或結尾沒有靜音');
-           // 嘗試處理不匹配的情況，可能需要更健壯的解析邏輯
-        }
-
-        // 獲取影片總時長
-        ffmpeg.ffprobe(inputPath, (err, metadata) => {
-          if (err) {
-            return reject(new Error(`無法獲取影片時長: ${err.message}`));
-          }
-          const totalDuration = metadata.format.duration;
-          if (totalDuration === undefined) {
-            return reject(new Error('無法確定影片總時長'));
-          }
-
-          const speechSegments: { start: number; end: number }[] = [];
-          let lastEnd = 0;
-
-          for (let i = 0; i < silenceStarts.length; i++) {
-            const start = silenceStarts[i];
-            const end = silenceEnds[i]; // 靜音結束時間
-
-            // 添加上一個靜音結束到這個靜音開始之間的語音片段
-            if (start > lastEnd) {
-              speechSegments.push({ start: lastEnd, end: start });
-            }
-            lastEnd = end; // 更新上一個靜音的結束時間
-          }
-
-          // 添加最後一個靜音結束到影片結尾的片段
-          if (lastEnd < totalDuration) {
-            speechSegments.push({ start: lastEnd, end: totalDuration });
-          }
-
-          // 過濾掉非常短的片段 (可選)
-          const filteredSegments = speechSegments.filter(seg => seg.end - seg.start > 0.1); // 例如，至少0.1秒
-
-          resolve(filteredSegments);
-        });
-      });
+// 上傳端點：一次完成偵測與剪輯，立即返回任務 ID，處理在背景佇列中進行
+// 表單附有前端預先偵測的 segments 時略過語音偵測，直接剪輯
+app.post('/upload', mediaUpload, async (req: Request, res: Response): Promise<void> => {
+  const file = takeMediaFile(req);
+  if (!file) {
+    discardUploadedFiles(req);
+    res.status(400).send('No file uploaded.');
+    return;
+  }
+
+  const filePath = file.path;
+  console.log(`接收到檔案: ${filePath}`);
+
+  // 解析偵測參數，驗證失敗時刪除已上傳的檔案並返回 400
+  let detectionOptions: DetectionOptions;
+  let cutOptions: CutOptions;
+  let clientSegments: Segment[] | undefined;
+  let captions: StoredCaptions | undefined;
+  try {
+    detectionOptions = parseDetectionOptions(req.body);
+    cutOptions = parseCutOptions(req.body);
+    clientSegments = parseUploadedSegments(req.body);
+    captions = takeCaptionFile(req);
+  } catch (error) {
+    discardUploadedFiles(req);
+    sendValidationError(res, error);
+    return;
+  }
+  console.log('偵測參數:', detectionOptions, '剪輯參數:', cutOptions);
+
+  const stored = uploadStore.add(filePath, file.originalname);
+  stored.captions = captions;
+  const release = uploadStore.acquire(stored.id);
+
+  // 探測媒體資訊並確認音軌與前端送來的段落有效，失敗時不建立任務
+  let segments: Segment[] | undefined;
+  try {
+    stored.media = await probeMedia(filePath);
+    assertAudioStream(stored.media, detectionOptions.audioStream, !clientSegments);
+    assertAudioStream(stored.media, cutOptions.audioStream);
+    segments = clientSegments && parseSegments(clientSegments, stored.media.duration);
+  } catch (error) {
+    release();
+    uploadStore.remove(stored.id);
+    sendProbeError(res, error);
+    return;
+  }
 
-    command.run();
+  const job = jobQueue.enqueue(async (ctx) => {
+    try {
+      if (segments) {
+        return await runCut(stored, segments, cutOptions, ctx);
+      }
+      const speechSegments = await runDetection(filePath, detectionOptions, ctx, 0, DETECT_WEIGHT);
+      return await runCut(stored, speechSegments, cutOptions, ctx, DETECT_WEIGHT, CUT_WEIGHT);
+    } catch (error) {
+      console.error('處理影片時發生錯誤:', error);
+      throw error;
+    }
+  }, () => {
+    // 一次性處理不需要保留上傳的原始檔案
+    release();
+    uploadStore.remove(stored.id);
   });
+
+  res.status(202).json({ jobId: job.id, job });
+});
+
+// 分析端點：只偵測語音段落並返回媒體資訊，上傳檔案保留在伺服器上供 /render 使用
+// 表單附有前端預先偵測的 segments 時略過語音偵測，只探測媒體資訊
+app.post('/analyze', mediaUpload, async (req: Request, res: Response): Promise<void> => {
+  const file = takeMediaFile(req);
+  if (!file) {
+    discardUploadedFiles(req);
+    res.status(400).send('No file uploaded.');
+    return;
+  }
+
+  const filePath = file.path;
+  console.log(`接收到分析檔案: ${filePath}`);
+
+  let detectionOptions: DetectionOptions;
+  let clientSegments: Segment[] | undefined;
+  let captions: StoredCaptions | undefined;
+  try {
+    detectionOptions = parseDetectionOptions(req.body);
+    clientSegments = parseUploadedSegments(req.body);
+    captions = takeCaptionFile(req);
+  } catch (error) {
+    discardUploadedFiles(req);
+    sendValidationError(res, error);
+    return;
+  }
+
+  const stored = uploadStore.add(filePath, file.originalname);
+  stored.captions = captions;
+  const release = uploadStore.acquire(stored.id);
+
+  // 與 /upload 相同，在建立任務前探測媒體資訊並驗證音軌與段落
+  let media: MediaInfo;
+  let segments: Segment[] | undefined;
+  try {
+    media = await probeMedia(filePath);
+    stored.media = media;
+    assertAudioStream(media, detectionOptions.audioStream, !clientSegments);
+    segments = clientSegments && parseSegments(clientSegments, media.duration);
+  } catch (error) {
+    release();
+    uploadStore.remove(stored.id);
+    sendProbeError(res, error);
+    return;
+  }
+
+  const job = jobQueue.enqueue(async (ctx) => {
+    const speechSegments = segments ?? await runDetection(filePath, detectionOptions, ctx);
+    stored.segments = speechSegments;
+    return {
+      message: '分析完成',
+      uploadId: stored.id,
+      fileName: stored.originalName,
+      media,
+      segments: speechSegments
+    };
+  }, release);
+
+  res.status(202).json({ jobId: job.id, uploadId: stored.id, job });
+});
+
+// 剪輯端點：使用呼叫端提供的段落 (segments) 或剪輯工作階段 (session，即 .wellcut.json 專案內容) 剪輯先前上傳的檔案
+app.post('/render', express.json({ limit: '5mb' }), async (req: Request, res: Response): Promise<void> => {
+  const uploadId = req.body?.uploadId;
+  const stored = typeof uploadId === 'string' ? uploadStore.get(uploadId) : undefined;
+  if (!stored) {
+    res.status(404).send('找不到該上傳檔案，可能已過期，請重新上傳');
+    return;
+  }
+
+  const release = uploadStore.acquire(stored.id);
+  let segments: Segment[];
+  let cutOptions: CutOptions;
+  try {
+    stored.media = stored.media ?? await probeMedia(stored.path);
+    const rawSegments = req.body.session !== undefined
+      ? keptSegments(parseEditSession(req.body.session, stored.media.duration))
+      : req.body.segments;
+    segments = parseSegments(rawSegments, stored.media.duration);
+    cutOptions = parseCutOptions(req.body);
+    assertAudioStream(stored.media, cutOptions.audioStream);
+  } catch (error) {
+    release();
+    sendProbeError(res, error);
+    return;
+  }
+
+  const job = jobQueue.enqueue(async (ctx) => {
+    try {
+      return await runCut(stored, segments, cutOptions, ctx);
+    } catch (error) {
+      console.error('剪輯影片時發生錯誤:', error);
+      throw error;
+    }
+  }, release);
+
+  res.status(202).json({ jobId: job.id, job });
+});
+
+// 匯出剪輯決定清單 (CMX3600 / FCPXML / XMEML / JSON)
+// GET 使用分析時偵測到的段落；POST 可在 JSON body 中提供編輯後的 segments 與 title
+async function handleExport(req: Request, res: Response): Promise<void> {
+  const stored = uploadStore.get(req.params.id);
+  if (!stored) {
+    res.status(404).send('找不到該上傳檔案，可能已過期，請重新上傳');
+    return;
+  }
+
+  const release = uploadStore.acquire(stored.id);
+  try {
+    const format = parseEdlFormat(req.params.format);
+    stored.media = stored.media ?? await probeMedia(stored.path);
+    const rawSegments = req.body?.segments ?? stored.segments;
+    if (rawSegments === undefined) {
+      throw new ValidationError('尚未分析此檔案，請提供 segments');
+    }
+    const segments = parseSegments(rawSegments, stored.media.duration);
+    const title = typeof req.body?.title === 'string' && req.body.title.trim() ? req.body.title.trim() : undefined;
+
+    const content = exportEdl(format, segments, { fileName: stored.originalName, media: stored.media }, title);
+    const { extension, mimeType } = EDL_FILE_TYPES[format];
+    res.type(mimeType);
+    res.attachment(`${path.parse(stored.originalName).name}.${extension}`);
+    res.send(content);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      sendValidationError(res, error);
+    } else {
+      res.status(500).send(`匯出失敗: ${error instanceof Error ? error.message : '未知錯誤'}`);
+    }
+  } finally {
+    release();
+  }
 }
+app.get('/uploads/:id/export/:format', handleExport);
+app.post('/uploads/:id/export/:format', express.json({ limit: '5mb' }), handleExport);
+
+// 釋放保留在伺服器上的上傳檔案
+app.delete('/uploads/:id', (req: Request, res: Response): void => {
+  if (!uploadStore.get(req.params.id)) {
+    res.status(404).send('找不到該上傳檔案');
+    return;
+  }
+  if (!uploadStore.remove(req.params.id)) {
+    res.status(409).send('上傳檔案正在處理中，無法刪除');
+    return;
+  }
+  res.sendStatus(204);
+});
 
+// 查詢任務狀態
+app.get('/jobs/:id', (req: Request, res: Response): void => {
+  const job = jobQueue.get(req.params.id);
+  if (!job) {
+    res.status(404).send('找不到該任務');
+    return;
+  }
+  res.json(job);
+});
+
+// 以 Server-Sent Events 推送任務進度，任務結束後關閉連線
+app.get('/jobs/:id/events', (req: Request, res: Response): void => {
+  const job = jobQueue.get(req.params.id);
+  if (!job) {
+    res.status(404).send('找不到該任務');
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
 
-// 根據時間段剪輯影片函數 (使用 FFmpeg complex filter)
-function cutVideoBySegments(inputPath: string, outputPath: string, segments: { start: number; end: number }[]): Promise<void> {
-  return new Promise((resolve, reject) => {
-    if (segments.length === 0) {
-      return reject(new Error('沒有提供有效的剪輯段落'));
+  const send = (snapshot: Job<JobResult>) => {
+    res.write(`data: ${JSON.stringify(snapshot)}\n\n`);
+    if (isJobFinished(snapshot)) {
+      unsubscribe();
+      res.end();
     }
+  };
 
-    const complexFilter: string[] = [];
-    const outputMap: string[] = [];
+  const unsubscribe = jobQueue.subscribe(job.id, send);
+  req.on('close', unsubscribe);
+  send(job);
+});
 
-    // 為每個片段創建剪輯濾鏡和輸出映射
-    segments.forEach((segment, index) => {
-      complexFilter.push(`[0:v]trim=start=${segment.start}:end=${segment.end},setpts=PTS-STARTPTS[v${index}]; [0:a]atrim=start=${segment.start}:end=${segment.end},asetpts=PTS-STARTPTS[a${index}]`);
-      outputMap.push(`[v${index}][a${index}]`);
-    });
+// 取消任務
+app.delete('/jobs/:id', (req: Request, res: Response): void => {
+  if (!jobQueue.get(req.params.id)) {
+    res.status(404).send('找不到該任務');
+    return;
+  }
+  if (!jobQueue.cancel(req.params.id)) {
+    res.status(409).send('任務已結束，無法取消');
+    return;
+  }
+  res.status(202).json(jobQueue.get(req.params.id));
+});
+
+// 列出已處理的輸出檔案
+app.get('/outputs', (req: Request, res: Response): void => {
+  const outputs = listOutputs(outputDir)
+    .filter(file => !activeOutputs.has(file.id))
+    .map(file => ({ ...file, url: `/outputs/${file.id}` }));
+  res.json({ outputs, retention: retentionPolicy });
+});
 
-    // 拼接所有片段
-    const concatFilter = `${outputMap.join('')}concat=n=${segments.length}:v=1:a=1[outv][outa]`;
-    complexFilter.push(concatFilter);
-
-    ffmpeg(inputPath)
-      .complexFilter(complexFilter)
-      .map('[outv]')
-      .map('[outa]')
-      .outputOptions('-preset ultrafast') // 加快處理速度
-      .output(outputPath)
-      .on('end', () => resolve())
-      .on('error', (err) => reject(new Error(`剪輯影片失敗: ${err.message}`)))
-      .run();
+// 下載或串流輸出檔案，支援 HTTP Range 請求以便瀏覽器播放時跳轉
+app.get('/outputs/:id', (req: Request, res: Response): void => {
+  const outputPath = resolveOutputPath(outputDir, req.params.id);
+  if (!outputPath || activeOutputs.has(req.params.id) || !fs.existsSync(outputPath)) {
+    res.status(404).send('找不到該輸出檔案');
+    return;
+  }
+
+  // ?download=1 時以附件形式下載，否則可直接在瀏覽器中播放
+  if (req.query.download) {
+    res.attachment(req.params.id);
+  }
+  res.sendFile(outputPath, { acceptRanges: true }, (err) => {
+    if (err && !res.headersSent) {
+      res.status(500).send(`讀取輸出檔案失敗: ${err.message}`);
+    }
   });
-}
+});
+
+// 定期套用輸出檔案保留策略並清理閒置的上傳檔案
+enforceRetention(outputDir, retentionPolicy);
+uploadStore.sweep();
+setInterval(() => {
+  enforceRetention(outputDir, retentionPolicy, activeOutputs);
+  uploadStore.sweep();
+}, RETENTION_INTERVAL_MS).unref();
 
 // 啟動伺服器
 app.listen(port, () => {
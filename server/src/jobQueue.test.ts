@@ -0,0 +1,150 @@
+// @vitest-environment node
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { createJobQueue, Job, JobContext } from './jobQueue';
+
+// 可由測試控制何時完成的任務
+const deferred = () => {
+  let resolve!: (value: string) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<string>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+// 等待 then / finally 回呼執行完畢
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createJobQueue', () => {
+  it('runs at most `concurrency` jobs and starts the next one after a failure', async () => {
+    const queue = createJobQueue<string>(1);
+    const first = deferred();
+    const second = deferred();
+    const a = queue.enqueue(() => first.promise);
+    const b = queue.enqueue(() => second.promise);
+    expect(queue.get(a.id)?.status).toBe('running');
+    expect(queue.get(b.id)?.status).toBe('queued');
+
+    first.reject(new Error('FFmpeg 失敗'));
+    await settle();
+    expect(queue.get(a.id)).toMatchObject({ status: 'failed', error: 'FFmpeg 失敗' });
+    expect(queue.get(b.id)?.status).toBe('running');
+
+    second.resolve('ok');
+    await settle();
+    expect(queue.get(b.id)).toMatchObject({ status: 'completed', stage: 'done', progress: 100, result: 'ok' });
+  });
+
+  it('cancels a queued job without running it and cleans up once', async () => {
+    const queue = createJobQueue<string>(1);
+    const blocker = deferred();
+    queue.enqueue(() => blocker.promise);
+    const run = vi.fn(() => Promise.resolve('ok'));
+    const cleanup = vi.fn();
+    const queued = queue.enqueue(run, cleanup);
+
+    expect(queue.cancel(queued.id)).toBe(true);
+    expect(queue.get(queued.id)?.status).toBe('cancelled');
+    expect(queue.cancel(queued.id)).toBe(false);
+
+    blocker.resolve('done');
+    await settle();
+    expect(run).not.toHaveBeenCalled();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts a running job, marks it cancelled and cleans up once', async () => {
+    const queue = createJobQueue<string>(1);
+    const cleanup = vi.fn();
+    let signal: AbortSignal | undefined;
+    const job = queue.enqueue((ctx) => {
+      signal = ctx.signal;
+      return new Promise((_, reject) => ctx.signal.addEventListener('abort', () => reject(new Error('aborted'))));
+    }, cleanup);
+
+    expect(queue.cancel(job.id)).toBe(true);
+    await settle();
+    expect(signal?.aborted).toBe(true);
+    expect(queue.get(job.id)?.status).toBe('cancelled');
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps running when cleanup throws', async () => {
+    const queue = createJobQueue<string>(1);
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const job = queue.enqueue(() => Promise.resolve('ok'), () => {
+      throw new Error('rm failed');
+    });
+    const next = queue.enqueue(() => Promise.resolve('next'));
+    await settle();
+    expect(queue.get(job.id)?.status).toBe('completed');
+    expect(queue.get(next.id)?.status).toBe('completed');
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('publishes updates and removes subscribers when the job finishes', async () => {
+    const queue = createJobQueue<string>(1);
+    const work = deferred();
+    let context: JobContext | undefined;
+    const job = queue.enqueue((ctx) => {
+      context = ctx;
+      return work.promise;
+    });
+    const snapshots: Job<string>[] = [];
+    queue.subscribe(job.id, snapshot => snapshots.push(snapshot));
+
+    context?.update({ stage: 'cutting', stageProgress: 150, progress: 42.26 });
+    expect(snapshots[snapshots.length - 1]).toMatchObject({ stage: 'cutting', stageProgress: 100, progress: 42.3 });
+
+    work.resolve('ok');
+    await settle();
+    expect(snapshots[snapshots.length - 1].status).toBe('completed');
+    const count = snapshots.length;
+
+    // 結束後的更新不再送出
+    context?.update({ progress: 10 });
+    expect(snapshots).toHaveLength(count);
+  });
+
+  it('ignores updates after a running job is cancelled', async () => {
+    const queue = createJobQueue<string>(1);
+    const work = deferred();
+    let context: JobContext | undefined;
+    const job = queue.enqueue((ctx) => {
+      context = ctx;
+      return work.promise;
+    });
+    queue.cancel(job.id);
+    context?.update({ progress: 80 });
+    work.resolve('late');
+    await settle();
+    expect(queue.get(job.id)).toMatchObject({ status: 'cancelled', progress: 0 });
+    expect(queue.get(job.id)?.result).toBeUndefined();
+  });
+
+  it('prunes finished jobs older than retentionMs on the next enqueue', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(0);
+    const queue = createJobQueue<string>(2, 1000);
+    const old = queue.enqueue(() => Promise.resolve('old'));
+    const running = deferred();
+    const active = queue.enqueue(() => running.promise);
+    await settle();
+
+    vi.setSystemTime(500);
+    queue.enqueue(() => Promise.resolve('new'));
+    expect(queue.get(old.id)).toBeDefined();
+
+    vi.setSystemTime(2000);
+    queue.enqueue(() => Promise.resolve('newer'));
+    expect(queue.get(old.id)).toBeUndefined();
+    // 尚未結束的任務不會被清除
+    expect(queue.get(active.id)?.status).toBe('running');
+  });
+});
@@ -0,0 +1,201 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// 任務的處理階段 (由執行函數透過 update 回報)
+export type JobStage = 'queued' | 'detecting' | 'cutting' | 'normalizing' | 'done';
+
+export interface Job<TResult> {
+  id: string;
+  status: JobStatus;
+  stage: JobStage;
+  stageProgress: number; // 目前階段的進度 (0-100)
+  progress: number;      // 整體進度 (0-100)
+  error?: string;
+  result?: TResult;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  update: (patch: { stage?: JobStage; stageProgress?: number; progress?: number }) => void;
+}
+
+export type JobRunner<TResult> = (ctx: JobContext) => Promise<TResult>;
+
+interface JobEntry<TResult> {
+  job: Job<TResult>;
+  run: JobRunner<TResult>;
+  controller: AbortController;
+  cleanup?: () => void;
+}
+
+/**
+ * 判斷任務是否已結束 (完成、失敗或取消)
+ */
+export function isJobFinished(job: Job<unknown>): boolean {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+/**
+ * 建立有並行上限的任務佇列
+ * @param concurrency 同時執行的最大任務數
+ * @param retentionMs 已結束任務保留在記憶體中的時間（毫秒）
+ */
+export function createJobQueue<TResult>(concurrency: number, retentionMs = 60 * 60 * 1000) {
+  const entries = new Map<string, JobEntry<TResult>>();
+  const pending: string[] = [];
+  const events = new EventEmitter();
+  events.setMaxListeners(0);
+  let running = 0;
+
+  const emit = (entry: JobEntry<TResult>) => {
+    entry.job.updatedAt = Date.now();
+    events.emit(entry.job.id, { ...entry.job });
+  };
+
+  // 清除過期的已結束任務
+  const prune = () => {
+    const now = Date.now();
+    for (const [id, entry] of entries) {
+      if (isJobFinished(entry.job) && now - entry.job.updatedAt > retentionMs) {
+        entries.delete(id);
+      }
+    }
+  };
+
+  const finish = (entry: JobEntry<TResult>) => {
+    running--;
+    try {
+      entry.cleanup?.();
+    } catch (error) {
+      console.error(`任務 ${entry.job.id} 清理失敗:`, error);
+    }
+    emit(entry);
+    events.removeAllListeners(entry.job.id);
+    drain();
+  };
+
+  const start = (entry: JobEntry<TResult>) => {
+    running++;
+    const { job, controller } = entry;
+    job.status = 'running';
+    emit(entry);
+
+    const ctx: JobContext = {
+      signal: controller.signal,
+      update: (patch) => {
+        if (controller.signal.aborted) return;
+        if (patch.stage !== undefined) job.stage = patch.stage;
+        if (patch.stageProgress !== undefined) job.stageProgress = clampPercent(patch.stageProgress);
+        if (patch.progress !== undefined) job.progress = clampPercent(patch.progress);
+        emit(entry);
+      }
+    };
+
+    entry.run(ctx)
+      .then((result) => {
+        if (controller.signal.aborted) {
+          job.status = 'cancelled';
+          return;
+        }
+        job.status = 'completed';
+        job.stage = 'done';
+        job.stageProgress = 100;
+        job.progress = 100;
+        job.result = result;
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) {
+          job.status = 'cancelled';
+          return;
+        }
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : '未知錯誤';
+      })
+      .finally(() => finish(entry));
+  };
+
+  // 在並行上限內啟動等待中的任務
+  const drain = () => {
+    while (running < concurrency && pending.length > 0) {
+      const entry = entries.get(pending.shift()!);
+      if (entry && entry.job.status === 'queued') {
+        start(entry);
+      }
+    }
+  };
+
+  return {
+    /**
+     * 加入新任務
+     * @param run 任務執行函數
+     * @param cleanup 任務結束 (包括取消和失敗) 後執行的清理函數
+     * @returns 新任務的快照
+     */
+    enqueue(run: JobRunner<TResult>, cleanup?: () => void): Job<TResult> {
+      prune();
+      const now = Date.now();
+      const job: Job<TResult> = {
+        id: randomUUID(),
+        status: 'queued',
+        stage: 'queued',
+        stageProgress: 0,
+        progress: 0,
+        createdAt: now,
+        updatedAt: now
+      };
+      entries.set(job.id, { job, run, controller: new AbortController(), cleanup });
+      pending.push(job.id);
+      drain();
+      return { ...job };
+    },
+
+    get(id: string): Job<TResult> | undefined {
+      const entry = entries.get(id);
+      return entry ? { ...entry.job } : undefined;
+    },
+
+    /**
+     * 取消任務；等待中的任務直接移出佇列，執行中的任務會收到 abort 信號
+     * @returns 任務是否存在且尚未結束
+     */
+    cancel(id: string): boolean {
+      const entry = entries.get(id);
+      if (!entry || isJobFinished(entry.job)) return false;
+
+      if (entry.job.status === 'queued') {
+        entry.job.status = 'cancelled';
+        const index = pending.indexOf(id);
+        if (index !== -1) pending.splice(index, 1);
+        try {
+          entry.cleanup?.();
+        } catch (error) {
+          console.error(`任務 ${id} 清理失敗:`, error);
+        }
+        emit(entry);
+        events.removeAllListeners(id);
+      } else {
+        entry.controller.abort();
+      }
+      return true;
+    },
+
+    /**
+     * 訂閱任務狀態變化
+     * @returns 取消訂閱函數
+     */
+    subscribe(id: string, listener: (job: Job<TResult>) => void): () => void {
+      events.on(id, listener);
+      return () => {
+        events.off(id, listener);
+      };
+    }
+  };
+}
+
+export type JobQueue<TResult> = ReturnType<typeof createJobQueue<TResult>>;
+
+const clampPercent = (value: number) => Math.max(0, Math.min(100, Math.round(value * 10) / 10));
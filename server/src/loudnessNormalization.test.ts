@@ -0,0 +1,62 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { buildLoudnormFilter, parseLoudnormOutput } from './loudnessNormalization';
+
+const TARGET = { integrated: -16, truePeak: -1, range: 11 };
+
+// FFmpeg 6 的 loudnorm 輸出
+const FIRST_PASS = `size=N/A time=00:01:02.50 bitrate=N/A speed= 120x
+[Parsed_loudnorm_0 @ 0x55d0c8a3c2c0]
+{
+	"input_i" : "-27.61",
+	"input_tp" : "-4.47",
+	"input_lra" : "18.06",
+	"input_thresh" : "-39.20",
+	"output_i" : "-16.58",
+	"output_tp" : "-1.50",
+	"output_lra" : "14.78",
+	"output_thresh" : "-27.71",
+	"normalization_type" : "dynamic",
+	"target_offset" : "0.58"
+}
+`;
+
+describe('parseLoudnormOutput', () => {
+  it('reads the measured and output statistics', () => {
+    const stats = parseLoudnormOutput(FIRST_PASS);
+    expect(stats.input).toEqual({ integrated: -27.61, range: 18.06, truePeak: -4.47, threshold: -39.2, targetOffset: 0.58 });
+    expect(stats.output).toEqual({ integrated: -16.58, range: 14.78, truePeak: -1.5 });
+    expect(stats.normalizationType).toBe('dynamic');
+  });
+
+  it('uses the last loudnorm block and ignores other braces', () => {
+    const output = `Input #0, mov,mp4 { not json }\n${FIRST_PASS}${FIRST_PASS.replace('"dynamic"', '"linear"')}`;
+    expect(parseLoudnormOutput(output).normalizationType).toBe('linear');
+  });
+
+  it('maps -inf to -Infinity for silent input', () => {
+    const silent = FIRST_PASS.replace('"-27.61"', '"-inf"').replace('"-4.47"', '"-inf"');
+    const { input } = parseLoudnormOutput(silent);
+    expect(input.integrated).toBe(-Infinity);
+    expect(input.truePeak).toBe(-Infinity);
+  });
+
+  it('fails without statistics', () => {
+    expect(() => parseLoudnormOutput('size=N/A time=00:00:10.00')).toThrow('找不到 loudnorm 的量測結果');
+    expect(() => parseLoudnormOutput('[Parsed_loudnorm_0 @ 0x1] {\n"input_i" : "-20"\n}')).toThrow('loudnorm 輸出缺少');
+  });
+});
+
+describe('buildLoudnormFilter', () => {
+  it('builds the measuring pass', () => {
+    expect(buildLoudnormFilter(TARGET)).toBe('loudnorm=I=-16:TP=-1:LRA=11:print_format=json');
+  });
+
+  it('passes the measurement to the second pass', () => {
+    const { input } = parseLoudnormOutput(FIRST_PASS);
+    expect(buildLoudnormFilter(TARGET, input)).toBe(
+      'loudnorm=I=-16:TP=-1:LRA=11:measured_I=-27.61:measured_TP=-4.47:measured_LRA=18.06' +
+      ':measured_thresh=-39.2:offset=0.58:linear=true:print_format=json'
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import ffmpeg from 'fluent-ffmpeg';
+import path from 'path';
+import { audioEncoderOptions } from './videoCutting';
+import { bindAbortSignal, FFmpegTaskOptions, timemarkToSeconds } from './videoProcessing';
+
+// EBU R128 響度量測結果
+export interface LoudnessReport {
+  integrated: number;  // 整合響度 (LUFS)
+  range: number;       // 響度範圍 LRA (LU)
+  truePeak: number;    // 真峰值 (dBTP)
+}
+
+// loudnorm 第一次執行的量測值，第二次執行時傳回以進行線性標準化
+export interface LoudnormMeasurement extends LoudnessReport {
+  threshold: number;     // 相對閘控閾值 (LUFS)
+  targetOffset: number;  // 第二次執行時的增益修正 (LU)
+}
+
+// 標準化目標
+export interface LoudnessTarget {
+  integrated: number;  // 目標整合響度 (LUFS)
+  truePeak: number;    // 真峰值上限 (dBTP)
+  range: number;       // 目標響度範圍 (LU)，來源的 LRA 較大時 loudnorm 會改用動態標準化
+}
+
+// loudnorm 以 print_format=json 輸出的統計
+export interface LoudnormStats {
+  input: LoudnormMeasurement;
+  output: LoudnessReport;
+  normalizationType: 'linear' | 'dynamic';
+}
+
+// 標準化前後的響度，source 為剪輯後、標準化前的量測值 (靜音已移除，閘控後與原始檔案相近)
+export interface LoudnessComparison {
+  target: LoudnessTarget;
+  source: LoudnessReport;
+  output: LoudnessReport;
+  normalizationType: 'linear' | 'dynamic';
+}
+
+// loudnorm 的 JSON 數值以字串表示，靜音時為 "-inf"
+function parseStat(stats: Record<string, unknown>, key: string): number {
+  const raw = String(stats[key] ?? '').trim();
+  const value = raw === '-inf' ? -Infinity : raw === 'inf' ? Infinity : Number(raw);
+  if (raw === '' || Number.isNaN(value)) {
+    throw new Error(`loudnorm 輸出缺少 ${key}`);
+  }
+  return value;
+}
+
+/**
+ * 從 FFmpeg stderr 取出 loudnorm 的 JSON 統計 (使用最後一個 JSON 區塊)
+ * @param output FFmpeg stderr 的完整輸出
+ * @throws Error 找不到或無法解析統計
+ */
+export function parseLoudnormOutput(output: string): LoudnormStats {
+  const marker = output.lastIndexOf('[Parsed_loudnorm');
+  const start = output.indexOf('{', marker < 0 ? 0 : marker);
+  const end = output.indexOf('}', start);
+  if (start < 0 || end < 0) {
+    throw new Error('找不到 loudnorm 的量測結果');
+  }
+
+  let stats: Record<string, unknown>;
+  try {
+    stats = JSON.parse(output.slice(start, end + 1));
+  } catch {
+    throw new Error('無法解析 loudnorm 的量測結果');
+  }
+
+  return {
+    input: {
+      integrated: parseStat(stats, 'input_i'),
+      range: parseStat(stats, 'input_lra'),
+      truePeak: parseStat(stats, 'input_tp'),
+      threshold: parseStat(stats, 'input_thresh'),
+      targetOffset: parseStat(stats, 'target_offset')
+    },
+    output: {
+      integrated: parseStat(stats, 'output_i'),
+      range: parseStat(stats, 'output_lra'),
+      truePeak: parseStat(stats, 'output_tp')
+    },
+    normalizationType: stats.normalization_type === 'linear' ? 'linear' : 'dynamic'
+  };
+}
+
+/**
+ * 產生 loudnorm 濾鏡；提供第一次的量測值時為第二次執行，以量測值進行線性標準化
+ */
+export function buildLoudnormFilter(target: LoudnessTarget, measured?: LoudnormMeasurement): string {
+  const params = [`I=${target.integrated}`, `TP=${target.truePeak}`, `LRA=${target.range}`];
+  if (measured) {
+    params.push(
+      `measured_I=${measured.integrated}`,
+      `measured_TP=${measured.truePeak}`,
+      `measured_LRA=${measured.range}`,
+      `measured_thresh=${measured.threshold}`,
+      `offset=${measured.targetOffset}`,
+      'linear=true'
+    );
+  }
+  params.push('print_format=json');
+  return `loudnorm=${params.join(':')}`;
+}
+
+// 執行含 loudnorm 的 FFmpeg 命令並返回解析後的統計
+function runLoudnorm(command: ffmpeg.FfmpegCommand, duration: number, { signal, onProgress }: FFmpegTaskOptions): Promise<LoudnormStats> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(new Error('任務已取消'));
+    }
+
+    let ffmpegOutput = '';
+    command
+      .on('stderr', (stderrLine) => {
+        ffmpegOutput += stderrLine + '\n';
+      })
+      .on('progress', (progress) => {
+        if (onProgress && duration > 0) {
+          onProgress((timemarkToSeconds(progress.timemark) / duration) * 100);
+        }
+      })
+      .on('end', () => {
+        unbind();
+        try {
+          resolve(parseLoudnormOutput(ffmpegOutput));
+        } catch (error) {
+          reject(error);
+        }
+      })
+      .on('error', (err) => {
+        unbind();
+        if (signal?.aborted) {
+          return reject(new Error('任務已取消'));
+        }
+        reject(new Error(`響度標準化失敗: ${err.message}`));
+      });
+
+    const unbind = bindAbortSignal(command, signal);
+    command.run();
+  });
+}
+
+// 第一次量測在標準化進度中所佔的比例 (第二次需要重新編碼，較慢)
+const MEASURE_WEIGHT = 40;
+
+/**
+ * 以 loudnorm 兩次執行標準化響度：第一次只量測，第二次以量測值線性調整並重新編碼音訊 (影像串流直接複製)
+ * @param inputPath 剪輯後的檔案 (只含一條音軌)
+ * @param outputPath 輸出檔案，副檔名決定音訊編碼
+ * @param media 輸出的時長、是否含影像與取樣率 (loudnorm 內部升頻到 192 kHz，輸出時改回原取樣率)
+ * @returns 標準化前後的響度
+ */
+export async function normalizeLoudness(
+  inputPath: string,
+  outputPath: string,
+  target: LoudnessTarget,
+  media: { duration: number; hasVideo: boolean; sampleRate?: number },
+  { signal, onProgress }: FFmpegTaskOptions = {}
+): Promise<LoudnessComparison> {
+  const measureCommand = ffmpeg(inputPath).outputOptions([
+    '-map', '0:a:0',
+    '-af', buildLoudnormFilter(target),
+    '-f', 'null',
+    '-'
+  ]);
+  const { input } = await runLoudnorm(measureCommand, media.duration, {
+    signal,
+    onProgress: (percent) => onProgress?.(Math.min(percent, 100) * MEASURE_WEIGHT / 100)
+  });
+  if (!Number.isFinite(input.integrated)) {
+    throw new Error('輸出的音訊沒有可量測的響度 (可能全為靜音)');
+  }
+  console.log(`響度量測: ${input.integrated} LUFS, LRA ${input.range} LU, 真峰值 ${input.truePeak} dBTP`);
+
+  const outputOptions = [
+    ...(media.hasVideo ? ['-map', '0:v:0', '-c:v', 'copy'] : []),
+    '-map', '0:a:0',
+    '-af', buildLoudnormFilter(target, input),
+    '-ar', String(media.sampleRate ?? 48000),
+    ...audioEncoderOptions(outputPath, media.hasVideo)
+  ];
+  if (path.extname(outputPath).toLowerCase() === '.mp4') {
+    outputOptions.push('-movflags', '+faststart');
+  }
+  const applyCommand = ffmpeg(inputPath).outputOptions(outputOptions).output(outputPath);
+  const stats = await runLoudnorm(applyCommand, media.duration, {
+    signal,
+    onProgress: (percent) => onProgress?.(MEASURE_WEIGHT + Math.min(percent, 100) * (100 - MEASURE_WEIGHT) / 100)
+  });
+  console.log(`響度標準化完成 (${stats.normalizationType}): ${stats.output.integrated} LUFS`);
+
+  return {
+    target,
+    source: { integrated: input.integrated, range: input.range, truePeak: input.truePeak },
+    output: stats.output,
+    normalizationType: stats.normalizationType
+  };
+}
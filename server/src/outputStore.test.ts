@@ -0,0 +1,94 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { assertWithinRetention, enforceRetention, listOutputs, resolveOutputPath } from './outputStore';
+
+const HOUR = 60 * 60 * 1000;
+let outputDir: string;
+
+// 建立指定大小與修改時間 (距今毫秒數) 的輸出檔案
+const writeOutput = (id: string, size: number, ageMs: number) => {
+  const filePath = path.join(outputDir, id);
+  fs.writeFileSync(filePath, Buffer.alloc(size));
+  const time = new Date(Date.now() - ageMs);
+  fs.utimesSync(filePath, time, time);
+};
+
+const remaining = () => listOutputs(outputDir).map(file => file.id);
+
+beforeEach(() => {
+  outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wellcut-outputs-'));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  fs.rmSync(outputDir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+describe('resolveOutputPath', () => {
+  it('resolves plain file names inside the output directory', () => {
+    expect(resolveOutputPath('/data/outputs', 'processed-1.mp4')).toBe(path.join('/data/outputs', 'processed-1.mp4'));
+  });
+
+  it('rejects path traversal and unsafe names', () => {
+    for (const id of ['../secret', '..', '.hidden', 'a/b.mp4', 'a\\b.mp4', '', 'name with space.mp4']) {
+      expect(resolveOutputPath('/data/outputs', id)).toBeNull();
+    }
+  });
+});
+
+describe('listOutputs', () => {
+  it('lists files newest first and skips directories and unsafe names', () => {
+    writeOutput('old.mp4', 10, 2 * HOUR);
+    writeOutput('new.mp4', 10, 0);
+    writeOutput('.partial', 10, 0);
+    fs.mkdirSync(path.join(outputDir, 'nested'));
+    expect(remaining()).toEqual(['new.mp4', 'old.mp4']);
+  });
+});
+
+describe('enforceRetention', () => {
+  it('removes files older than maxAgeMs', () => {
+    writeOutput('old.mp4', 10, 3 * HOUR);
+    writeOutput('new.mp4', 10, 0);
+    const removed = enforceRetention(outputDir, { maxAgeMs: HOUR, maxTotalBytes: 1000 });
+    expect(removed).toEqual(['old.mp4']);
+    expect(remaining()).toEqual(['new.mp4']);
+  });
+
+  it('removes the oldest files once the total size exceeds maxTotalBytes', () => {
+    writeOutput('a.mp4', 40, 3000);
+    writeOutput('b.mp4', 40, 2000);
+    writeOutput('c.mp4', 40, 1000);
+    const removed = enforceRetention(outputDir, { maxAgeMs: HOUR, maxTotalBytes: 100 });
+    expect(removed).toEqual(['a.mp4']);
+    expect(remaining()).toEqual(['c.mp4', 'b.mp4']);
+  });
+
+  it('keeps files in use but counts them towards the total size', () => {
+    writeOutput('active.mp4', 60, 1000);
+    writeOutput('old.mp4', 60, 2000);
+    writeOutput('expired.mp4', 10, 3 * HOUR);
+    const inUse = new Set(['active.mp4', 'expired.mp4']);
+    const removed = enforceRetention(outputDir, { maxAgeMs: HOUR, maxTotalBytes: 100 }, inUse);
+    expect(removed).toEqual(['old.mp4']);
+    expect(remaining()).toEqual(['active.mp4', 'expired.mp4']);
+  });
+});
+
+describe('assertWithinRetention', () => {
+  it('accepts outputs that fit within maxTotalBytes', () => {
+    writeOutput('out.mp4', 60, 0);
+    writeOutput('out.srt', 40, 0);
+    expect(() => assertWithinRetention(outputDir, ['out.mp4', 'out.srt'], { maxAgeMs: HOUR, maxTotalBytes: 100 })).not.toThrow();
+  });
+
+  it('rejects an output larger than maxTotalBytes', () => {
+    writeOutput('out.mp4', 2 * 1024 * 1024, 0);
+    expect(() => assertWithinRetention(outputDir, ['out.mp4'], { maxAgeMs: HOUR, maxTotalBytes: 1024 * 1024 }))
+      .toThrow('輸出檔案 (2.0 MB) 超過輸出目錄容量上限 (1.0 MB)');
+  });
+});
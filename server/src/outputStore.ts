@@ -0,0 +1,94 @@
+import path from 'path';
+import fs from 'fs';
+
+export interface OutputFile {
+  id: string;
+  size: number;
+  createdAt: number;
+}
+
+export interface RetentionPolicy {
+  maxAgeMs: number;      // 超過此時間的檔案會被刪除
+  maxTotalBytes: number; // 總大小超過此值時，從最舊的檔案開始刪除
+}
+
+// 輸出檔案 ID 即檔名，只允許安全字元以避免路徑穿越
+const OUTPUT_ID_PATTERN = /^[\w][\w.-]*$/;
+
+/**
+ * 將輸出檔案 ID 解析為完整路徑，ID 不合法時返回 null
+ */
+export function resolveOutputPath(outputDir: string, id: string): string | null {
+  if (!OUTPUT_ID_PATTERN.test(id) || path.basename(id) !== id) {
+    return null;
+  }
+  return path.join(outputDir, id);
+}
+
+/**
+ * 列出輸出目錄中的檔案，由新到舊排序
+ */
+export function listOutputs(outputDir: string): OutputFile[] {
+  const files: OutputFile[] = [];
+  for (const name of fs.readdirSync(outputDir)) {
+    if (!OUTPUT_ID_PATTERN.test(name)) continue;
+    const stat = fs.statSync(path.join(outputDir, name));
+    if (stat.isFile()) {
+      files.push({ id: name, size: stat.size, createdAt: stat.mtimeMs });
+    }
+  }
+  return files.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * 確認一次剪輯產生的輸出檔案總大小不超過容量上限，
+ * 否則檔案寫入後會立即被保留策略刪除，任務卻回報完成
+ * @throws Error 超過容量上限時
+ */
+export function assertWithinRetention(outputDir: string, ids: string[], policy: RetentionPolicy): void {
+  const totalBytes = ids.reduce((total, id) => total + fs.statSync(path.join(outputDir, id)).size, 0);
+  if (totalBytes > policy.maxTotalBytes) {
+    const toMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+    throw new Error(
+      `輸出檔案 (${toMB(totalBytes)} MB) 超過輸出目錄容量上限 (${toMB(policy.maxTotalBytes)} MB)，請調高 OUTPUT_MAX_TOTAL_MB`
+    );
+  }
+}
+
+/**
+ * 根據保留策略刪除過期或超出總容量的輸出檔案
+ * @param outputDir 輸出目錄
+ * @param policy 保留策略
+ * @param inUse 正在寫入或使用中的檔案 ID，不會被刪除 (仍計入總容量)
+ * @returns 被刪除的檔案 ID
+ */
+export function enforceRetention(outputDir: string, policy: RetentionPolicy, inUse: Set<string> = new Set()): string[] {
+  const now = Date.now();
+  const removed: string[] = [];
+  let totalBytes = 0;
+
+  // 由新到舊累計大小，超過上限或過期的檔案即刪除
+  for (const file of listOutputs(outputDir)) {
+    if (inUse.has(file.id)) {
+      totalBytes += file.size;
+      continue;
+    }
+
+    const expired = now - file.createdAt > policy.maxAgeMs;
+    if (expired || totalBytes + file.size > policy.maxTotalBytes) {
+      try {
+        fs.unlinkSync(path.join(outputDir, file.id));
+        removed.push(file.id);
+      } catch (error) {
+        console.error(`刪除輸出檔案失敗: ${file.id}`, error);
+      }
+      continue;
+    }
+    totalBytes += file.size;
+  }
+
+  if (removed.length > 0) {
+    console.log(`已依保留策略刪除輸出檔案:`, removed);
+  }
+  return removed;
+}
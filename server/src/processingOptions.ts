@@ -0,0 +1,259 @@
+// 語音偵測與段落後處理參數
+export interface DetectionOptions {
+  silenceThreshold: number;   // 靜音偵測閾值 (dB)
+  minSilenceDuration: number; // 最小靜音持續時間 (秒)
+  minSpeechDuration: number;  // 短於此長度的語音段落會被捨棄 (秒)
+  preRoll: number;            // 每個語音段落之前保留的長度 (秒)
+  postRoll: number;           // 每個語音段落之後保留的長度 (秒)
+  mergeGap: number;           // 間隔短於此長度的相鄰段落會被合併 (秒)
+  audioStream: number;        // 用於偵測的音軌 (0 起算，對應 FFmpeg 的 0:a:N)
+}
+
+// 純音訊輸入可選擇的輸出格式
+export const AUDIO_OUTPUT_FORMATS = ['wav', 'mp3', 'm4a', 'flac'] as const;
+export type AudioOutputFormat = typeof AUDIO_OUTPUT_FORMATS[number];
+
+// 剪輯參數
+export interface CutOptions {
+  fadeDuration: number;       // 每個拼接點的音訊淡入淡出長度 (秒)，0 表示不淡化
+  frameAccurate: boolean;     // false 時允許以關鍵幀對齊的串流複製快速剪輯 (不重新編碼、不淡化)
+  audioStream: number;        // 輸出使用的音軌 (0 起算)
+  audioFormat?: AudioOutputFormat; // 純音訊輸入的輸出格式，未指定時依輸入副檔名決定
+  loudnessTarget?: number;    // 響度標準化的目標整合響度 (LUFS)，未指定時不標準化
+  truePeakCeiling: number;    // 響度標準化的真峰值上限 (dBTP)
+  loudnessRange: number;      // 響度標準化的目標響度範圍 (LU)
+}
+
+type Bounds<T> = Record<keyof T, { min: number; max: number; integer?: boolean }>;
+
+export const DEFAULT_DETECTION_OPTIONS: DetectionOptions = {
+  silenceThreshold: -30,
+  minSilenceDuration: 0.5,
+  minSpeechDuration: 0.1,
+  preRoll: 0,
+  postRoll: 0,
+  mergeGap: 0,
+  audioStream: 0
+};
+
+export const DEFAULT_CUT_OPTIONS: CutOptions = {
+  fadeDuration: 0.01,
+  frameAccurate: true,
+  audioStream: 0,
+  truePeakCeiling: -1,
+  loudnessRange: 11
+};
+
+// 各參數允許的範圍 (含端點)
+export const DETECTION_OPTION_BOUNDS: Bounds<DetectionOptions> = {
+  silenceThreshold: { min: -90, max: 0 },
+  minSilenceDuration: { min: 0.05, max: 30 },
+  minSpeechDuration: { min: 0, max: 30 },
+  preRoll: { min: 0, max: 5 },
+  postRoll: { min: 0, max: 5 },
+  mergeGap: { min: 0, max: 10 },
+  audioStream: { min: 0, max: 31, integer: true }
+};
+
+// 響度相關的範圍與 FFmpeg loudnorm 濾鏡一致
+export const CUT_OPTION_BOUNDS: Bounds<Pick<CutOptions,
+  'fadeDuration' | 'audioStream' | 'loudnessTarget' | 'truePeakCeiling' | 'loudnessRange'>> = {
+  fadeDuration: { min: 0, max: 0.5 },
+  audioStream: { min: 0, max: 31, integer: true },
+  loudnessTarget: { min: -70, max: -5 },
+  truePeakCeiling: { min: -9, max: 0 },
+  loudnessRange: { min: 1, max: 20 }
+};
+
+/**
+ * 請求參數驗證失敗，對應 HTTP 400
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+// 解析單一數值參數；閾值允許帶 dB 單位，例如 "-30dB"
+function parseNumberField(key: string, raw: unknown, { min, max, integer }: { min: number; max: number; integer?: boolean }): number {
+  let value: number;
+  if (typeof raw === 'number') {
+    value = raw;
+  } else if (typeof raw === 'string' && raw.trim() !== '') {
+    const text = key === 'silenceThreshold' ? raw.trim().replace(/db$/i, '') : raw.trim();
+    value = Number(text);
+  } else {
+    throw new ValidationError(`參數 ${key} 必須是數字`);
+  }
+
+  if (!Number.isFinite(value)) {
+    throw new ValidationError(`參數 ${key} 必須是數字，收到: ${String(raw)}`);
+  }
+  if (integer && !Number.isInteger(value)) {
+    throw new ValidationError(`參數 ${key} 必須是整數，收到: ${value}`);
+  }
+  if (value < min || value > max) {
+    throw new ValidationError(`參數 ${key} 必須介於 ${min} 與 ${max} 之間，收到: ${value}`);
+  }
+  return value;
+}
+
+// 解析布林參數，multipart 欄位以字串 "true"/"false"/"1"/"0" 表示
+function parseBooleanField(key: string, raw: unknown, fallback: boolean): boolean {
+  if (raw === undefined) return fallback;
+  if (typeof raw === 'boolean') return raw;
+  if (raw === 'true' || raw === '1') return true;
+  if (raw === 'false' || raw === '0') return false;
+  throw new ValidationError(`參數 ${key} 必須是 true 或 false，收到: ${String(raw)}`);
+}
+
+// 取出請求欄位：個別欄位優先，其次是 JSON 字串形式的 options 欄位
+function collectFields(body: unknown): (key: string) => unknown {
+  const fields = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  let jsonOptions: Record<string, unknown> = {};
+  if (fields.options !== undefined) {
+    let parsed: unknown = fields.options;
+    if (typeof parsed === 'string') {
+      try {
+        parsed = JSON.parse(parsed);
+      } catch {
+        throw new ValidationError('參數 options 不是有效的 JSON');
+      }
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new ValidationError('參數 options 必須是物件');
+    }
+    jsonOptions = parsed as Record<string, unknown>;
+  }
+
+  return (key) => (fields[key] !== undefined ? fields[key] : jsonOptions[key]);
+}
+
+// 依預設值與範圍解析一組數值參數
+function parseNumericOptions<T extends object>(field: (key: string) => unknown, defaults: T, bounds: Bounds<T>): T {
+  const options = { ...defaults };
+  for (const key of Object.keys(defaults) as Array<keyof T & string>) {
+    const raw = field(key);
+    if (raw !== undefined) {
+      (options[key] as number) = parseNumberField(key, raw, bounds[key]);
+    }
+  }
+  return options;
+}
+
+/**
+ * 從請求內容解析偵測參數
+ * 參數可以是個別的 multipart 欄位，也可以是 JSON 字串形式的 options 欄位；兩者同時存在時個別欄位優先。
+ * 舊版的 padding 欄位會同時設定 preRoll 與 postRoll (個別指定時以個別值為準)
+ * @param body 請求內容 (multipart 欄位或 JSON)
+ * @returns 合併預設值後的參數
+ * @throws ValidationError 參數格式錯誤或超出範圍
+ */
+export function parseDetectionOptions(body: unknown): DetectionOptions {
+  const field = collectFields(body);
+  const padding = field('padding');
+  if (padding !== undefined) {
+    const value = parseNumberField('padding', padding, DETECTION_OPTION_BOUNDS.preRoll);
+    return parseNumericOptions(field, { ...DEFAULT_DETECTION_OPTIONS, preRoll: value, postRoll: value }, DETECTION_OPTION_BOUNDS);
+  }
+  return parseNumericOptions(field, DEFAULT_DETECTION_OPTIONS, DETECTION_OPTION_BOUNDS);
+}
+
+/**
+ * 從請求內容解析剪輯參數，欄位來源規則同 parseDetectionOptions
+ * @throws ValidationError 參數格式錯誤或超出範圍
+ */
+export function parseCutOptions(body: unknown): CutOptions {
+  const field = collectFields(body);
+  const { fadeDuration, audioStream, truePeakCeiling, loudnessRange } = parseNumericOptions(
+    field,
+    {
+      fadeDuration: DEFAULT_CUT_OPTIONS.fadeDuration,
+      audioStream: DEFAULT_CUT_OPTIONS.audioStream,
+      truePeakCeiling: DEFAULT_CUT_OPTIONS.truePeakCeiling,
+      loudnessRange: DEFAULT_CUT_OPTIONS.loudnessRange
+    },
+    CUT_OPTION_BOUNDS
+  );
+  const loudnessTarget = field('loudnessTarget');
+
+  const audioFormat = field('audioFormat');
+  if (audioFormat !== undefined && !AUDIO_OUTPUT_FORMATS.includes(audioFormat as AudioOutputFormat)) {
+    throw new ValidationError(`參數 audioFormat 必須是 ${AUDIO_OUTPUT_FORMATS.join(', ')} 之一，收到: ${String(audioFormat)}`);
+  }
+
+  return {
+    fadeDuration,
+    frameAccurate: parseBooleanField('frameAccurate', field('frameAccurate'), DEFAULT_CUT_OPTIONS.frameAccurate),
+    audioStream,
+    audioFormat: audioFormat as AudioOutputFormat | undefined,
+    loudnessTarget: loudnessTarget === undefined
+      ? undefined
+      : parseNumberField('loudnessTarget', loudnessTarget, CUT_OPTION_BOUNDS.loudnessTarget),
+    truePeakCeiling,
+    loudnessRange
+  };
+}
+
+// 單次剪輯允許的最大段落數
+export const MAX_SEGMENTS = 5000;
+
+/**
+ * 驗證呼叫端提供的段落清單
+ * 段落會依開始時間排序，並限制在媒體時長之內；重疊的段落視為錯誤
+ * @param raw 請求中的 segments 欄位
+ * @param duration 媒體總時長 (秒)
+ * @returns 排序後的段落
+ * @throws ValidationError 格式錯誤、超出範圍或互相重疊
+ */
+export function parseSegments(raw: unknown, duration: number): Array<{ start: number; end: number }> {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new ValidationError('參數 segments 必須是非空陣列');
+  }
+  if (raw.length > MAX_SEGMENTS) {
+    throw new ValidationError(`段落數量不能超過 ${MAX_SEGMENTS}，收到: ${raw.length}`);
+  }
+
+  const segments = raw.map((item, index) => {
+    const { start, end } = (item ?? {}) as Record<string, unknown>;
+    if (typeof start !== 'number' || typeof end !== 'number' || !Number.isFinite(start) || !Number.isFinite(end)) {
+      throw new ValidationError(`第 ${index + 1} 個段落的 start 和 end 必須是數字`);
+    }
+    if (start < 0 || end <= start) {
+      throw new ValidationError(`第 ${index + 1} 個段落的範圍無效: ${start} - ${end}`);
+    }
+    if (start >= duration) {
+      throw new ValidationError(`第 ${index + 1} 個段落超出媒體時長 ${duration} 秒`);
+    }
+    return { start, end: Math.min(end, duration) };
+  });
+
+  segments.sort((a, b) => a.start - b.start);
+  for (let i = 1; i < segments.length; i++) {
+    if (segments[i].start < segments[i - 1].end) {
+      throw new ValidationError(`段落互相重疊: ${segments[i - 1].start} - ${segments[i - 1].end} 與 ${segments[i].start} - ${segments[i].end}`);
+    }
+  }
+  return segments;
+}
+
+/**
+ * 解析上傳表單中前端預先偵測的段落 (JSON 字串或陣列)，未提供時返回 undefined
+ * 媒體時長要在探測後才知道，此處只驗證格式，剪輯前需再以 parseSegments 限制在媒體時長之內
+ * @throws ValidationError 格式錯誤、範圍無效或段落重疊
+ */
+export function parseUploadedSegments(body: unknown): Array<{ start: number; end: number }> | undefined {
+  const raw = (body && typeof body === 'object' ? body as Record<string, unknown> : {}).segments;
+  if (raw === undefined || raw === '') return undefined;
+  let parsed = raw;
+  if (typeof raw === 'string') {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new ValidationError('參數 segments 不是有效的 JSON');
+    }
+  }
+  return parseSegments(parsed, Infinity);
+}
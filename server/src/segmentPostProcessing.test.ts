@@ -0,0 +1,50 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { postProcessSegments } from './segmentPostProcessing';
+import { postProcessSegments as previewPostProcessSegments } from '../../src/cutPreview';
+import { DETECTION_PRESETS } from '../../src/detectionOptions';
+
+const options = { minSpeechDuration: 0.2, preRoll: 0, postRoll: 0, mergeGap: 0 };
+
+describe('postProcessSegments', () => {
+  it('sorts segments and drops those not longer than minSpeechDuration', () => {
+    const speech = [{ start: 5, end: 6 }, { start: 3, end: 3.15 }, { start: 0, end: 1 }];
+    expect(postProcessSegments(speech, options, 10)).toEqual([{ start: 0, end: 1 }, { start: 5, end: 6 }]);
+  });
+
+  it('merges small gaps before filtering short segments', () => {
+    const speech = [{ start: 1, end: 1.1 }, { start: 1.2, end: 1.3 }, { start: 1.4, end: 1.5 }, { start: 4, end: 4.1 }];
+    expect(postProcessSegments(speech, { ...options, mergeGap: 0.15 }, 10)).toEqual([{ start: 1, end: 1.5 }]);
+  });
+
+  it('pads segments, merges the resulting overlaps and clamps to the media', () => {
+    const speech = [{ start: 0.1, end: 1 }, { start: 1.4, end: 2 }, { start: 9, end: 9.9 }];
+    const processed = postProcessSegments(speech, { ...options, preRoll: 0.3, postRoll: 0.2 }, 10);
+    expect(processed).toEqual([{ start: 0, end: 2.2 }, { start: 8.7, end: 10 }]);
+  });
+
+  it('does not modify the input segments', () => {
+    const speech = [{ start: 0, end: 1 }, { start: 1.1, end: 2 }];
+    postProcessSegments(speech, { ...options, mergeGap: 0.5 }, 10);
+    expect(speech).toEqual([{ start: 0, end: 1 }, { start: 1.1, end: 2 }]);
+  });
+});
+
+// 瀏覽器端的剪輯預覽 (src/cutPreview.ts) 有一份相同的實作，兩者必須得到相同的結果
+describe('postProcessSegments matches the client cut preview', () => {
+  const speechFixtures = [
+    [],
+    [{ start: 0.05, end: 1 }, { start: 1.2, end: 2 }, { start: 3, end: 3.1 }, { start: 5, end: 6 }],
+    [{ start: 1, end: 1.1 }, { start: 1.2, end: 1.3 }, { start: 1.4, end: 1.5 }, { start: 4, end: 4.1 }],
+    [{ start: 7, end: 9.95 }, { start: 0, end: 0.4 }, { start: 0.3, end: 2 }, { start: 2.6, end: 3 }],
+    [{ start: 0.2, end: 0.25 }, { start: 0.3, end: 0.32 }, { start: 9.8, end: 10 }]
+  ];
+
+  Object.entries(DETECTION_PRESETS).forEach(([name, { options: presetOptions }]) => {
+    it(`agrees with the ${name} preset`, () => {
+      speechFixtures.forEach((speech) => {
+        expect(postProcessSegments(speech, presetOptions, 10)).toEqual(previewPostProcessSegments(speech, presetOptions, 10));
+      });
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { Segment } from './videoProcessing';
+
+export interface PostProcessOptions {
+  minSpeechDuration: number; // 合併後不超過此長度的段落會被捨棄 (秒)
+  preRoll: number;  // 段落之前保留的長度 (秒)
+  postRoll: number; // 段落之後保留的長度 (秒)
+  mergeGap: number; // 原始間隔短於此長度的相鄰段落會被合併 (秒)
+}
+
+// 合併重疊或間隔小於 maxGap 的相鄰段落 (輸入需依時間排序)
+function mergeSegments(segments: Segment[], maxGap: number): Segment[] {
+  const merged: Segment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && segment.start - last.end <= maxGap) {
+      last.end = Math.max(last.end, segment.end);
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
+
+/**
+ * 語音段落後處理：介於偵測與剪輯之間
+ * 1. 合併原始間隔短於 mergeGap 的段落 (避免句中短暫停頓被剪掉)
+ * 2. 捨棄合併後不超過 minSpeechDuration 的段落；先合併再過濾，被短暫停頓切開的短音節才不會被誤刪
+ * 3. 在段落前後加上 preRoll / postRoll，保留字首的起音與句尾的呼吸
+ * 4. 合併因加長而重疊的段落，並限制在媒體時長之內
+ * @param segments 偵測到的語音段落
+ * @param options 後處理參數
+ * @param totalDuration 媒體總時長 (秒)
+ * @returns 依時間排序且互不重疊的段落
+ */
+export function postProcessSegments(segments: Segment[], options: PostProcessOptions, totalDuration: number): Segment[] {
+  const sorted = [...segments].sort((a, b) => a.start - b.start);
+  const bridged = options.mergeGap > 0 ? mergeSegments(sorted, options.mergeGap) : sorted;
+  const filtered = bridged.filter(segment => segment.end - segment.start > options.minSpeechDuration);
+
+  const padded = filtered.map(segment => ({
+    start: Math.max(0, segment.start - options.preRoll),
+    end: Math.min(totalDuration, segment.end + options.postRoll)
+  }));
+
+  return mergeSegments(padded, 0).filter(segment => segment.end > segment.start);
+}
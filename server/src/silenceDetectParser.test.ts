@@ -0,0 +1,176 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  buildSilenceTimeline,
+  invertRanges,
+  pairSilenceEvents,
+  parseSilenceDetectOutput
+} from './silenceDetectParser';
+
+// 以下為 FFmpeg 實際輸出的片段 (省略與 silencedetect 無關的大部分行)
+const HEADER = `ffmpeg version 6.1.1 Copyright (c) 2000-2023 the FFmpeg developers
+Input #0, mov,mp4,m4a,3gp,3g2,mj2, from 'lecture.mp4':
+  Duration: 00:00:30.02, start: 0.000000, bitrate: 1205 kb/s
+  Stream #0:0[0x1](und): Video: h264 (High) (avc1 / 0x31637661), yuv420p, 1280x720, 1071 kb/s, 30 fps
+  Stream #0:1[0x2](und): Audio: aac (LC) (mp4a / 0x6134706D), 48000 Hz, stereo, fltp, 128 kb/s
+Output #0, null, to 'pipe:':`;
+
+const BASIC_LOG = `${HEADER}
+[silencedetect @ 0x55d0c8a3c2c0] silence_start: 4.21
+[silencedetect @ 0x55d0c8a3c2c0] silence_end: 5.873 | silence_duration: 1.663
+[silencedetect @ 0x55d0c8a3c2c0] silence_start: 12.5
+[silencedetect @ 0x55d0c8a3c2c0] silence_end: 14 | silence_duration: 1.5
+size=N/A time=00:00:30.02 bitrate=N/A speed= 412x`;
+
+const LEADING_SILENCE_LOG = `${HEADER}
+[silencedetect @ 0x6000012a0000] silence_start: -0.00133333
+[silencedetect @ 0x6000012a0000] silence_end: 2.25 | silence_duration: 2.25133
+[silencedetect @ 0x6000012a0000] silence_start: 10
+[silencedetect @ 0x6000012a0000] silence_end: 11 | silence_duration: 1`;
+
+// 檔案以靜音結束時，最後一個 silence_start 沒有對應的 silence_end
+const TRAILING_SILENCE_LOG = `${HEADER}
+[silencedetect @ 0x7f8b4c004a40] silence_start: 3
+[silencedetect @ 0x7f8b4c004a40] silence_end: 4 | silence_duration: 1
+[silencedetect @ 0x7f8b4c004a40] silence_start: 27.6
+size=N/A time=00:00:30.02 bitrate=N/A speed= 388x`;
+
+// 兩條音軌各有一個 silencedetect 實例，輸出交錯
+const MULTI_STREAM_LOG = `${HEADER}
+[silencedetect @ 0x5600aaaa0000] silence_start: 2
+[silencedetect @ 0x5600bbbb0000] silence_start: 3
+[silencedetect @ 0x5600aaaa0000] silence_end: 6 | silence_duration: 4
+[silencedetect @ 0x5600bbbb0000] silence_end: 8 | silence_duration: 5
+[silencedetect @ 0x5600bbbb0000] silence_start: 20`;
+
+describe('parseSilenceDetectOutput', () => {
+  it('groups events by filter instance and ignores unrelated lines', () => {
+    const streams = parseSilenceDetectOutput(BASIC_LOG);
+    expect(streams).toEqual([
+      { id: '0x55d0c8a3c2c0', starts: [4.21, 12.5], ends: [5.873, 14] }
+    ]);
+  });
+
+  it('keeps instances in order of first appearance', () => {
+    const streams = parseSilenceDetectOutput(MULTI_STREAM_LOG);
+    expect(streams.map(stream => stream.id)).toEqual(['0x5600aaaa0000', '0x5600bbbb0000']);
+    expect(streams[1]).toEqual({ id: '0x5600bbbb0000', starts: [3, 20], ends: [8] });
+  });
+
+  it('accepts lines without the filter prefix and CRLF line endings', () => {
+    const streams = parseSilenceDetectOutput('silence_start: 1\r\nsilence_end: 2 | silence_duration: 1\r\n');
+    expect(streams).toEqual([{ id: 'default', starts: [1], ends: [2] }]);
+  });
+
+  it('returns nothing when there is no silence', () => {
+    expect(parseSilenceDetectOutput(HEADER)).toEqual([]);
+  });
+});
+
+describe('pairSilenceEvents', () => {
+  it('treats a leading silence_end as silence from the start of the file', () => {
+    expect(pairSilenceEvents({ id: 'a', starts: [5], ends: [1.5, 6] }, 10)).toEqual([
+      { start: 0, end: 1.5 },
+      { start: 5, end: 6 }
+    ]);
+  });
+
+  it('merges overlapping entries', () => {
+    expect(pairSilenceEvents({ id: 'a', starts: [1, 2], ends: [3, 4] }, 10)).toEqual([
+      { start: 1, end: 4 }
+    ]);
+  });
+
+  it('clamps ranges to the media duration', () => {
+    expect(pairSilenceEvents({ id: 'a', starts: [-0.02, 9.5], ends: [1, 10.4] }, 10)).toEqual([
+      { start: 0, end: 1 },
+      { start: 9.5, end: 10 }
+    ]);
+  });
+});
+
+describe('invertRanges', () => {
+  it('returns the whole duration when there are no ranges', () => {
+    expect(invertRanges([], 5)).toEqual([{ start: 0, end: 5 }]);
+  });
+
+  it('returns nothing when a range covers everything', () => {
+    expect(invertRanges([{ start: 0, end: 5 }], 5)).toEqual([]);
+  });
+});
+
+describe('buildSilenceTimeline', () => {
+  it('builds speech between silences', () => {
+    const timeline = buildSilenceTimeline(BASIC_LOG, 30.02);
+    expect(timeline.silences).toEqual([
+      { start: 4.21, end: 5.873 },
+      { start: 12.5, end: 14 }
+    ]);
+    expect(timeline.speech).toEqual([
+      { start: 0, end: 4.21 },
+      { start: 5.873, end: 12.5 },
+      { start: 14, end: 30.02 }
+    ]);
+  });
+
+  it('handles leading silence with a negative start time', () => {
+    const timeline = buildSilenceTimeline(LEADING_SILENCE_LOG, 30.02);
+    expect(timeline.silences[0]).toEqual({ start: 0, end: 2.25 });
+    expect(timeline.speech).toEqual([
+      { start: 2.25, end: 10 },
+      { start: 11, end: 30.02 }
+    ]);
+  });
+
+  it('handles trailing silence without silence_end', () => {
+    const timeline = buildSilenceTimeline(TRAILING_SILENCE_LOG, 30.02);
+    expect(timeline.silences).toEqual([
+      { start: 3, end: 4 },
+      { start: 27.6, end: 30.02 }
+    ]);
+    expect(timeline.speech).toEqual([
+      { start: 0, end: 3 },
+      { start: 4, end: 27.6 }
+    ]);
+  });
+
+  it('treats the whole file as speech when no silence is reported', () => {
+    expect(buildSilenceTimeline(HEADER, 30.02)).toEqual({
+      silences: [],
+      speech: [{ start: 0, end: 30.02 }]
+    });
+  });
+
+  it('treats the whole file as silence when silence never ends', () => {
+    const timeline = buildSilenceTimeline('[silencedetect @ 0x1] silence_start: 0', 30.02);
+    expect(timeline.silences).toEqual([{ start: 0, end: 30.02 }]);
+    expect(timeline.speech).toEqual([]);
+  });
+
+  it('only counts silence present on every audio stream by default', () => {
+    const timeline = buildSilenceTimeline(MULTI_STREAM_LOG, 30);
+    expect(timeline.silences).toEqual([{ start: 3, end: 6 }]);
+    expect(timeline.speech).toEqual([
+      { start: 0, end: 3 },
+      { start: 6, end: 30 }
+    ]);
+  });
+
+  it('can select a single audio stream', () => {
+    const timeline = buildSilenceTimeline(MULTI_STREAM_LOG, 30, { streamIndex: 1 });
+    expect(timeline.silences).toEqual([
+      { start: 3, end: 8 },
+      { start: 20, end: 30 }
+    ]);
+  });
+
+  it('produces ranges that cover the whole duration without overlap', () => {
+    const { silences, speech } = buildSilenceTimeline(TRAILING_SILENCE_LOG, 30.02);
+    const all = [...silences, ...speech].sort((a, b) => a.start - b.start);
+    expect(all[0].start).toBe(0);
+    expect(all[all.length - 1].end).toBe(30.02);
+    for (let i = 1; i < all.length; i++) {
+      expect(all[i].start).toBe(all[i - 1].end);
+    }
+  });
+});
@@ -0,0 +1,173 @@
+// FFmpeg silencedetect 輸出解析 (純函數，不依賴 FFmpeg)
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// 單一 silencedetect 濾鏡實例的事件
+export interface SilenceDetectStream {
+  id: string;                  // 濾鏡實例位址，例如 "0x55d0c8a3c2c0"；沒有前綴時為 "default"
+  starts: number[];            // silence_start 的時間 (依出現順序)
+  ends: number[];              // silence_end 的時間 (依出現順序)
+}
+
+export interface SilenceTimeline {
+  silences: TimeRange[];
+  speech: TimeRange[];
+}
+
+export interface TimelineOptions {
+  // 指定使用第幾個 silencedetect 實例 (依首次出現順序)；未指定時合併所有實例，
+  // 只有所有音軌都靜音的區間才視為靜音
+  streamIndex?: number;
+}
+
+const LINE_PATTERN = /(?:\[silencedetect @ (0x[0-9a-f]+|[^\]\s]+)\]\s*)?silence_(start|end):\s*(-?\d+(?:\.\d+)?(?:e[-+]?\d+)?)/i;
+
+/**
+ * 將 silencedetect 的輸出依濾鏡實例分組
+ * 每行最多包含一個事件，silence_end 行中的 silence_duration 會被忽略 (可由 start/end 推得)
+ * @param output FFmpeg stderr 的完整輸出
+ * @returns 依首次出現順序排列的濾鏡實例
+ */
+export function parseSilenceDetectOutput(output: string): SilenceDetectStream[] {
+  const streams = new Map<string, SilenceDetectStream>();
+
+  for (const line of output.split(/\r?\n/)) {
+    const match = line.match(LINE_PATTERN);
+    if (!match) continue;
+
+    const id = match[1] ?? 'default';
+    const value = parseFloat(match[3]);
+    if (!Number.isFinite(value)) continue;
+
+    let stream = streams.get(id);
+    if (!stream) {
+      stream = { id, starts: [], ends: [] };
+      streams.set(id, stream);
+    }
+    if (match[2].toLowerCase() === 'start') {
+      stream.starts.push(value);
+    } else {
+      stream.ends.push(value);
+    }
+  }
+
+  return [...streams.values()];
+}
+
+// 依時間排序並合併重疊或相接的區間
+function normalizeRanges(ranges: TimeRange[]): TimeRange[] {
+  const sorted = ranges
+    .filter(range => range.end > range.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: TimeRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * 將單一實例的 start/end 事件配對為靜音區間
+ * - 第一個事件是 silence_end 時，表示檔案從靜音開始 (start 視為 0)
+ * - 重疊的區間 (連續的 start 或 end) 會被合併
+ * - 最後一個 silence_start 沒有對應的 end 時，表示檔案以靜音結束 (end 視為總時長)
+ * - 開頭的負數時間 (FFmpeg 取樣對齊造成) 會被限制為 0
+ */
+export function pairSilenceEvents(stream: SilenceDetectStream, totalDuration: number): TimeRange[] {
+  const events = [
+    ...stream.starts.map(time => ({ time, type: 'start' as const })),
+    ...stream.ends.map(time => ({ time, type: 'end' as const }))
+  ].sort((a, b) => a.time - b.time || (a.type === 'end' ? -1 : 1));
+
+  const ranges: TimeRange[] = [];
+  let openStart: number | null = null;
+
+  for (const event of events) {
+    if (event.type === 'start') {
+      // 連續兩個 start 時保留較早的一個，使重疊的區間合併
+      if (openStart === null) openStart = event.time;
+    } else if (openStart !== null) {
+      ranges.push({ start: openStart, end: event.time });
+      openStart = null;
+    } else if (ranges.length === 0) {
+      ranges.push({ start: 0, end: event.time });
+    } else {
+      // 多出的 end 延長前一個區間 (重疊的區間)
+      const last = ranges[ranges.length - 1];
+      last.end = Math.max(last.end, event.time);
+    }
+  }
+  if (openStart !== null) {
+    ranges.push({ start: openStart, end: totalDuration });
+  }
+
+  return normalizeRanges(ranges.map(range => ({
+    start: Math.max(0, Math.min(range.start, totalDuration)),
+    end: Math.max(0, Math.min(range.end, totalDuration))
+  })));
+}
+
+// 求多組靜音區間的交集 (所有音軌同時靜音的區間)
+function intersectRanges(a: TimeRange[], b: TimeRange[]): TimeRange[] {
+  const result: TimeRange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const start = Math.max(a[i].start, b[j].start);
+    const end = Math.min(a[i].end, b[j].end);
+    if (end > start) result.push({ start, end });
+    if (a[i].end < b[j].end) i++; else j++;
+  }
+  return result;
+}
+
+/**
+ * 取得 [0, totalDuration] 中不屬於任何給定區間的部分
+ */
+export function invertRanges(ranges: TimeRange[], totalDuration: number): TimeRange[] {
+  const result: TimeRange[] = [];
+  let cursor = 0;
+  for (const range of normalizeRanges(ranges)) {
+    if (range.start > cursor) result.push({ start: cursor, end: range.start });
+    cursor = Math.max(cursor, range.end);
+  }
+  if (cursor < totalDuration) result.push({ start: cursor, end: totalDuration });
+  return result;
+}
+
+/**
+ * 由 silencedetect 輸出建立完整的靜音與語音時間線
+ * @param output FFmpeg stderr 的完整輸出
+ * @param totalDuration 媒體總時長 (秒)
+ * @param options 指定音軌等選項
+ * @returns 互不重疊且依時間排序的靜音與語音區間，兩者合起來覆蓋整個媒體
+ */
+export function buildSilenceTimeline(output: string, totalDuration: number, options: TimelineOptions = {}): SilenceTimeline {
+  const streams = parseSilenceDetectOutput(output);
+
+  let silences: TimeRange[];
+  if (options.streamIndex !== undefined) {
+    const stream = streams[options.streamIndex];
+    silences = stream ? pairSilenceEvents(stream, totalDuration) : [];
+  } else if (streams.length === 0) {
+    silences = [];
+  } else {
+    silences = streams
+      .map(stream => pairSilenceEvents(stream, totalDuration))
+      .reduce((acc, ranges) => intersectRanges(acc, ranges));
+  }
+
+  return {
+    silences,
+    speech: invertRanges(silences, totalDuration)
+  };
+}
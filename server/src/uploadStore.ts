@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { MediaInfo, Segment } from './videoProcessing';
+import { CaptionFormat } from './captionRetiming';
+
+// 與媒體一同上傳的字幕檔，剪輯時會重新對時
+export interface StoredCaptions {
+  path: string;
+  originalName: string;
+  format: CaptionFormat;
+}
+
+// 保留在伺服器上、供分析後再次剪輯使用的上傳檔案
+export interface StoredUpload {
+  id: string;
+  path: string;
+  originalName: string;
+  createdAt: number;
+  lastUsedAt: number;
+  media?: MediaInfo;
+  segments?: Segment[]; // 最近一次分析偵測到的段落
+  captions?: StoredCaptions;
+}
+
+/**
+ * 建立上傳檔案存放區；檔案在最後一次使用後超過 maxAgeMs 即被刪除
+ * @param uploadDir 上傳目錄
+ * @param maxAgeMs 閒置檔案保留時間（毫秒）
+ */
+export function createUploadStore(uploadDir: string, maxAgeMs: number) {
+  const uploads = new Map<string, StoredUpload>();
+  // 正在被任務使用的上傳檔案及其使用次數
+  const inUse = new Map<string, number>();
+
+  const removeFile = (filePath: string) => {
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+      console.log(`已刪除上傳檔案: ${filePath}`);
+    }
+  };
+
+  return {
+    add(filePath: string, originalName: string): StoredUpload {
+      const now = Date.now();
+      const upload: StoredUpload = { id: randomUUID(), path: filePath, originalName, createdAt: now, lastUsedAt: now };
+      uploads.set(upload.id, upload);
+      return upload;
+    },
+
+    get(id: string): StoredUpload | undefined {
+      return uploads.get(id);
+    },
+
+    /**
+     * 標記上傳檔案正在使用中，返回的函數用於結束使用
+     */
+    acquire(id: string): () => void {
+      const upload = uploads.get(id);
+      if (!upload) throw new Error('找不到該上傳檔案');
+      inUse.set(id, (inUse.get(id) ?? 0) + 1);
+      upload.lastUsedAt = Date.now();
+
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        upload.lastUsedAt = Date.now();
+        const count = (inUse.get(id) ?? 1) - 1;
+        if (count > 0) {
+          inUse.set(id, count);
+        } else {
+          inUse.delete(id);
+        }
+      };
+    },
+
+    /**
+     * 刪除上傳檔案；正在使用中時返回 false
+     */
+    remove(id: string): boolean {
+      const upload = uploads.get(id);
+      if (!upload || inUse.has(id)) return false;
+      uploads.delete(id);
+      removeFile(upload.path);
+      if (upload.captions) removeFile(upload.captions.path);
+      return true;
+    },
+
+    /**
+     * 刪除閒置過久的上傳檔案，以及不在記錄中的殘留檔案 (例如伺服器重新啟動前留下的)
+     */
+    sweep(): void {
+      const now = Date.now();
+      const known = new Set<string>();
+      for (const [id, upload] of uploads) {
+        if (!inUse.has(id) && now - upload.lastUsedAt > maxAgeMs) {
+          uploads.delete(id);
+          removeFile(upload.path);
+          if (upload.captions) removeFile(upload.captions.path);
+        } else {
+          known.add(path.basename(upload.path));
+          if (upload.captions) known.add(path.basename(upload.captions.path));
+        }
+      }
+
+      for (const name of fs.readdirSync(uploadDir)) {
+        const filePath = path.join(uploadDir, name);
+        if (known.has(name)) continue;
+        const stat = fs.statSync(filePath);
+        if (stat.isFile() && now - stat.mtimeMs > maxAgeMs) {
+          removeFile(filePath);
+        }
+      }
+    }
+  };
+}
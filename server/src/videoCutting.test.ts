@@ -0,0 +1,125 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  buildAudioSegmentFilter,
+  buildConcatList,
+  buildCutFilterGraph,
+  chooseCutStrategy,
+  chunkSegments,
+  FILTER_MAX_SEGMENTS,
+  resolveOutputExtension
+} from './videoCutting';
+
+const makeSegments = (count: number, length = 1, gap = 0.5) =>
+  Array.from({ length: count }, (_, i) => ({ start: i * (length + gap), end: i * (length + gap) + length }));
+
+const VIDEO = { duration: 4 * 60 * 60, hasVideo: true, hasAudio: true };
+const AUDIO_ONLY = { duration: 4 * 60 * 60, hasVideo: false, hasAudio: true };
+const SILENT_VIDEO = { duration: 60, hasVideo: true, hasAudio: false };
+
+describe('chooseCutStrategy', () => {
+  it('uses a single filter graph for few short segments', () => {
+    expect(chooseCutStrategy(makeSegments(10), true, VIDEO)).toBe('filter');
+  });
+
+  it('switches to chunked rendering for many segments', () => {
+    expect(chooseCutStrategy(makeSegments(FILTER_MAX_SEGMENTS + 1), true, VIDEO)).toBe('chunked');
+  });
+
+  it('switches to chunked rendering for long outputs', () => {
+    expect(chooseCutStrategy([{ start: 0, end: 3 * 60 * 60 }], true, VIDEO)).toBe('chunked');
+  });
+
+  it('uses stream copy when frame accuracy is not required', () => {
+    expect(chooseCutStrategy(makeSegments(500), false, VIDEO)).toBe('streamCopy');
+  });
+
+  it('always re-encodes audio-only inputs', () => {
+    expect(chooseCutStrategy(makeSegments(10), false, AUDIO_ONLY)).toBe('filter');
+  });
+
+  it('passes a silent video through when the whole file is kept', () => {
+    expect(chooseCutStrategy([{ start: 0, end: 60 }], true, SILENT_VIDEO)).toBe('streamCopy');
+    expect(chooseCutStrategy([{ start: 0, end: 30 }], true, SILENT_VIDEO)).toBe('filter');
+  });
+});
+
+describe('buildCutFilterGraph', () => {
+  const segments = [{ start: 0, end: 1 }, { start: 2, end: 3 }];
+
+  it('trims video and the selected audio stream', () => {
+    const { filters, maps } = buildCutFilterGraph(segments, { video: true, audioStream: 1 }, 0);
+    expect(filters).toEqual([
+      '[0:v:0]trim=start=0:end=1,setpts=PTS-STARTPTS[v0]',
+      '[0:a:1]atrim=start=0:end=1,asetpts=PTS-STARTPTS[a0]',
+      '[0:v:0]trim=start=2:end=3,setpts=PTS-STARTPTS[v1]',
+      '[0:a:1]atrim=start=2:end=3,asetpts=PTS-STARTPTS[a1]',
+      '[v0][a0][v1][a1]concat=n=2:v=1:a=1[outv][outa]'
+    ]);
+    expect(maps).toEqual(['[outv]', '[outa]']);
+  });
+
+  it('builds an audio-only graph', () => {
+    const { filters, maps } = buildCutFilterGraph(segments, { video: false, audioStream: 0 }, 0);
+    expect(filters[filters.length - 1]).toBe('[a0][a1]concat=n=2:v=0:a=1[outa]');
+    expect(maps).toEqual(['[outa]']);
+  });
+
+  it('builds a video-only graph', () => {
+    const { filters, maps } = buildCutFilterGraph(segments, { video: true, audioStream: null }, 0);
+    expect(filters[filters.length - 1]).toBe('[v0][v1]concat=n=2:v=1:a=0[outv]');
+    expect(maps).toEqual(['[outv]']);
+  });
+});
+
+describe('resolveOutputExtension', () => {
+  it('outputs mp4 for video inputs', () => {
+    expect(resolveOutputExtension({ hasVideo: true }, 'talk.mov', 'mp3')).toBe('mp4');
+  });
+
+  it('prefers the requested audio format', () => {
+    expect(resolveOutputExtension({ hasVideo: false }, 'podcast.wav', 'flac')).toBe('flac');
+  });
+
+  it('keeps supported input extensions and falls back to m4a', () => {
+    expect(resolveOutputExtension({ hasVideo: false }, 'podcast.MP3')).toBe('mp3');
+    expect(resolveOutputExtension({ hasVideo: false }, 'voice.ogg')).toBe('m4a');
+  });
+});
+
+describe('chunkSegments', () => {
+  it('limits the number of segments per chunk', () => {
+    const chunks = chunkSegments(makeSegments(95), 40, Infinity);
+    expect(chunks.map(chunk => chunk.length)).toEqual([40, 40, 15]);
+  });
+
+  it('limits the output duration per chunk', () => {
+    const chunks = chunkSegments(makeSegments(5, 4), 40, 10);
+    expect(chunks.map(chunk => chunk.length)).toEqual([2, 2, 1]);
+  });
+
+  it('keeps an oversized segment in its own chunk', () => {
+    const chunks = chunkSegments([{ start: 0, end: 100 }, { start: 101, end: 102 }], 40, 10);
+    expect(chunks).toHaveLength(2);
+  });
+});
+
+describe('buildAudioSegmentFilter', () => {
+  it('fades only at join points', () => {
+    const segment = { start: 1, end: 3 };
+    expect(buildAudioSegmentFilter(segment, 0, 3, 0.01)).toBe('atrim=start=1:end=3,asetpts=PTS-STARTPTS,afade=t=out:st=1.99:d=0.01');
+    expect(buildAudioSegmentFilter(segment, 2, 3, 0.01)).toBe('atrim=start=1:end=3,asetpts=PTS-STARTPTS,afade=t=in:st=0:d=0.01');
+  });
+
+  it('does not fade a single segment', () => {
+    expect(buildAudioSegmentFilter({ start: 0, end: 1 }, 0, 1, 0.01)).toBe('atrim=start=0:end=1,asetpts=PTS-STARTPTS');
+  });
+});
+
+describe('buildConcatList', () => {
+  it('quotes paths and writes in/out points', () => {
+    expect(buildConcatList([{ file: "/tmp/it's.mp4", inpoint: 1.5, outpoint: 2 }])).toBe(
+      "file '/tmp/it'\\''s.mp4'\ninpoint 1.5\noutpoint 2\n"
+    );
+  });
+});
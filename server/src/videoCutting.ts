@@ -0,0 +1,410 @@
+import ffmpeg from 'fluent-ffmpeg';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AUDIO_OUTPUT_FORMATS, AudioOutputFormat, CutOptions, DEFAULT_CUT_OPTIONS } from './processingOptions';
+import { bindAbortSignal, Chapter, FFmpegTaskOptions, MediaInfo, Segment, timemarkToSeconds } from './videoProcessing';
+import { buildChapterMetadata } from './captionRetiming';
+
+/**
+ * 剪輯策略
+ * - filter: 單一 complex filter 一次完成，段落少時最快
+ * - chunked: 分批以 complex filter 輸出中間檔，再以 concat demuxer 無損拼接，適合大量段落
+ * - streamCopy: 不重新編碼，直接以 concat demuxer 的 inpoint/outpoint 複製串流；切點對齊關鍵幀，無法淡化
+ */
+export type CutStrategy = 'filter' | 'chunked' | 'streamCopy';
+
+// 輸出包含的串流
+export interface OutputLayout {
+  video: boolean;
+  audioStream: number | null; // 使用的音軌 (0:a:N)，null 表示輸出沒有音訊
+  chaptersPath?: string;      // FFMETADATA 章節檔；未指定時不輸出章節 (原始檔的章節時間已不正確)
+}
+
+// 寫入章節或移除原始檔的章節；章節檔為命令的第二個輸入 (索引 1)
+function applyChapters(command: ffmpeg.FfmpegCommand, layout: OutputLayout): void {
+  if (layout.chaptersPath) {
+    command.input(layout.chaptersPath).outputOptions(['-map_chapters', '1']);
+  } else {
+    command.outputOptions(['-map_chapters', '-1']);
+  }
+}
+
+// 純音訊輸出的編碼參數
+const AUDIO_CODEC_OPTIONS: Record<AudioOutputFormat, string[]> = {
+  wav: ['-c:a', 'pcm_s16le'],
+  mp3: ['-c:a', 'libmp3lame', '-q:a', '2'],
+  m4a: ['-c:a', 'aac', '-b:a', '192k'],
+  flac: ['-c:a', 'flac']
+};
+
+/**
+ * 決定輸出副檔名：含影像的輸入輸出 mp4；純音訊輸入依指定格式或輸入副檔名，無法判斷時使用 m4a
+ */
+export function resolveOutputExtension(media: Pick<MediaInfo, 'hasVideo'>, inputName: string, audioFormat?: AudioOutputFormat): string {
+  if (media.hasVideo) return 'mp4';
+  if (audioFormat) return audioFormat;
+  const inputExtension = path.extname(inputName).slice(1).toLowerCase();
+  return AUDIO_OUTPUT_FORMATS.includes(inputExtension as AudioOutputFormat) ? inputExtension : 'm4a';
+}
+
+// 依輸出副檔名取得編碼參數
+function encoderOptions(outputPath: string, layout: OutputLayout): string[] {
+  if (layout.video) return ['-preset', 'ultrafast']; // 加快處理速度
+  const extension = path.extname(outputPath).slice(1).toLowerCase() as AudioOutputFormat;
+  return AUDIO_CODEC_OPTIONS[extension] ?? [];
+}
+
+/**
+ * 只重新編碼音訊時 (例如響度標準化) 的音訊編碼參數：影片輸出使用 AAC，純音訊輸出同 AUDIO_CODEC_OPTIONS
+ */
+export function audioEncoderOptions(outputPath: string, hasVideo: boolean): string[] {
+  if (hasVideo) return ['-c:a', 'aac', '-b:a', '192k'];
+  const extension = path.extname(outputPath).slice(1).toLowerCase() as AudioOutputFormat;
+  return AUDIO_CODEC_OPTIONS[extension] ?? [];
+}
+
+// 單一 complex filter 可處理的段落數與輸出時長上限，超過時改用分批剪輯
+export const FILTER_MAX_SEGMENTS = 40;
+export const FILTER_MAX_DURATION = 30 * 60;
+// 分批剪輯時每批的段落數與輸出時長上限
+export const CHUNK_MAX_SEGMENTS = 40;
+export const CHUNK_MAX_DURATION = 10 * 60;
+
+// 分批剪輯時，最後拼接步驟在進度中所佔的比例
+const CONCAT_WEIGHT = 5;
+
+const totalDuration = (segments: Segment[]) => segments.reduce((total, seg) => total + (seg.end - seg.start), 0);
+
+/**
+ * 根據段落數量、輸出時長、串流配置與精確度需求選擇剪輯策略
+ * - 沒有音訊且保留整個檔案時直接串流複製 (無聲影片的 passthrough)
+ * - 純音訊輸出一律重新編碼，因為輸出格式可能與來源編碼不同
+ */
+export function chooseCutStrategy(
+  segments: Segment[],
+  frameAccurate: boolean,
+  media: Pick<MediaInfo, 'duration' | 'hasVideo' | 'hasAudio'>
+): CutStrategy {
+  const keepsWholeFile = segments.length === 1 && segments[0].start <= 0 && segments[0].end >= media.duration;
+  if (media.hasVideo && !media.hasAudio && keepsWholeFile) return 'streamCopy';
+  if (!frameAccurate && media.hasVideo) return 'streamCopy';
+  if (segments.length <= FILTER_MAX_SEGMENTS && totalDuration(segments) <= FILTER_MAX_DURATION) {
+    return 'filter';
+  }
+  return 'chunked';
+}
+
+/**
+ * 將段落分批，每批的段落數與輸出時長都不超過上限 (單一段落超過時長上限時自成一批)
+ */
+export function chunkSegments(
+  segments: Segment[],
+  maxSegments = CHUNK_MAX_SEGMENTS,
+  maxDuration = CHUNK_MAX_DURATION
+): Segment[][] {
+  const chunks: Segment[][] = [];
+  let current: Segment[] = [];
+  let currentDuration = 0;
+
+  for (const segment of segments) {
+    const length = segment.end - segment.start;
+    if (current.length > 0 && (current.length >= maxSegments || currentDuration + length > maxDuration)) {
+      chunks.push(current);
+      current = [];
+      currentDuration = 0;
+    }
+    current.push(segment);
+    currentDuration += length;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * 產生單一段落的音訊濾鏡：在拼接點加上短暫的淡入淡出以消除爆音
+ * 淡化只改變音量、不改變長度，因此影音保持同步；開頭與結尾不是拼接點，不做淡化
+ * @param index 段落在整個輸出中的位置 (分批剪輯時為全域位置)
+ * @param count 整個輸出的段落總數
+ */
+export function buildAudioSegmentFilter(segment: Segment, index: number, count: number, fadeDuration: number): string {
+  const filters = [`atrim=start=${segment.start}:end=${segment.end}`, 'asetpts=PTS-STARTPTS'];
+  const length = segment.end - segment.start;
+  const fade = Math.min(fadeDuration, length / 2);
+  if (fade > 0) {
+    if (index > 0) {
+      filters.push(`afade=t=in:st=0:d=${fade}`);
+    }
+    if (index < count - 1) {
+      filters.push(`afade=t=out:st=${Math.max(0, length - fade)}:d=${fade}`);
+    }
+  }
+  return filters.join(',');
+}
+
+// concat demuxer 清單中的路徑需以單引號包住，並跳脫路徑中的單引號
+const quoteConcatPath = (filePath: string) => `'${filePath.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * 產生 concat demuxer 清單內容
+ * @param entries 檔案路徑，可選擇指定 inpoint/outpoint (秒)
+ */
+export function buildConcatList(entries: Array<{ file: string; inpoint?: number; outpoint?: number }>): string {
+  return entries.map(({ file, inpoint, outpoint }) => {
+    const lines = [`file ${quoteConcatPath(file)}`];
+    if (inpoint !== undefined) lines.push(`inpoint ${inpoint}`);
+    if (outpoint !== undefined) lines.push(`outpoint ${outpoint}`);
+    return lines.join('\n');
+  }).join('\n') + '\n';
+}
+
+// 執行 FFmpeg 命令，並依輸出時長換算進度
+function runCommand(
+  command: ffmpeg.FfmpegCommand,
+  outputDuration: number,
+  { signal, onProgress }: FFmpegTaskOptions
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(new Error('任務已取消'));
+    }
+
+    command
+      .on('progress', (progress) => {
+        if (onProgress && outputDuration > 0) {
+          onProgress((timemarkToSeconds(progress.timemark) / outputDuration) * 100);
+        }
+      })
+      .on('end', () => {
+        unbind();
+        resolve();
+      })
+      .on('error', (err) => {
+        unbind();
+        if (signal?.aborted) {
+          return reject(new Error('任務已取消'));
+        }
+        reject(new Error(`剪輯影片失敗: ${err.message}`));
+      });
+
+    const unbind = bindAbortSignal(command, signal);
+    command.run();
+  });
+}
+
+/**
+ * 產生剪輯用的 complex filter 與輸出映射
+ * @param indexOffset 分批剪輯時此批第一個段落的全域位置
+ * @param totalCount 整個輸出的段落總數
+ */
+export function buildCutFilterGraph(
+  segments: Segment[],
+  layout: OutputLayout,
+  fadeDuration: number,
+  indexOffset = 0,
+  totalCount = segments.length
+): { filters: string[]; maps: string[] } {
+  const filters: string[] = [];
+  const concatInputs: string[] = [];
+
+  // 為每個片段創建剪輯濾鏡和輸出映射
+  segments.forEach((segment, index) => {
+    if (layout.video) {
+      filters.push(`[0:v:0]trim=start=${segment.start}:end=${segment.end},setpts=PTS-STARTPTS[v${index}]`);
+      concatInputs.push(`[v${index}]`);
+    }
+    if (layout.audioStream !== null) {
+      const audioFilter = buildAudioSegmentFilter(segment, indexOffset + index, totalCount, fadeDuration);
+      filters.push(`[0:a:${layout.audioStream}]${audioFilter}[a${index}]`);
+      concatInputs.push(`[a${index}]`);
+    }
+  });
+
+  // 拼接所有片段
+  const maps: string[] = [];
+  if (layout.video) maps.push('[outv]');
+  if (layout.audioStream !== null) maps.push('[outa]');
+  const video = layout.video ? 1 : 0;
+  const audio = layout.audioStream !== null ? 1 : 0;
+  filters.push(`${concatInputs.join('')}concat=n=${segments.length}:v=${video}:a=${audio}${maps.join('')}`);
+
+  return { filters, maps };
+}
+
+// 以單一 complex filter 剪輯並拼接段落；indexOffset / totalCount 用於分批時判斷拼接點
+function cutWithFilter(
+  inputPath: string,
+  outputPath: string,
+  segments: Segment[],
+  layout: OutputLayout,
+  fadeDuration: number,
+  taskOptions: FFmpegTaskOptions,
+  indexOffset = 0,
+  totalCount = segments.length
+): Promise<void> {
+  const { filters, maps } = buildCutFilterGraph(segments, layout, fadeDuration, indexOffset, totalCount);
+
+  const command = ffmpeg(inputPath).complexFilter(filters);
+  maps.forEach(map => command.map(map));
+  applyChapters(command, layout);
+  command
+    .outputOptions(encoderOptions(outputPath, layout))
+    .output(outputPath);
+
+  // 輸出時長為所有片段時長總和，FFmpeg 回報的 percent 以輸入時長計算，因此自行換算
+  return runCommand(command, totalDuration(segments), taskOptions);
+}
+
+// 以 concat demuxer 拼接清單中的檔案 (串流複製，不重新編碼)
+// selectStreams 為 true 時依 layout 只保留對應的串流 (清單直接指向原始檔時需要)
+function concatWithDemuxer(
+  listPath: string,
+  outputPath: string,
+  outputDuration: number,
+  taskOptions: FFmpegTaskOptions,
+  layout: OutputLayout,
+  selectStreams: boolean
+): Promise<void> {
+  const mapOptions: string[] = [];
+  if (selectStreams && layout.video) mapOptions.push('-map', '0:v:0');
+  if (selectStreams && layout.audioStream !== null) mapOptions.push('-map', `0:a:${layout.audioStream}`);
+
+  const command = ffmpeg()
+    .input(listPath)
+    .inputOptions(['-f', 'concat', '-safe', '0'])
+    .outputOptions([...mapOptions, '-c', 'copy', '-avoid_negative_ts', 'make_zero'])
+    .output(outputPath);
+  applyChapters(command, layout);
+  if (path.extname(outputPath).toLowerCase() === '.mp4') {
+    command.outputOptions(['-movflags', '+faststart']);
+  }
+  return runCommand(command, outputDuration, taskOptions);
+}
+
+// 分批輸出中間檔，再無損拼接
+async function cutInChunks(
+  inputPath: string,
+  outputPath: string,
+  segments: Segment[],
+  layout: OutputLayout,
+  fadeDuration: number,
+  taskOptions: FFmpegTaskOptions
+): Promise<void> {
+  const { signal, onProgress } = taskOptions;
+  const chunks = chunkSegments(segments);
+  const outputDuration = totalDuration(segments);
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wellcut-'));
+  console.log(`分批剪輯: ${segments.length} 個段落分為 ${chunks.length} 批，暫存目錄 ${tempDir}`);
+
+  try {
+    const chunkFiles: string[] = [];
+    let indexOffset = 0;
+    let doneDuration = 0;
+
+    for (const [chunkIndex, chunk] of chunks.entries()) {
+      // 中間檔使用與輸出相同的容器與編碼，才能無損拼接
+      const chunkPath = path.join(tempDir, `chunk-${chunkIndex}${path.extname(outputPath)}`);
+      const chunkDuration = totalDuration(chunk);
+      await cutWithFilter(inputPath, chunkPath, chunk, { ...layout, chaptersPath: undefined }, fadeDuration, {
+        signal,
+        onProgress: (percent) => onProgress?.(
+          (doneDuration + chunkDuration * Math.min(percent, 100) / 100) / outputDuration * (100 - CONCAT_WEIGHT)
+        )
+      }, indexOffset, segments.length);
+
+      chunkFiles.push(chunkPath);
+      indexOffset += chunk.length;
+      doneDuration += chunkDuration;
+    }
+
+    const listPath = path.join(tempDir, 'list.txt');
+    fs.writeFileSync(listPath, buildConcatList(chunkFiles.map(file => ({ file }))));
+    await concatWithDemuxer(listPath, outputPath, outputDuration, {
+      signal,
+      onProgress: (percent) => onProgress?.(100 - CONCAT_WEIGHT + percent * CONCAT_WEIGHT / 100)
+    }, layout, false);
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+// 不重新編碼：以 inpoint/outpoint 直接從原始檔複製各段落
+async function cutWithStreamCopy(
+  inputPath: string,
+  outputPath: string,
+  segments: Segment[],
+  layout: OutputLayout,
+  taskOptions: FFmpegTaskOptions
+): Promise<void> {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wellcut-'));
+  try {
+    const listPath = path.join(tempDir, 'list.txt');
+    const absoluteInput = path.resolve(inputPath);
+    fs.writeFileSync(listPath, buildConcatList(
+      segments.map(segment => ({ file: absoluteInput, inpoint: segment.start, outpoint: segment.end }))
+    ));
+    await concatWithDemuxer(listPath, outputPath, totalDuration(segments), taskOptions, layout, true);
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * 根據時間段剪輯影片或音訊，依串流配置、段落數量與精確度需求自動選擇剪輯策略
+ * @param inputPath 原始檔案
+ * @param outputPath 輸出檔案，純音訊輸出時副檔名決定編碼 (見 resolveOutputExtension)
+ * @param segments 依時間排序的保留段落
+ * @param media 原始檔案的媒體資訊
+ * @param options 剪輯參數、輸出時間線上的章節與取消/進度回呼
+ * @returns 實際使用的剪輯策略
+ */
+export async function cutVideoBySegments(
+  inputPath: string,
+  outputPath: string,
+  segments: Segment[],
+  media: MediaInfo,
+  options: FFmpegTaskOptions & Partial<CutOptions> & { chapters?: Chapter[] } = {}
+): Promise<CutStrategy> {
+  if (segments.length === 0) {
+    throw new Error('沒有提供有效的剪輯段落');
+  }
+  if (!media.hasVideo && !media.hasAudio) {
+    throw new Error('檔案中沒有可剪輯的影像或音訊');
+  }
+
+  const fadeDuration = options.fadeDuration ?? DEFAULT_CUT_OPTIONS.fadeDuration;
+  const frameAccurate = options.frameAccurate ?? DEFAULT_CUT_OPTIONS.frameAccurate;
+  const audioStream = options.audioStream ?? DEFAULT_CUT_OPTIONS.audioStream;
+  if (media.hasAudio && audioStream >= media.audioStreams.length) {
+    throw new Error(`音軌 ${audioStream} 不存在，此檔案共有 ${media.audioStreams.length} 條音軌`);
+  }
+
+  const layout: OutputLayout = { video: media.hasVideo, audioStream: media.hasAudio ? audioStream : null };
+  const taskOptions: FFmpegTaskOptions = { signal: options.signal, onProgress: options.onProgress };
+  const strategy = chooseCutStrategy(segments, frameAccurate, media);
+  console.log(`剪輯策略: ${strategy} (${segments.length} 個段落，影像: ${layout.video}，音軌: ${layout.audioStream ?? '無'})`);
+
+  // 已對應到輸出時間的章節寫入暫存的 FFMETADATA 檔
+  const metadataDir = options.chapters?.length ? fs.mkdtempSync(path.join(os.tmpdir(), 'wellcut-')) : null;
+  try {
+    if (metadataDir && options.chapters) {
+      layout.chaptersPath = path.join(metadataDir, 'chapters.txt');
+      fs.writeFileSync(layout.chaptersPath, buildChapterMetadata(options.chapters));
+    }
+
+    switch (strategy) {
+      case 'filter':
+        await cutWithFilter(inputPath, outputPath, segments, layout, fadeDuration, taskOptions);
+        break;
+      case 'chunked':
+        await cutInChunks(inputPath, outputPath, segments, layout, fadeDuration, taskOptions);
+        break;
+      case 'streamCopy':
+        await cutWithStreamCopy(inputPath, outputPath, segments, layout, taskOptions);
+        break;
+    }
+  } finally {
+    if (metadataDir) fs.rmSync(metadataDir, { recursive: true, force: true });
+  }
+  return strategy;
+}
@@ -0,0 +1,194 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { DetectionOptions } from './processingOptions';
+import { buildSilenceTimeline } from './silenceDetectParser';
+
+export interface Segment {
+  start: number;
+  end: number;
+}
+
+// 長時間 FFmpeg 操作的共用選項
+export interface FFmpegTaskOptions {
+  signal?: AbortSignal;
+  onProgress?: (percent: number) => void;
+}
+
+/**
+ * 將 FFmpeg 的 timemark (HH:MM:SS.ms) 轉換為秒數
+ */
+export function timemarkToSeconds(timemark: string): number {
+  const parts = timemark.split(':').map(part => parseFloat(part));
+  if (parts.some(part => isNaN(part))) return 0;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+// 將 AbortSignal 連接到 FFmpeg 命令，取消時終止 FFmpeg 進程
+export function bindAbortSignal(command: ffmpeg.FfmpegCommand, signal?: AbortSignal): () => void {
+  if (!signal) return () => {};
+  const onAbort = () => command.kill('SIGKILL');
+  signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+}
+
+// 音軌資訊，index 為在所有音軌中的順序 (對應 FFmpeg 的 0:a:N)
+export interface AudioStreamInfo {
+  index: number;
+  codec?: string;
+  channels?: number;
+  sampleRate?: number;
+  language?: string;
+  title?: string;
+}
+
+// 章節標記 (秒)
+export interface Chapter {
+  start: number;
+  end?: number;
+  title: string;
+}
+
+// 媒體基本資訊 (由 ffprobe 取得)
+export interface MediaInfo {
+  duration: number;
+  formatName?: string;
+  hasVideo: boolean;
+  hasAudio: boolean;
+  width?: number;
+  height?: number;
+  fps?: number;
+  sampleRate?: number;
+  channels?: number;
+  audioStreams: AudioStreamInfo[];
+  chapters: Chapter[];
+}
+
+// 解析 ffprobe 的分數格式幀率，例如 "30000/1001"
+function parseFrameRate(rate?: string): number | undefined {
+  if (!rate) return undefined;
+  const [numerator, denominator = '1'] = rate.split('/');
+  const fps = parseFloat(numerator) / parseFloat(denominator);
+  return Number.isFinite(fps) && fps > 0 ? fps : undefined;
+}
+
+/**
+ * 使用 ffprobe 獲取媒體資訊
+ */
+export function probeMedia(inputPath: string): Promise<MediaInfo> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(inputPath, (err, metadata) => {
+      if (err) {
+        return reject(new Error(`無法獲取影片時長: ${err.message}`));
+      }
+      const totalDuration = metadata.format.duration;
+      if (totalDuration === undefined) {
+        return reject(new Error('無法確定影片總時長'));
+      }
+
+      // 音訊檔內嵌的封面圖也是 video 串流，不視為影片
+      const videoStream = metadata.streams.find(stream => stream.codec_type === 'video' && !stream.disposition?.attached_pic);
+      const audioStreams: AudioStreamInfo[] = metadata.streams
+        .filter(stream => stream.codec_type === 'audio')
+        .map((stream, index) => ({
+          index,
+          codec: stream.codec_name,
+          channels: stream.channels,
+          sampleRate: stream.sample_rate !== undefined ? Number(stream.sample_rate) : undefined,
+          language: stream.tags?.language,
+          title: stream.tags?.title
+        }));
+      const chapters: Chapter[] = (metadata.chapters ?? [])
+        .map((chapter, index) => ({
+          start: Number(chapter.start_time),
+          end: Number(chapter.end_time),
+          title: chapter['TAG:title'] ?? chapter.tags?.title ?? `第 ${index + 1} 章`
+        }))
+        .filter(chapter => Number.isFinite(chapter.start))
+        .sort((a, b) => a.start - b.start);
+      const audioStream = audioStreams[0];
+      resolve({
+        duration: totalDuration,
+        formatName: metadata.format.format_name,
+        hasVideo: videoStream !== undefined,
+        hasAudio: audioStream !== undefined,
+        width: videoStream?.width,
+        height: videoStream?.height,
+        fps: parseFrameRate(videoStream?.avg_frame_rate) ?? parseFrameRate(videoStream?.r_frame_rate),
+        sampleRate: audioStream?.sampleRate,
+        channels: audioStream?.channels,
+        audioStreams,
+        chapters
+      });
+    });
+  });
+}
+
+/**
+ * 使用 ffprobe 獲取媒體總時長（秒）
+ */
+export async function probeDuration(inputPath: string): Promise<number> {
+  return (await probeMedia(inputPath)).duration;
+}
+
+// 使用 FFmpeg silencedetect 偵測語音段落 (未經後處理的原始段落)
+export async function detectSpeechWithFFmpeg(
+  inputPath: string,
+  detection: DetectionOptions,
+  options: FFmpegTaskOptions = {}
+): Promise<Segment[]> {
+  const { signal, onProgress } = options;
+  // 先獲取媒體資訊，用於計算進度及確認音軌
+  const media = await probeMedia(inputPath);
+  const totalDuration = media.duration;
+
+  // 沒有音軌 (例如無聲的螢幕錄影) 時無法偵測，整個檔案視為一個段落
+  if (!media.hasAudio) {
+    console.warn('媒體沒有音軌，略過語音偵測');
+    onProgress?.(100);
+    return [{ start: 0, end: totalDuration }];
+  }
+  if (detection.audioStream >= media.audioStreams.length) {
+    throw new Error(`音軌 ${detection.audioStream} 不存在，此檔案共有 ${media.audioStreams.length} 條音軌`);
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(new Error('任務已取消'));
+    }
+
+    let ffmpegOutput = '';
+    const command = ffmpeg(inputPath)
+      .outputOptions([
+        '-map', `0:a:${detection.audioStream}`,
+        '-af', `silencedetect=noise=${detection.silenceThreshold}dB:d=${detection.minSilenceDuration}`,
+        '-f', 'null', // 不需要輸出文件，只關心控制台輸出
+        '-' // 輸出到 stdout/stderr
+      ])
+      .on('stderr', (stderrLine) => {
+        ffmpegOutput += stderrLine + '\n'; // 收集 FFmpeg 的輸出
+      })
+      .on('progress', (progress) => {
+        if (onProgress && totalDuration > 0) {
+          onProgress((timemarkToSeconds(progress.timemark) / totalDuration) * 100);
+        }
+      })
+      .on('error', (err) => {
+        unbind();
+        if (signal?.aborted) {
+          return reject(new Error('任務已取消'));
+        }
+        console.error('FFmpeg silencedetect 錯誤:', err.message);
+        console.error('FFmpeg 完整輸出:', ffmpegOutput);
+        reject(new Error(`FFmpeg silencedetect 失敗: ${err.message}`));
+      })
+      .on('end', () => {
+        unbind();
+        console.log('FFmpeg silencedetect 輸出:\n', ffmpegOutput);
+        // 過短的片段要等合併間隔之後才捨棄，見 postProcessSegments
+        const { speech } = buildSilenceTimeline(ffmpegOutput, totalDuration);
+        resolve(speech);
+      });
+
+    const unbind = bindAbortSignal(command, signal);
+    command.run();
+  });
+}
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { Job, watchJob } from './api';
+
+// 只模擬 watchJob 用到的部分：收到訊息、連線中斷與關閉
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  closed = false;
+
+  constructor(public url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  send(job: Job) {
+    this.onmessage?.({ data: JSON.stringify(job) });
+  }
+
+  fail() {
+    this.onerror?.();
+  }
+}
+
+const job = (patch: Partial<Job> = {}): Job => ({
+  id: 'job-1',
+  status: 'running',
+  stage: 'detecting',
+  stageProgress: 50,
+  progress: 25,
+  createdAt: 0,
+  updatedAt: 0,
+  ...patch,
+});
+
+const respond = (body: Job) => Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+const latestSource = () => FakeEventSource.instances[FakeEventSource.instances.length - 1];
+
+describe('watchJob', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('EventSource', FakeEventSource);
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    fetchMock.mockReset();
+    FakeEventSource.instances = [];
+  });
+
+  it('stops once the job finishes', () => {
+    const onUpdate = vi.fn();
+    watchJob('job-1', onUpdate, vi.fn());
+    latestSource().send(job());
+    latestSource().send(job({ status: 'completed', stage: 'done', progress: 100 }));
+
+    expect(onUpdate).toHaveBeenCalledTimes(2);
+    expect(latestSource().closed).toBe(true);
+    expect(FakeEventSource.instances).toHaveLength(1);
+  });
+
+  it('polls after the connection drops and subscribes again', async () => {
+    fetchMock.mockImplementation(() => respond(job({ progress: 60 })));
+    const onUpdate = vi.fn();
+    const onError = vi.fn();
+    watchJob('job-1', onUpdate, onError);
+
+    latestSource().fail();
+    expect(fetchMock).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(onUpdate).toHaveBeenCalledWith(expect.objectContaining({ progress: 60 }));
+    expect(FakeEventSource.instances).toHaveLength(2);
+    expect(latestSource().closed).toBe(false);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('does not subscribe again when polling finds the job finished', async () => {
+    fetchMock.mockImplementation(() => respond(job({ status: 'failed', error: 'FFmpeg 失敗' })));
+    const onUpdate = vi.fn();
+    watchJob('job-1', onUpdate, vi.fn());
+
+    latestSource().fail();
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(onUpdate).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed' }));
+    expect(FakeEventSource.instances).toHaveLength(1);
+  });
+
+  it('keeps polling through failures and gives up after repeated ones', async () => {
+    fetchMock.mockImplementation(() => Promise.resolve(new Response('找不到任務', { status: 404 })));
+    const onError = vi.fn();
+    watchJob('job-1', vi.fn(), onError);
+
+    latestSource().fail();
+    await vi.advanceTimersByTimeAsync(2000 * 4);
+    expect(onError).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].message).toContain('404');
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+
+  it('cancels a pending poll when stopped', async () => {
+    const stop = watchJob('job-1', vi.fn(), vi.fn());
+    latestSource().fail();
+    stop();
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,408 @@
+import { DetectionOptions } from './detectionOptions';
+import { EditSession, toProjectFile } from './editSession';
+import { LoudnessReport } from './loudness';
+
+// 後端伺服器位址
+export const API_BASE_URL = 'http://localhost:3000';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type JobStage = 'queued' | 'detecting' | 'cutting' | 'normalizing' | 'done';
+
+export interface Segment {
+  start: number;
+  end: number;
+}
+
+// 音軌資訊，index 對應剪輯參數中的 audioStream
+export interface AudioStreamInfo {
+  index: number;
+  codec?: string;
+  channels?: number;
+  sampleRate?: number;
+  language?: string;
+  title?: string;
+}
+
+// 章節標記 (秒)
+export interface Chapter {
+  start: number;
+  end?: number;
+  title: string;
+}
+
+// 伺服器以 ffprobe 取得的媒體資訊
+export interface MediaInfo {
+  duration: number;
+  formatName?: string;
+  hasVideo: boolean;
+  hasAudio: boolean;
+  width?: number;
+  height?: number;
+  fps?: number;
+  sampleRate?: number;
+  channels?: number;
+  audioStreams: AudioStreamInfo[];
+  chapters: Chapter[];
+}
+
+// 純音訊檔案可選擇的輸出格式 (與伺服器端一致)
+export const AUDIO_OUTPUT_FORMATS = ['wav', 'mp3', 'm4a', 'flac'] as const;
+export type AudioOutputFormat = typeof AUDIO_OUTPUT_FORMATS[number];
+
+// 伺服器響度標準化前後的量測值，source 為剪輯後、標準化前的音訊
+export interface LoudnessComparison {
+  target: { integrated: number; truePeak: number; range: number };
+  source: LoudnessReport;
+  output: LoudnessReport;
+  normalizationType: 'linear' | 'dynamic';
+}
+
+// 剪輯任務的結果
+export interface ProcessResult {
+  message: string;
+  outputId: string;
+  outputUrl: string; // 相對於伺服器的路徑，例如 /outputs/processed-123.mp4 (純音訊輸入時為音訊副檔名)
+  segments: Segment[];
+  cutStrategy: 'filter' | 'chunked' | 'streamCopy';
+  chapters: Chapter[];  // 對應到輸出時間的章節
+  captionsId?: string;  // 重新對時後的字幕檔 (上傳時附有字幕才會產生)
+  captionsUrl?: string;
+  loudness?: LoudnessComparison; // 指定 loudnessTarget 時才會產生
+}
+
+// 分析任務的結果，uploadId 用於後續的 /render 請求
+export interface AnalyzeResult {
+  message: string;
+  uploadId: string;
+  fileName: string;
+  media: MediaInfo;
+  segments: Segment[];
+}
+
+export type JobResult = ProcessResult | AnalyzeResult;
+
+export interface OutputFile {
+  id: string;
+  size: number;
+  createdAt: number;
+  url: string;
+}
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  stage: JobStage;
+  stageProgress: number;
+  progress: number;
+  error?: string;
+  result?: JobResult;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 判斷任務結果是否為分析結果
+ */
+export const isAnalyzeResult = (result: JobResult): result is AnalyzeResult => 'uploadId' in result;
+
+/**
+ * 判斷任務是否已結束
+ */
+export const isJobFinished = (job: Job): boolean =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+// 將非 2xx 回應轉換為錯誤
+const ensureOk = async (response: Response): Promise<Response> => {
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`伺服器錯誤 (${response.status}): ${errorText}`);
+  }
+  return response;
+};
+
+/**
+ * 判斷輸出檔案是否為純音訊 (影片輸出一律為 mp4)
+ */
+export const isAudioOutput = (outputId: string): boolean => !outputId.toLowerCase().endsWith('.mp4');
+
+/**
+ * 將伺服器返回的相對路徑轉換為完整網址
+ * @param path 伺服器路徑
+ * @param download 是否以附件形式下載
+ */
+export const resolveOutputUrl = (path: string, download = false): string =>
+  `${API_BASE_URL}${path}${download ? '?download=1' : ''}`;
+
+// 上傳時的附加欄位
+export interface UploadExtras {
+  audioStream?: number; // 用於偵測的音軌，未提供時使用第一條音軌
+  captions?: File;      // SRT 或 WebVTT 字幕，剪輯後會重新對時
+  segments?: Segment[]; // 在瀏覽器中預先偵測的段落，提供時伺服器略過語音偵測
+}
+
+// 建立包含偵測參數與媒體檔案的表單
+const buildUploadForm = (file: File, options?: DetectionOptions, extras: UploadExtras = {}): FormData => {
+  const formData = new FormData();
+  if (options) {
+    (Object.keys(options) as Array<keyof DetectionOptions>).forEach(key => {
+      formData.append(key, String(options[key]));
+    });
+  }
+  if (extras.audioStream !== undefined) {
+    formData.append('audioStream', String(extras.audioStream));
+  }
+  if (extras.captions) {
+    formData.append('captions', extras.captions);
+  }
+  if (extras.segments) {
+    formData.append('segments', JSON.stringify(extras.segments));
+  }
+  // 後端以 'video' 接收影片、以 'audio' 接收純音訊檔案
+  formData.append(file.type.startsWith('audio/') ? 'audio' : 'video', file);
+  return formData;
+};
+
+/**
+ * 上傳影片並建立一次完成偵測與剪輯的處理任務
+ * @param file 影片檔案
+ * @param options 偵測參數，未提供時使用伺服器預設值
+ * @param extras 音軌與字幕等附加欄位
+ * @returns 新建立的任務
+ */
+export async function uploadVideo(file: File, options?: DetectionOptions, extras?: UploadExtras): Promise<Job> {
+  const response = await ensureOk(await fetch(`${API_BASE_URL}/upload`, {
+    method: 'POST',
+    body: buildUploadForm(file, options, extras),
+  }));
+  const { job } = await response.json();
+  return job;
+}
+
+/**
+ * 上傳影片或音訊並建立只偵測語音段落的分析任務
+ * @param file 影片或音訊檔案
+ * @param options 偵測參數，未提供時使用伺服器預設值
+ * @param extras 音軌與字幕等附加欄位
+ * @returns 新建立的任務
+ */
+export async function analyzeVideo(file: File, options?: DetectionOptions, extras?: UploadExtras): Promise<Job> {
+  const response = await ensureOk(await fetch(`${API_BASE_URL}/analyze`, {
+    method: 'POST',
+    body: buildUploadForm(file, options, extras),
+  }));
+  const { job } = await response.json();
+  return job;
+}
+
+// 剪輯參數，未提供的欄位使用伺服器預設值
+export interface CutOptions {
+  fadeDuration?: number;   // 拼接點的音訊淡化長度 (秒)
+  frameAccurate?: boolean; // false 時使用關鍵幀對齊的串流複製快速模式
+  audioStream?: number;    // 輸出使用的音軌
+  audioFormat?: AudioOutputFormat; // 純音訊檔案的輸出格式，未提供時沿用原始格式
+  loudnessTarget?: number;  // 響度標準化目標 (LUFS)，未提供時不標準化
+  truePeakCeiling?: number; // 響度標準化的真峰值上限 (dBTP)
+}
+
+/**
+ * 依照指定段落剪輯先前分析過的上傳檔案
+ * @param uploadId 分析結果中的 uploadId
+ * @param segments 要保留的段落
+ * @param cutOptions 剪輯參數
+ * @returns 新建立的任務
+ */
+export async function renderSegments(uploadId: string, segments: Segment[], cutOptions: CutOptions = {}): Promise<Job> {
+  return postRender({ uploadId, segments, ...cutOptions });
+}
+
+/**
+ * 依照剪輯工作階段的保留區間剪輯來源媒體
+ * @param session 來源媒體須已上傳 (source.uploadId)
+ * @param cutOptions 剪輯參數
+ * @returns 新建立的任務
+ */
+export async function renderEditSession(session: EditSession, cutOptions: CutOptions = {}): Promise<Job> {
+  const { uploadId } = session.source;
+  if (!uploadId) {
+    throw new Error('尚未上傳此專案的來源媒體，請先選擇檔案並分析');
+  }
+  return postRender({ uploadId, session: toProjectFile(session), ...cutOptions });
+}
+
+async function postRender(body: object): Promise<Job> {
+  const response = await ensureOk(await fetch(`${API_BASE_URL}/render`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }));
+  const { job } = await response.json();
+  return job;
+}
+
+// 剪輯決定清單的匯出格式 (與伺服器端一致)
+export type EdlFormat = 'cmx3600' | 'fcpxml' | 'xmeml' | 'json';
+
+export const EDL_FORMAT_LABELS: Record<EdlFormat, string> = {
+  cmx3600: 'CMX3600 EDL',
+  fcpxml: 'Final Cut Pro (FCPXML)',
+  xmeml: 'Premiere Pro (XML)',
+  json: 'WellCut JSON',
+};
+
+/**
+ * 將段落匯出為剪輯軟體可匯入的剪輯決定清單
+ * @param uploadId 分析結果中的 uploadId
+ * @param format 匯出格式
+ * @param segments 要保留的段落，未提供時使用分析時偵測到的段落
+ * @returns 檔案內容與伺服器建議的檔名
+ */
+export async function exportEdl(
+  uploadId: string,
+  format: EdlFormat,
+  segments?: Segment[]
+): Promise<{ blob: Blob; fileName: string }> {
+  const response = await ensureOk(await fetch(
+    `${API_BASE_URL}/uploads/${encodeURIComponent(uploadId)}/export/${format}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ segments }),
+    }
+  ));
+  // 非 ASCII 檔名放在 filename* (RFC 5987)，優先使用
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const encodedName = disposition.match(/filename\*=UTF-8''([^;]+)/i)?.[1];
+  const fileName = encodedName
+    ? decodeURIComponent(encodedName)
+    : disposition.match(/filename="([^"]+)"/)?.[1] ?? `wellcut.${format}`;
+  return { blob: await response.blob(), fileName };
+}
+
+/**
+ * 釋放保留在伺服器上的上傳檔案
+ */
+export async function releaseUpload(uploadId: string): Promise<void> {
+  await ensureOk(await fetch(`${API_BASE_URL}/uploads/${encodeURIComponent(uploadId)}`, { method: 'DELETE' }));
+}
+
+/**
+ * 查詢任務狀態
+ */
+export async function fetchJob(jobId: string): Promise<Job> {
+  const response = await ensureOk(await fetch(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}`));
+  return response.json();
+}
+
+/**
+ * 取消任務
+ */
+export async function cancelJob(jobId: string): Promise<void> {
+  await ensureOk(await fetch(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}`, { method: 'DELETE' }));
+}
+
+/**
+ * 列出伺服器上已處理的輸出檔案 (由新到舊)
+ */
+export async function listOutputs(): Promise<OutputFile[]> {
+  const response = await ensureOk(await fetch(`${API_BASE_URL}/outputs`));
+  const { outputs } = await response.json();
+  return outputs;
+}
+
+/**
+ * 下載輸出檔案的內容，例如在瀏覽器中量測輸出的響度
+ * @param path 伺服器返回的 outputUrl
+ */
+export async function fetchOutput(path: string, signal?: AbortSignal): Promise<Blob> {
+  const response = await ensureOk(await fetch(resolveOutputUrl(path), { signal }));
+  return response.blob();
+}
+
+/**
+ * 透過 Server-Sent Events 訂閱任務進度
+ * @param jobId 任務 ID
+ * @param onUpdate 每次收到任務快照時呼叫
+ * @param onError 連線中斷時呼叫
+ * @returns 關閉訂閱的函數
+ */
+export function subscribeToJob(
+  jobId: string,
+  onUpdate: (job: Job) => void,
+  onError: () => void
+): () => void {
+  const source = new EventSource(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}/events`);
+
+  source.onmessage = (event) => {
+    const job: Job = JSON.parse(event.data);
+    onUpdate(job);
+    if (isJobFinished(job)) {
+      source.close();
+    }
+  };
+  source.onerror = () => {
+    // 不使用 EventSource 的自動重連，交由呼叫端決定是否重新查詢
+    source.close();
+    onError();
+  };
+
+  return () => source.close();
+}
+
+// SSE 中斷後改為定期查詢的間隔，以及放棄前容許連續查詢失敗的次數
+const JOB_POLL_INTERVAL_MS = 2000;
+const JOB_POLL_MAX_FAILURES = 5;
+
+/**
+ * 追蹤任務直到結束：以 SSE 訂閱進度，連線中斷時改為定期查詢，查詢成功後重新訂閱
+ * @param jobId 任務 ID
+ * @param onUpdate 每次取得任務快照時呼叫
+ * @param onError 連續查詢失敗 (例如任務已不存在) 而放棄追蹤時呼叫
+ * @returns 停止追蹤的函數
+ */
+export function watchJob(
+  jobId: string,
+  onUpdate: (job: Job) => void,
+  onError: (error: Error) => void
+): () => void {
+  let stopped = false;
+  let failures = 0;
+  let unsubscribe: (() => void) | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const stop = () => {
+    stopped = true;
+    unsubscribe?.();
+    if (timer !== null) clearTimeout(timer);
+  };
+  const update = (job: Job) => {
+    if (stopped) return;
+    onUpdate(job);
+    if (isJobFinished(job)) stop();
+  };
+  const subscribe = () => {
+    unsubscribe = subscribeToJob(jobId, update, () => {
+      if (!stopped) timer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+    });
+  };
+  const poll = () => {
+    timer = null;
+    fetchJob(jobId)
+      .then((job) => {
+        failures = 0;
+        update(job);
+        if (!stopped) subscribe();
+      })
+      .catch((error) => {
+        if (stopped) return;
+        if (++failures < JOB_POLL_MAX_FAILURES) {
+          timer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+          return;
+        }
+        stop();
+        onError(error instanceof Error ? error : new Error('發生未知錯誤'));
+      });
+  };
+
+  subscribe();
+  return stop;
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { computeNormalizationGain, measureLevel, scheduleFades } from './audioEffects';
+
+// 記錄排程呼叫的 AudioParam 替身
+const createRecordingParam = () => {
+  const calls: Array<[string, number, number]> = [];
+  const param = {
+    setValueAtTime: (value: number, time: number) => { calls.push(['set', value, time]); return param; },
+    linearRampToValueAtTime: (value: number, time: number) => { calls.push(['ramp', value, time]); return param; },
+  };
+  return { param: param as unknown as AudioParam, calls };
+};
+
+describe('measureLevel', () => {
+  const channels = [new Float32Array([0.5, -0.5]), new Float32Array([0.25, -1])];
+
+  it('measures the peak across all channels', () => {
+    expect(measureLevel(channels, 'peak')).toBe(1);
+  });
+
+  it('measures RMS across all channels', () => {
+    expect(measureLevel(channels, 'rms')).toBeCloseTo(Math.sqrt((0.25 + 0.25 + 0.0625 + 1) / 4));
+  });
+});
+
+describe('computeNormalizationGain', () => {
+  it('scales the peak to the target', () => {
+    const gain = computeNormalizationGain([new Float32Array([0.25, -0.5])], 'peak', -6);
+    expect(0.5 * gain).toBeCloseTo(Math.pow(10, -6 / 20));
+  });
+
+  it('limits RMS gain so the peak does not clip', () => {
+    const spiky = new Float32Array(100);
+    spiky[0] = 0.9;
+    expect(computeNormalizationGain([spiky], 'rms', -3)).toBeCloseTo(1 / 0.9);
+  });
+
+  it('leaves silence untouched', () => {
+    expect(computeNormalizationGain([new Float32Array(10)], 'peak')).toBe(1);
+  });
+});
+
+describe('scheduleFades', () => {
+  it('ramps in and out around the clip', () => {
+    const { param, calls } = createRecordingParam();
+    scheduleFades(param, 10, 1, 2, 5);
+    expect(calls).toEqual([
+      ['set', 0, 5],
+      ['ramp', 1, 6],
+      ['set', 1, 13],
+      ['ramp', 0, 15],
+    ]);
+  });
+
+  it('keeps full gain without fades', () => {
+    const { param, calls } = createRecordingParam();
+    scheduleFades(param, 10);
+    expect(calls).toEqual([['set', 1, 0]]);
+  });
+
+  it('shortens fades that are longer than the clip', () => {
+    const { param, calls } = createRecordingParam();
+    scheduleFades(param, 2, 2, 2);
+    expect(calls).toEqual([
+      ['set', 0, 0],
+      ['ramp', 1, 1],
+      ['set', 1, 1],
+      ['ramp', 0, 2],
+    ]);
+  });
+});
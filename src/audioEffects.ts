@@ -0,0 +1,144 @@
+// 音頻效果鏈：匯出 (OfflineAudioContext) 與預覽 (AudioContext) 共用同一組節點
+
+// 均衡器頻段定義
+export interface EqualizerBand {
+  frequency: number;  // 中心頻率
+  gain: number;      // 增益值（dB）
+  q: number;         // Q值（頻寬）
+}
+
+// 音量標準化方式：peak 以最大樣本值為準，rms 以平均能量為準，lufs 以 BS.1770 整合響度為準 (見 loudness.ts)
+export type NormalizeMode = 'peak' | 'rms' | 'lufs';
+
+// 以樣本直接計算的音量
+export type LevelMode = Exclude<NormalizeMode, 'lufs'>;
+
+export interface EffectOptions {
+  fadeIn?: number;            // 淡入長度（秒）
+  fadeOut?: number;           // 淡出長度（秒）
+  normalize?: boolean;
+  normalizeMode?: NormalizeMode;
+  normalizeTarget?: number;   // 標準化目標（dBFS，lufs 模式為 LUFS），未指定時使用 DEFAULT_NORMALIZE_TARGETS
+  truePeakCeiling?: number;   // 真峰值上限（dBTP），lufs 模式未指定時為 DEFAULT_TRUE_PEAK_CEILING，其他模式未指定時不限制
+  equalizerBands?: EqualizerBand[];
+}
+
+export const DEFAULT_NORMALIZE_TARGETS: Record<NormalizeMode, number> = {
+  peak: -1,
+  rms: -20,
+  lufs: -16,
+};
+
+export interface EffectChain {
+  input: AudioNode;   // 音源連接到此節點
+  output: AudioNode;  // 此節點連接到輸出
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+/**
+ * 計算所有聲道的峰值或 RMS（線性值）
+ */
+export function measureLevel(channels: Float32Array[], mode: LevelMode): number {
+  if (mode === 'peak') {
+    let peak = 0;
+    for (const data of channels) {
+      for (let i = 0; i < data.length; i++) {
+        const value = Math.abs(data[i]);
+        if (value > peak) peak = value;
+      }
+    }
+    return peak;
+  }
+
+  let sumSquared = 0;
+  let count = 0;
+  for (const data of channels) {
+    for (let i = 0; i < data.length; i++) {
+      sumSquared += data[i] * data[i];
+    }
+    count += data.length;
+  }
+  return count > 0 ? Math.sqrt(sumSquared / count) : 0;
+}
+
+/**
+ * 計算將音頻標準化到目標音量所需的增益
+ * RMS 標準化時增益會被限制在不使峰值超過 0 dBFS 的範圍內；靜音時返回 1
+ */
+export function computeNormalizationGain(
+  channels: Float32Array[],
+  mode: LevelMode = 'peak',
+  targetDb = DEFAULT_NORMALIZE_TARGETS[mode]
+): number {
+  const level = measureLevel(channels, mode);
+  if (level <= 0) return 1;
+
+  const gain = dbToGain(targetDb) / level;
+  if (mode === 'rms') {
+    const peak = measureLevel(channels, 'peak');
+    return Math.min(gain, 1 / peak);
+  }
+  return gain;
+}
+
+/**
+ * 在增益參數上排程淡入淡出；淡入與淡出總長超過片段長度時按比例縮短
+ * @param param 增益參數
+ * @param duration 片段長度（秒）
+ * @param startAt 片段在 context 時間軸上的開始時間
+ */
+export function scheduleFades(param: AudioParam, duration: number, fadeIn = 0, fadeOut = 0, startAt = 0): void {
+  const total = fadeIn + fadeOut;
+  const scale = total > duration && total > 0 ? duration / total : 1;
+  const fadeInLength = fadeIn * scale;
+  const fadeOutLength = fadeOut * scale;
+
+  param.setValueAtTime(fadeInLength > 0 ? 0 : 1, startAt);
+  if (fadeInLength > 0) {
+    param.linearRampToValueAtTime(1, startAt + fadeInLength);
+  }
+  if (fadeOutLength > 0) {
+    param.setValueAtTime(1, startAt + duration - fadeOutLength);
+    param.linearRampToValueAtTime(0, startAt + duration);
+  }
+}
+
+/**
+ * 建立效果鏈：每個均衡器頻段一個 peaking 濾波器 → 淡入淡出增益 → 標準化增益
+ * @param context 離線或即時的音頻上下文
+ * @param options 效果參數
+ * @param duration 片段長度（秒），用於排程淡出
+ * @param normalizationGain 標準化增益，需事先以 computeNormalizationGain 計算
+ * @param startAt 片段在 context 時間軸上的開始時間
+ */
+export function createEffectChain(
+  context: BaseAudioContext,
+  options: EffectOptions,
+  duration: number,
+  normalizationGain = 1,
+  startAt = 0
+): EffectChain {
+  const filters = (options.equalizerBands ?? [])
+    .filter(band => band.gain !== 0)
+    .map(band => {
+      const filter = context.createBiquadFilter();
+      filter.type = 'peaking';
+      filter.frequency.value = band.frequency;
+      filter.gain.value = band.gain;
+      filter.Q.value = band.q;
+      return filter;
+    });
+
+  const fadeGain = context.createGain();
+  scheduleFades(fadeGain.gain, duration, options.fadeIn, options.fadeOut, startAt);
+
+  const outputGain = context.createGain();
+  outputGain.gain.value = normalizationGain;
+
+  const nodes: AudioNode[] = [...filters, fadeGain, outputGain];
+  for (let i = 1; i < nodes.length; i++) {
+    nodes[i - 1].connect(nodes[i]);
+  }
+  return { input: nodes[0], output: outputGain };
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { encodeAudio, getEncoder, listEncoders, listUnsupportedFormats, PcmAudio, registerEncoder, toStereo } from './audioEncoders';
+
+// 一秒 440 Hz 正弦波
+const tone = (channelCount: number, sampleRate = 44100): PcmAudio => ({
+  sampleRate,
+  channels: Array.from({ length: channelCount }, () =>
+    Float32Array.from({ length: sampleRate }, (_, i) => 0.5 * Math.sin((2 * Math.PI * 440 * i) / sampleRate))
+  ),
+});
+
+// jsdom 的 Blob 沒有 arrayBuffer()，改用 FileReader
+const bytesOf = (blob: Blob) => new Promise<Uint8Array>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+const ascii = (bytes: Uint8Array, from: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(from, from + length));
+
+describe('toStereo', () => {
+  it('mixes extra channels into left and right', () => {
+    const [left, right] = toStereo([
+      new Float32Array([0.1]),
+      new Float32Array([0.2]),
+      new Float32Array([Math.SQRT2 * 0.1]),
+    ]);
+    expect(left[0]).toBeCloseTo(0.2);
+    expect(right[0]).toBeCloseTo(0.3);
+  });
+
+  it('keeps mono and stereo untouched', () => {
+    const mono = [new Float32Array(4)];
+    expect(toStereo(mono)).toBe(mono);
+  });
+});
+
+describe('encoder registry', () => {
+  it('rejects unknown formats', () => {
+    expect(() => getEncoder('aiff' as never)).toThrow('不支援的輸出格式');
+  });
+
+  it('lets encoders be replaced', async () => {
+    const original = getEncoder('wav');
+    registerEncoder({ ...original, encode: async () => new Blob(['x'], { type: 'audio/wav' }) });
+    try {
+      expect((await encodeAudio(tone(1), 'wav')).size).toBe(1);
+    } finally {
+      registerEncoder(original);
+    }
+  });
+
+  it('only lists encoders the environment supports', () => {
+    // jsdom 沒有 WebCodecs
+    expect(listEncoders().map(encoder => encoder.format)).not.toContain('m4a');
+    return expect(encodeAudio(tone(1), 'm4a')).rejects.toThrow('此瀏覽器不支援 M4A 編碼：需要支援 WebCodecs AudioEncoder');
+  });
+
+  it('reports unsupported formats with the reason', () => {
+    expect(listUnsupportedFormats()).toEqual([
+      { format: 'm4a', reason: '此瀏覽器不支援 M4A 編碼：需要支援 WebCodecs AudioEncoder 的瀏覽器，請改用 MP3 或 OGG' },
+    ]);
+  });
+});
+
+describe('encodeAudio', () => {
+  it('writes every channel of a WAV file', async () => {
+    const blob = await encodeAudio(tone(6, 8000), 'wav');
+    const bytes = await bytesOf(blob);
+    const view = new DataView(bytes.buffer);
+    expect(blob.type).toBe('audio/wav');
+    expect(ascii(bytes, 0, 4)).toBe('RIFF');
+    expect(view.getUint16(22, true)).toBe(6);
+    // WAVE_FORMAT_EXTENSIBLE 的 fmt 區塊為 40 位元組
+    expect(bytes.length).toBe(68 + 8000 * 6 * 2);
+  });
+
+  it('writes a FLAC stream', async () => {
+    const blob = await encodeAudio(tone(2), 'flac');
+    expect(blob.type).toBe('audio/flac');
+    expect(ascii(await bytesOf(blob), 0, 4)).toBe('fLaC');
+    expect(blob.size).toBeLessThan(44100 * 2 * 2);
+  });
+
+  it('encodes MP3 with the quality setting', async () => {
+    const low = await encodeAudio(tone(2), 'mp3', 0);
+    const high = await encodeAudio(tone(2), 'mp3', 1);
+    expect(high.type).toBe('audio/mpeg');
+    // MPEG 幀同步字
+    const bytes = await bytesOf(high);
+    expect(bytes[0]).toBe(0xff);
+    expect(bytes[1] & 0xe0).toBe(0xe0);
+    expect(high.size).toBeGreaterThan(low.size);
+  });
+
+  it('encodes Ogg Vorbis from more than two channels', async () => {
+    const blob = await encodeAudio(tone(4, 48000), 'ogg', 0.5);
+    expect(blob.type).toBe('audio/ogg');
+    expect(ascii(await bytesOf(blob), 0, 4)).toBe('OggS');
+  });
+});
@@ -0,0 +1,287 @@
+// 客戶端音頻編碼器登錄表：每種輸出格式對應一個編碼器，全部在瀏覽器內完成，不需要伺服器
+// MP3 / OGG 使用隨附的 WASM 編碼器 (LAME / libvorbis)，WAV / FLAC 以純 TypeScript 實作
+// M4A 依賴瀏覽器 WebCodecs 的 AAC 編碼器，沒有隨附的替代實作；不支援時由 unsupportedReason 告知使用者改用其他格式
+import { encodeFlac } from './flacEncoder';
+import { quantizeChannels, WavWriteOptions, writeWav } from './wavFile';
+
+export type AudioFormat = 'wav' | 'mp3' | 'ogg' | 'flac' | 'm4a';
+
+// 與 AudioBuffer 無關的 PCM 資料，方便在 Worker 或測試中使用
+export interface PcmAudio {
+  sampleRate: number;
+  channels: Float32Array[];  // 各聲道樣本，範圍 -1 ~ 1
+}
+
+// 長時間運算的進度回報 (0 ~ 100)
+export type ProgressCallback = (percent: number) => void;
+
+// 無損格式的輸出設定：WAV 使用全部設定，FLAC 使用樣本格式 (float32 以 24 位元寫入) 與 dither
+export type EncodeOptions = WavWriteOptions;
+
+export interface ClipEncoder {
+  format: AudioFormat;
+  mimeType: string;
+  extension: string;
+  // 目前環境是否能使用此編碼器 (例如瀏覽器是否支援 WebCodecs)
+  isSupported: () => boolean;
+  // 不支援時顯示給使用者的原因與建議的替代格式
+  unsupportedReason?: string;
+  /**
+   * @param quality 0 ~ 1，數值越大品質越高、檔案越大；無損格式忽略此參數
+   * @param onProgress 編碼進度，可省略不回報
+   */
+  encode: (audio: PcmAudio, quality: number, options: EncodeOptions, onProgress?: ProgressCallback) => Promise<Blob>;
+}
+
+export const DEFAULT_QUALITY = 0.8;
+
+const encoders = new Map<AudioFormat, ClipEncoder>();
+
+/**
+ * 登錄編碼器；同一格式重複登錄時以後者取代前者
+ */
+export function registerEncoder(encoder: ClipEncoder): void {
+  encoders.set(encoder.format, encoder);
+}
+
+/**
+ * 取得指定格式的編碼器，未登錄時拋出錯誤
+ */
+export function getEncoder(format: AudioFormat): ClipEncoder {
+  const encoder = encoders.get(format);
+  if (!encoder) {
+    throw new Error(`不支援的輸出格式: ${format}`);
+  }
+  return encoder;
+}
+
+/**
+ * 列出目前環境可用的編碼器
+ */
+export function listEncoders(): ClipEncoder[] {
+  return [...encoders.values()].filter(encoder => encoder.isSupported());
+}
+
+/**
+ * 列出目前環境無法使用的格式及原因，供介面提示使用者
+ */
+export function listUnsupportedFormats(): { format: AudioFormat; reason: string }[] {
+  return [...encoders.values()]
+    .filter(encoder => !encoder.isSupported())
+    .map(encoder => ({ format: encoder.format, reason: unsupportedMessage(encoder) }));
+}
+
+const unsupportedMessage = (encoder: ClipEncoder): string => {
+  const message = `此瀏覽器不支援 ${encoder.format.toUpperCase()} 編碼`;
+  return encoder.unsupportedReason ? `${message}：${encoder.unsupportedReason}` : message;
+};
+
+// 取得緩衝區的 PCM 資料
+export const pcmFromBuffer = (buffer: AudioBuffer): PcmAudio => ({
+  sampleRate: buffer.sampleRate,
+  channels: Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i)),
+});
+
+/**
+ * 以指定格式編碼音頻
+ * @param audio AudioBuffer 或 PCM 資料
+ * @param format 輸出格式
+ * @param quality 0 ~ 1 的品質設定
+ * @param options 無損格式的輸出設定
+ * @param onProgress 編碼進度 (0 ~ 100)，完成時為 100
+ * @returns 帶有正確 MIME 類型的 Blob
+ */
+export async function encodeAudio(
+  audio: AudioBuffer | PcmAudio,
+  format: AudioFormat,
+  quality = DEFAULT_QUALITY,
+  options: EncodeOptions = {},
+  onProgress?: ProgressCallback
+): Promise<Blob> {
+  const encoder = getEncoder(format);
+  if (!encoder.isSupported()) {
+    throw new Error(unsupportedMessage(encoder));
+  }
+  const pcm = 'getChannelData' in audio ? pcmFromBuffer(audio) : audio;
+  const blob = await encoder.encode(pcm, Math.max(0, Math.min(1, quality)), options, onProgress);
+  onProgress?.(100);
+  return blob;
+}
+
+/**
+ * 超過兩個聲道時混成立體聲：前兩個聲道保留，其餘聲道以 -3 dB 混入左右聲道
+ * MP3、Vorbis 與 AAC 編碼器只接受單聲道或立體聲
+ */
+export const toStereo = (channels: Float32Array[]): Float32Array[] => {
+  if (channels.length <= 2) return channels;
+  const [left, right] = channels.map(data => Float32Array.from(data));
+  const extraGain = Math.SQRT1_2;
+  for (const data of channels.slice(2)) {
+    for (let i = 0; i < data.length; i++) {
+      left[i] = Math.max(-1, Math.min(1, left[i] + data[i] * extraGain));
+      right[i] = Math.max(-1, Math.min(1, right[i] + data[i] * extraGain));
+    }
+  }
+  return [left, right];
+};
+
+// WASM 編碼器每次處理的樣本數，避免一次配置過大的記憶體
+const ENCODE_CHUNK_FRAMES = 1 << 16;
+
+const encodeWav = async ({ sampleRate, channels }: PcmAudio, _quality: number, options: EncodeOptions): Promise<Blob> =>
+  new Blob([writeWav(sampleRate, channels, options)], { type: 'audio/wav' });
+
+const encodeFlacClip = async (
+  { sampleRate, channels }: PcmAudio,
+  _quality: number,
+  options: EncodeOptions,
+  onProgress?: ProgressCallback
+): Promise<Blob> => {
+  const bits = options.sampleFormat === 'int24' || options.sampleFormat === 'float32' ? 24 : 16;
+  const samples = quantizeChannels(channels, bits, options.dither);
+  return new Blob([encodeFlac(samples, sampleRate, bits, undefined, onProgress)], { type: 'audio/flac' });
+};
+
+// LAME 支援的輸出取樣率
+const MP3_SAMPLE_RATES = [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000] as const;
+
+// 以 WASM 編碼器分段編碼並合併輸出
+const runWasmEncoder = (
+  encoder: { encode: (samples: Float32Array[]) => Uint8Array; finalize: () => Uint8Array },
+  channels: Float32Array[],
+  onProgress?: ProgressCallback
+): Uint8Array[] => {
+  const parts: Uint8Array[] = [];
+  const frameCount = channels[0]?.length ?? 0;
+  for (let offset = 0; offset < frameCount; offset += ENCODE_CHUNK_FRAMES) {
+    const end = Math.min(offset + ENCODE_CHUNK_FRAMES, frameCount);
+    // 輸出緩衝區屬於 WASM 記憶體，下次呼叫時會被覆寫，因此需要複製
+    parts.push(encoder.encode(channels.map(data => data.subarray(offset, end))).slice());
+    onProgress?.((end / frameCount) * 100);
+  }
+  parts.push(encoder.finalize().slice());
+  return parts;
+};
+
+const encodeMp3 = async (
+  { sampleRate, channels }: PcmAudio,
+  quality: number,
+  _options: EncodeOptions,
+  onProgress?: ProgressCallback
+): Promise<Blob> => {
+  const { createMp3Encoder } = await import('wasm-media-encoders');
+  const encoder = await createMp3Encoder();
+  const stereo = toStereo(channels);
+  // 不支援的取樣率重新取樣到不超過原始取樣率的最高支援值
+  const outputSampleRate = MP3_SAMPLE_RATES.includes(sampleRate as typeof MP3_SAMPLE_RATES[number])
+    ? undefined
+    : [...MP3_SAMPLE_RATES].reverse().find(rate => rate <= sampleRate) ?? MP3_SAMPLE_RATES[0];
+  encoder.configure({
+    channels: stereo.length as 1 | 2,
+    sampleRate,
+    // LAME 的 VBR 品質 0 為最佳、9.999 為最差
+    vbrQuality: (1 - quality) * 9.999,
+    outputSampleRate,
+  });
+  return new Blob(runWasmEncoder(encoder, stereo, onProgress), { type: 'audio/mpeg' });
+};
+
+const encodeOgg = async (
+  { sampleRate, channels }: PcmAudio,
+  quality: number,
+  _options: EncodeOptions,
+  onProgress?: ProgressCallback
+): Promise<Blob> => {
+  const { createOggEncoder } = await import('wasm-media-encoders');
+  const encoder = await createOggEncoder();
+  const stereo = toStereo(channels);
+  encoder.configure({
+    channels: stereo.length as 1 | 2,
+    sampleRate,
+    // Vorbis 的 VBR 品質範圍 -1 ~ 10
+    vbrQuality: quality * 11 - 1,
+  });
+  return new Blob(runWasmEncoder(encoder, stereo, onProgress), { type: 'audio/ogg' });
+};
+
+// AAC 位元率範圍 (每聲道)
+const AAC_MIN_BITRATE = 48000;
+const AAC_MAX_BITRATE = 160000;
+// 每次送入 AudioEncoder 的樣本數
+const AAC_CHUNK_FRAMES = 1 << 14;
+
+const encodeM4a = async (
+  { sampleRate, channels }: PcmAudio,
+  quality: number,
+  _options: EncodeOptions,
+  onProgress?: ProgressCallback
+): Promise<Blob> => {
+  const { Muxer, ArrayBufferTarget } = await import('mp4-muxer');
+  const stereo = toStereo(channels);
+  const numberOfChannels = stereo.length;
+  const config: AudioEncoderConfig = {
+    codec: 'mp4a.40.2',
+    sampleRate,
+    numberOfChannels,
+    bitrate: Math.round(AAC_MIN_BITRATE + (AAC_MAX_BITRATE - AAC_MIN_BITRATE) * quality) * numberOfChannels,
+  };
+  const { supported } = await AudioEncoder.isConfigSupported(config);
+  if (!supported) {
+    throw new Error(`此瀏覽器不支援 ${sampleRate} Hz 的 AAC 編碼，請改用 MP3 或 OGG`);
+  }
+
+  const target = new ArrayBufferTarget();
+  const muxer = new Muxer({
+    target,
+    audio: { codec: 'aac', numberOfChannels, sampleRate },
+    fastStart: 'in-memory',
+  });
+
+  let failure: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    error: error => { failure = error; },
+  });
+  encoder.configure(config);
+
+  const frameCount = stereo[0]?.length ?? 0;
+  for (let offset = 0; offset < frameCount; offset += AAC_CHUNK_FRAMES) {
+    const length = Math.min(AAC_CHUNK_FRAMES, frameCount - offset);
+    // f32-planar 格式：各聲道依序排列
+    const planar = new Float32Array(length * numberOfChannels);
+    stereo.forEach((data, channel) => planar.set(data.subarray(offset, offset + length), channel * length));
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate,
+      numberOfFrames: length,
+      numberOfChannels,
+      timestamp: Math.round((offset / sampleRate) * 1e6),
+      data: planar,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+    onProgress?.(((offset + length) / frameCount) * 100);
+  }
+
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+
+  muxer.finalize();
+  return new Blob([target.buffer], { type: 'audio/mp4' });
+};
+
+const always = () => true;
+
+registerEncoder({ format: 'wav', mimeType: 'audio/wav', extension: 'wav', isSupported: always, encode: encodeWav });
+registerEncoder({ format: 'flac', mimeType: 'audio/flac', extension: 'flac', isSupported: always, encode: encodeFlacClip });
+registerEncoder({ format: 'mp3', mimeType: 'audio/mpeg', extension: 'mp3', isSupported: () => typeof WebAssembly !== 'undefined', encode: encodeMp3 });
+registerEncoder({ format: 'ogg', mimeType: 'audio/ogg', extension: 'ogg', isSupported: () => typeof WebAssembly !== 'undefined', encode: encodeOgg });
+registerEncoder({
+  format: 'm4a',
+  mimeType: 'audio/mp4',
+  extension: 'm4a',
+  isSupported: () => typeof AudioEncoder !== 'undefined' && typeof AudioData !== 'undefined',
+  unsupportedReason: '需要支援 WebCodecs AudioEncoder 的瀏覽器，請改用 MP3 或 OGG',
+  encode: encodeM4a,
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { spliceSegments } from './audioProcessor';
+
+describe('audioProcessor', () => {
+  it('can be imported without Web Audio support', async () => {
+    // jsdom 沒有 AudioContext，即時音頻上下文必須延遲到預覽時才建立
+    expect(typeof window.AudioContext).toBe('undefined');
+    const module = await import('./audioProcessor');
+    expect(module.measureLoudness).toBeTypeOf('function');
+    expect(module.detectSpeechInWorker).toBeTypeOf('function');
+  });
+});
+
+describe('spliceSegments', () => {
+  // 10 Hz 取樣、每個樣本的值等於其索引，方便確認拼接位置
+  const audio = { sampleRate: 10, channels: [Float32Array.from({ length: 20 }, (_, i) => i), new Float32Array(20).fill(1)] };
+
+  it('concatenates the segments of every channel', () => {
+    const spliced = spliceSegments(audio, [{ start: 0.2, end: 0.5 }, { start: 1, end: 1.2 }]);
+    expect(spliced.sampleRate).toBe(10);
+    expect(Array.from(spliced.channels[0])).toEqual([2, 3, 4, 10, 11]);
+    expect(Array.from(spliced.channels[1])).toEqual([1, 1, 1, 1, 1]);
+  });
+
+  it('fades only at the joins and clamps segments to the audio', () => {
+    const spliced = spliceSegments(audio, [{ start: 0, end: 0.4 }, { start: 1.6, end: 3 }], 0.2);
+    // 第一段只淡出、第二段只淡入，淡化長度 2 個樣本
+    expect(Array.from(spliced.channels[1])).toEqual([1, 1, 0.5, 0, 0, 0.5, 1, 1]);
+  });
+});
@@ -1,159 +1,210 @@
+import { computeNormalizationGain, createEffectChain, DEFAULT_NORMALIZE_TARGETS, EffectOptions } from './audioEffects';
+import { Segment } from './api';
+import { AudioFormat, EncodeOptions, PcmAudio, pcmFromBuffer } from './audioEncoders';
+import {
+  AudioTaskOptions,
+  encodeAudioInWorker,
+  learnNoiseProfileInWorker,
+  measureLoudnessInWorker,
+  reduceNoiseInWorker
+} from './audioWorkerClient';
+import { EditSession, keptSegments, toOutputTime } from './editSession';
+import { DEFAULT_TRUE_PEAK_CEILING, limitToTruePeak, loudnessGainOf } from './loudness';
+import { NoiseProfile, NoiseReductionOptions } from './noiseReduction';
+
+export type { EqualizerBand, NormalizeMode } from './audioEffects';
+export type { AudioFormat } from './audioEncoders';
+export { getEncoder, listEncoders, listUnsupportedFormats } from './audioEncoders';
+export type { WavMarker, WavSampleFormat } from './wavFile';
+export { detectSpeechSegments } from './speechDetection';
+export type { ChannelMode, SpeechDetectionOptions, SpeechDetectionResult } from './speechDetection';
+export type { VoiceActivityDetector, VoiceDetectorName } from './voiceActivity';
+export type { NoiseReductionOptions } from './noiseReduction';
+export { DEFAULT_TRUE_PEAK_CEILING, LOUDNESS_TARGETS, measureLoudness } from './loudness';
+export type { LoudnessReport } from './loudness';
+export { detectSpeechInWorker, encodeAudioInWorker, measureLoudnessInWorker } from './audioWorkerClient';
+export type { AudioTaskOptions } from './audioWorkerClient';
+
 // 擴展 Window 接口以支持 webkitAudioContext
 interface Window {
   webkitAudioContext?: typeof AudioContext;
 }
 
-// 創建音頻上下文
-const audioContext = new (window.AudioContext || (window as Window).webkitAudioContext)();
+// 即時音頻上下文在第一次預覽時才建立：瀏覽器要求使用者互動後才能啟動，測試環境 (jsdom) 也沒有 Web Audio
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = (): AudioContext => {
+  audioContext ??= new (window.AudioContext || (window as Window).webkitAudioContext)();
+  return audioContext;
+};
 
-// 均衡器頻段定義
-export interface EqualizerBand {
-  frequency: number;  // 中心頻率
-  gain: number;      // 增益值（dB）
-  q: number;         // Q值（頻寬）
+/**
+ * 在瀏覽器中解碼影片或音訊檔案的音軌；多音軌的影片由瀏覽器決定使用哪一條 (通常為第一條)
+ * @throws 瀏覽器不支援該格式時拋出錯誤
+ */
+export const decodeAudioFile = async (file: Blob): Promise<AudioBuffer> =>
+  getAudioContext().decodeAudioData(await file.arrayBuffer());
+
+// 音頻處理選項；markers 以原始音頻的時間表示，匯出時換算為片段內的時間
+// signal / onProgress 用於在 Worker 中編碼時取消與回報進度
+export interface AudioProcessingOptions extends EffectOptions, EncodeOptions, NoiseReductionOptions, AudioTaskOptions {
+  quality?: number;  // 有損格式的編碼品質 0 ~ 1，預設 DEFAULT_QUALITY
 }
 
-interface SpeechDetectionResult {
-  thresholds: number[];
-  speechSegments: Array<{start: number; end: number}>;
+// 降噪完成時回報的進度；渲染 (含標準化) 完成時回報 RENDER_PROGRESS，其餘為編碼
+const NOISE_REDUCTION_PROGRESS = 15;
+const RENDER_PROGRESS = 30;
+// 降噪時學習噪音輪廓佔的進度 (輪廓已快取時略過)，其餘為逐幀處理
+const NOISE_PROFILE_SHARE = 30;
+
+// 預覽與匯出共用的效果參數
+export type PreviewOptions = EffectOptions & NoiseReductionOptions;
+
+// 同一個音頻與噪音區間的噪音輪廓只學習一次，預覽時反覆調整強度不必重新計算
+const noiseProfiles = new WeakMap<AudioBuffer, Map<string, NoiseProfile>>();
+
+const getNoiseProfile = async (
+  buffer: AudioBuffer,
+  region?: { start: number; end: number },
+  task: AudioTaskOptions = {}
+): Promise<NoiseProfile> => {
+  const key = region ? `${region.start}-${region.end}` : 'auto';
+  let profiles = noiseProfiles.get(buffer);
+  if (!profiles) {
+    profiles = new Map();
+    noiseProfiles.set(buffer, profiles);
+  }
+  let profile = profiles.get(key);
+  if (!profile) {
+    profile = await learnNoiseProfileInWorker(buffer, region ? [region] : undefined, task);
+    profiles.set(key, profile);
+  }
+  task.onProgress?.(100);
+  return profile;
+};
+
+// 將進度回報換算到 [from, to] 區間
+const scaleProgress = ({ signal, onProgress }: AudioTaskOptions, from: number, to: number): AudioTaskOptions => ({
+  signal,
+  onProgress: onProgress && (percent => onProgress(from + (percent * (to - from)) / 100)),
+});
+
+// 效果鏈的音源：開啟降噪時為降噪後的片段 (從 0 開始)，否則為原始音頻
+interface ClipSource {
+  buffer: AudioBuffer;
+  startTime: number;
+  endTime: number;
 }
 
 /**
- * 檢測語音段落
- * @param buffer 音頻緩衝區
- * @param minSilenceDuration 最小靜音持續時間（秒）
- * @param thresholdDB 語音檢測閾值（分貝）
- * @returns 語音段落和閾值信息
+ * 取得片段的音源，開啟降噪時先在 Worker 中以 STFT 處理片段
+ * @param task 取消與進度回報
  */
-export function detectSpeechSegments(
-  buffer: AudioBuffer, 
-  minSilenceDuration = 0.5,
-  thresholdDB = -50
-): SpeechDetectionResult {
-  const channelData = buffer.getChannelData(0);
-  const sampleRate = buffer.sampleRate;
-  
-  // 計算音頻的振幅閾值
-  const amplitudes = Array.from({ length: 10 }, (_, i) => i / 10);
-  
-  // 將閾值從分貝轉換為線性振幅
-  const threshold = Math.pow(10, thresholdDB / 20);
-  
-  // 使用滑動窗口進行檢測
-  const windowSize = Math.round(sampleRate * 0.05);
-  const segments: Array<{start: number; end: number}> = [];
-  
-  let inSilence = false;
-  let silenceStart = 0;
-  let consecutiveSilenceFrames = 0;
-  let consecutiveNonSilenceFrames = 0;
-  
-  // 使用RMS值計算窗口內的平均能量
-  for (let i = 0; i < channelData.length; i += windowSize) {
-    const end = Math.min(i + windowSize, channelData.length);
-    let sumSquared = 0;
-    
-    for (let j = i; j < end; j++) {
-      sumSquared += channelData[j] * channelData[j];
-    }
-    
-    const rms = Math.sqrt(sumSquared / (end - i));
-    
-    if (rms < threshold) {
-      consecutiveSilenceFrames++;
-      consecutiveNonSilenceFrames = 0;
-      
-      if (!inSilence && consecutiveSilenceFrames >= 2) {
-        silenceStart = (i - windowSize) / sampleRate;
-        inSilence = true;
-      }
-    } else {
-      consecutiveNonSilenceFrames++;
-      
-      if (inSilence && consecutiveNonSilenceFrames >= 2) {
-        const silenceEnd = i / sampleRate;
-        if (silenceEnd - silenceStart >= minSilenceDuration) {
-          segments.push({ start: silenceStart, end: silenceEnd });
-        }
-        inSilence = false;
-        consecutiveSilenceFrames = 0;
-      }
-    }
+const prepareClipSource = async (
+  startTime: number,
+  endTime: number,
+  originalBuffer: AudioBuffer,
+  options: NoiseReductionOptions,
+  task: AudioTaskOptions = {}
+): Promise<ClipSource> => {
+  const strength = options.noiseReduction ?? 0;
+  if (strength <= 0) {
+    task.onProgress?.(100);
+    return { buffer: originalBuffer, startTime, endTime };
   }
 
-  if (inSilence) {
-    const silenceEnd = channelData.length / sampleRate;
-    if (silenceEnd - silenceStart >= minSilenceDuration) {
-      segments.push({ start: silenceStart, end: silenceEnd });
-    }
-  }
+  const profile = await getNoiseProfile(originalBuffer, options.noiseProfileRegion, scaleProgress(task, 0, NOISE_PROFILE_SHARE));
+  const { sampleRate, numberOfChannels } = originalBuffer;
+  const first = Math.max(0, Math.floor(startTime * sampleRate));
+  const last = Math.min(originalBuffer.length, Math.ceil(endTime * sampleRate));
+  const cleaned = await reduceNoiseInWorker({
+    sampleRate,
+    channels: Array.from({ length: numberOfChannels }, (_, i) => originalBuffer.getChannelData(i).subarray(first, last)),
+  }, profile, Math.min(1, strength), scaleProgress(task, NOISE_PROFILE_SHARE, 100));
 
-  return {
-    thresholds: amplitudes,
-    speechSegments: segments
-  };
-}
+  const buffer = new AudioBuffer({ length: Math.max(1, last - first), numberOfChannels, sampleRate });
+  cleaned.channels.forEach((data, channel) => buffer.copyToChannel(data, channel));
+  return { buffer, startTime: startTime - first / sampleRate, endTime: endTime - first / sampleRate };
+};
 
 /**
- * 將AudioBuffer轉換為WAV格式的ArrayBuffer
- * @param buffer 音頻緩衝區
- * @returns WAV格式的ArrayBuffer
+ * 以離線上下文渲染片段並套用效果鏈
+ * @param normalizationGain 標準化增益，未知時傳入 1
  */
-const audioBufferToWav = (buffer: AudioBuffer): ArrayBuffer => {
-  const numOfChannels = buffer.numberOfChannels;
-  const length = buffer.length * numOfChannels * 2 + 44;
-  const sampleRate = buffer.sampleRate;
-  const arrayBuffer = new ArrayBuffer(length);
-  const view = new DataView(arrayBuffer);
-  
-  // 寫入WAV文件頭
-  writeString(view, 0, 'RIFF');
-  view.setUint32(4, length - 8, true);
-  writeString(view, 8, 'WAVE');
-  writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true);
-  view.setUint16(22, numOfChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * numOfChannels * 2, true);
-  view.setUint16(32, numOfChannels * 2, true);
-  view.setUint16(34, 16, true);
-  writeString(view, 36, 'data');
-  view.setUint32(40, length - 44, true);
-  
-  // 寫入音頻數據
-  if (numOfChannels === 1) {
-    const data = buffer.getChannelData(0);
-    let offset = 44;
-    for (let i = 0; i < data.length; i++, offset += 2) {
-      const sample = Math.max(-1, Math.min(1, data[i]));
-      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
-    }
-  } else {
-    const dataL = buffer.getChannelData(0);
-    const dataR = buffer.getChannelData(1);
-    let offset = 44;
-    for (let i = 0; i < dataL.length; i++) {
-      const sampleL = Math.max(-1, Math.min(1, dataL[i]));
-      view.setInt16(offset, sampleL < 0 ? sampleL * 0x8000 : sampleL * 0x7FFF, true);
-      offset += 2;
-      
-      const sampleR = Math.max(-1, Math.min(1, dataR[i]));
-      view.setInt16(offset, sampleR < 0 ? sampleR * 0x8000 : sampleR * 0x7FFF, true);
-      offset += 2;
-    }
-  }
-  
-  return arrayBuffer;
+const renderWithEffects = async (
+  startTime: number,
+  endTime: number,
+  originalBuffer: AudioBuffer,
+  options: EffectOptions,
+  normalizationGain: number
+): Promise<AudioBuffer> => {
+  const duration = endTime - startTime;
+  const context = new OfflineAudioContext(
+    originalBuffer.numberOfChannels,
+    Math.ceil(duration * originalBuffer.sampleRate),
+    originalBuffer.sampleRate
+  );
+
+  const source = context.createBufferSource();
+  source.buffer = originalBuffer;
+
+  const chain = createEffectChain(context, options, duration, normalizationGain);
+  source.connect(chain.input);
+  chain.output.connect(context.destination);
+
+  source.start(0, startTime, duration);
+  return context.startRendering();
 };
 
+// 取得緩衝區所有聲道的資料
+const channelsOf = (buffer: AudioBuffer): Float32Array[] =>
+  Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+
 /**
- * 將字符串寫入DataView
+ * 依標準化方式計算渲染結果所需的增益
+ * lufs 模式以整合響度為準並限制真峰值 (預設 DEFAULT_TRUE_PEAK_CEILING)；其他模式只在指定 truePeakCeiling 時限制
+ * 響度與真峰值 (K 加權、超取樣) 在 Worker 中量測
+ * @param task 取消與進度回報
  */
-const writeString = (view: DataView, offset: number, string: string): void => {
-  for (let i = 0; i < string.length; i++) {
-    view.setUint8(offset + i, string.charCodeAt(i));
+const normalizationGainOf = async (
+  rendered: AudioBuffer,
+  options: EffectOptions,
+  task: AudioTaskOptions = {}
+): Promise<number> => {
+  const mode = options.normalizeMode ?? 'peak';
+  if (mode === 'lufs') {
+    return loudnessGainOf(
+      await measureLoudnessInWorker(rendered, task),
+      options.normalizeTarget ?? DEFAULT_NORMALIZE_TARGETS.lufs,
+      options.truePeakCeiling ?? DEFAULT_TRUE_PEAK_CEILING
+    );
+  }
+
+  const gain = computeNormalizationGain(channelsOf(rendered), mode, options.normalizeTarget);
+  if (options.truePeakCeiling === undefined) {
+    task.onProgress?.(100);
+    return gain;
   }
+  const { truePeak } = await measureLoudnessInWorker(rendered, task);
+  return limitToTruePeak(gain, truePeak, options.truePeakCeiling);
+};
+
+/**
+ * 計算片段經過等化與淡化後，標準化到目標音量所需的增益
+ * 未開啟標準化時返回 1
+ * @param task 取消與進度回報
+ */
+export const measureNormalizationGain = async (
+  startTime: number,
+  endTime: number,
+  originalBuffer: AudioBuffer,
+  options: PreviewOptions,
+  task: AudioTaskOptions = {}
+): Promise<number> => {
+  if (!options.normalize) return 1;
+  const clip = await prepareClipSource(startTime, endTime, originalBuffer, options, scaleProgress(task, 0, 50));
+  const rendered = await renderWithEffects(clip.startTime, clip.endTime, clip.buffer, options, 1);
+  return normalizationGainOf(rendered, options, scaleProgress(task, 50, 100));
 };
 
 /**
@@ -161,49 +212,179 @@ const writeString = (view: DataView, offset: number, string: string): void => {
  * @param startTime 裁剪開始時間（秒）
  * @param endTime 裁剪結束時間（秒）
  * @param originalBuffer 原始音頻緩衝區
- * @param format 導出格式 ('wav', 'mp3', 'ogg', 'flac', 'm4a')
+ * @param format 導出格式 ('wav', 'mp3', 'ogg', 'flac', 'm4a')，由 audioEncoders 中登錄的編碼器處理
  * @param options 額外處理選項
- * @returns 裁剪後的音頻Blob
+ * @returns 裁剪後的音頻Blob，MIME 類型與格式相符
  */
 export const processAudioClip = async (
   startTime: number, 
   endTime: number, 
   originalBuffer: AudioBuffer,
-  format: string = 'wav',
-  options: {
-    fadeIn?: number,
-    fadeOut?: number,
-    noiseReduction?: number,
-    normalize?: boolean,
-    normalizeTarget?: number,
-    quality?: number,
-    equalizerBands?: EqualizerBand[]
-  } = {}
+  format: AudioFormat = 'wav',
+  options: AudioProcessingOptions = {}
 ): Promise<Blob> => {
   try {
-    const context = new OfflineAudioContext(
-      originalBuffer.numberOfChannels,
-      Math.ceil((endTime - startTime) * originalBuffer.sampleRate),
-      originalBuffer.sampleRate
-    );
+    const clip = await prepareClipSource(startTime, endTime, originalBuffer, options, scaleProgress(options, 0, NOISE_REDUCTION_PROGRESS));
+    let renderedBuffer = await renderWithEffects(clip.startTime, clip.endTime, clip.buffer, options, 1);
 
-    const source = context.createBufferSource();
-    source.buffer = originalBuffer;
-    
-    const gainNode = context.createGain();
-    gainNode.gain.setValueAtTime(1.0, 0);
-    
-    source.connect(gainNode);
-    gainNode.connect(context.destination);
-    
-    source.start(0, startTime, endTime - startTime);
-    
-    const renderedBuffer = await context.startRendering();
-    
-    // 應用效果處理...
+    // 標準化需要先知道效果處理後的音量 (或響度)，因此以計算出的增益再渲染一次
+    if (options.normalize) {
+      const gain = await normalizationGainOf(renderedBuffer, options, scaleProgress(options, NOISE_REDUCTION_PROGRESS, RENDER_PROGRESS));
+      renderedBuffer = await renderWithEffects(clip.startTime, clip.endTime, clip.buffer, options, gain);
+    }
     
-    return new Blob([audioBufferToWav(renderedBuffer)], { type: 'audio/wav' });
+    // 標記換算為片段內的時間，片段外的標記捨棄，跨越邊界的區段截斷
+    const duration = endTime - startTime;
+    const markers = options.markers
+      ?.filter(marker => marker.time < endTime && marker.time + (marker.duration ?? 0) >= startTime)
+      .map(marker => {
+        const time = Math.max(0, marker.time - startTime);
+        return marker.duration === undefined
+          ? { ...marker, time }
+          : { ...marker, time, duration: Math.min(duration, marker.time - startTime + marker.duration) - time };
+      });
+
+    options.onProgress?.(RENDER_PROGRESS);
+    return await encodeAudioInWorker(renderedBuffer, format, options.quality, {
+      sampleFormat: options.sampleFormat,
+      dither: options.dither,
+      channelMask: options.channelMask,
+      markers,
+    }, scaleProgress(options, RENDER_PROGRESS, 100));
   } catch (error) {
+    // 取消時保留 AbortError，讓呼叫端可以與處理失敗區分
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
     throw new Error(`音頻處理失敗: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 };
+
+/**
+ * 依序拼接段落的樣本，在拼接點加上線性淡入淡出以消除爆音
+ * 與伺服器端剪輯相同，開頭與結尾不是拼接點，不做淡化
+ * @param fadeDuration 每個拼接點的淡化長度 (秒)，最多為段落長度的一半
+ */
+export const spliceSegments = (audio: PcmAudio, segments: Segment[], fadeDuration = 0): PcmAudio => {
+  const { sampleRate, channels } = audio;
+  const length = channels[0]?.length ?? 0;
+  const ranges = segments
+    .map(({ start, end }) => [Math.max(0, Math.round(start * sampleRate)), Math.min(length, Math.round(end * sampleRate))])
+    .filter(([first, last]) => last > first);
+  const total = ranges.reduce((sum, [first, last]) => sum + last - first, 0);
+
+  return {
+    sampleRate,
+    channels: channels.map(data => {
+      const output = new Float32Array(total);
+      let offset = 0;
+      ranges.forEach(([first, last], index) => {
+        const size = last - first;
+        output.set(data.subarray(first, last), offset);
+        const fade = Math.min(Math.round(fadeDuration * sampleRate), Math.floor(size / 2));
+        for (let i = 0; i < fade; i++) {
+          const gain = i / fade;
+          if (index > 0) output[offset + i] *= gain;
+          if (index < ranges.length - 1) output[offset + size - 1 - i] *= gain;
+        }
+        offset += size;
+      });
+      return output;
+    }),
+  };
+};
+
+/**
+ * 依剪輯工作階段輸出：拼接所有保留區間 (拼接淡化長度取自偵測參數) 後，以與 processAudioClip 相同的降噪、效果與編碼處理
+ * @param originalBuffer 工作階段來源媒體的音頻緩衝區
+ * @param options markers 以原始音頻的時間表示，位於移除區間內的標記捨棄；未指定時以有標籤的保留區間作為標記
+ * @returns 剪輯後的音頻Blob
+ */
+export const processEditSession = async (
+  originalBuffer: AudioBuffer,
+  session: EditSession,
+  format: AudioFormat = 'wav',
+  options: AudioProcessingOptions = {}
+): Promise<Blob> => {
+  const segments = keptSegments(session);
+  if (segments.length === 0) {
+    throw new Error('音頻處理失敗: 沒有要保留的區間');
+  }
+
+  const spliced = spliceSegments(pcmFromBuffer(originalBuffer), segments, session.detection.fadeDuration);
+  const buffer = new AudioBuffer({
+    length: Math.max(1, spliced.channels[0].length),
+    numberOfChannels: spliced.channels.length,
+    sampleRate: spliced.sampleRate,
+  });
+  spliced.channels.forEach((data, channel) => buffer.copyToChannel(data, channel));
+
+  // 拼接後的音頻已沒有靜音可供學習，降噪改用原始音頻的噪音輪廓
+  if ((options.noiseReduction ?? 0) > 0) {
+    const profile = await getNoiseProfile(originalBuffer, options.noiseProfileRegion, { signal: options.signal });
+    noiseProfiles.set(buffer, new Map([['auto', profile]]));
+  }
+
+  const sourceMarkers = options.markers ?? session.ranges
+    .filter(range => range.action === 'keep' && range.label)
+    .map(range => ({ time: range.start, label: range.label, duration: range.end - range.start }));
+  const markers = sourceMarkers.flatMap(marker => {
+    const time = toOutputTime(session, marker.time);
+    if (time === null) return [];
+    const end = marker.duration === undefined ? null : toOutputTime(session, marker.time + marker.duration);
+    return [end === null ? { time, label: marker.label } : { ...marker, time, duration: end - time }];
+  });
+
+  return processAudioClip(0, buffer.duration, buffer, format, { ...options, noiseProfileRegion: undefined, markers });
+};
+
+// 預覽播放的控制
+export interface AudioPreview {
+  stop: () => void;
+  ended: Promise<void>;
+}
+
+/**
+ * 以即時音頻上下文播放套用效果後的片段，使用與匯出相同的降噪與效果鏈
+ * @param startTime 片段開始時間（秒）
+ * @param endTime 片段結束時間（秒）
+ * @param originalBuffer 原始音頻緩衝區
+ * @param options 效果與降噪參數
+ * @returns 停止播放的控制與播放結束的 Promise
+ */
+export const previewAudioClip = async (
+  startTime: number,
+  endTime: number,
+  originalBuffer: AudioBuffer,
+  options: PreviewOptions = {}
+): Promise<AudioPreview> => {
+  const clip = await prepareClipSource(startTime, endTime, originalBuffer, options);
+  const normalizationGain = await measureNormalizationGain(clip.startTime, clip.endTime, clip.buffer, {
+    ...options,
+    noiseReduction: 0,
+  });
+  const audioContext = getAudioContext();
+  if (audioContext.state === 'suspended') {
+    await audioContext.resume();
+  }
+
+  const duration = endTime - startTime;
+  const startAt = audioContext.currentTime;
+  const source = audioContext.createBufferSource();
+  source.buffer = clip.buffer;
+
+  const chain = createEffectChain(audioContext, options, duration, normalizationGain, startAt);
+  source.connect(chain.input);
+  chain.output.connect(audioContext.destination);
+
+  const ended = new Promise<void>(resolve => {
+    source.onended = () => {
+      chain.output.disconnect();
+      resolve();
+    };
+  });
+  source.start(startAt, clip.startTime, duration);
+
+  return {
+    stop: () => source.stop(),
+    ended,
+  };
+};
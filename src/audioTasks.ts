@@ -0,0 +1,96 @@
+// 可在 Web Worker 中執行的音頻任務與訊息格式，Worker 與主執行緒 (不支援 Worker 時) 共用同一套實作
+import { AudioFormat, encodeAudio, EncodeOptions, PcmAudio, ProgressCallback } from './audioEncoders';
+import { Segment } from './api';
+import { LoudnessReport, measureLoudness } from './loudness';
+import { applyNoiseReduction, learnNoiseProfile, NoiseProfile } from './noiseReduction';
+import { computeSpectrogram, Spectrogram, SpectrogramOptions } from './spectrogram';
+import { detectSpeechSegments, SpeechDetectionOptions, SpeechDetectionResult } from './speechDetection';
+import { VoiceDetectorName } from './voiceActivity';
+
+// 傳給 Worker 的偵測參數：自訂偵測器含有函數，無法複製到 Worker，只接受內建偵測器名稱
+export type WorkerDetectionOptions = Omit<SpeechDetectionOptions, 'detector'> & { detector?: VoiceDetectorName };
+
+export type AudioTask =
+  | { type: 'detectSpeech'; audio: PcmAudio; options: WorkerDetectionOptions }
+  | { type: 'encode'; audio: PcmAudio; format: AudioFormat; quality?: number; options?: EncodeOptions }
+  | { type: 'measureLoudness'; audio: PcmAudio }
+  | { type: 'learnNoiseProfile'; audio: PcmAudio; regions?: Segment[] }
+  | { type: 'reduceNoise'; audio: PcmAudio; profile: NoiseProfile; strength: number }
+  | { type: 'spectrogram'; audio: PcmAudio; options?: SpectrogramOptions };
+
+// 各任務的結果
+export interface AudioTaskResults {
+  detectSpeech: SpeechDetectionResult;
+  encode: Blob;
+  measureLoudness: LoudnessReport;
+  learnNoiseProfile: NoiseProfile;
+  reduceNoise: PcmAudio;
+  spectrogram: Spectrogram;
+}
+
+// Worker 送回主執行緒的訊息
+export type WorkerMessage =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; result: AudioTaskResults[AudioTask['type']] }
+  | { type: 'error'; message: string };
+
+// 相鄰兩次進度訊息的最小差距 (百分點)，避免大量訊息塞滿主執行緒
+const PROGRESS_STEP = 1;
+
+/**
+ * 執行音頻任務
+ * @param onProgress 任務進度 (0 ~ 100)；回呼中拋出的錯誤會中止任務 (主執行緒以此實現取消)
+ */
+export async function runAudioTask<T extends AudioTask>(
+  task: T,
+  onProgress?: ProgressCallback
+): Promise<AudioTaskResults[T['type']]> {
+  type Result = AudioTaskResults[T['type']];
+  switch (task.type) {
+    case 'detectSpeech':
+      return detectSpeechSegments(task.audio, task.options, onProgress) as Result;
+    case 'encode':
+      return await encodeAudio(task.audio, task.format, task.quality, task.options, onProgress) as Result;
+    case 'measureLoudness':
+      return measureLoudness(task.audio, onProgress) as Result;
+    case 'learnNoiseProfile':
+      return learnNoiseProfile(task.audio, task.regions, undefined, onProgress) as Result;
+    case 'reduceNoise': {
+      const channels = applyNoiseReduction(task.audio.channels, task.profile, task.strength, onProgress);
+      return { sampleRate: task.audio.sampleRate, channels } as Result;
+    }
+    case 'spectrogram':
+      return computeSpectrogram(task.audio, task.options, onProgress) as Result;
+  }
+}
+
+// 結果中可以轉移而不需複製的緩衝區
+const transferablesOf = (result: AudioTaskResults[AudioTask['type']]): Transferable[] => {
+  if ('frameEnergy' in result) return [result.frameEnergy.buffer];
+  if ('hopSize' in result) return [result.data.buffer];
+  // 噪音輪廓與降噪後的聲道
+  if ('channels' in result) return result.channels.map((data: Float32Array | Float64Array) => data.buffer);
+  return [];
+};
+
+/**
+ * Worker 端處理一個任務：節流回報進度，完成後送出結果 (轉移 frameEnergy、頻譜圖、聲道等緩衝區) 或錯誤訊息
+ * @param post 送出訊息的函數 (Worker 的 postMessage)
+ */
+export async function serveAudioTask(
+  task: AudioTask,
+  post: (message: WorkerMessage, transfer: Transferable[]) => void
+): Promise<void> {
+  let reported = -Infinity;
+  try {
+    const result = await runAudioTask(task, progress => {
+      if (progress - reported >= PROGRESS_STEP || progress >= 100) {
+        reported = progress;
+        post({ type: 'progress', progress }, []);
+      }
+    });
+    post({ type: 'result', result }, transferablesOf(result));
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) }, []);
+  }
+}
@@ -0,0 +1,6 @@
+// 音頻分析與編碼的 Web Worker 進入點，每個 Worker 只處理一個任務 (見 audioWorkerClient.ts)
+import { AudioTask, serveAudioTask } from './audioTasks';
+
+self.onmessage = (event: MessageEvent<AudioTask>) => {
+  serveAudioTask(event.data, (message, transfer) => self.postMessage(message, { transfer }));
+};
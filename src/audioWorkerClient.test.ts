@@ -0,0 +1,132 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { AudioTask, serveAudioTask, WorkerMessage } from './audioTasks';
+import {
+  detectSpeechInWorker,
+  encodeAudioInWorker,
+  learnNoiseProfileInWorker,
+  measureLoudnessInWorker,
+  reduceNoiseInWorker
+} from './audioWorkerClient';
+import { measureLoudness } from './loudness';
+import { applyNoiseReduction, learnNoiseProfile } from './noiseReduction';
+import { detectSpeechSegments } from './speechDetection';
+
+const SAMPLE_RATE = 16000;
+
+// 1 秒靜音、2 秒 440 Hz 正弦波、1 秒靜音
+const audio = {
+  sampleRate: SAMPLE_RATE,
+  channels: [Float32Array.from({ length: SAMPLE_RATE * 4 }, (_, i) =>
+    i >= SAMPLE_RATE && i < SAMPLE_RATE * 3 ? 0.3 * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE) : 0
+  )],
+};
+
+// 在同一個執行緒模擬 Worker：收到任務後以 serveAudioTask 處理並以 onmessage 回傳
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: { data: WorkerMessage }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+  transfer: Transferable[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(task: AudioTask, transfer: Transferable[]) {
+    this.transfer = transfer;
+    setTimeout(() => serveAudioTask(task, message => {
+      if (!this.terminated) this.onmessage?.({ data: message });
+    }));
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+describe('audio worker client without Worker support', () => {
+  it('runs detection on the main thread with progress', async () => {
+    const progress: number[] = [];
+    const result = await detectSpeechInWorker(audio, { detector: 'spectral' }, { onProgress: percent => progress.push(percent) });
+    expect(result.speech).toEqual(detectSpeechSegments(audio, { detector: 'spectral' }).speech);
+    expect(progress[progress.length - 1]).toBe(100);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+  });
+
+  it('cancels between progress reports', async () => {
+    const controller = new AbortController();
+    const task = detectSpeechInWorker(audio, {}, { signal: controller.signal, onProgress: () => controller.abort() });
+    await expect(task).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('rejects immediately when already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(measureLoudnessInWorker(audio, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('audio worker client with Worker support', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeWorker.instances = [];
+  });
+
+  it('transfers copies of the channel data and terminates the worker', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const progress: number[] = [];
+    const blob = await encodeAudioInWorker(audio, 'wav', undefined, {}, { onProgress: percent => progress.push(percent) });
+
+    expect(blob.type).toBe('audio/wav');
+    expect(blob.size).toBe(44 + audio.channels[0].length * 2);
+    expect(progress).toContain(100);
+    const [worker] = FakeWorker.instances;
+    expect(worker.terminated).toBe(true);
+    // 轉移的是複本，呼叫端的資料仍可使用
+    expect(worker.transfer).toHaveLength(1);
+    expect(worker.transfer[0]).not.toBe(audio.channels[0].buffer);
+    expect(audio.channels[0].byteLength).toBeGreaterThan(0);
+  });
+
+  it('returns detection results from the worker', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const result = await detectSpeechInWorker(audio);
+    expect(result.speech).toEqual(detectSpeechSegments(audio).speech);
+  });
+
+  it('terminates the worker when aborted', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const controller = new AbortController();
+    const task = measureLoudnessInWorker(audio, { signal: controller.signal });
+    controller.abort();
+    await expect(task).rejects.toMatchObject({ name: 'AbortError' });
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+  });
+
+  it('reports loudness progress before the result', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const progress: number[] = [];
+    const report = await measureLoudnessInWorker(audio, { onProgress: percent => progress.push(percent) });
+    expect(report).toEqual(measureLoudness(audio));
+    expect(progress.some(percent => percent > 0 && percent < 100)).toBe(true);
+    expect(progress[progress.length - 1]).toBe(100);
+  });
+
+  it('learns the noise profile and reduces noise in the worker', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const regions = [{ start: 0, end: 1 }];
+    const profile = await learnNoiseProfileInWorker(audio, regions);
+    expect(profile).toEqual(learnNoiseProfile(audio, regions));
+
+    const cleaned = await reduceNoiseInWorker(audio, profile, 0.5);
+    expect(cleaned.sampleRate).toBe(SAMPLE_RATE);
+    expect(cleaned.channels).toEqual(applyNoiseReduction(audio.channels, profile, 0.5));
+    expect(FakeWorker.instances.every(worker => worker.terminated)).toBe(true);
+  });
+
+  it('reports errors from the worker', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    await expect(encodeAudioInWorker(audio, 'aiff' as never)).rejects.toThrow('不支援的輸出格式');
+  });
+});
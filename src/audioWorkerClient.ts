@@ -0,0 +1,174 @@
+// 在 Web Worker 中執行音頻分析與編碼，避免長錄音讓介面凍結
+// 每個任務使用獨立的 Worker，取消時直接終止；不支援 Worker 的環境 (例如測試) 改在主執行緒執行
+import { AudioFormat, DEFAULT_QUALITY, EncodeOptions, PcmAudio, ProgressCallback } from './audioEncoders';
+import { Segment } from './api';
+import { AudioTask, AudioTaskResults, runAudioTask, WorkerDetectionOptions, WorkerMessage } from './audioTasks';
+import { LoudnessReport } from './loudness';
+import { NoiseProfile } from './noiseReduction';
+import { Spectrogram, SpectrogramOptions } from './spectrogram';
+import { detectSpeechSegments, SpeechDetectionOptions, SpeechDetectionResult } from './speechDetection';
+
+export interface AudioTaskOptions {
+  signal?: AbortSignal;
+  onProgress?: ProgressCallback;
+}
+
+const abortError = () => new DOMException('任務已取消', 'AbortError');
+
+/**
+ * 複製聲道資料以便轉移給 Worker：轉移會使原本的緩衝區失效，因此不直接轉移 AudioBuffer 或呼叫端的陣列
+ */
+function copyForTransfer(audio: AudioBuffer | PcmAudio): { audio: PcmAudio; transfer: ArrayBuffer[] } {
+  const channels = 'getChannelData' in audio
+    ? Array.from({ length: audio.numberOfChannels }, (_, i) => audio.getChannelData(i).slice())
+    : audio.channels.map(data => data.slice());
+  return { audio: { sampleRate: audio.sampleRate, channels }, transfer: channels.map(data => data.buffer) };
+}
+
+// 在主執行緒執行，以進度回呼作為取消點
+async function runInline<R>(
+  run: (onProgress: ProgressCallback) => R | Promise<R>,
+  { signal, onProgress }: AudioTaskOptions
+): Promise<R> {
+  if (signal?.aborted) throw abortError();
+  const result = await run(progress => {
+    if (signal?.aborted) throw abortError();
+    onProgress?.(progress);
+  });
+  if (signal?.aborted) throw abortError();
+  return result;
+}
+
+/**
+ * 在新的 Worker 中執行任務，完成、失敗或取消時終止 Worker
+ * @param transfer 隨任務轉移給 Worker 的緩衝區
+ */
+function runInWorker<T extends AudioTask>(
+  task: T,
+  transfer: Transferable[],
+  options: AudioTaskOptions
+): Promise<AudioTaskResults[T['type']]> {
+  const { signal, onProgress } = options;
+  if (signal?.aborted) {
+    return Promise.reject(abortError());
+  }
+  if (typeof Worker === 'undefined') {
+    return runInline(progress => runAudioTask(task, progress), options);
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./audioWorker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'result') {
+        finish();
+        resolve(message.result as AudioTaskResults[T['type']]);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(`音頻處理 Worker 發生錯誤: ${event.message}`));
+    };
+    worker.postMessage(task, transfer);
+  });
+}
+
+/**
+ * 在 Worker 中檢測語音段落，結果與 detectSpeechSegments 相同
+ * 使用自訂偵測器 (含函數，無法傳給 Worker) 時改在主執行緒執行
+ * @param options 偵測參數
+ * @param task 取消與進度回報
+ */
+export function detectSpeechInWorker(
+  audio: AudioBuffer | PcmAudio,
+  options: SpeechDetectionOptions = {},
+  task: AudioTaskOptions = {}
+): Promise<SpeechDetectionResult> {
+  const { detector } = options;
+  if (detector !== undefined && typeof detector !== 'string') {
+    return runInline(progress => detectSpeechSegments(audio, options, progress), task);
+  }
+  const { audio: pcm, transfer } = copyForTransfer(audio);
+  // 此時 detector 只可能是內建偵測器名稱或未指定
+  return runInWorker({ type: 'detectSpeech', audio: pcm, options: options as WorkerDetectionOptions }, transfer, task);
+}
+
+/**
+ * 在 Worker 中編碼音頻，參數同 encodeAudio
+ * @param task 取消與進度回報
+ */
+export function encodeAudioInWorker(
+  audio: AudioBuffer | PcmAudio,
+  format: AudioFormat,
+  quality = DEFAULT_QUALITY,
+  options: EncodeOptions = {},
+  task: AudioTaskOptions = {}
+): Promise<Blob> {
+  const { audio: pcm, transfer } = copyForTransfer(audio);
+  return runInWorker({ type: 'encode', audio: pcm, format, quality, options }, transfer, task);
+}
+
+/**
+ * 在 Worker 中量測整合響度、響度範圍與真峰值
+ * @param task 取消與進度回報
+ */
+export function measureLoudnessInWorker(audio: AudioBuffer | PcmAudio, task: AudioTaskOptions = {}): Promise<LoudnessReport> {
+  const { audio: pcm, transfer } = copyForTransfer(audio);
+  return runInWorker({ type: 'measureLoudness', audio: pcm }, transfer, task);
+}
+
+/**
+ * 在 Worker 中學習噪音輪廓，參數同 learnNoiseProfile
+ * @param task 取消與進度回報
+ */
+export function learnNoiseProfileInWorker(
+  audio: AudioBuffer | PcmAudio,
+  regions?: Segment[],
+  task: AudioTaskOptions = {}
+): Promise<NoiseProfile> {
+  const { audio: pcm, transfer } = copyForTransfer(audio);
+  return runInWorker({ type: 'learnNoiseProfile', audio: pcm, regions }, transfer, task);
+}
+
+/**
+ * 在 Worker 中以噪音輪廓降噪，參數同 applyNoiseReduction
+ * @param task 取消與進度回報
+ * @returns 降噪後的 PCM 資料
+ */
+export function reduceNoiseInWorker(
+  audio: AudioBuffer | PcmAudio,
+  profile: NoiseProfile,
+  strength: number,
+  task: AudioTaskOptions = {}
+): Promise<PcmAudio> {
+  const { audio: pcm, transfer } = copyForTransfer(audio);
+  return runInWorker({ type: 'reduceNoise', audio: pcm, profile, strength }, transfer, task);
+}
+
+/**
+ * 在 Worker 中計算頻譜圖，參數同 computeSpectrogram
+ * @param task 取消與進度回報
+ */
+export function computeSpectrogramInWorker(
+  audio: AudioBuffer | PcmAudio,
+  options: SpectrogramOptions = {},
+  task: AudioTaskOptions = {}
+): Promise<Spectrogram> {
+  const { audio: pcm, transfer } = copyForTransfer(audio);
+  return runInWorker({ type: 'spectrogram', audio: pcm, options }, transfer, task);
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { Job, ProcessResult } from './api';
+import {
+  batchPatchFromJob,
+  BatchItem,
+  createBatchItem,
+  formatBatchReport,
+  nextBatchItems,
+  retryBatchItem,
+  summarizeBatch,
+  updateBatchItem,
+} from './batchQueue';
+import { DETECTION_PRESETS } from './detectionOptions';
+
+const options = DETECTION_PRESETS.speech.options;
+const item = (id: string, patch: Partial<BatchItem> = {}): BatchItem => ({
+  ...createBatchItem(id, new File(['x'], `${id}.mp4`, { type: 'video/mp4' }), 'speech', options),
+  ...patch,
+});
+
+const job = (patch: Partial<Job>): Job => ({
+  id: 'job-1',
+  status: 'running',
+  stage: 'detecting',
+  stageProgress: 50,
+  progress: 25,
+  createdAt: 0,
+  updatedAt: 0,
+  ...patch,
+});
+
+const result: ProcessResult = {
+  message: '完成',
+  outputId: 'processed-1.mp4',
+  outputUrl: '/outputs/processed-1.mp4',
+  segments: [{ start: 0, end: 10 }, { start: 20, end: 25.5 }],
+  cutStrategy: 'filter',
+  chapters: [],
+};
+
+describe('nextBatchItems', () => {
+  it('starts queued items in order up to the concurrency limit', () => {
+    const items = [item('a', { status: 'analyzing' }), item('b'), item('c'), item('d', { status: 'done' }), item('e')];
+    expect(nextBatchItems(items, 3).map(next => next.id)).toEqual(['b', 'c']);
+    expect(nextBatchItems(items, 1)).toEqual([]);
+  });
+});
+
+describe('batchPatchFromJob', () => {
+  it('maps job stages to batch statuses', () => {
+    expect(batchPatchFromJob(job({}))).toEqual({ status: 'analyzing', progress: 25 });
+    expect(batchPatchFromJob(job({ stage: 'normalizing', progress: 90 }))).toEqual({ status: 'cutting', progress: 90 });
+    expect(batchPatchFromJob(job({ status: 'completed', stage: 'done', result }))).toMatchObject({ status: 'done', result });
+    expect(batchPatchFromJob(job({ status: 'failed', error: 'FFmpeg 失敗' }))).toEqual({ status: 'failed', error: 'FFmpeg 失敗' });
+    expect(batchPatchFromJob(job({ status: 'cancelled' })).error).toBe('任務已取消');
+  });
+
+  it('drops the job of a finished failure so that retrying uploads again', () => {
+    const patch = batchPatchFromJob(job({ status: 'failed', error: 'FFmpeg 失敗' }));
+    expect(patch).toHaveProperty('jobId', undefined);
+    const items = retryBatchItem(updateBatchItem([item('a', { jobId: 'job-1' })], 'a', patch), 'a');
+    expect(items[0].jobId).toBeUndefined();
+  });
+});
+
+describe('retry and summary', () => {
+  it('requeues only failed items and keeps their job for reattaching', () => {
+    const items = [item('a', { status: 'failed', error: '錯誤', jobId: 'job-1', attempts: 1 }), item('b', { status: 'done' })];
+    const retried = retryBatchItem(retryBatchItem(items, 'a'), 'b');
+    expect(retried[0]).toMatchObject({ status: 'queued', progress: 0, attempts: 1, jobId: 'job-1' });
+    expect(retried[0].error).toBeUndefined();
+    expect(retried[1]).toBe(items[1]);
+  });
+
+  it('summarizes the batch and writes a CSV report', () => {
+    let items = [item('a'), item('b, "final"')];
+    expect(summarizeBatch(items)).toMatchObject({ total: 2, pending: 2, finished: false });
+
+    items = updateBatchItem(items, 'a', { status: 'done', result, attempts: 1 });
+    items = updateBatchItem(items, 'b, "final"', { status: 'failed', error: '上傳失敗', attempts: 2 });
+    expect(summarizeBatch(items)).toEqual({ total: 2, done: 1, failed: 1, pending: 0, keptDuration: 15.5, finished: true });
+
+    const lines = formatBatchReport(items).trim().split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toBe('a.mp4,完成,1,2,15.50,processed-1.mp4,');
+    expect(lines[2]).toBe('"b, ""final"".mp4",失敗,2,,,,上傳失敗');
+  });
+});
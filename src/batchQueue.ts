@@ -0,0 +1,134 @@
+// 批次處理佇列：多個檔案各自以 /upload 一次完成偵測與剪輯，由瀏覽器端限制同時進行的任務數
+import { isAnalyzeResult, isJobFinished, Job, ProcessResult } from './api';
+import { DetectionOptions, DetectionPresetName } from './detectionOptions';
+
+export type BatchStatus = 'queued' | 'analyzing' | 'cutting' | 'done' | 'failed';
+
+export const BATCH_STATUS_LABELS: Record<BatchStatus, string> = {
+  queued: '等待中',
+  analyzing: '分析中',
+  cutting: '剪輯中',
+  done: '完成',
+  failed: '失敗',
+};
+
+// 預設同時進行的任務數 (與伺服器預設的 MAX_CONCURRENT_JOBS 相同)
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 8;
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  preset: DetectionPresetName;
+  options: DetectionOptions; // 此檔案使用的偵測參數，開始處理前可個別調整
+  status: BatchStatus;
+  progress: number;          // 0 ~ 100
+  attempts: number;          // 已開始處理的次數 (含重試)
+  jobId?: string;            // 伺服器任務 ID，上傳完成前為空；任務本身失敗時清除，連線中斷時保留以便重試時重新連接
+  error?: string;
+  result?: ProcessResult;
+}
+
+export interface BatchSummary {
+  total: number;
+  done: number;
+  failed: number;
+  pending: number;       // 等待中與處理中
+  keptDuration: number;  // 所有完成檔案剪輯後的總長度 (秒)
+  finished: boolean;     // 所有檔案都已完成或失敗
+}
+
+/**
+ * 建立等待處理的批次項目
+ */
+export const createBatchItem = (
+  id: string,
+  file: File,
+  preset: DetectionPresetName,
+  options: DetectionOptions
+): BatchItem => ({ id, file, preset, options, status: 'queued', progress: 0, attempts: 0 });
+
+/**
+ * 更新指定項目，其餘項目不變
+ */
+export const updateBatchItem = (items: BatchItem[], id: string, patch: Partial<BatchItem>): BatchItem[] =>
+  items.map(item => (item.id === id ? { ...item, ...patch } : item));
+
+export const isBatchItemActive = (item: BatchItem): boolean => item.status === 'analyzing' || item.status === 'cutting';
+
+/**
+ * 依同時任務上限挑出可以開始的項目 (依加入順序)
+ */
+export function nextBatchItems(items: BatchItem[], concurrency: number): BatchItem[] {
+  const available = Math.max(0, concurrency - items.filter(isBatchItemActive).length);
+  return items.filter(item => item.status === 'queued').slice(0, available);
+}
+
+/**
+ * 由伺服器任務快照取得項目的狀態與進度
+ */
+export function batchPatchFromJob(job: Job): Partial<BatchItem> {
+  if (!isJobFinished(job)) {
+    const cutting = job.stage === 'cutting' || job.stage === 'normalizing';
+    return { status: cutting ? 'cutting' : 'analyzing', progress: job.progress };
+  }
+  if (job.status === 'completed' && job.result && !isAnalyzeResult(job.result)) {
+    return { status: 'done', progress: 100, result: job.result, error: undefined };
+  }
+  // 任務已在伺服器上結束，重試時需重新上傳
+  return {
+    status: 'failed',
+    jobId: undefined,
+    error: job.status === 'cancelled' ? '任務已取消' : job.error ?? '發生未知錯誤',
+  };
+}
+
+/**
+ * 重試失敗的項目：回到等待中並清除上次的結果；保留的任務 ID 讓重試重新連接原任務而不重新上傳
+ */
+export const retryBatchItem = (items: BatchItem[], id: string): BatchItem[] =>
+  items.map(item => (item.id === id && item.status === 'failed'
+    ? { ...item, status: 'queued', progress: 0, error: undefined, result: undefined }
+    : item));
+
+const keptDurationOf = (item: BatchItem): number =>
+  item.result?.segments.reduce((total, segment) => total + segment.end - segment.start, 0) ?? 0;
+
+/**
+ * 統計批次處理的結果
+ */
+export function summarizeBatch(items: BatchItem[]): BatchSummary {
+  const done = items.filter(item => item.status === 'done');
+  const failed = items.filter(item => item.status === 'failed').length;
+  return {
+    total: items.length,
+    done: done.length,
+    failed,
+    pending: items.length - done.length - failed,
+    keptDuration: done.reduce((total, item) => total + keptDurationOf(item), 0),
+    finished: items.length > 0 && done.length + failed === items.length,
+  };
+}
+
+// CSV 欄位：含逗號、引號或換行時加上引號
+const csvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 產生批次處理報告 (CSV)，每個檔案一列
+ */
+export function formatBatchReport(items: BatchItem[]): string {
+  const header = ['檔案', '狀態', '嘗試次數', '保留段落數', '剪輯後長度 (秒)', '輸出檔案', '錯誤'];
+  const rows = items.map(item => [
+    item.file.name,
+    BATCH_STATUS_LABELS[item.status],
+    item.attempts,
+    item.result?.segments.length ?? '',
+    item.result ? keptDurationOf(item).toFixed(2) : '',
+    item.result?.outputId ?? '',
+    item.error ?? '',
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
@@ -1,53 +1,426 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import styles from './AudioEditor.module.css';
+import { DetectionSettings } from './DetectionSettings';
+import { DETECTION_PRESETS, DetectionOptions, DetectionPresetName } from '../detectionOptions';
+import { SegmentEditor } from './SegmentEditor';
+import { NoiseReductionPanel } from './NoiseReductionPanel';
+import { ClientExport } from './ClientExport';
+import { CutPreview } from './CutPreview';
+import { BatchQueue } from './BatchQueue';
+import { WaveformVisualizer } from './WaveformVisualizer';
+import {
+  AnalyzeResult,
+  analyzeVideo,
+  AUDIO_OUTPUT_FORMATS,
+  AudioOutputFormat,
+  cancelJob,
+  EDL_FORMAT_LABELS,
+  EdlFormat,
+  exportEdl,
+  fetchJob,
+  fetchOutput,
+  isAnalyzeResult,
+  isAudioOutput,
+  isJobFinished,
+  Job,
+  JobStage,
+  LoudnessComparison,
+  ProcessResult,
+  releaseUpload,
+  renderEditSession,
+  resolveOutputUrl,
+  watchJob,
+} from '../api';
+import {
+  applyEdit,
+  applyRangeChange,
+  createEditSession,
+  createHistory,
+  EditHistory,
+  keptSegments,
+  matchesSource,
+  parseProjectFile,
+  PROJECT_FILE_EXTENSION,
+  projectFileName,
+  RangeChange,
+  serializeEditSession,
+} from '../editSession';
+import { decodeAudioFile, measureLoudnessInWorker, NoiseReductionOptions } from '../audioProcessor';
+import { DEFAULT_TRUE_PEAK_CEILING, LOUDNESS_TARGETS, LoudnessReport } from '../loudness';
+import { CutPrediction } from '../cutPreview';
+import { downloadBlob } from '../download';
+import { VoiceDetectorName } from '../voiceActivity';
+
+// 重新整理頁面後用於重新連接任務的 localStorage 鍵
+const ACTIVE_JOB_KEY = 'wellcut.activeJobId';
+
+// 章節時間顯示為 m:ss
+const formatChapterTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+const STAGE_LABELS: Record<JobStage, string> = {
+  queued: '排隊中',
+  detecting: '偵測語音段落',
+  cutting: '剪輯影片',
+  normalizing: '標準化響度',
+  done: '完成',
+};
+
+type LoudnessPreset = keyof typeof LOUDNESS_TARGETS;
+
+const LOUDNESS_PRESET_LABELS: Record<LoudnessPreset, string> = {
+  podcast: `Podcast (${LOUDNESS_TARGETS.podcast} LUFS)`,
+  broadcast: `廣播 EBU R128 (${LOUDNESS_TARGETS.broadcast} LUFS)`,
+};
+
+// 響度數值顯示到小數點後一位，無法量測時 (靜音) 顯示 -∞
+const formatLoudness = (value: number | null, unit: string) =>
+  value !== null && Number.isFinite(value) ? `${value.toFixed(1)} ${unit}` : `-∞ ${unit}`;
+
+// 瀏覽器端的響度量測：量測中或無法量測 (例如瀏覽器無法解碼) 時以狀態表示
+type MeasuredLoudness = LoudnessReport | 'pending' | 'unavailable';
+
+const MEASUREMENT_LABELS: Record<Exclude<MeasuredLoudness, LoudnessReport>, string> = {
+  pending: '量測中...',
+  unavailable: '—',
+};
+
+// 來源 (上傳的檔案) 與輸出的響度對照表；伺服器標準化時另列剪輯後、標準化前的量測值
+const LoudnessTable: React.FC<{
+  source: MeasuredLoudness;
+  output: MeasuredLoudness;
+  normalization?: LoudnessComparison;
+}> = ({ source, output, normalization }) => {
+  const rows: Array<[string, keyof LoudnessReport, string]> = [
+    ['整合響度', 'integrated', 'LUFS'],
+    ['響度範圍', 'range', 'LU'],
+    ['真峰值', 'truePeak', 'dBTP'],
+  ];
+  const columns: Array<[string, MeasuredLoudness]> = [
+    ['來源', source],
+    ...(normalization ? [['剪輯後', normalization.source] as [string, MeasuredLoudness]] : []),
+    ['輸出', output],
+  ];
+  return (
+    <table className={styles.loudnessTable}>
+      <caption>
+        {normalization
+          ? `響度報告（目標 ${normalization.target.integrated} LUFS / ${normalization.target.truePeak} dBTP，` +
+            `${normalization.normalizationType === 'linear' ? '線性增益' : '動態調整'}）`
+          : '響度報告（未標準化）'}
+      </caption>
+      <thead>
+        <tr>
+          <th></th>
+          {columns.map(([label]) => <th key={label}>{label}</th>)}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(([label, key, unit]) => (
+          <tr key={key}>
+            <th>{label}</th>
+            {columns.map(([column, report]) => (
+              <td key={column}>
+                {typeof report === 'string' ? MEASUREMENT_LABELS[report] : formatLoudness(report[key] ?? null, unit)}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+type EditorMode = 'single' | 'batch';
 
 const AudioEditor: React.FC = () => {
+  const [mode, setMode] = useState<EditorMode>('single');
+  const [dragActive, setDragActive] = useState(false);
   const [file, setFile] = useState<File | null>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0); // 進度狀態，暫時未使用
-  const [processedFilePath, setProcessedFilePath] = useState<string | null>(null);
+  const [captionsFile, setCaptionsFile] = useState<File | null>(null);
+  const [job, setJob] = useState<Job | null>(null);
+  const [analysis, setAnalysis] = useState<AnalyzeResult | null>(null);
+  const [history, setHistory] = useState<EditHistory | null>(null);
+  const [result, setResult] = useState<ProcessResult | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState<DetectionPresetName>('speech');
+  const [detectionOptions, setDetectionOptions] = useState<DetectionOptions>(DETECTION_PRESETS.speech.options);
+  const [detector, setDetector] = useState<VoiceDetectorName>('energy');
+  const [prediction, setPrediction] = useState<CutPrediction | null>(null);
+  // CutPreview 在瀏覽器中解碼的來源音軌 (預設音軌)
+  const [sourceBuffer, setSourceBuffer] = useState<AudioBuffer | null>(null);
+  const [sourceLoudness, setSourceLoudness] = useState<MeasuredLoudness>('unavailable');
+  const [outputLoudness, setOutputLoudness] = useState<MeasuredLoudness>('unavailable');
+  const [noiseReduction, setNoiseReduction] = useState<NoiseReductionOptions>({});
+  const [useLocalSegments, setUseLocalSegments] = useState(true);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [fastMode, setFastMode] = useState(false);
+  const [audioStream, setAudioStream] = useState(0);
+  const [audioFormat, setAudioFormat] = useState<AudioOutputFormat | ''>('');
+  const [loudnessPreset, setLoudnessPreset] = useState<LoudnessPreset | ''>('');
+  const [truePeakCeiling, setTruePeakCeiling] = useState(DEFAULT_TRUE_PEAK_CEILING);
+  const [edlFormat, setEdlFormat] = useState<EdlFormat>('cmx3600');
+  const [isExporting, setIsExporting] = useState(false);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  // 送出分析時的偵測參數，分析完成後記錄在剪輯工作階段中
+  const analyzedOptionsRef = useRef<DetectionOptions>(DETECTION_PRESETS.speech.options);
+
+  const session = history?.present ?? null;
+  const hasKeptSegments = session !== null && session.ranges.some(range => range.action === 'keep');
+  const isProcessing = job !== null && !isJobFinished(job);
+  // 瀏覽器只能解碼預設音軌，選擇其他音軌時改由伺服器偵測
+  const canUseLocalSegments = prediction !== null && prediction.segments.length > 0 && audioStream === 0;
+
+  // 分析後的波形編輯使用本機檔案，不必從伺服器下載
+  useEffect(() => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setAudioUrl(url);
+    return () => {
+      URL.revokeObjectURL(url);
+      setAudioUrl(null);
+    };
+  }, [file]);
+
+  // 在 Worker 中量測來源的響度，與剪輯結果對照
+  useEffect(() => {
+    if (!sourceBuffer) {
+      setSourceLoudness('unavailable');
+      return;
+    }
+    const controller = new AbortController();
+    setSourceLoudness('pending');
+    measureLoudnessInWorker(sourceBuffer, { signal: controller.signal })
+      .then(setSourceLoudness)
+      .catch((error) => {
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+        console.error('量測來源響度失敗:', error);
+        setSourceLoudness('unavailable');
+      });
+    return () => controller.abort();
+  }, [sourceBuffer]);
+
+  // 輸出的響度：伺服器標準化時使用其量測值，否則下載輸出並在瀏覽器中量測
+  // 來源無法在瀏覽器中解碼 (或檔案過大) 時，輸出通常也一樣，因此不下載
+  useEffect(() => {
+    if (!result) return;
+    if (result.loudness) {
+      setOutputLoudness(result.loudness.output);
+      return;
+    }
+    if (!sourceBuffer) {
+      setOutputLoudness('unavailable');
+      return;
+    }
+    const controller = new AbortController();
+    setOutputLoudness('pending');
+    fetchOutput(result.outputUrl, controller.signal)
+      .then(decodeAudioFile)
+      .then(buffer => measureLoudnessInWorker(buffer, { signal: controller.signal }))
+      .then(setOutputLoudness)
+      .catch((error) => {
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+        console.error('量測輸出響度失敗:', error);
+        setOutputLoudness('unavailable');
+      });
+    return () => controller.abort();
+  }, [result, sourceBuffer]);
+
+  // 將波形上的區域操作記錄到復原紀錄
+  const handleRangeChange = useCallback((change: RangeChange) => {
+    setHistory(current => current && applyEdit(current, present => applyRangeChange(present, change)));
+  }, []);
+
+  // 根據任務快照更新畫面，任務結束時清除保存的任務 ID
+  const applyJob = useCallback((snapshot: Job) => {
+    setJob(snapshot);
+    if (!isJobFinished(snapshot)) return;
+
+    localStorage.removeItem(ACTIVE_JOB_KEY);
+    if (snapshot.status === 'completed' && snapshot.result) {
+      console.log('處理結果:', snapshot.result);
+      if (isAnalyzeResult(snapshot.result)) {
+        // 分析完成，建立剪輯工作階段，區間可在剪輯前編輯
+        const { uploadId, fileName, media, segments } = snapshot.result;
+        setAnalysis(snapshot.result);
+        setHistory(createHistory(createEditSession(
+          { fileName, duration: media.duration, uploadId },
+          analyzedOptionsRef.current,
+          segments
+        )));
+      } else {
+        setResult(snapshot.result);
+      }
+    } else if (snapshot.status === 'failed') {
+      setErrorMessage(snapshot.error ?? '發生未知錯誤');
+    } else if (snapshot.status === 'cancelled') {
+      setErrorMessage('任務已取消');
+    }
+  }, []);
+
+  // 追蹤任務進度；無法再取得任務狀態時清除保存的任務 ID
+  const attachToJob = useCallback((jobId: string) => {
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = watchJob(jobId, applyJob, (error) => {
+      console.error('查詢任務失敗:', error);
+      localStorage.removeItem(ACTIVE_JOB_KEY);
+      setJob(null);
+      setErrorMessage(error.message);
+    });
+  }, [applyJob]);
+
+  // 頁面載入時重新連接尚未結束的任務
+  useEffect(() => {
+    const savedJobId = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (savedJobId) {
+      fetchJob(savedJobId)
+        .then((snapshot) => {
+          applyJob(snapshot);
+          if (!isJobFinished(snapshot)) {
+            attachToJob(savedJobId);
+          }
+        })
+        .catch(() => {
+          // 任務已不存在 (例如伺服器重新啟動)
+          localStorage.removeItem(ACTIVE_JOB_KEY);
+        });
+    }
+
+    return () => {
+      unsubscribeRef.current?.();
+    };
+  }, [applyJob, attachToJob]);
+
+  // 開始新任務並保存任務 ID，以便重新整理頁面後重新連接
+  const startJob = async (create: () => Promise<Job>) => {
+    setResult(null);
+    setErrorMessage(null);
+
+    try {
+      const newJob = await create();
+      localStorage.setItem(ACTIVE_JOB_KEY, newJob.id);
+      setJob(newJob);
+      attachToJob(newJob.id);
+    } catch (error) {
+      console.error('處理失敗:', error);
+      setErrorMessage(error instanceof Error ? error.message : '發生未知錯誤');
+    }
+  };
+
+  const selectFile = (selected: File) => {
+    // 換檔時釋放伺服器上保留的前一個上傳檔案
+    if (analysis) {
+      releaseUpload(analysis.uploadId).catch(() => {});
+    }
+    setFile(selected);
+    setJob(null);
+    setAnalysis(null);
+    setHistory(null);
+    setResult(null);
+    setErrorMessage(null);
+    setAudioStream(0);
+    setAudioFormat('');
+    setNoiseReduction({});
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      setFile(e.target.files[0]);
-      setProcessedFilePath(null);
-      setErrorMessage(null);
+      selectFile(e.target.files[0]);
+    }
+  };
+
+  // 拖放單一檔案；一次拖放多個檔案時請使用批次處理
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragActive(false);
+    if (isProcessing) return;
+    const dropped = Array.from(e.dataTransfer.files);
+    if (dropped.length > 1) {
+      setErrorMessage('一次拖放多個檔案請切換到「批次處理」');
+    } else if (dropped[0]) {
+      selectFile(dropped[0]);
     }
   };
 
-  const handleProcess = async () => {
+  const handleAnalyze = () => {
     if (!file) return;
+    setAnalysis(null);
+    setHistory(null);
+    analyzedOptionsRef.current = detectionOptions;
+    startJob(() => analyzeVideo(file, detectionOptions, {
+      audioStream,
+      captions: captionsFile ?? undefined,
+      segments: useLocalSegments && canUseLocalSegments ? prediction.segments : undefined,
+    }));
+  };
 
-    setIsProcessing(true);
-    setProgress(0);
-    setProcessedFilePath(null);
-    setErrorMessage(null);
+  const handleRender = () => {
+    if (!session || !hasKeptSegments) return;
+    startJob(() => renderEditSession(session, {
+      fadeDuration: detectionOptions.fadeDuration,
+      frameAccurate: !fastMode,
+      audioStream,
+      audioFormat: audioFormat || undefined,
+      loudnessTarget: loudnessPreset ? LOUDNESS_TARGETS[loudnessPreset] : undefined,
+      truePeakCeiling: loudnessPreset ? truePeakCeiling : undefined,
+    }));
+  };
 
-    const formData = new FormData();
-    formData.append('video', file); // 後端需要 'video' 這個 key
+  // 將目前的段落匯出為剪輯決定清單並下載
+  const handleExport = async () => {
+    if (!analysis || !session || !hasKeptSegments) return;
+    setIsExporting(true);
+    setErrorMessage(null);
 
     try {
-      const response = await fetch('http://localhost:3000/upload', {
-        method: 'POST',
-        body: formData,
-      });
+      const { blob, fileName } = await exportEdl(analysis.uploadId, edlFormat, keptSegments(session));
+      downloadBlob(blob, fileName);
+    } catch (error) {
+      console.error('匯出失敗:', error);
+      setErrorMessage(error instanceof Error ? error.message : '發生未知錯誤');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // 將剪輯工作階段儲存為 .wellcut.json 專案檔
+  const handleSaveProject = () => {
+    if (!session) return;
+    downloadBlob(new Blob([serializeEditSession(session)], { type: 'application/json' }), projectFileName(session));
+  };
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`伺服器錯誤 (${response.status}): ${errorText}`);
+  // 開啟專案檔，以其中的區間與偵測參數取代目前的工作階段；來源必須是已分析的檔案
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const projectFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!projectFile || !analysis) return;
+    setErrorMessage(null);
+
+    try {
+      const project = parseProjectFile(await projectFile.text());
+      if (!matchesSource(project, analysis.media.duration)) {
+        throw new Error(`專案檔的來源 (${project.source.fileName}) 與目前的檔案不符`);
       }
+      setPresetName('custom');
+      setDetectionOptions(project.detection);
+      setHistory(createHistory({
+        ...project,
+        source: { ...project.source, uploadId: analysis.uploadId },
+      }));
+    } catch (error) {
+      console.error('開啟專案失敗:', error);
+      setErrorMessage(error instanceof Error ? error.message : '發生未知錯誤');
+    }
+  };
 
-      const result = await response.json();
-      console.log('處理結果:', result);
-      setProcessedFilePath(result.processedFilePath);
-      setProgress(100); // 標記完成
+  const handleCancel = async () => {
+    if (!job) return;
 
+    try {
+      await cancelJob(job.id);
     } catch (error) {
-      console.error('處理失敗:', error);
+      console.error('取消任務失敗:', error);
       setErrorMessage(error instanceof Error ? error.message : '發生未知錯誤');
-    } finally {
-      setIsProcessing(false);
     }
   };
 
@@ -55,52 +428,347 @@ const AudioEditor: React.FC = () => {
     <div className={styles.audioEditor}>
       <h1>WellCut 影片自動剪輯</h1>
 
-      <div className={styles.fileInput}>
-        <input
-          type="file"
-          accept="video/*" // 只接受影片檔案
-          onChange={handleFileChange}
-          disabled={isProcessing}
-        />
+      <div className={styles.modeTabs}>
+        {([['single', '單一檔案'], ['batch', '批次處理']] as Array<[EditorMode, string]>).map(([name, label]) => (
+          <button
+            key={name}
+            onClick={() => setMode(name)}
+            className={`${styles.modeTab} ${mode === name ? styles.modeTabActive : ''}`}
+          >
+            {label}
+          </button>
+        ))}
       </div>
 
-      {errorMessage && (
-        <div className={styles.errorMessage} style={{ color: 'red', marginTop: '10px' }}>
-          錯誤: {errorMessage}
-        </div>
-      )}
+      {/* 切換到單一檔案時保留批次佇列，進行中的任務不中斷 */}
+      <div style={{ display: mode === 'batch' ? 'block' : 'none' }}>
+        <p className={styles.option}>新加入的檔案使用以下偵測參數，開始處理前可在各檔案中個別調整：</p>
+        <DetectionSettings
+          preset={presetName}
+          options={detectionOptions}
+          onChange={(preset, options) => {
+            setPresetName(preset);
+            setDetectionOptions(options);
+          }}
+        />
+        <BatchQueue defaultPreset={presetName} defaultOptions={detectionOptions} />
+      </div>
 
-      {file && (
-        <div className={styles.controls}>
-          <p>已選擇檔案: {file.name}</p>
-          <button
-            onClick={handleProcess}
-            disabled={isProcessing}
-            className={styles.processButton}
+      {mode === 'single' && (
+        <>
+          <div
+            className={`${styles.fileInput} ${styles.dropZone} ${dragActive ? styles.dropZoneActive : ''}`}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragActive(true);
+            }}
+            onDragLeave={() => setDragActive(false)}
+            onDrop={handleDrop}
           >
-            {isProcessing ? '處理中...' : '開始剪輯'}
-          </button>
+            <input
+              type="file"
+              accept="video/*,audio/*" // 接受影片與純音訊檔案
+              onChange={handleFileChange}
+              disabled={isProcessing}
+            />
+            <label className={styles.option}>
+              字幕檔（選填，SRT / WebVTT，剪輯後會重新對時）：
+              <input
+                type="file"
+                accept=".srt,.vtt,text/vtt"
+                onChange={(e) => setCaptionsFile(e.target.files?.[0] ?? null)}
+                disabled={isProcessing}
+              />
+            </label>
+          </div>
 
-          {isProcessing && (
-            <div className={styles.progressBar}>
-              <div
-                className={styles.progress}
-                // 實際進度需要後端支持，暫時顯示為處理中
-                style={{ width: isProcessing ? '50%' : `${progress}%`, transition: 'none' }}
-              ></div>
-              <span>處理中，請稍候...</span>
+          {errorMessage && (
+            <div className={styles.errorMessage} style={{ color: 'red', marginTop: '10px' }}>
+              錯誤: {errorMessage}
             </div>
           )}
-        </div>
-      )}
 
-      {processedFilePath && !isProcessing && (
-        <div className={styles.result} style={{ marginTop: '20px' }}>
-          <h3>處理完成！</h3>
-          <p>剪輯後的影片已保存至伺服器路徑: {processedFilePath}</p>
-          {/* 實際應用中，這裡應該提供下載鏈接或預覽 */}
-          {/* <a href={`http://localhost:3000/download/${encodeURIComponent(path.basename(processedFilePath))}`} download>下載檔案</a> */}
-        </div>
+          {(file || isProcessing || analysis) && (
+            <div className={styles.controls}>
+              {file && <p>已選擇檔案: {file.name}</p>}
+              <DetectionSettings
+                preset={presetName}
+                options={detectionOptions}
+                onChange={(preset, options) => {
+                  setPresetName(preset);
+                  setDetectionOptions(options);
+                }}
+                disabled={isProcessing}
+              />
+              {file && !analysis && (
+                <>
+                  <CutPreview
+                    file={file}
+                    options={detectionOptions}
+                    detector={detector}
+                    onDetectorChange={setDetector}
+                    onThresholdChange={(threshold) => {
+                      setPresetName('custom');
+                      setDetectionOptions({ ...detectionOptions, silenceThreshold: threshold });
+                    }}
+                    onPrediction={setPrediction}
+                    onSourceDecoded={setSourceBuffer}
+                    disabled={isProcessing}
+                  />
+                  {canUseLocalSegments && (
+                    <label className={styles.option}>
+                      <input
+                        type="checkbox"
+                        checked={useLocalSegments}
+                        onChange={(e) => setUseLocalSegments(e.target.checked)}
+                        disabled={isProcessing}
+                      />
+                      上傳本機預覽的段落（略過伺服器端偵測）
+                    </label>
+                  )}
+                </>
+              )}
+              <button
+                onClick={handleAnalyze}
+                disabled={isProcessing || !file}
+                className={styles.processButton}
+              >
+                {isProcessing && job?.stage === 'detecting' ? '分析中...' : '分析語音段落'}
+              </button>
+
+              {analysis && history && (
+                <>
+                  {audioUrl && (
+                    <WaveformVisualizer
+                      audioUrl={audioUrl}
+                      session={history.present}
+                      onChange={isProcessing ? undefined : handleRangeChange}
+                      frameRate={analysis.media.hasVideo ? analysis.media.fps : undefined}
+                    />
+                  )}
+                  <SegmentEditor history={history} onChange={setHistory} disabled={isProcessing} />
+                  {/* 降噪在瀏覽器中處理，只能使用瀏覽器解碼的預設音軌 */}
+                  {sourceBuffer && audioStream === 0 && (
+                    <NoiseReductionPanel
+                      buffer={sourceBuffer}
+                      session={history.present}
+                      options={noiseReduction}
+                      onChange={setNoiseReduction}
+                      disabled={isProcessing}
+                    />
+                  )}
+                  <div className={styles.exportControls}>
+                    <button onClick={handleSaveProject} className={styles.exportButton}>
+                      儲存專案
+                    </button>
+                    <label className={styles.option}>
+                      開啟專案：
+                      <input
+                        type="file"
+                        accept={`${PROJECT_FILE_EXTENSION},application/json`}
+                        onChange={handleOpenProject}
+                        disabled={isProcessing}
+                      />
+                    </label>
+                  </div>
+                  {analysis.media.audioStreams.length > 1 && (
+                    <label className={styles.option}>
+                      音軌：
+                      <select
+                        value={audioStream}
+                        onChange={(e) => setAudioStream(Number(e.target.value))}
+                        disabled={isProcessing}
+                      >
+                        {analysis.media.audioStreams.map(stream => (
+                          <option key={stream.index} value={stream.index}>
+                            {stream.title ?? stream.language ?? `音軌 ${stream.index + 1}`}
+                            {stream.channels ? ` (${stream.channels} 聲道)` : ''}
+                          </option>
+                        ))}
+                      </select>
+                      （變更後請重新分析）
+                    </label>
+                  )}
+                  {analysis.media.hasVideo ? (
+                    <label className={styles.option}>
+                      <input
+                        type="checkbox"
+                        checked={fastMode}
+                        onChange={(e) => setFastMode(e.target.checked)}
+                        disabled={isProcessing}
+                      />
+                      快速模式（不重新編碼，切點對齊關鍵幀，無拼接淡化）
+                    </label>
+                  ) : (
+                    <label className={styles.option}>
+                      輸出格式：
+                      <select
+                        value={audioFormat}
+                        onChange={(e) => setAudioFormat(e.target.value as AudioOutputFormat | '')}
+                        disabled={isProcessing}
+                      >
+                        <option value="">與原始檔相同</option>
+                        {AUDIO_OUTPUT_FORMATS.map(format => (
+                          <option key={format} value={format}>{format.toUpperCase()}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                  {analysis.media.hasAudio && (
+                    <label className={styles.option}>
+                      響度標準化：
+                      <select
+                        value={loudnessPreset}
+                        onChange={(e) => setLoudnessPreset(e.target.value as LoudnessPreset | '')}
+                        disabled={isProcessing}
+                      >
+                        <option value="">關閉</option>
+                        {(Object.keys(LOUDNESS_PRESET_LABELS) as LoudnessPreset[]).map(preset => (
+                          <option key={preset} value={preset}>{LOUDNESS_PRESET_LABELS[preset]}</option>
+                        ))}
+                      </select>
+                      {loudnessPreset && (
+                        <>
+                          {' '}真峰值上限：
+                          <input
+                            type="number"
+                            min={-9}
+                            max={0}
+                            step={0.5}
+                            value={truePeakCeiling}
+                            onChange={(e) => setTruePeakCeiling(Number(e.target.value))}
+                            disabled={isProcessing}
+                          />
+                          {' '}dBTP
+                        </>
+                      )}
+                    </label>
+                  )}
+                  {!analysis.media.hasAudio && <p>此影片沒有音訊，將保留完整影片。</p>}
+                  <button
+                    onClick={handleRender}
+                    disabled={isProcessing || !hasKeptSegments}
+                    className={styles.processButton}
+                  >
+                    {isProcessing && (job?.stage === 'cutting' || job?.stage === 'normalizing') ? '剪輯中...' : '開始剪輯'}
+                  </button>
+                  {/* 瀏覽器匯出與降噪相同，只能使用瀏覽器解碼的預設音軌 */}
+                  {sourceBuffer && audioStream === 0 && hasKeptSegments && (
+                    <ClientExport
+                      buffer={sourceBuffer}
+                      session={history.present}
+                      options={{
+                        ...noiseReduction,
+                        ...(loudnessPreset && {
+                          normalize: true,
+                          normalizeMode: 'lufs',
+                          normalizeTarget: LOUDNESS_TARGETS[loudnessPreset],
+                          truePeakCeiling,
+                        }),
+                      }}
+                      disabled={isProcessing}
+                    />
+                  )}
+                  <div className={styles.exportControls}>
+                    <select
+                      value={edlFormat}
+                      onChange={(e) => setEdlFormat(e.target.value as EdlFormat)}
+                      disabled={isExporting}
+                    >
+                      {(Object.keys(EDL_FORMAT_LABELS) as EdlFormat[]).map(format => (
+                        <option key={format} value={format}>{EDL_FORMAT_LABELS[format]}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleExport}
+                      disabled={isExporting || !hasKeptSegments}
+                      className={styles.exportButton}
+                    >
+                      {isExporting ? '匯出中...' : '匯出剪輯清單'}
+                    </button>
+                  </div>
+                </>
+              )}
+
+              {isProcessing && job && (
+                <>
+                  <button onClick={handleCancel} className={styles.cancelButton}>
+                    取消
+                  </button>
+                  <div className={styles.progressBar}>
+                    <div
+                      className={styles.progress}
+                      style={{ width: `${job.progress}%` }}
+                    ></div>
+                  </div>
+                  <span className={styles.progressText}>
+                    {STAGE_LABELS[job.stage]} ({job.stageProgress.toFixed(0)}%) · 整體 {job.progress.toFixed(0)}%
+                  </span>
+                </>
+              )}
+            </div>
+          )}
+
+          {result && !isProcessing && (
+            <div className={styles.result} style={{ marginTop: '20px' }}>
+              <h3>處理完成！</h3>
+              {isAudioOutput(result.outputId) ? (
+                <audio
+                  className={styles.player}
+                  src={resolveOutputUrl(result.outputUrl)}
+                  controls
+                  preload="metadata"
+                />
+              ) : (
+                <video
+                  className={styles.player}
+                  src={resolveOutputUrl(result.outputUrl)}
+                  controls
+                  preload="metadata"
+                  crossOrigin="anonymous"
+                >
+                  {result.captionsUrl && result.captionsId?.endsWith('.vtt') && (
+                    <track kind="captions" src={resolveOutputUrl(result.captionsUrl)} default />
+                  )}
+                </video>
+              )}
+              {(analysis?.media.hasAudio ?? true) && (
+                <LoudnessTable
+                  // 瀏覽器只能解碼預設音軌，輸出使用其他音軌時不與之對照
+                  source={audioStream === 0 ? sourceLoudness : 'unavailable'}
+                  output={outputLoudness}
+                  normalization={result.loudness}
+                />
+              )}
+              {result.chapters.length > 0 && (
+                <ol className={styles.chapterList}>
+                  {result.chapters.map(chapter => (
+                    <li key={`${chapter.start}-${chapter.title}`}>
+                      {formatChapterTime(chapter.start)} {chapter.title}
+                    </li>
+                  ))}
+                </ol>
+              )}
+              <a
+                className={styles.downloadButton}
+                href={resolveOutputUrl(result.outputUrl, true)}
+                download={result.outputId}
+              >
+                下載檔案
+              </a>
+              {result.captionsUrl && result.captionsId && (
+                <a
+                  className={styles.downloadButton}
+                  href={resolveOutputUrl(result.captionsUrl, true)}
+                  download={result.captionsId}
+                  style={{ marginLeft: '10px' }}
+                >
+                  下載字幕
+                </a>
+              )}
+            </div>
+          )}
+        </>
       )}
     </div>
   );
@@ -0,0 +1,270 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import styles from './AudioEditor.module.css';
+import { DetectionSettings } from './DetectionSettings';
+import { cancelJob, fetchJob, isJobFinished, Job, resolveOutputUrl, uploadVideo, watchJob } from '../api';
+import {
+  BATCH_STATUS_LABELS,
+  BatchItem,
+  batchPatchFromJob,
+  createBatchItem,
+  DEFAULT_BATCH_CONCURRENCY,
+  formatBatchReport,
+  isBatchItemActive,
+  MAX_BATCH_CONCURRENCY,
+  nextBatchItems,
+  retryBatchItem,
+  summarizeBatch,
+  updateBatchItem,
+} from '../batchQueue';
+import { DetectionOptions, DetectionPresetName } from '../detectionOptions';
+import { downloadBlob } from '../download';
+
+interface Props {
+  defaultPreset: DetectionPresetName;   // 新加入的檔案使用的偵測參數
+  defaultOptions: DetectionOptions;
+}
+
+// 只接受影片與純音訊檔案 (與單檔上傳相同)
+const isMediaFile = (file: File) => file.type.startsWith('video/') || file.type.startsWith('audio/');
+
+// 長度顯示為 [h:]mm:ss
+const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const rest = `${String(Math.floor(total / 60) % 60).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${rest}` : rest;
+};
+
+// 批次處理：拖放多個檔案，依同時任務上限逐一上傳並剪輯
+export const BatchQueue: React.FC<Props> = ({ defaultPreset, defaultOptions }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [running, setRunning] = useState(false);
+  const [dragActive, setDragActive] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const nextIdRef = useRef(1);
+  // 已開始的處理 (項目 ID 與嘗試次數)，避免同一次處理重複上傳
+  const startedRef = useRef(new Set<string>());
+  const unsubscribesRef = useRef(new Map<string, () => void>());
+  const mountedRef = useRef(false);
+
+  const summary = summarizeBatch(items);
+
+  const patchItem = useCallback((id: string, patch: Partial<BatchItem>) => {
+    setItems(current => updateBatchItem(current, id, patch));
+  }, []);
+
+  // 追蹤項目的任務進度；無法再取得任務狀態時標示失敗，但保留任務 ID 讓重試重新連接
+  const attachItem = useCallback((itemId: string, jobId: string) => {
+    unsubscribesRef.current.get(itemId)?.();
+    unsubscribesRef.current.set(itemId, watchJob(
+      jobId,
+      (job) => {
+        patchItem(itemId, batchPatchFromJob(job));
+        if (isJobFinished(job)) unsubscribesRef.current.delete(itemId);
+      },
+      (error) => {
+        unsubscribesRef.current.delete(itemId);
+        patchItem(itemId, { status: 'failed', error: `無法取得任務狀態: ${error.message}` });
+      }
+    ));
+  }, [patchItem]);
+
+  const startItem = useCallback((item: BatchItem) => {
+    const attempt = item.attempts + 1;
+    const key = `${item.id}#${attempt}`;
+    if (startedRef.current.has(key)) return;
+    startedRef.current.add(key);
+
+    const onError = (error: unknown) => {
+      console.error('批次處理失敗:', error);
+      patchItem(item.id, { status: 'failed', error: error instanceof Error ? error.message : '發生未知錯誤' });
+    };
+    const attach = (job: Job) => {
+      // 元件已卸載時不再訂閱，任務仍會在伺服器上完成
+      if (!mountedRef.current) return;
+      patchItem(item.id, { jobId: job.id, ...batchPatchFromJob(job) });
+      if (!isJobFinished(job)) attachItem(item.id, job.id);
+    };
+
+    if (item.jobId) {
+      // 先前因連線中斷而失敗：重新連接原任務，避免重新上傳而產生重複的任務
+      patchItem(item.id, { status: 'analyzing', attempts: attempt });
+      fetchJob(item.jobId).then(attach).catch(onError);
+      return;
+    }
+    patchItem(item.id, { status: 'analyzing', progress: 0, attempts: attempt });
+    uploadVideo(item.file, item.options).then(attach).catch(onError);
+  }, [patchItem, attachItem]);
+
+  // 依同時任務上限開始等待中的項目
+  useEffect(() => {
+    if (!running) return;
+    nextBatchItems(items, concurrency).forEach(startItem);
+  }, [items, concurrency, running, startItem]);
+
+  // 全部結束後停止佇列，之後加入的檔案需再按開始
+  useEffect(() => {
+    if (summary.finished) setRunning(false);
+  }, [summary.finished]);
+
+  useEffect(() => {
+    const unsubscribes = unsubscribesRef.current;
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+      unsubscribes.clear();
+    };
+  }, []);
+
+  const addFiles = (files: File[]) => {
+    const media = files.filter(isMediaFile);
+    if (media.length === 0) return;
+    setItems(current => [
+      ...current,
+      ...media.map(file => createBatchItem(`batch-${nextIdRef.current++}`, file, defaultPreset, defaultOptions)),
+    ]);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragActive(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  const handleCancel = async (item: BatchItem) => {
+    if (!item.jobId) return;
+    try {
+      await cancelJob(item.jobId);
+    } catch (error) {
+      console.error('取消任務失敗:', error);
+      patchItem(item.id, { error: error instanceof Error ? error.message : '發生未知錯誤' });
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    setItems(current => current.filter(item => item.id !== id));
+  };
+
+  const handleRetry = (id: string) => {
+    setItems(current => retryBatchItem(current, id));
+    setRunning(true);
+  };
+
+  const handleDownloadReport = () => {
+    downloadBlob(new Blob([formatBatchReport(items)], { type: 'text/csv;charset=utf-8' }), 'wellcut-batch-report.csv');
+  };
+
+  return (
+    <div>
+      <div
+        className={`${styles.dropZone} ${dragActive ? styles.dropZoneActive : ''}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragActive(true);
+        }}
+        onDragLeave={() => setDragActive(false)}
+        onDrop={handleDrop}
+      >
+        <p>將多個影片或音訊檔案拖放到這裡，或</p>
+        <input type="file" accept="video/*,audio/*" multiple onChange={handleFileChange} />
+      </div>
+
+      <div className={styles.exportControls}>
+        <label className={styles.option} style={{ marginBottom: 0 }}>
+          同時處理：
+          <input
+            type="number"
+            min={1}
+            max={MAX_BATCH_CONCURRENCY}
+            value={concurrency}
+            onChange={(e) => setConcurrency(Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+          />
+          {' '}個檔案
+        </label>
+        <button
+          onClick={() => setRunning(value => !value)}
+          disabled={!running && !items.some(item => item.status === 'queued')}
+          className={styles.processButton}
+        >
+          {running ? '暫停佇列' : '開始批次處理'}
+        </button>
+      </div>
+
+      {items.length > 0 && (
+        <ul className={styles.batchList}>
+          {items.map(item => {
+            const editable = item.status === 'queued' || item.status === 'failed';
+            return (
+              <li key={item.id} className={styles.batchItem}>
+                <div className={styles.batchItemHeader}>
+                  <span className={styles.batchFileName} title={item.file.name}>{item.file.name}</span>
+                  <span>
+                    {item.status === 'analyzing' && !item.jobId ? '上傳中' : BATCH_STATUS_LABELS[item.status]}
+                    {isBatchItemActive(item) && ` ${item.progress.toFixed(0)}%`}
+                  </span>
+                </div>
+                {isBatchItemActive(item) && (
+                  <div className={styles.progressBar}>
+                    <div className={styles.progress} style={{ width: `${item.progress}%` }}></div>
+                  </div>
+                )}
+                {item.error && <div style={{ color: 'red', fontSize: '0.85rem' }}>錯誤: {item.error}</div>}
+                <div className={styles.batchItemActions}>
+                  {editable && (
+                    <button onClick={() => setExpandedId(expandedId === item.id ? null : item.id)}>
+                      {expandedId === item.id ? '收起參數' : '偵測參數'}
+                    </button>
+                  )}
+                  {item.status === 'failed' && <button onClick={() => handleRetry(item.id)}>重試</button>}
+                  {isBatchItemActive(item) && item.jobId && <button onClick={() => handleCancel(item)}>取消</button>}
+                  {!isBatchItemActive(item) && <button onClick={() => handleRemove(item.id)}>移除</button>}
+                  {item.result && (
+                    <a href={resolveOutputUrl(item.result.outputUrl, true)} download={item.result.outputId}>
+                      下載結果
+                    </a>
+                  )}
+                </div>
+                {editable && expandedId === item.id && (
+                  <DetectionSettings
+                    preset={item.preset}
+                    options={item.options}
+                    // 參數變更後不能沿用原任務，重試時重新上傳
+                    onChange={(preset, options) => patchItem(item.id, { preset, options, jobId: undefined })}
+                  />
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {summary.total > 0 && (
+        <div className={styles.batchSummary}>
+          {summary.finished ? (
+            <>
+              <h3>批次處理完成</h3>
+              <p>
+                共 {summary.total} 個檔案：成功 {summary.done} 個，失敗 {summary.failed} 個；
+                剪輯後總長 {formatDuration(summary.keptDuration)}
+              </p>
+              <button onClick={handleDownloadReport} className={styles.exportButton}>
+                下載報告 (CSV)
+              </button>
+            </>
+          ) : (
+            <p>
+              共 {summary.total} 個檔案：完成 {summary.done}，失敗 {summary.failed}，未完成 {summary.pending}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
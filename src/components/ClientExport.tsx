@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from 'react';
+import styles from './AudioEditor.module.css';
+import {
+  AudioFormat,
+  AudioProcessingOptions,
+  getEncoder,
+  listEncoders,
+  listUnsupportedFormats,
+  processEditSession,
+} from '../audioProcessor';
+import { EditSession } from '../editSession';
+import { downloadBlob } from '../download';
+
+interface Props {
+  buffer: AudioBuffer;     // 瀏覽器解碼的來源音軌
+  session: EditSession;
+  options: Omit<AudioProcessingOptions, 'signal' | 'onProgress'>; // 降噪與響度標準化等處理參數
+  disabled?: boolean;
+}
+
+// 在瀏覽器中匯出剪輯後的音訊：拼接保留區間、套用降噪與標準化後以客戶端編碼器編碼，不經過伺服器
+export const ClientExport: React.FC<Props> = ({ buffer, session, options, disabled }) => {
+  // 目前環境無法使用的格式仍列出但停用，並顯示原因
+  const [unsupported] = useState(() => new Map(listUnsupportedFormats().map(({ format, reason }) => [format, reason])));
+  const [formats] = useState(() => [...listEncoders().map(encoder => encoder.format), ...unsupported.keys()]);
+  const [format, setFormat] = useState<AudioFormat>(formats.find(name => !unsupported.has(name)) ?? 'wav');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // 卸載或更換來源時取消進行中的匯出
+  useEffect(() => () => controllerRef.current?.abort(), [buffer]);
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setMessage(null);
+    setProgress(0);
+    try {
+      const blob = await processEditSession(buffer, session, format, {
+        ...options,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      const baseName = session.source.fileName.replace(/\.[^.]+$/, '') || 'wellcut';
+      downloadBlob(blob, `${baseName}-cut.${getEncoder(format).extension}`);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error('瀏覽器匯出失敗:', error);
+      setMessage(error instanceof Error ? error.message : '發生未知錯誤');
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  return (
+    <div className="client-export" style={{ margin: '15px 0', fontSize: '0.9rem' }}>
+      <div className={styles.exportControls}>
+        <label>
+          瀏覽器匯出格式：
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as AudioFormat)}
+            disabled={disabled || progress !== null}
+          >
+            {formats.map(name => (
+              <option key={name} value={name} disabled={unsupported.has(name)} title={unsupported.get(name)}>
+                {name.toUpperCase()}{unsupported.has(name) ? '（不支援）' : ''}
+              </option>
+            ))}
+          </select>
+        </label>
+        {progress === null ? (
+          <button onClick={handleExport} disabled={disabled} className={styles.exportButton}>
+            在瀏覽器中匯出音訊
+          </button>
+        ) : (
+          <button onClick={() => controllerRef.current?.abort()} className={styles.exportButton}>
+            取消匯出 ({progress.toFixed(0)}%)
+          </button>
+        )}
+      </div>
+      <div style={{ fontSize: '0.85rem', color: '#6B7280' }}>
+        套用上方的降噪與響度標準化設定，只輸出音訊
+        {[...unsupported].map(([name, reason]) => (
+          <div key={name}>{reason}</div>
+        ))}
+      </div>
+      {message && <div style={{ color: 'red', fontSize: '0.85rem', marginTop: '5px' }}>錯誤: {message}</div>}
+    </div>
+  );
+};
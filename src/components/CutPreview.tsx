@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { decodeAudioFile, detectSpeechInWorker } from '../audioProcessor';
+import { CutPrediction, predictCuts, toSpeechDetectionOptions, VOICE_DETECTOR_LABELS } from '../cutPreview';
+import { DETECTION_OPTION_BOUNDS, DetectionOptions } from '../detectionOptions';
+import { VoiceDetectorName } from '../voiceActivity';
+import { WaveformVisualizer } from './WaveformVisualizer';
+
+interface Props {
+  file: File;
+  options: DetectionOptions;
+  detector: VoiceDetectorName;
+  onDetectorChange: (detector: VoiceDetectorName) => void;
+  onThresholdChange: (threshold: number) => void;
+  onPrediction: (prediction: CutPrediction | null) => void;
+  onSourceDecoded: (buffer: AudioBuffer | null) => void; // 解碼完成的音頻緩衝區 (例如用於量測來源響度)，解碼前或無法解碼時為 null
+  disabled?: boolean;
+}
+
+// 超過此大小的檔案不在瀏覽器中解碼，避免整個檔案讀入記憶體
+const MAX_PREVIEW_FILE_SIZE = 1024 * 1024 * 1024;
+
+// 參數停止變動多久後才重新偵測 (毫秒)，拖動閾值時不必每一步都重算
+const DETECTION_DEBOUNCE = 300;
+
+const formatSeconds = (time: number): string => {
+  const minutes = Math.floor(time / 60);
+  const seconds = time % 60;
+  return `${minutes}:${seconds.toFixed(1).padStart(4, '0')}`;
+};
+
+// 上傳前的本機剪輯預覽：在瀏覽器中解碼音軌並偵測語音，於波形上標示預計剪掉的區間
+export const CutPreview: React.FC<Props> = ({
+  file,
+  options,
+  detector,
+  onDetectorChange,
+  onThresholdChange,
+  onPrediction,
+  onSourceDecoded,
+  disabled,
+}) => {
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+  const [prediction, setPrediction] = useState<CutPrediction | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // 解碼選擇的檔案
+  useEffect(() => {
+    setAudioBuffer(null);
+    setPrediction(null);
+    onPrediction(null);
+    onSourceDecoded(null);
+    if (file.size > MAX_PREVIEW_FILE_SIZE) {
+      setMessage('檔案過大，略過本機預覽，將由伺服器偵測');
+      return;
+    }
+
+    const url = URL.createObjectURL(file);
+    setAudioUrl(url);
+    setMessage('正在解碼音軌...');
+    let cancelled = false;
+    decodeAudioFile(file)
+      .then((buffer) => {
+        if (cancelled) return;
+        setAudioBuffer(buffer);
+        onSourceDecoded(buffer);
+        setMessage(null);
+      })
+      .catch((error) => {
+        console.error('解碼音軌失敗:', error);
+        if (!cancelled) setMessage('瀏覽器無法解碼此檔案的音軌，將由伺服器偵測');
+      });
+
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(url);
+      setAudioUrl(null);
+    };
+  }, [file, onPrediction, onSourceDecoded]);
+
+  // 參數變更後在 Worker 中重新偵測，新的偵測開始時取消進行中的偵測
+  useEffect(() => {
+    if (!audioBuffer) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setProgress(0);
+      detectSpeechInWorker(audioBuffer, toSpeechDetectionOptions(options, detector), {
+        signal: controller.signal,
+        onProgress: setProgress,
+      })
+        .then((detection) => {
+          const next = predictCuts(detection, options, audioBuffer.duration);
+          setPrediction(next);
+          onPrediction(next);
+          setProgress(null);
+          setMessage(null);
+        })
+        .catch((error) => {
+          if (error instanceof DOMException && error.name === 'AbortError') return;
+          console.error('本機語音偵測失敗:', error);
+          setMessage(`本機語音偵測失敗: ${error instanceof Error ? error.message : '未知錯誤'}`);
+          setProgress(null);
+        });
+    }, DETECTION_DEBOUNCE);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [audioBuffer, options, detector, onPrediction]);
+
+  const bounds = DETECTION_OPTION_BOUNDS.silenceThreshold;
+
+  return (
+    <div className="cut-preview" style={{ margin: '15px 0' }}>
+      {audioUrl && audioBuffer && (
+        <WaveformVisualizer audioUrl={audioUrl} silenceSegments={prediction?.removed} />
+      )}
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px', fontSize: '0.9rem' }}>
+        <label>
+          偵測方式：
+          <select
+            value={detector}
+            onChange={(e) => onDetectorChange(e.target.value as VoiceDetectorName)}
+            disabled={disabled || !audioBuffer}
+          >
+            {(Object.keys(VOICE_DETECTOR_LABELS) as VoiceDetectorName[]).map(name => (
+              <option key={name} value={name}>{VOICE_DETECTOR_LABELS[name]}</option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+          靜音閾值：
+          <input
+            type="range"
+            min={bounds.min}
+            max={bounds.max}
+            step={bounds.step}
+            value={options.silenceThreshold}
+            onChange={(e) => onThresholdChange(Number(e.target.value))}
+            disabled={disabled || !audioBuffer}
+          />
+          {options.silenceThreshold} dB
+        </label>
+      </div>
+      <div style={{ fontSize: '0.85rem', color: '#6B7280', marginTop: '5px' }}>
+        {message ?? (progress !== null
+          ? `本機分析中 (${progress.toFixed(0)}%)`
+          : prediction && audioBuffer && (
+            `預計保留 ${prediction.segments.length} 段，剪輯後 ${formatSeconds(prediction.keptDuration)} / ${formatSeconds(audioBuffer.duration)}` +
+            `（剪掉 ${formatSeconds(audioBuffer.duration - prediction.keptDuration)}）`
+          ))}
+      </div>
+    </div>
+  );
+};
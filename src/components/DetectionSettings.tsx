@@ -0,0 +1,62 @@
+import React from 'react';
+import {
+  DETECTION_OPTION_BOUNDS,
+  DETECTION_OPTION_LABELS,
+  DETECTION_PRESETS,
+  DetectionOptions,
+  DetectionPresetName,
+} from '../detectionOptions';
+
+interface Props {
+  preset: DetectionPresetName;
+  options: DetectionOptions;
+  onChange: (preset: DetectionPresetName, options: DetectionOptions) => void;
+  disabled?: boolean;
+}
+
+// 偵測參數設定：選擇預設模式，或在自定義模式下調整個別參數
+export const DetectionSettings: React.FC<Props> = ({ preset, options, onChange, disabled }) => {
+  const handlePresetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const name = e.target.value as DetectionPresetName;
+    // 切換到自定義模式時保留目前的參數，方便在預設值基礎上微調
+    onChange(name, name === 'custom' ? options : DETECTION_PRESETS[name].options);
+  };
+
+  const handleOptionChange = (key: keyof DetectionOptions, value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    const { min, max } = DETECTION_OPTION_BOUNDS[key];
+    onChange('custom', { ...options, [key]: Math.min(max, Math.max(min, parsed)) });
+  };
+
+  return (
+    <div className="detection-settings" style={{ margin: '15px 0', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+        <span>分析模式:</span>
+        <select value={preset} onChange={handlePresetChange} disabled={disabled}>
+          {(Object.keys(DETECTION_PRESETS) as DetectionPresetName[]).map(name => (
+            <option key={name} value={name}>{DETECTION_PRESETS[name].label}</option>
+          ))}
+        </select>
+      </label>
+      <div style={{ fontSize: '0.85rem', color: '#6B7280' }}>{DETECTION_PRESETS[preset].description}</div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+        {(Object.keys(DETECTION_OPTION_LABELS) as Array<keyof DetectionOptions>).map(key => (
+          <label key={key} style={{ display: 'flex', flexDirection: 'column', fontSize: '0.9rem' }}>
+            {DETECTION_OPTION_LABELS[key]}
+            <input
+              type="number"
+              value={options[key]}
+              min={DETECTION_OPTION_BOUNDS[key].min}
+              max={DETECTION_OPTION_BOUNDS[key].max}
+              step={DETECTION_OPTION_BOUNDS[key].step}
+              onChange={(e) => handleOptionChange(key, e.target.value)}
+              disabled={disabled || preset !== 'custom'}
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioPreview, NoiseReductionOptions, previewAudioClip } from '../audioProcessor';
+import { EditSession } from '../editSession';
+import { NOISE_FFT_SIZE } from '../noiseReduction';
+
+interface Props {
+  buffer: AudioBuffer;    // 瀏覽器解碼的來源音軌
+  session: EditSession;   // 保留區間供試聽，移除區間可作為噪音樣本
+  options: NoiseReductionOptions;
+  onChange: (options: NoiseReductionOptions) => void;
+  disabled?: boolean;
+}
+
+const formatSeconds = (time: number): string => {
+  const minutes = Math.floor(time / 60);
+  const seconds = time % 60;
+  return `${minutes}:${seconds.toFixed(2).padStart(5, '0')}`;
+};
+
+const regionKey = (region: { start: number; end: number }) => `${region.start}-${region.end}`;
+
+// 降噪設定：選擇學習噪音的區間 (預設自動使用偵測到的靜音) 與強度，並以保留區間試聽效果
+export const NoiseReductionPanel: React.FC<Props> = ({ buffer, session, options, onChange, disabled }) => {
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [previewState, setPreviewState] = useState<'idle' | 'preparing' | 'playing'>('idle');
+  const [message, setMessage] = useState<string | null>(null);
+  const previewRef = useRef<AudioPreview | null>(null);
+  // 每次試聽的序號，準備期間按下停止或開始新的試聽時捨棄舊的結果
+  const requestRef = useRef(0);
+
+  const strength = options.noiseReduction ?? 0;
+  const region = options.noiseProfileRegion;
+  const kept = session.ranges.filter(range => range.action === 'keep');
+  // 移除的區間通常只有背景噪音；短於一個 FFT 幀的區間無法學習
+  const noiseRegions = session.ranges.filter(range =>
+    range.action === 'remove' && range.end - range.start >= NOISE_FFT_SIZE / buffer.sampleRate);
+  const previewRange = kept[Math.min(previewIndex, kept.length - 1)];
+
+  const stopPreview = () => {
+    requestRef.current++;
+    previewRef.current?.stop();
+    previewRef.current = null;
+    setPreviewState('idle');
+  };
+
+  // 卸載或更換來源時停止試聽
+  useEffect(() => () => {
+    requestRef.current++;
+    previewRef.current?.stop();
+    previewRef.current = null;
+  }, [buffer]);
+
+  const startPreview = async () => {
+    if (!previewRange) return;
+    stopPreview();
+    const request = requestRef.current;
+    setMessage(null);
+    setPreviewState('preparing');
+    try {
+      const preview = await previewAudioClip(previewRange.start, previewRange.end, buffer, options);
+      if (request !== requestRef.current) {
+        preview.stop();
+        return;
+      }
+      previewRef.current = preview;
+      setPreviewState('playing');
+      await preview.ended;
+      if (request === requestRef.current) {
+        previewRef.current = null;
+        setPreviewState('idle');
+      }
+    } catch (error) {
+      console.error('降噪試聽失敗:', error);
+      if (request !== requestRef.current) return;
+      setPreviewState('idle');
+      setMessage(error instanceof Error ? error.message : '發生未知錯誤');
+    }
+  };
+
+  return (
+    <div className="noise-reduction" style={{ margin: '15px 0', fontSize: '0.9rem' }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+          降噪強度：
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={Math.round(strength * 100)}
+            onChange={(e) => onChange({ ...options, noiseReduction: Number(e.target.value) / 100 })}
+            disabled={disabled}
+          />
+          {strength > 0 ? `${Math.round(strength * 100)}%` : '關閉'}
+        </label>
+        <label>
+          噪音樣本：
+          <select
+            value={region ? regionKey(region) : ''}
+            onChange={(e) => onChange({
+              ...options,
+              noiseProfileRegion: noiseRegions.find(range => regionKey(range) === e.target.value),
+            })}
+            disabled={disabled || strength <= 0}
+          >
+            <option value="">自動（偵測到的靜音）</option>
+            {/* 編輯後已不在移除區間中的樣本仍保留為選項 */}
+            {region && !noiseRegions.some(range => regionKey(range) === regionKey(region)) && (
+              <option value={regionKey(region)}>
+                {formatSeconds(region.start)} – {formatSeconds(region.end)}
+              </option>
+            )}
+            {noiseRegions.map(range => (
+              <option key={range.id} value={regionKey(range)}>
+                移除區間 {session.ranges.indexOf(range) + 1}（{formatSeconds(range.start)} – {formatSeconds(range.end)}）
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px', marginTop: '5px' }}>
+        <label>
+          試聽：
+          <select
+            value={Math.min(previewIndex, kept.length - 1)}
+            onChange={(e) => setPreviewIndex(Number(e.target.value))}
+            disabled={disabled || kept.length === 0}
+          >
+            {kept.map((range, index) => (
+              <option key={range.id} value={index}>
+                保留區間 {session.ranges.indexOf(range) + 1}（{formatSeconds(range.start)} – {formatSeconds(range.end)}）
+              </option>
+            ))}
+          </select>
+        </label>
+        {previewState === 'idle' ? (
+          <button onClick={startPreview} disabled={disabled || !previewRange}>試聽</button>
+        ) : (
+          <button onClick={stopPreview}>{previewState === 'preparing' ? '準備中...（取消）' : '停止'}</button>
+        )}
+        <span style={{ color: '#6B7280' }}>將強度設為 0 可試聽原始聲音</span>
+      </div>
+      {message && <div style={{ color: 'red', fontSize: '0.85rem', marginTop: '5px' }}>錯誤: {message}</div>}
+    </div>
+  );
+};
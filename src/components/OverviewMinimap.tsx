@@ -0,0 +1,127 @@
+import { useEffect, useRef } from 'react';
+import { Segment } from '../api';
+import { Viewport } from '../timecode';
+
+interface Props {
+  duration: number;
+  peaks: number[] | null;        // 整個檔案的波形峰值 (0 ~ 1)，均勻分布於全長
+  overlays: Segment[];           // 剪掉或靜音的區間
+  viewport: Viewport | null;     // 主波形目前的可見範圍
+  currentTime: number;
+  onNavigate: (start: number) => void; // 捲動主波形，使可見範圍從 start 開始
+  onSeek: (time: number) => void;      // 單擊 (未拖曳) 時移動播放頭
+  height?: number;
+}
+
+const OVERLAY_COLOR = 'rgba(239, 68, 68, 0.35)';
+const VIEWPORT_COLOR = 'rgba(79, 70, 229, 0.2)';
+const VIEWPORT_BORDER = '#4F46E5';
+
+// 拖曳超過此距離 (像素) 才視為拖曳，否則為單擊
+const DRAG_THRESHOLD = 3;
+
+// 整個檔案的縮略圖：顯示所有剪掉的區間與目前的可見範圍，點擊或拖曳可移動可見範圍
+export const OverviewMinimap: React.FC<Props> = ({
+  duration,
+  peaks,
+  overlays,
+  viewport,
+  currentTime,
+  onNavigate,
+  onSeek,
+  height = 40,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ startX: number; dragging: boolean } | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    const width = canvas?.clientWidth ?? 0;
+    if (!canvas || !ctx || width === 0 || duration === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    const toX = (time: number) => (time / duration) * width;
+
+    // 波形 (與主波形相同做正規化，以中線上下對稱繪製)
+    if (peaks && peaks.length > 0) {
+      const maxPeak = peaks.reduce((max, value) => Math.max(max, Math.abs(value)), 0) || 1;
+      ctx.fillStyle = '#9CA3AF';
+      for (let x = 0; x < width; x++) {
+        const from = Math.floor((x / width) * peaks.length);
+        const to = Math.max(from + 1, Math.floor(((x + 1) / width) * peaks.length));
+        let peak = 0;
+        for (let i = from; i < to && i < peaks.length; i++) peak = Math.max(peak, Math.abs(peaks[i]));
+        const barHeight = Math.max(1, (peak / maxPeak) * height);
+        ctx.fillRect(x, (height - barHeight) / 2, 1, barHeight);
+      }
+    }
+
+    // 剪掉的區間
+    ctx.fillStyle = OVERLAY_COLOR;
+    overlays.forEach(segment => {
+      ctx.fillRect(toX(segment.start), 0, Math.max(1, toX(segment.end) - toX(segment.start)), height);
+    });
+
+    // 可見範圍
+    if (viewport) {
+      const left = toX(viewport.start);
+      const right = Math.max(left + 2, toX(viewport.end));
+      ctx.fillStyle = VIEWPORT_COLOR;
+      ctx.fillRect(left, 0, right - left, height);
+      ctx.strokeStyle = VIEWPORT_BORDER;
+      ctx.strokeRect(left + 0.5, 0.5, right - left - 1, height - 1);
+    }
+
+    // 播放頭
+    ctx.fillStyle = '#1E40AF';
+    ctx.fillRect(toX(currentTime), 0, 1, height);
+  }, [duration, peaks, overlays, viewport, currentTime, height]);
+
+  const timeAt = (clientX: number): number => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  // 讓可見範圍以指定時間為中心
+  const navigateTo = (time: number) => {
+    const length = viewport ? viewport.end - viewport.start : 0;
+    onNavigate(Math.max(0, Math.min(duration - length, time - length / 2)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { startX: e.clientX, dragging: false };
+    navigateTo(timeAt(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (Math.abs(e.clientX - drag.startX) > DRAG_THRESHOLD) drag.dragging = true;
+    if (drag.dragging) navigateTo(timeAt(e.clientX));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && !drag.dragging) onSeek(timeAt(e.clientX));
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => { dragRef.current = null; }}
+      style={{ width: '100%', height: `${height}px`, display: 'block', cursor: 'pointer', touchAction: 'none' }}
+      title="縮略圖：點擊移動播放頭，拖曳移動可見範圍"
+    />
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useEffect } from 'react';
+import {
+  applyEdit,
+  EditHistory,
+  EditSession,
+  keptSegments,
+  labelRange,
+  mergeRanges,
+  moveBoundary,
+  nudgeBoundary,
+  redo,
+  splitRange,
+  toggleRange,
+  undo,
+} from '../editSession';
+import { totalSegmentDuration } from '../segmentEditing';
+
+interface Props {
+  history: EditHistory;
+  onChange: (history: EditHistory) => void;
+  disabled?: boolean;
+}
+
+// 每次微調邊界移動的長度 (秒)
+const NUDGE_STEP = 0.05;
+
+const formatSeconds = (time: number): string => {
+  const minutes = Math.floor(time / 60);
+  const seconds = time % 60;
+  return `${minutes}:${seconds.toFixed(2).padStart(5, '0')}`;
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '2px 8px',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '0.8rem',
+};
+
+const ACTION_STYLES: Record<'keep' | 'remove', React.CSSProperties> = {
+  keep: { ...buttonStyle, backgroundColor: '#A7F3D0' },
+  remove: { ...buttonStyle, backgroundColor: '#FCA5A5' },
+};
+
+// 剪輯區間清單：切換保留 / 移除、分割、合併、微調邊界與標記區間，支援復原與重做
+export const SegmentEditor: React.FC<Props> = ({ history, onChange, disabled }) => {
+  const { ranges, source } = history.present;
+  const keptDuration = totalSegmentDuration(keptSegments(history.present));
+
+  const edit = (operation: (session: EditSession) => EditSession) => onChange(applyEdit(history, operation));
+
+  // Ctrl+Z / Ctrl+Shift+Z (或 Ctrl+Y) 復原與重做；在輸入框中保留瀏覽器原本的行為
+  useEffect(() => {
+    if (disabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.target instanceof HTMLInputElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onChange(undo(history));
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        onChange(redo(history));
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history, onChange, disabled]);
+
+  const handleBoundaryChange = (index: number, value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    edit(session => moveBoundary(session, index, parsed));
+  };
+
+  return (
+    <div className="segment-editor" style={{ margin: '15px 0' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.9rem', marginBottom: '5px' }}>
+        <span>
+          共 {ranges.length} 個區間，保留 {formatSeconds(keptDuration)} / {formatSeconds(source.duration)}
+          （移除 {formatSeconds(Math.max(0, source.duration - keptDuration))}）
+        </span>
+        <span style={{ display: 'flex', gap: '4px' }}>
+          <button
+            onClick={() => onChange(undo(history))}
+            disabled={disabled || history.past.length === 0}
+            style={{ ...buttonStyle, backgroundColor: '#E5E7EB' }}
+            title="復原 (Ctrl+Z)"
+          >
+            復原
+          </button>
+          <button
+            onClick={() => onChange(redo(history))}
+            disabled={disabled || history.future.length === 0}
+            style={{ ...buttonStyle, backgroundColor: '#E5E7EB' }}
+            title="重做 (Ctrl+Shift+Z)"
+          >
+            重做
+          </button>
+        </span>
+      </div>
+      <div style={{ maxHeight: '300px', overflowY: 'auto', border: '1px solid #E5E7EB', borderRadius: '4px' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.85rem' }}>
+          <thead>
+            <tr style={{ background: '#F3F4F6' }}>
+              <th>#</th>
+              <th></th>
+              <th>開始 (秒)</th>
+              <th>結束 (秒)</th>
+              <th>長度</th>
+              <th>標籤</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranges.map((range, index) => (
+              <tr key={range.id} style={{ opacity: range.action === 'remove' ? 0.6 : 1 }}>
+                <td style={{ textAlign: 'center' }}>{index + 1}</td>
+                <td>
+                  <button
+                    onClick={() => edit(session => toggleRange(session, index))}
+                    disabled={disabled}
+                    style={ACTION_STYLES[range.action]}
+                    title="切換保留 / 移除"
+                  >
+                    {range.action === 'keep' ? '保留' : '移除'}
+                  </button>
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    step={0.01}
+                    value={range.start.toFixed(2)}
+                    onChange={(e) => handleBoundaryChange(index - 1, e.target.value)}
+                    disabled={disabled || index === 0}
+                    style={{ width: '70px' }}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    step={0.01}
+                    value={range.end.toFixed(2)}
+                    onChange={(e) => handleBoundaryChange(index, e.target.value)}
+                    disabled={disabled || index === ranges.length - 1}
+                    style={{ width: '70px' }}
+                  />
+                </td>
+                <td style={{ textAlign: 'right' }}>{(range.end - range.start).toFixed(2)}s</td>
+                <td>
+                  {/* 失焦時才寫入，避免每個字元都成為一次復原步驟；復原後以 key 重設內容 */}
+                  <input
+                    key={range.label ?? ''}
+                    type="text"
+                    defaultValue={range.label ?? ''}
+                    onBlur={(e) => edit(session => labelRange(session, index, e.target.value))}
+                    disabled={disabled}
+                    style={{ width: '80px' }}
+                  />
+                </td>
+                <td style={{ display: 'flex', gap: '4px', justifyContent: 'flex-end' }}>
+                  <button
+                    onClick={() => edit(session => nudgeBoundary(session, index, -NUDGE_STEP))}
+                    disabled={disabled || index === ranges.length - 1}
+                    style={{ ...buttonStyle, backgroundColor: '#E5E7EB' }}
+                    title={`結束點提前 ${NUDGE_STEP} 秒`}
+                  >
+                    ◀
+                  </button>
+                  <button
+                    onClick={() => edit(session => nudgeBoundary(session, index, NUDGE_STEP))}
+                    disabled={disabled || index === ranges.length - 1}
+                    style={{ ...buttonStyle, backgroundColor: '#E5E7EB' }}
+                    title={`結束點延後 ${NUDGE_STEP} 秒`}
+                  >
+                    ▶
+                  </button>
+                  <button
+                    onClick={() => edit(session => splitRange(session, (range.start + range.end) / 2))}
+                    disabled={disabled}
+                    style={{ ...buttonStyle, backgroundColor: '#E5E7EB' }}
+                    title="從中間分割為兩個區間"
+                  >
+                    分割
+                  </button>
+                  <button
+                    onClick={() => edit(session => mergeRanges(session, index))}
+                    disabled={disabled || index === ranges.length - 1}
+                    style={{ ...buttonStyle, backgroundColor: '#E5E7EB' }}
+                    title="與下一個區間合併"
+                  >
+                    合併
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import { useEffect, useRef } from 'react';
+import { Spectrogram, spectrogramColor, spectrogramColumnAt } from '../spectrogram';
+import { Viewport } from '../timecode';
+
+interface Props {
+  spectrogram: Spectrogram;
+  viewport: Viewport; // 與波形相同的可見範圍，每個像素欄取對應時間的頻譜欄
+  height?: number;
+}
+
+// 強度對應顏色的查表，避免每個像素都計算漸層
+const COLOR_TABLE = Array.from({ length: 256 }, (_, value) => spectrogramColor(value));
+
+// 波形下方的頻譜圖：只繪製可見範圍，縮放與捲動時與波形對齊
+export const SpectrogramLane: React.FC<Props> = ({ spectrogram, viewport, height = 100 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    const width = canvas?.clientWidth ?? 0;
+    if (!canvas || !ctx || width === 0 || viewport.end <= viewport.start) return;
+
+    canvas.width = width;
+    canvas.height = height;
+    const image = ctx.createImageData(width, height);
+    const secondsPerPixel = (viewport.end - viewport.start) / width;
+    const { rows, data } = spectrogram;
+
+    for (let x = 0; x < width; x++) {
+      const column = spectrogramColumnAt(spectrogram, viewport.start + (x + 0.5) * secondsPerPixel);
+      for (let y = 0; y < height; y++) {
+        // 上方為高頻
+        const row = Math.floor(((height - 1 - y) / height) * rows);
+        const [r, g, b] = COLOR_TABLE[column < 0 ? 0 : data[column * rows + row]];
+        const offset = (y * width + x) * 4;
+        image.data[offset] = r;
+        image.data[offset + 1] = g;
+        image.data[offset + 2] = b;
+        image.data[offset + 3] = 255;
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+  }, [spectrogram, viewport, height]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{ width: '100%', height: `${height}px`, display: 'block', marginTop: '5px' }}
+      title={`頻譜圖 (${spectrogram.minFrequency} Hz ~ ${spectrogram.maxFrequency / 1000} kHz，對數刻度)`}
+    />
+  );
+};
@@ -1,457 +1,703 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import WaveSurfer from 'wavesurfer.js';
+import RegionsPlugin, { Region } from 'wavesurfer.js/dist/plugins/regions.esm.js';
+import { Segment } from '../api';
+import { computeSpectrogramInWorker } from '../audioWorkerClient';
+import { complementSegments, outputTimeAt, planCutPlayback, scheduleCutGain } from '../cutPlayback';
+import { EditRange, EditSession, keptSegments, RangeChange } from '../editSession';
+import { MIN_SEGMENT_LENGTH } from '../segmentEditing';
+import { Spectrogram } from '../spectrogram';
+import {
+  chooseTickInterval,
+  DEFAULT_FRAME_RATE,
+  formatTimecode,
+  SNAP_MODE_LABELS,
+  SnapMode,
+  snapTime,
+  tickPositions,
+  TIME_DISPLAY_LABELS,
+  TimeDisplayMode,
+  TimeScale,
+  Viewport,
+} from '../timecode';
+import { OverviewMinimap } from './OverviewMinimap';
+import { SpectrogramLane } from './SpectrogramLane';
 
 interface Props {
   audioUrl: string;
-  onSelection: (start: number, end: number) => void;
-  silenceSegments?: Array<{start: number, end: number}>;
+  session?: EditSession;                   // 每個區間顯示為可拖曳、可調整長度的區域
+  onChange?: (change: RangeChange) => void; // 區域被拖曳、切換、分割或刪除時回報，由呼叫端套用到工作階段
+  silenceSegments?: Segment[];             // 只顯示、不可編輯的靜音區間 (例如預計剪掉的部分)
+  frameRate?: number;                      // 影片的幀率，用於 SMPTE 時間碼與對齊幀；純音訊時使用預設幀率
 }
 
-export const WaveformVisualizer: React.FC<Props> = ({ audioUrl, onSelection, silenceSegments }) => {
+// 唯讀靜音區域的 id 前綴，與工作階段的區間 id 區分
+const SILENCE_REGION_PREFIX = 'silence-';
+
+const REGION_COLORS: Record<EditRange['action'], { normal: string; selected: string }> = {
+  keep: { normal: 'rgba(16, 185, 129, 0.15)', selected: 'rgba(16, 185, 129, 0.35)' },
+  remove: { normal: 'rgba(239, 68, 68, 0.2)', selected: 'rgba(239, 68, 68, 0.4)' },
+};
+
+const SILENCE_COLOR = 'rgba(255, 0, 0, 0.3)';
+
+// 剪輯預覽跳接時的淡出 / 淡入長度 (秒，實際播放時間)，由 GainNode 在音訊時鐘上排程
+const MICRO_FADE_DURATION = 0.02;
+
+// 播放中的位置約每個畫面更新一次；不支援 Web Audio 時剪輯預覽據此提早跳轉並逐次調整音量
+const TIMEUPDATE_INTERVAL = 1 / 60;
+// 逐次調整音量時，淡化需涵蓋數次位置更新才不會變成一兩階的跳變
+const FALLBACK_FADE_DURATION = 4 * TIMEUPDATE_INTERVAL;
+
+const RULER_HEIGHT = 30;
+
+// 縮放級別 1 為每秒 50 像素，每次放大一倍；最大約為每個取樣一個像素
+const BASE_PIXELS_PER_SECOND = 50;
+const MAX_ZOOM_LEVEL = 1024;
+
+// 解碼完成前假設的取樣率
+const FALLBACK_SAMPLE_RATE = 48000;
+
+// 縮略圖使用的波形峰值數
+const MINIMAP_PEAKS = 4000;
+
+// 由捲動位置與波形總寬度計算目前可見的時間範圍
+const readViewport = (ws: WaveSurfer): Viewport | null => {
+  const total = ws.getDuration();
+  const scrollWidth = ws.getWrapper().scrollWidth;
+  if (!total || !scrollWidth) return null;
+  const start = ws.getScroll() / scrollWidth * total;
+  return { start, end: start + ws.getWidth() / scrollWidth * total };
+};
+
+const controlButtonStyle: React.CSSProperties = {
+  padding: '5px 15px',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  minWidth: '80px'
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  backgroundColor: '#E5E7EB',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '0.9rem'
+};
+
+export const WaveformVisualizer: React.FC<Props> = ({ audioUrl, session, onChange, silenceSegments, frameRate }) => {
   const waveformRef = useRef<HTMLDivElement>(null);
   const wavesurfer = useRef<WaveSurfer | null>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const regionsPlugin = useRef<RegionsPlugin | null>(null);
   const timelineCanvasRef = useRef<HTMLCanvasElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [loopActive, setLoopActive] = useState(false);
-  const [currentRegion, setCurrentRegion] = useState<any>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
   const [playbackRate, setPlaybackRate] = useState(1);
   const [zoomLevel, setZoomLevel] = useState(1);
+  const [syncVersion, setSyncVersion] = useState(0);
+  const [cutPreview, setCutPreview] = useState(false);     // 依剪輯播放，跳過移除或靜音的區間
+  const [compareOriginal, setCompareOriginal] = useState(false); // A/B 比較：暫時改回播放原始音頻
+  const [microFade, setMicroFade] = useState(true);
+  const [viewport, setViewport] = useState<Viewport | null>(null);
+  const [sampleRate, setSampleRate] = useState(FALLBACK_SAMPLE_RATE);
+  const [timeDisplay, setTimeDisplay] = useState<TimeDisplayMode>('time');
+  const [snapMode, setSnapMode] = useState<SnapMode>('off');
+  const [minimapPeaks, setMinimapPeaks] = useState<number[] | null>(null);
+  const [showSpectrogram, setShowSpectrogram] = useState(false);
+  const [spectrogram, setSpectrogram] = useState<Spectrogram | null>(null);
+  const [spectrogramProgress, setSpectrogramProgress] = useState<number | null>(null);
+  // 對齊過零點用的第一聲道取樣
+  const samplesRef = useRef<Float32Array | null>(null);
 
-  // 繪製自定義時間線
-  const drawTimeline = () => {
-    if (!timelineCanvasRef.current || !wavesurfer.current || duration === 0) return;
-    
-    const canvas = timelineCanvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    // 清除畫布
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    
-    // 設置樣式
-    ctx.fillStyle = '#6B7280';
-    ctx.font = '10px Arial';
-    ctx.textAlign = 'center';
-    
-    // 計算間隔 (根據縮放級別調整)
-    const majorInterval = 60; // 每分鐘
-    const minorInterval = 10; // 每10秒
-    
-    // 總寬度和每秒的寬度
-    const totalWidth = canvas.width;
-    const pixelsPerSecond = totalWidth / duration;
-    
-    // 繪製主要時間標記（分鐘）
-    for (let i = 0; i <= duration; i += majorInterval) {
-      const x = i * pixelsPerSecond;
-      if (x <= totalWidth) {
-        // 繪製長線
-        ctx.fillRect(x, 0, 1, 10);
-        
-        // 顯示時間文字 (分:秒)
-        const minutes = Math.floor(i / 60);
-        const seconds = i % 60;
-        const timeText = `${minutes}:${seconds.toString().padStart(2, '0')}`;
-        ctx.fillText(timeText, x, 20);
-      }
-    }
-    
-    // 繪製次要時間標記（10秒）
-    for (let i = 0; i <= duration; i += minorInterval) {
-      if (i % majorInterval !== 0) { // 避免與主要標記重疊
-        const x = i * pixelsPerSecond;
-        if (x <= totalWidth) {
-          // 繪製短線
-          ctx.fillRect(x, 0, 1, 5);
-        }
-      }
-    }
-  };
+  const timeScale = useMemo<TimeScale>(
+    () => ({ frameRate: frameRate ?? DEFAULT_FRAME_RATE, sampleRate }),
+    [frameRate, sampleRate]
+  );
+  const formatTime = (time: number) => formatTimecode(time, timeDisplay, timeScale);
+
+  // 剪輯後保留的段落：有工作階段時取保留區間，否則為靜音區間以外的部分
+  const previewSegments = useMemo(() => {
+    if (session) return keptSegments(session);
+    if (silenceSegments && duration > 0) return complementSegments(silenceSegments, duration);
+    return null;
+  }, [session, silenceSegments, duration]);
+  const outputDuration = previewSegments?.reduce((total, segment) => total + segment.end - segment.start, 0) ?? 0;
+  // 縮略圖上標示剪掉的區間
+  const removedSegments = useMemo(
+    () => (previewSegments && duration > 0 ? complementSegments(previewSegments, duration) : []),
+    [previewSegments, duration]
+  );
+  const cutPlaybackActive = cutPreview && !compareOriginal && previewSegments !== null;
+
+  // WaveSurfer 只在音頻變更時重建，事件處理透過 ref 讀取最新的狀態與回呼
+  const onChangeRef = useRef(onChange);
+  const loopRef = useRef(loopActive);
+  const selectedRef = useRef(selectedId);
+  const cutPlaybackRef = useRef<{ segments: Segment[]; microFade: boolean; playbackRate: number } | null>(null);
+  // 剪輯預覽的音訊路徑 (媒體元素 → GainNode → 輸出)，第一次以剪輯預覽播放時建立；不支援 Web Audio 時為 null
+  const cutGainRef = useRef<{ context: AudioContext; gain: GainNode } | null>(null);
+  const jumpTimerRef = useRef<number | undefined>(undefined);
+  const scheduleCutRef = useRef(() => {});
+  const snapRef = useRef((time: number) => time);
+  onChangeRef.current = onChange;
+  snapRef.current = (time: number) => snapTime(time, snapMode, timeScale, samplesRef.current);
+  loopRef.current = loopActive;
+  selectedRef.current = selectedId;
+  cutPlaybackRef.current = cutPlaybackActive && previewSegments ? { segments: previewSegments, microFade, playbackRate } : null;
+
+  const selectedRange = session?.ranges.find(range => range.id === selectedId) ?? null;
 
   useEffect(() => {
-    if (waveformRef.current) {
-      wavesurfer.current = WaveSurfer.create({
-        container: waveformRef.current,
-        waveColor: '#4F46E5',
-        progressColor: '#6366F1',
-        cursorColor: '#1E40AF',
-        height: 120,
-        responsive: true,
-        normalize: true,
-        interact: true,
-        minPxPerSec: 50 * zoomLevel, // 控制縮放級別
-      });
+    if (!waveformRef.current) return;
 
-      wavesurfer.current.load(audioUrl);
-
-      wavesurfer.current.on('ready', () => {
-        if (wavesurfer.current) {
-          wavesurfer.current.enableDragSelection({
-            color: 'rgba(79, 70, 229, 0.1)'
-          });
-          setDuration(wavesurfer.current.getDuration());
-          
-          // 繪製時間線
-          drawTimeline();
-        }
-      });
+    const regions = RegionsPlugin.create();
+    const ws = WaveSurfer.create({
+      container: waveformRef.current,
+      waveColor: '#4F46E5',
+      progressColor: '#6366F1',
+      cursorColor: '#1E40AF',
+      height: 120,
+      normalize: true,
+      interact: true,
+      url: audioUrl,
+      plugins: [regions],
+    });
+    wavesurfer.current = ws;
+    regionsPlugin.current = regions;
 
-      wavesurfer.current.on('region-created', (region) => {
-        // 清除之前的區域
-        if (currentRegion) {
-          currentRegion.remove();
+    ws.on('ready', (loadedDuration) => {
+      const decoded = ws.getDecodedData();
+      samplesRef.current = decoded ? decoded.getChannelData(0) : null;
+      if (decoded) setSampleRate(decoded.sampleRate);
+      setMinimapPeaks(ws.exportPeaks({ channels: 1, maxLength: MINIMAP_PEAKS })[0] ?? null);
+      setDuration(loadedDuration);
+    });
+    // 時間尺、頻譜圖與縮略圖跟隨捲動與縮放
+    ws.on('scroll', (visibleStartTime, visibleEndTime) => setViewport({ start: visibleStartTime, end: visibleEndTime }));
+    ws.on('redraw', () => setViewport(readViewport(ws)));
+
+    // 剪輯預覽：將媒體元素接到 GainNode，跳接點前後的淡化在音訊時鐘上排程，並以計時器在跳接點跳轉
+    // 畫面更新在背景分頁會被節流，跳轉因此延遲時只會多出靜音，不會播出被剪掉的聲音
+    const ensureCutGain = () => {
+      if (!cutGainRef.current && typeof AudioContext !== 'undefined') {
+        try {
+          const context = new AudioContext();
+          const gain = context.createGain();
+          context.createMediaElementSource(ws.getMediaElement()).connect(gain);
+          gain.connect(context.destination);
+          cutGainRef.current = { context, gain };
+        } catch (error) {
+          console.error('無法建立剪輯預覽的音訊路徑，改為逐次調整音量:', error);
         }
-        
-        // 設置新區域
-        setCurrentRegion(region);
-        onSelection(region.start, region.end);
-        
-        region.on('update-end', () => {
-          onSelection(region.start, region.end);
-        });
+      }
+      return cutGainRef.current;
+    };
+    const scheduleCut = () => {
+      window.clearTimeout(jumpTimerRef.current);
+      const cutPlayback = cutPlaybackRef.current;
+      const graph = cutPlayback ? ensureCutGain() : cutGainRef.current;
+      if (!graph) return;
+      const { context, gain } = graph;
+      if (!cutPlayback || !ws.isPlaying()) {
+        gain.gain.cancelScheduledValues(context.currentTime);
+        gain.gain.setValueAtTime(1, context.currentTime);
+        return;
+      }
+      if (context.state === 'suspended') context.resume();
+      const jump = scheduleCutGain(gain.gain, cutPlayback.segments, ws.getCurrentTime(), context.currentTime, {
+        fadeDuration: cutPlayback.microFade ? MICRO_FADE_DURATION : 0,
+        playbackRate: cutPlayback.playbackRate,
       });
-      
-      wavesurfer.current.on('region-click', (region) => {
-        if (loopActive) {
-          region.play();
+      jumpTimerRef.current = window.setTimeout(() => {
+        if (jump.jumpTo === null) {
+          ws.pause();
+        } else {
+          ws.setTime(jump.jumpTo);
         }
-      });
+      }, jump.delay * 1000);
+    };
+    scheduleCutRef.current = scheduleCut;
+    // 跳轉 (或使用者移動播放頭) 期間保持靜音，完成後從新位置重新排程
+    const handleSeeked = () => scheduleCut();
+    ws.getMediaElement().addEventListener('seeked', handleSeeked);
+    ws.on('seeking', () => {
+      window.clearTimeout(jumpTimerRef.current);
+      const graph = cutGainRef.current;
+      if (graph && cutPlaybackRef.current && ws.isPlaying()) {
+        graph.gain.gain.cancelScheduledValues(graph.context.currentTime);
+        graph.gain.gain.setValueAtTime(0, graph.context.currentTime);
+      }
+    });
+    ws.on('play', () => {
+      setIsPlaying(true);
+      scheduleCut();
+    });
+    ws.on('pause', () => {
+      setIsPlaying(false);
+      scheduleCut();
+    });
+    // 不支援 Web Audio 時，播放中每次更新位置時決定是否跳過剪掉的區間，並逐次調整音量淡出淡入
+    ws.on('timeupdate', (time) => {
+      setCurrentTime(time);
+      const cutPlayback = cutPlaybackRef.current;
+      if (!cutPlayback || !ws.isPlaying() || cutGainRef.current) return;
 
-      wavesurfer.current.on('play', () => {
-        setIsPlaying(true);
+      const step = planCutPlayback(cutPlayback.segments, time, {
+        fadeDuration: cutPlayback.microFade ? FALLBACK_FADE_DURATION : 0,
+        playbackRate: cutPlayback.playbackRate,
+        lookahead: TIMEUPDATE_INTERVAL,
       });
+      ws.setVolume(step.volume);
+      if (step.finished) {
+        ws.pause();
+      } else if (step.jumpTo !== null) {
+        ws.setTime(step.jumpTo);
+      }
+    });
 
-      wavesurfer.current.on('pause', () => {
-        setIsPlaying(false);
-      });
+    // 點擊區域時選取該區域，播放頭照常移到點擊的位置，方便接著分割
+    regions.on('region-clicked', (region) => {
+      if (!region.id.startsWith(SILENCE_REGION_PREFIX)) setSelectedId(region.id);
+    });
+    // 拖曳或調整長度結束時回報，實際位置以套用後的工作階段為準 (相鄰區間會一起伸縮)
+    // 套用後工作階段可能不變 (例如被限制在原位)，因此也要求重新同步區域
+    regions.on('region-updated', (region) => {
+      const snap = snapRef.current;
+      onChangeRef.current?.({ type: 'resize', id: region.id, start: snap(region.start), end: snap(region.end) });
+      setSyncVersion(version => version + 1);
+    });
+    // 循環模式下，播放離開選取的區域時回到區域開頭
+    regions.on('region-out', (region) => {
+      if (loopRef.current && region.id === selectedRef.current && ws.isPlaying()) {
+        region.play();
+      }
+    });
 
-      wavesurfer.current.on('audioprocess', () => {
-        if (wavesurfer.current) {
-          setCurrentTime(wavesurfer.current.getCurrentTime());
-          
-          // 如果循環模式啟用且有選中區域，檢查是否需要循環
-          if (loopActive && currentRegion && wavesurfer.current.getCurrentTime() >= currentRegion.end) {
-            wavesurfer.current.setCurrentTime(currentRegion.start);
-          }
-        }
-      });
+    return () => {
+      window.clearTimeout(jumpTimerRef.current);
+      ws.getMediaElement().removeEventListener('seeked', handleSeeked);
+      scheduleCutRef.current = () => {};
+      cutGainRef.current?.context.close();
+      cutGainRef.current = null;
+      ws.destroy();
+      wavesurfer.current = null;
+      regionsPlugin.current = null;
+      samplesRef.current = null;
+      setViewport(null);
+      setMinimapPeaks(null);
+      setSpectrogram(null);
+      setDuration(0);
+      setCurrentTime(0);
+      setIsPlaying(false);
+    };
+  }, [audioUrl]);
 
-      wavesurfer.current.on('seek', () => {
-        if (wavesurfer.current) {
-          setCurrentTime(wavesurfer.current.getCurrentTime());
-        }
+  // 依工作階段與靜音區間同步區域：更新既有的、新增缺少的、移除多餘的
+  useEffect(() => {
+    const regions = regionsPlugin.current;
+    if (!regions || duration === 0) return;
+
+    const wanted = new Map<string, { start: number; end: number; color: string; content?: string; editable: boolean }>();
+    session?.ranges.forEach(range => {
+      const colors = REGION_COLORS[range.action];
+      wanted.set(range.id, {
+        start: range.start,
+        end: range.end,
+        color: range.id === selectedId ? colors.selected : colors.normal,
+        content: range.label,
+        editable: onChange !== undefined,
       });
-    }
+    });
+    silenceSegments?.forEach((segment, index) => {
+      wanted.set(`${SILENCE_REGION_PREFIX}${index}`, { ...segment, color: SILENCE_COLOR, editable: false });
+    });
 
-    return () => {
-      wavesurfer.current?.destroy();
-    };
-  }, [audioUrl, onSelection, loopActive]);
+    const existing = new Map<string, Region>(regions.getRegions().map(region => [region.id, region]));
+    existing.forEach((region, id) => {
+      if (!wanted.has(id)) region.remove();
+    });
+    wanted.forEach((params, id) => {
+      const region = existing.get(id);
+      if (region) {
+        region.setOptions({
+          start: params.start,
+          end: params.end,
+          color: params.color,
+          drag: params.editable,
+          resize: params.editable
+        });
+        region.setContent(params.content ?? '');
+      } else {
+        regions.addRegion({
+          id,
+          start: params.start,
+          end: params.end,
+          color: params.color,
+          content: params.content,
+          drag: params.editable,
+          resize: params.editable,
+          minLength: MIN_SEGMENT_LENGTH,
+        });
+      }
+    });
+  }, [session, silenceSegments, selectedId, duration, onChange, syncVersion]);
 
-  // 當縮放級別變更時重新繪製時間線
+  // 選取的區間被刪除或合併後取消選取
   useEffect(() => {
-    if (wavesurfer.current && duration > 0) {
-      // 繪製時間線
-      drawTimeline();
-      
-      // 縮放波形
-      wavesurfer.current.zoom(50 * zoomLevel);
-    }
-  }, [zoomLevel, duration]);
+    if (selectedId && !selectedRange) setSelectedId(null);
+  }, [selectedId, selectedRange]);
 
+  // 繪製時間尺：只畫可見範圍，刻度間隔依可見範圍每秒的像素數選擇
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas || !wavesurfer.current || !silenceSegments) return;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    // 等待波形準備好後繪製
-    const drawSilences = () => {
-      if (!wavesurfer.current || !silenceSegments) return;
-      
-      const totalDuration = wavesurfer.current.getDuration();
-      if (!totalDuration) return;
-      
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.fillStyle = 'rgba(255, 0, 0, 0.3)';
-      
-      silenceSegments.forEach(segment => {
-        const x = (segment.start / totalDuration) * canvas.width;
-        const width = ((segment.end - segment.start) / totalDuration) * canvas.width;
-        ctx.fillRect(x, 0, width, canvas.height);
-      });
-    };
-    
-    // 波形繪製函數
-    const drawWaveform = () => {
-      if (!wavesurfer.current) return;
-      
-      wavesurfer.current.on('ready', () => {
-        drawSilences();
-      });
-      
-      wavesurfer.current.on('seek', () => {
-        drawSilences();
-      });
+    const canvas = timelineCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !viewport || viewport.end <= viewport.start) return;
+
+    // 依實際顯示寬度與螢幕像素比設定畫布大小，避免標籤被拉伸或模糊
+    const width = canvas.clientWidth;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = RULER_HEIGHT * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, RULER_HEIGHT);
+
+    // 設置樣式
+    ctx.fillStyle = '#6B7280';
+    ctx.font = '10px Arial';
+    ctx.textAlign = 'center';
+
+    const pixelsPerSecond = width / (viewport.end - viewport.start);
+    const { major, minor } = chooseTickInterval(pixelsPerSecond, timeDisplay, timeScale);
+    const toX = (time: number) => (time - viewport.start) * pixelsPerSecond;
+
+    // 次要刻度
+    tickPositions(viewport.start, viewport.end, minor).forEach(time => {
+      ctx.fillRect(toX(time), 0, 1, 5);
+    });
+    // 主要刻度與標籤
+    tickPositions(viewport.start, viewport.end, major).forEach(time => {
+      const x = toX(time);
+      ctx.fillRect(x, 0, 1, 10);
+      ctx.fillText(formatTimecode(time, timeDisplay, timeScale), x, 20);
+    });
+  }, [viewport, timeDisplay, timeScale]);
+
+  // 開啟頻譜圖時在 Worker 中由解碼後的音頻計算，同一個音頻只計算一次
+  useEffect(() => {
+    const decoded = wavesurfer.current?.getDecodedData();
+    if (!showSpectrogram || spectrogram || !decoded || duration === 0) return;
 
-      // 當縮放級別改變時重繪靜音區域
-      wavesurfer.current.on('zoom', () => {
-        drawSilences();
+    const controller = new AbortController();
+    setSpectrogramProgress(0);
+    computeSpectrogramInWorker(decoded, {}, { signal: controller.signal, onProgress: setSpectrogramProgress })
+      .then((result) => {
+        setSpectrogram(result);
+        setSpectrogramProgress(null);
+      })
+      .catch((error) => {
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+        console.error('計算頻譜圖失敗:', error);
+        setSpectrogramProgress(null);
+        setShowSpectrogram(false);
       });
-    };
-    
-    drawWaveform();
-    
+
     return () => {
-      if (wavesurfer.current) {
-        wavesurfer.current.un('ready');
-        wavesurfer.current.un('seek');
-        wavesurfer.current.un('zoom');
-      }
+      controller.abort();
+      setSpectrogramProgress(null);
     };
-  }, [silenceSegments, zoomLevel]);
+  }, [showSpectrogram, spectrogram, duration]);
 
+  // 縮放波形 (載入完成前不能縮放)
   useEffect(() => {
-    if (wavesurfer.current) {
-      wavesurfer.current.setPlaybackRate(playbackRate);
+    if (wavesurfer.current && duration > 0) {
+      wavesurfer.current.zoom(BASE_PIXELS_PER_SECOND * zoomLevel);
     }
+  }, [zoomLevel, duration]);
+
+  useEffect(() => {
+    wavesurfer.current?.setPlaybackRate(playbackRate);
   }, [playbackRate]);
 
+  // 剪輯預覽的段落或設定改變時重新排程；離開剪輯預覽 (或切換到原始音頻) 時恢復淡化中途的音量
+  useEffect(() => {
+    if (!cutPlaybackActive) wavesurfer.current?.setVolume(1);
+    scheduleCutRef.current();
+  }, [cutPlaybackActive, previewSegments, microFade, playbackRate]);
+
   const handlePlayPause = () => {
-    if (wavesurfer.current) {
-      wavesurfer.current.playPause();
-    }
+    wavesurfer.current?.playPause();
   };
 
   const handleStop = () => {
-    if (wavesurfer.current) {
-      wavesurfer.current.stop();
-    }
+    wavesurfer.current?.stop();
   };
 
   const toggleLoop = () => {
-    setLoopActive(!loopActive);
+    setLoopActive(active => !active);
+  };
+
+  const toggleCutPreview = () => {
+    setCutPreview(active => !active);
+    setCompareOriginal(false);
+  };
+
+  const toggleCompareOriginal = () => {
+    if (cutPreview) setCompareOriginal(original => !original);
+  };
+
+  const handleMinimapNavigate = (start: number) => {
+    wavesurfer.current?.setScrollTime(start);
+  };
+
+  const handleMinimapSeek = (time: number) => {
+    wavesurfer.current?.setTime(time);
   };
 
   const handlePlayRegion = () => {
-    if (currentRegion) {
-      currentRegion.play();
-    }
+    const region = regionsPlugin.current?.getRegions().find(r => r.id === selectedId);
+    region?.play();
   };
 
-  const handlePlaybackRateChange = (rate: number) => {
-    setPlaybackRate(rate);
+  const handleToggleSelected = () => {
+    if (selectedRange) onChange?.({ type: 'toggle', id: selectedRange.id });
+  };
+
+  const handleSplitAtPlayhead = () => {
+    onChange?.({ type: 'split', time: snapRef.current(wavesurfer.current?.getCurrentTime() ?? currentTime) });
+  };
+
+  const handleDeleteSelected = () => {
+    if (selectedRange) onChange?.({ type: 'delete', id: selectedRange.id });
   };
 
   const handleZoomIn = () => {
-    setZoomLevel(prev => Math.min(prev + 0.5, 5));
+    setZoomLevel(prev => Math.min(prev * 2, MAX_ZOOM_LEVEL));
   };
 
   const handleZoomOut = () => {
-    setZoomLevel(prev => Math.max(prev - 0.5, 1));
+    setZoomLevel(prev => Math.max(prev / 2, 1));
   };
 
   const handleZoomReset = () => {
     setZoomLevel(1);
   };
 
-  const formatTime = (time: number): string => {
-    const minutes = Math.floor(time / 60);
-    const seconds = Math.floor(time % 60);
-    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-  };
-
-  // 鍵盤事件處理
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // 只有當波形已載入時才處理鍵盤事件
-      if (!wavesurfer.current) return;
+  // 鍵盤事件處理；在輸入框中輸入時不攔截
+  const handleKeyDownRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  handleKeyDownRef.current = (e: KeyboardEvent) => {
+    const ws = wavesurfer.current;
+    if (!ws || e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
 
-      switch(e.code) {
-        case 'Space': // 空格鍵切換播放/暫停
+    switch (e.code) {
+      case 'Space': // 空格鍵切換播放/暫停
+        e.preventDefault();
+        handlePlayPause();
+        break;
+      case 'KeyL': // L 鍵切換循環
+        toggleLoop();
+        break;
+      case 'ArrowRight': // 右箭頭快進 5 秒
+        ws.setTime(Math.min(ws.getCurrentTime() + 5, duration));
+        break;
+      case 'ArrowLeft': // 左箭頭倒退 5 秒
+        ws.setTime(Math.max(ws.getCurrentTime() - 5, 0));
+        break;
+      case 'Equal': // "=" 鍵放大 (通常與 "+" 相同的按鍵)
+        if (e.ctrlKey || e.metaKey) {
           e.preventDefault();
-          handlePlayPause();
-          break;
-        case 'KeyL': // L 鍵切換循環
-          toggleLoop();
-          break;
-        case 'ArrowRight': // 右箭頭快進 5 秒
-          if (wavesurfer.current) {
-            const newTime = Math.min(currentTime + 5, duration);
-            wavesurfer.current.setCurrentTime(newTime);
-          }
-          break;
-        case 'ArrowLeft': // 左箭頭倒退 5 秒
-          if (wavesurfer.current) {
-            const newTime = Math.max(currentTime - 5, 0);
-            wavesurfer.current.setCurrentTime(newTime);
-          }
-          break;
-        case 'Equal': // "=" 鍵放大 (通常與 "+" 相同的按鍵)
-          if (e.ctrlKey || e.metaKey) {
-            e.preventDefault();
-            handleZoomIn();
-          }
-          break;
-        case 'Minus': // "-" 鍵縮小
-          if (e.ctrlKey || e.metaKey) {
-            e.preventDefault();
-            handleZoomOut();
-          }
-          break;
-        case 'Digit0': // "0" 鍵重置縮放
-          if (e.ctrlKey || e.metaKey) {
-            e.preventDefault();
-            handleZoomReset();
-          }
-          break;
-        case 'KeyS': // "S" 鍵停止播放
-          if (e.ctrlKey || e.metaKey) {
-            e.preventDefault();
-            handleStop();
-          } else {
-            handleStop();
-          }
-          break;
-        case 'KeyP': // "P" 鍵播放選中區域
-          if (currentRegion) {
-            handlePlayRegion();
-          }
-          break;
-      }
-    };
+          handleZoomIn();
+        }
+        break;
+      case 'Minus': // "-" 鍵縮小
+        if (e.ctrlKey || e.metaKey) {
+          e.preventDefault();
+          handleZoomOut();
+        }
+        break;
+      case 'Digit0': // "0" 鍵重置縮放
+        if (e.ctrlKey || e.metaKey) {
+          e.preventDefault();
+          handleZoomReset();
+        }
+        break;
+      case 'KeyS': // "S" 鍵停止播放
+        if (e.ctrlKey || e.metaKey) return;
+        handleStop();
+        break;
+      case 'KeyC': // "C" 鍵切換剪輯預覽
+        if (e.ctrlKey || e.metaKey || !previewSegments) return;
+        toggleCutPreview();
+        break;
+      case 'KeyA': // "A" 鍵在剪輯預覽中切換剪輯後 / 原始音頻
+        if (e.ctrlKey || e.metaKey) return;
+        toggleCompareOriginal();
+        break;
+      case 'KeyP': // "P" 鍵播放選中區域
+        handlePlayRegion();
+        break;
+      case 'KeyT': // "T" 鍵切換選中區域的保留 / 移除
+        handleToggleSelected();
+        break;
+      case 'KeyB': // "B" 鍵在播放頭分割
+        if (session && onChange) handleSplitAtPlayhead();
+        break;
+      case 'Delete': // Delete 鍵刪除選中區域
+        handleDeleteSelected();
+        break;
+    }
+  };
 
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => handleKeyDownRef.current(e);
     window.addEventListener('keydown', handleKeyDown);
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [currentTime, duration, currentRegion, wavesurfer.current]);
+  }, []);
+
+  const editable = session !== undefined && onChange !== undefined;
 
   return (
     <div className="waveform-container" style={{ position: 'relative' }}>
-      {/* 波形顯示容器 */}
+      {/* 整個檔案的縮略圖 */}
+      {duration > 0 && (
+        <div style={{ marginBottom: '5px' }}>
+          <OverviewMinimap
+            duration={duration}
+            peaks={minimapPeaks}
+            overlays={silenceSegments ?? removedSegments}
+            viewport={viewport}
+            currentTime={currentTime}
+            onNavigate={handleMinimapNavigate}
+            onSeek={handleMinimapSeek}
+          />
+        </div>
+      )}
+
+      {/* 波形顯示容器 (含區域) */}
       <div ref={waveformRef} style={{ width: '100%' }} />
-      
+
+      {/* 頻譜圖 */}
+      {showSpectrogram && spectrogram && viewport && (
+        <SpectrogramLane spectrogram={spectrogram} viewport={viewport} />
+      )}
+
       {/* 自定義時間線 */}
-      <canvas 
-        ref={timelineCanvasRef} 
-        width={waveformRef.current?.clientWidth || 800}
-        height={30}
-        style={{ 
-          width: '100%', 
-          height: '30px', 
+      <canvas
+        ref={timelineCanvasRef}
+        style={{
+          width: '100%',
+          height: `${RULER_HEIGHT}px`,
           marginTop: '5px'
         }}
       />
-      
-      {/* 靜音片段視覺標記 */}
-      {silenceSegments && silenceSegments.length > 0 && (
-        <canvas 
-          ref={canvasRef} 
-          className="silence-overlay"
-          width={waveformRef.current?.clientWidth || 800}
-          height={120}
-          style={{ 
-            position: 'absolute', 
-            top: 0, 
-            left: 0, 
-            pointerEvents: 'none' 
-          }}
-        />
-      )}
-      
+
       {/* 播放控制面板 */}
-      <div className="playback-controls" style={{ 
-        marginTop: '10px', 
-        display: 'flex', 
+      <div className="playback-controls" style={{
+        marginTop: '10px',
+        display: 'flex',
         flexDirection: 'column',
         gap: '10px'
       }}>
         {/* 播放控制 */}
         <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
-          <button 
+          <button
             onClick={handlePlayPause}
-            style={{
-              padding: '5px 15px',
-              backgroundColor: '#4F46E5',
-              color: 'white',
-              border: 'none',
-              borderRadius: '4px',
-              cursor: 'pointer',
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              minWidth: '80px'
-            }}
+            style={{ ...controlButtonStyle, backgroundColor: '#4F46E5' }}
             title="空格鍵切換播放/暫停"
           >
             <span>{isPlaying ? '暫停' : '播放'}</span>
           </button>
-          <button 
+          <button
             onClick={handleStop}
-            style={{
-              padding: '5px 15px',
-              backgroundColor: '#6B7280',
-              color: 'white',
-              border: 'none',
-              borderRadius: '4px',
-              cursor: 'pointer',
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              minWidth: '80px'
-            }}
+            style={{ ...controlButtonStyle, backgroundColor: '#6B7280' }}
             title="S 鍵停止播放"
           >
             停止
           </button>
-          {currentRegion && (
-            <button 
+          {selectedRange && (
+            <button
               onClick={handlePlayRegion}
-              style={{
-                padding: '5px 15px',
-                backgroundColor: '#10B981',
-                color: 'white',
-                border: 'none',
-                borderRadius: '4px',
-                cursor: 'pointer',
-                display: 'flex',
-                alignItems: 'center',
-                justifyContent: 'center',
-                minWidth: '80px'
-              }}
+              style={{ ...controlButtonStyle, backgroundColor: '#10B981' }}
               title="P 鍵播放選區"
             >
               播放選區
             </button>
           )}
-          <button 
+          <button
             onClick={toggleLoop}
             style={{
-              padding: '5px 15px',
+              ...controlButtonStyle,
               backgroundColor: loopActive ? '#8B5CF6' : '#D1D5DB',
-              color: loopActive ? 'white' : 'black',
-              border: 'none',
-              borderRadius: '4px',
-              cursor: 'pointer',
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              minWidth: '80px'
+              color: loopActive ? 'white' : 'black'
             }}
             title="L 鍵切換循環模式"
           >
             循環: {loopActive ? '開' : '關'}
           </button>
           <div className="time-display" style={{ marginLeft: '10px', minWidth: '120px' }}>
-            {formatTime(currentTime)} / {formatTime(duration)}
+            {previewSegments ? '來源 ' : ''}{formatTime(currentTime)} / {formatTime(duration)}
+            {previewSegments && (
+              <span style={{ marginLeft: '10px', color: cutPlaybackActive ? '#111827' : '#9CA3AF' }}>
+                輸出 {formatTime(outputTimeAt(previewSegments, currentTime))} / {formatTime(outputDuration)}
+              </span>
+            )}
           </div>
         </div>
-        
+
+        {/* 剪輯預覽 */}
+        {previewSegments && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '0.9rem' }}>
+            <button
+              onClick={toggleCutPreview}
+              style={{
+                ...controlButtonStyle,
+                backgroundColor: cutPreview ? '#8B5CF6' : '#D1D5DB',
+                color: cutPreview ? 'white' : 'black'
+              }}
+              title="C 鍵切換剪輯預覽 (跳過剪掉的區間)"
+            >
+              剪輯預覽: {cutPreview ? '開' : '關'}
+            </button>
+            <button
+              onClick={toggleCompareOriginal}
+              disabled={!cutPreview}
+              style={{ ...smallButtonStyle, opacity: cutPreview ? 1 : 0.5 }}
+              title="A 鍵切換剪輯後 / 原始音頻"
+            >
+              A/B: {compareOriginal ? '原始' : '剪輯後'}
+            </button>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+              <input type="checkbox" checked={microFade} onChange={(e) => setMicroFade(e.target.checked)} />
+              跳接淡化
+            </label>
+          </div>
+        )}
+
+        {/* 區域編輯 */}
+        {editable && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '5px', fontSize: '0.9rem' }}>
+            <button onClick={handleToggleSelected} disabled={!selectedRange} style={smallButtonStyle} title="T 鍵切換保留 / 移除">
+              {selectedRange?.action === 'remove' ? '改為保留' : '改為移除'}
+            </button>
+            <button onClick={handleSplitAtPlayhead} style={smallButtonStyle} title="B 鍵在播放頭位置分割">
+              在播放頭分割
+            </button>
+            <button onClick={handleDeleteSelected} disabled={!selectedRange} style={smallButtonStyle} title="Delete 鍵刪除選區 (併入相鄰區間)">
+              刪除選區
+            </button>
+          </div>
+        )}
+
         {/* 播放速度和縮放控制 */}
         <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
           <div style={{ fontSize: '0.9rem', whiteSpace: 'nowrap' }}>播放速度: {playbackRate.toFixed(1)}x</div>
@@ -459,14 +705,11 @@ export const WaveformVisualizer: React.FC<Props> = ({ audioUrl, onSelection, sil
             {[0.5, 0.75, 1.0, 1.25, 1.5, 2.0].map(rate => (
               <button
                 key={rate}
-                onClick={() => handlePlaybackRateChange(rate)}
+                onClick={() => setPlaybackRate(rate)}
                 style={{
-                  padding: '4px 8px',
+                  ...smallButtonStyle,
                   backgroundColor: playbackRate === rate ? '#8B5CF6' : '#E5E7EB',
                   color: playbackRate === rate ? 'white' : 'black',
-                  border: 'none',
-                  borderRadius: '4px',
-                  cursor: 'pointer',
                   fontSize: '0.8rem'
                 }}
               >
@@ -474,58 +717,59 @@ export const WaveformVisualizer: React.FC<Props> = ({ audioUrl, onSelection, sil
               </button>
             ))}
           </div>
-          
+
           {/* 縮放控制 */}
           <div style={{ marginLeft: 'auto', display: 'flex', gap: '5px', alignItems: 'center' }}>
             <span style={{ fontSize: '0.9rem' }}>縮放:</span>
-            <button
-              onClick={handleZoomOut}
-              style={{
-                padding: '4px 8px',
-                backgroundColor: '#E5E7EB',
-                border: 'none',
-                borderRadius: '4px',
-                cursor: 'pointer',
-                fontSize: '0.9rem'
-              }}
-              title="Ctrl + - 縮小"
-            >
+            <button onClick={handleZoomOut} style={smallButtonStyle} title="Ctrl + - 縮小">
               −
             </button>
-            <span style={{ fontSize: '0.9rem' }}>{zoomLevel.toFixed(1)}x</span>
-            <button
-              onClick={handleZoomIn}
-              style={{
-                padding: '4px 8px',
-                backgroundColor: '#E5E7EB',
-                border: 'none',
-                borderRadius: '4px',
-                cursor: 'pointer',
-                fontSize: '0.9rem'
-              }}
-              title="Ctrl + + 放大"
-            >
+            <span style={{ fontSize: '0.9rem' }}>{zoomLevel}x</span>
+            <button onClick={handleZoomIn} style={smallButtonStyle} title="Ctrl + + 放大">
               +
             </button>
-            <button
-              onClick={handleZoomReset}
-              style={{
-                padding: '4px 8px',
-                backgroundColor: '#E5E7EB',
-                border: 'none',
-                borderRadius: '4px',
-                cursor: 'pointer',
-                fontSize: '0.9rem'
-              }}
-              title="Ctrl + 0 重置縮放"
-            >
+            <button onClick={handleZoomReset} style={smallButtonStyle} title="Ctrl + 0 重置縮放">
               重置
             </button>
           </div>
         </div>
-        
+
+        {/* 時間顯示與對齊 */}
+        <div style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '0.9rem' }}>
+          <label>
+            時間顯示：
+            <select value={timeDisplay} onChange={(e) => setTimeDisplay(e.target.value as TimeDisplayMode)}>
+              {(Object.keys(TIME_DISPLAY_LABELS) as TimeDisplayMode[]).map(mode => (
+                <option key={mode} value={mode}>
+                  {TIME_DISPLAY_LABELS[mode]}{mode === 'smpte' ? ` (${+timeScale.frameRate.toFixed(3)} fps)` : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+          {editable && (
+            <label>
+              邊界對齊：
+              <select value={snapMode} onChange={(e) => setSnapMode(e.target.value as SnapMode)}>
+                {(Object.keys(SNAP_MODE_LABELS) as SnapMode[]).map(mode => (
+                  <option key={mode} value={mode}>{SNAP_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+            <input
+              type="checkbox"
+              checked={showSpectrogram}
+              onChange={(e) => setShowSpectrogram(e.target.checked)}
+              disabled={duration === 0}
+            />
+            頻譜圖
+            {spectrogramProgress !== null && ` (計算中 ${spectrogramProgress.toFixed(0)}%)`}
+          </label>
+        </div>
+
         {/* 鍵盤快捷鍵提示 */}
-        <div style={{ 
+        <div style={{
           marginTop: '5px',
           padding: '5px 10px',
           backgroundColor: '#F3F4F6',
@@ -534,22 +778,35 @@ export const WaveformVisualizer: React.FC<Props> = ({ audioUrl, onSelection, sil
           color: '#6B7280'
         }}>
           <span>鍵盤快捷鍵: </span>
-          <span title="空格鍵">播放/暫停</span> | 
-          <span title="S 鍵"> 停止</span> | 
-          <span title="L 鍵"> 循環</span> | 
-          <span title="P 鍵"> 播放選區</span> | 
-          <span title="左右箭頭"> 前進/後退 5秒</span> | 
-          <span title="Ctrl + +/-"> 縮放</span> | 
+          <span title="空格鍵">播放/暫停</span> |
+          <span title="S 鍵"> 停止</span> |
+          <span title="L 鍵"> 循環</span> |
+          <span title="P 鍵"> 播放選區</span> |
+          {previewSegments && (
+            <>
+              <span title="C 鍵"> 剪輯預覽</span> |
+              <span title="A 鍵"> A/B 比較</span> |
+            </>
+          )}
+          {editable && (
+            <>
+              <span title="T 鍵"> 保留/移除</span> |
+              <span title="B 鍵"> 分割</span> |
+              <span title="Delete 鍵"> 刪除</span> |
+            </>
+          )}
+          <span title="左右箭頭"> 前進/後退 5秒</span> |
+          <span title="Ctrl + +/-"> 縮放</span> |
           <span title="Ctrl + 0"> 重置縮放</span>
         </div>
-        
-        {currentRegion && (
+
+        {selectedRange && (
           <div style={{ fontSize: '0.9rem', marginTop: '5px' }}>
-            已選擇區間: {formatTime(currentRegion.start)} - {formatTime(currentRegion.end)} 
-            ({((currentRegion.end - currentRegion.start)).toFixed(1)}秒)
+            已選擇區間: {formatTime(selectedRange.start)} - {formatTime(selectedRange.end)}
+            ({(selectedRange.end - selectedRange.start).toFixed(3)}秒，{selectedRange.action === 'keep' ? '保留' : '移除'})
           </div>
         )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { complementSegments, GainAutomation, outputTimeAt, planCutPlayback, scheduleCutGain } from './cutPlayback';
+
+// 保留 1-4、6-9，總長 10 秒
+const segments = [{ start: 1, end: 4 }, { start: 6, end: 9 }];
+const options = { fadeDuration: 0, playbackRate: 1, lookahead: 0 };
+
+describe('complementSegments', () => {
+  it('returns the gaps between segments within the duration', () => {
+    expect(complementSegments(segments, 10)).toEqual([{ start: 0, end: 1 }, { start: 4, end: 6 }, { start: 9, end: 10 }]);
+    expect(complementSegments(complementSegments(segments, 10), 10)).toEqual(segments);
+    expect(complementSegments([], 5)).toEqual([{ start: 0, end: 5 }]);
+  });
+});
+
+describe('planCutPlayback', () => {
+  it('jumps over removed ranges and finishes after the last segment', () => {
+    expect(planCutPlayback(segments, 0.2, options)).toEqual({ jumpTo: 1, volume: 1, finished: false });
+    expect(planCutPlayback(segments, 2, options)).toEqual({ jumpTo: null, volume: 1, finished: false });
+    expect(planCutPlayback(segments, 4.05, options).jumpTo).toBe(6);
+    expect(planCutPlayback(segments, 9.2, options).finished).toBe(true);
+  });
+
+  it('jumps early by the update interval scaled by the playback rate', () => {
+    const early = { ...options, lookahead: 0.02 };
+    expect(planCutPlayback(segments, 3.97, early).jumpTo).toBeNull();
+    expect(planCutPlayback(segments, 3.985, early).jumpTo).toBe(6);
+    expect(planCutPlayback(segments, 3.97, { ...early, playbackRate: 2 }).jumpTo).toBe(6);
+  });
+
+  it('fades around joins only, measured in playback time', () => {
+    const fading = { ...options, fadeDuration: 0.1 };
+    // 第一段開頭與最後一段結尾不淡化
+    expect(planCutPlayback(segments, 1, fading).volume).toBe(1);
+    expect(planCutPlayback(segments, 8.99, fading).volume).toBe(1);
+    expect(planCutPlayback(segments, 3.95, fading).volume).toBeCloseTo(0.5);
+    expect(planCutPlayback(segments, 6.05, fading).volume).toBeCloseTo(0.5);
+    // 跳入下一段時從靜音開始
+    expect(planCutPlayback(segments, 4.5, fading)).toEqual({ jumpTo: 6, volume: 0, finished: false });
+    // 兩倍速時淡化涵蓋兩倍的來源時間
+    expect(planCutPlayback(segments, 6.1, { ...fading, playbackRate: 2 }).volume).toBeCloseTo(0.5);
+  });
+});
+
+// 記錄排程的 AudioParam，依 Web Audio 的規則計算任一時間的數值
+const createRecordedParam = () => {
+  let events: Array<{ time: number; value: number; ramp: boolean }> = [];
+  const param: GainAutomation = {
+    cancelScheduledValues: (time: number) => {
+      events = events.filter(event => event.time < time);
+      return param as AudioParam;
+    },
+    setValueAtTime: (value: number, time: number) => {
+      events.push({ time, value, ramp: false });
+      return param as AudioParam;
+    },
+    linearRampToValueAtTime: (value: number, time: number) => {
+      events.push({ time, value, ramp: true });
+      return param as AudioParam;
+    },
+  };
+  const valueAt = (time: number) => {
+    let value = 1;
+    let previous = { time: 0, value: 1 };
+    for (const event of [...events].sort((a, b) => a.time - b.time)) {
+      if (event.time <= time) {
+        value = event.value;
+        previous = event;
+      } else {
+        if (event.ramp) value = previous.value + ((event.value - previous.value) * (time - previous.time)) / (event.time - previous.time);
+        break;
+      }
+    }
+    return value;
+  };
+  return { param, valueAt };
+};
+
+describe('scheduleCutGain', () => {
+  const fading = { fadeDuration: 0.02, playbackRate: 1 };
+
+  it('ramps around joins and returns when to jump', () => {
+    const { param, valueAt } = createRecordedParam();
+    expect(scheduleCutGain(param, segments, 3.5, 10, fading)).toEqual({ delay: 0.5, jumpTo: 6 });
+    expect(valueAt(10.4)).toBe(1);
+    expect(valueAt(10.49)).toBeCloseTo(0.5);
+    expect(valueAt(10.5)).toBe(0);
+    // 跳轉前保持靜音
+    expect(valueAt(11)).toBe(0);
+
+    expect(scheduleCutGain(param, segments, 6, 20, fading)).toEqual({ delay: 3, jumpTo: null });
+    expect(valueAt(20)).toBe(0);
+    expect(valueAt(20.01)).toBeCloseTo(0.5);
+    // 最後一段的結尾不淡化
+    expect(valueAt(22.999)).toBe(1);
+  });
+
+  it('mutes and jumps immediately inside removed ranges', () => {
+    const { param, valueAt } = createRecordedParam();
+    expect(scheduleCutGain(param, segments, 5, 0, fading)).toEqual({ delay: 0, jumpTo: 6 });
+    expect(valueAt(0)).toBe(0);
+    expect(scheduleCutGain(param, segments, 9.5, 1, fading)).toEqual({ delay: 0, jumpTo: null });
+  });
+
+  it('peaks between overlapping fades of a short segment', () => {
+    const { param, valueAt } = createRecordedParam();
+    const short = [{ start: 0, end: 1 }, { start: 2, end: 2.02 }, { start: 3, end: 4 }];
+    scheduleCutGain(param, short, 2, 0, fading);
+    expect(valueAt(0.005)).toBeCloseTo(0.25);
+    expect(valueAt(0.01)).toBeCloseTo(0.5);
+    expect(valueAt(0.015)).toBeCloseTo(0.25);
+    expect(valueAt(0.02)).toBeCloseTo(0);
+  });
+
+  it('keeps a smooth curve and never plays removed audio at real update spacing', () => {
+    const { param, valueAt } = createRecordedParam();
+    const frame = 1 / 60;
+    const seekLatency = 0.03;
+    // 從 3.5 秒開始播放，跳轉在跳接點後的下一個畫面才執行 (計時器與畫面更新同步時的最壞情況)
+    const first = scheduleCutGain(param, segments, 3.5, 0, fading);
+    const jumpAt = Math.ceil(first.delay / frame) * frame;
+    const seekedAt = jumpAt + seekLatency;
+    scheduleCutGain(param, segments, 6, seekedAt, fading);
+
+    // 以 1 ms 取樣播放的來源位置與音量
+    const samples = Array.from({ length: 1000 }, (_, i) => {
+      const time = i / 1000;
+      const source = time < jumpAt ? 3.5 + time : time < seekedAt ? null : 6 + time - seekedAt;
+      return { source, gain: valueAt(time) };
+    });
+    // 剪掉的區間 (4 ~ 6 秒) 一律靜音
+    samples
+      .filter(sample => sample.source !== null && sample.source >= 4 && sample.source < 6)
+      .forEach(sample => expect(sample.gain).toBe(0));
+
+    // 淡出與淡入各為 20 ms 的連續斜坡，而不是一兩個畫面的階梯
+    const steps = samples.slice(1).map((sample, i) => Math.abs(sample.gain - samples[i].gain));
+    expect(Math.max(...steps)).toBeLessThanOrEqual(0.05 + 1e-9);
+    const fadeOut = samples.filter(sample => sample.source !== null && sample.source > 3.98 && sample.source < 4);
+    const fadeIn = samples.filter(sample => sample.source !== null && sample.source > 6 && sample.source < 6.02);
+    expect(new Set(fadeOut.map(sample => sample.gain.toFixed(3))).size).toBeGreaterThanOrEqual(15);
+    expect(new Set(fadeIn.map(sample => sample.gain.toFixed(3))).size).toBeGreaterThanOrEqual(15);
+  });
+});
+
+describe('outputTimeAt', () => {
+  it('maps source time to the time in the cut output', () => {
+    expect(outputTimeAt(segments, 0.5)).toBe(0);
+    expect(outputTimeAt(segments, 2)).toBe(1);
+    expect(outputTimeAt(segments, 5)).toBe(3);
+    expect(outputTimeAt(segments, 7)).toBe(4);
+    expect(outputTimeAt(segments, 10)).toBe(6);
+  });
+});
@@ -0,0 +1,138 @@
+// 「依剪輯播放」預覽：播放原始音頻時即時跳過被剪掉的區間，不需先輸出
+// 有 Web Audio 時以 scheduleCutGain 在音訊時鐘上排程淡化，並以計時器在跳接點跳轉；
+// 否則播放器在每次更新位置時 (約每個畫面一次) 呼叫 planCutPlayback，依結果跳轉並調整音量
+import { Segment } from './api';
+
+export interface CutPlaybackOptions {
+  fadeDuration: number; // 跳接點前後的淡出 / 淡入長度 (秒，實際播放時間)，0 表示不淡化
+  playbackRate: number;
+  lookahead: number;    // 兩次位置更新之間的間隔 (秒，實際播放時間)，提早跳轉以免播出被剪掉的開頭
+}
+
+export interface CutPlaybackStep {
+  jumpTo: number | null; // 需要跳轉到的來源時間
+  volume: number;        // 0 ~ 1
+  finished: boolean;     // 已播完最後一個保留段落
+}
+
+// 排程增益所需的 AudioParam 方法，測試時可用記錄呼叫的物件代替
+export type GainAutomation = Pick<AudioParam, 'cancelScheduledValues' | 'setValueAtTime' | 'linearRampToValueAtTime'>;
+
+export interface CutJump {
+  delay: number;         // 距離跳接點 (目前段落的結尾) 的實際播放秒數，位於剪掉的區間時為 0
+  jumpTo: number | null; // 跳接後的來源時間，null 表示播完最後一個保留段落
+}
+
+/**
+ * 取得保留段落之外的區間 (即剪掉的部分)，或由剪掉的區間取得保留段落
+ * @param segments 依時間排序且不重疊的區間
+ * @param duration 媒體總時長 (秒)
+ */
+export function complementSegments(segments: Segment[], duration: number): Segment[] {
+  const complement: Segment[] = [];
+  let cursor = 0;
+  for (const segment of segments) {
+    if (segment.start > cursor) complement.push({ start: cursor, end: Math.min(segment.start, duration) });
+    cursor = Math.max(cursor, segment.end);
+  }
+  if (duration > cursor) complement.push({ start: cursor, end: duration });
+  return complement;
+}
+
+/**
+ * 決定目前位置的播放動作
+ * 跳接點前後以 fadeDuration 淡出淡入；淡化與提早跳轉的長度以實際播放時間計，會依播放速度換算為來源時間
+ * 與伺服器剪輯相同，第一段的開頭與最後一段的結尾不是跳接點，不做淡化
+ * @param segments 依時間排序的保留段落
+ * @param time 目前的來源時間 (秒)
+ */
+export function planCutPlayback(segments: Segment[], time: number, options: CutPlaybackOptions): CutPlaybackStep {
+  const rate = Math.max(options.playbackRate, Number.EPSILON);
+  const fade = options.fadeDuration * rate;
+  const lookahead = options.lookahead * rate;
+
+  const index = segments.findIndex(segment => time < segment.end - lookahead);
+  const segment = segments[index];
+  if (!segment) {
+    return { jumpTo: null, volume: 0, finished: true };
+  }
+  if (time < segment.start) {
+    // 位於剪掉的區間：跳到下一個保留段落，從靜音開始淡入
+    return { jumpTo: segment.start, volume: fade > 0 && index > 0 ? 0 : 1, finished: false };
+  }
+
+  let volume = 1;
+  if (fade > 0) {
+    if (index > 0) volume = Math.min(volume, (time - segment.start) / fade);
+    // 在位置更新前就要降到靜音，因此淡出的終點提前 lookahead
+    if (index < segments.length - 1) volume = Math.min(volume, (segment.end - lookahead - time) / fade);
+  }
+  return { jumpTo: null, volume: Math.max(0, Math.min(1, volume)), finished: false };
+}
+
+/**
+ * 在 AudioParam 上排程目前保留段落剩餘部分的增益：跳接點後淡入、跳接點前淡出，於段落結尾降到靜音並保持，直到呼叫端跳轉
+ * 音量曲線與 planCutPlayback 相同 (不提早跳轉)，但由音訊時鐘執行，不受畫面更新間隔或背景分頁節流影響；
+ * 跳轉較晚時只會多出一段靜音，不會播出被剪掉的聲音
+ * @param param GainNode.gain
+ * @param segments 依時間排序的保留段落
+ * @param time 目前的來源時間 (秒)
+ * @param now 目前的 AudioContext 時間 (秒)
+ * @returns 呼叫端應在 delay 秒後跳轉到 jumpTo (或在 jumpTo 為 null 時停止播放)
+ */
+export function scheduleCutGain(
+  param: GainAutomation,
+  segments: Segment[],
+  time: number,
+  now: number,
+  options: Pick<CutPlaybackOptions, 'fadeDuration' | 'playbackRate'>
+): CutJump {
+  const rate = Math.max(options.playbackRate, Number.EPSILON);
+  const fade = options.fadeDuration * rate;
+  param.cancelScheduledValues(now);
+
+  const index = segments.findIndex(segment => time < segment.end);
+  const segment = segments[index];
+  if (!segment || time < segment.start) {
+    // 位於剪掉的區間或已播完：保持靜音並立即跳轉
+    param.setValueAtTime(0, now);
+    return { delay: 0, jumpTo: segment ? segment.start : null };
+  }
+
+  const fadeIn = fade > 0 && index > 0;
+  const fadeOut = fade > 0 && index < segments.length - 1;
+  const volumeAt = (t: number) => Math.max(0, Math.min(
+    1,
+    fadeIn ? (t - segment.start) / fade : 1,
+    fadeOut ? (segment.end - t) / fade : 1
+  ));
+  // 音量曲線在淡入結束、淡出開始 (兩者重疊時為段落中點) 與段落結尾轉折，其間為直線
+  const corners = [segment.end];
+  if (fadeIn) corners.push(segment.start + fade);
+  if (fadeOut) corners.push(segment.end - fade);
+  if (fadeIn && fadeOut) corners.push((segment.start + segment.end) / 2);
+
+  param.setValueAtTime(volumeAt(time), now);
+  corners
+    .filter(corner => corner > time && corner <= segment.end)
+    .sort((a, b) => a - b)
+    .forEach(corner => param.linearRampToValueAtTime(volumeAt(corner), now + (corner - time) / rate));
+
+  return {
+    delay: (segment.end - time) / rate,
+    jumpTo: index < segments.length - 1 ? segments[index + 1].start : null,
+  };
+}
+
+/**
+ * 將來源時間換算為輸出時間；位於剪掉的區間時視為下一個保留段落的開頭
+ */
+export function outputTimeAt(segments: Segment[], time: number): number {
+  let offset = 0;
+  for (const segment of segments) {
+    if (time <= segment.start) return offset;
+    if (time < segment.end) return offset + time - segment.start;
+    offset += segment.end - segment.start;
+  }
+  return offset;
+}
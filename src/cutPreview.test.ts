@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { postProcessSegments, predictCuts, toSpeechDetectionOptions } from './cutPreview';
+import { DETECTION_PRESETS } from './detectionOptions';
+import { detectSpeechSegments } from './speechDetection';
+
+const options = { ...DETECTION_PRESETS.custom.options, minSpeechDuration: 0.2 };
+
+describe('postProcessSegments', () => {
+  it('drops short segments, bridges small gaps and pads within the media', () => {
+    const speech = [{ start: 0.05, end: 1 }, { start: 1.2, end: 2 }, { start: 3, end: 3.1 }, { start: 5, end: 6 }];
+    const processed = postProcessSegments(speech, { ...options, mergeGap: 0.3, preRoll: 0.1, postRoll: 0.2 }, 6.1);
+    expect(processed).toEqual([{ start: 0, end: 2.2 }, { start: 4.9, end: 6.1 }]);
+  });
+
+  it('keeps short bursts that are bridged into a longer segment', () => {
+    const speech = [{ start: 1, end: 1.1 }, { start: 1.2, end: 1.3 }, { start: 1.4, end: 1.5 }];
+    const bridgedOptions = { ...options, mergeGap: 0.15, preRoll: 0, postRoll: 0 };
+    expect(postProcessSegments(speech, bridgedOptions, 5)).toEqual([{ start: 1, end: 1.5 }]);
+    expect(postProcessSegments(speech, { ...bridgedOptions, mergeGap: 0 }, 5)).toEqual([]);
+  });
+});
+
+describe('predictCuts', () => {
+  const SAMPLE_RATE = 8000;
+  // 1 秒靜音、2 秒正弦波、1 秒靜音、1 秒正弦波
+  const audio = {
+    sampleRate: SAMPLE_RATE,
+    channels: [Float32Array.from({ length: SAMPLE_RATE * 5 }, (_, i) => {
+      const t = i / SAMPLE_RATE;
+      return (t >= 1 && t < 3) || t >= 4 ? 0.3 * Math.sin(2 * Math.PI * 440 * t) : 0;
+    })],
+  };
+
+  it('predicts the kept segments, removed ranges and output duration', () => {
+    const detection = detectSpeechSegments(audio, toSpeechDetectionOptions({ ...options, minSilenceDuration: 0.5 }));
+    const prediction = predictCuts(detection, options, 5);
+
+    expect(prediction.segments).toHaveLength(2);
+    expect(prediction.segments[0].start).toBeCloseTo(1, 1);
+    expect(prediction.segments[1].end).toBeCloseTo(5, 1);
+    expect(prediction.removed[0]).toEqual({ start: 0, end: prediction.segments[0].start });
+    expect(prediction.keptDuration).toBeCloseTo(3, 0);
+  });
+
+  it('removes everything when the threshold is above the signal', () => {
+    const detection = detectSpeechSegments(audio, toSpeechDetectionOptions({ ...options, silenceThreshold: 0 }));
+    const prediction = predictCuts(detection, options, 5);
+    expect(prediction.segments).toEqual([]);
+    expect(prediction.removed).toEqual([{ start: 0, end: 5 }]);
+    expect(prediction.keptDuration).toBe(0);
+  });
+});
@@ -0,0 +1,73 @@
+// 上傳前在瀏覽器中預測剪輯結果：以與伺服器相同的參數偵測語音並做段落後處理
+import { Segment } from './api';
+import { complementSegments } from './cutPlayback';
+import { DetectionOptions } from './detectionOptions';
+import { SpeechDetectionOptions, SpeechDetectionResult } from './speechDetection';
+import { VoiceDetectorName } from './voiceActivity';
+
+export const VOICE_DETECTOR_LABELS: Record<VoiceDetectorName, string> = {
+  energy: '能量',
+  spectral: '頻譜特徵',
+  voting: '多數決',
+};
+
+export interface CutPrediction {
+  segments: Segment[];  // 要保留的段落 (已套用前後保留與合併)，即上傳時送出的段落
+  removed: Segment[];   // 會被剪掉的區間
+  keptDuration: number; // 剪輯後的長度 (秒)
+}
+
+/**
+ * 將偵測參數轉換為本機語音偵測的參數：以靜音閾值作為固定門檻
+ */
+export const toSpeechDetectionOptions = (
+  options: DetectionOptions,
+  detector: VoiceDetectorName = 'energy'
+): SpeechDetectionOptions => ({
+  detector,
+  thresholdDB: options.silenceThreshold,
+  minSilenceDuration: options.minSilenceDuration,
+});
+
+// 合併重疊或間隔不超過 maxGap 的相鄰段落 (輸入需依時間排序)
+const mergeSegments = (segments: Segment[], maxGap: number): Segment[] => {
+  const merged: Segment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && segment.start - last.end <= maxGap) {
+      last.end = Math.max(last.end, segment.end);
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+};
+
+/**
+ * 段落後處理，與伺服器端 postProcessSegments 相同 (server/src/segmentPostProcessing.test.ts 會比對兩者的結果)：
+ * 合併間隔短於 mergeGap 的段落、捨棄合併後不超過 minSpeechDuration 的段落，再加上前後保留長度
+ * @param duration 媒體總時長 (秒)
+ */
+export function postProcessSegments(speech: Segment[], options: DetectionOptions, duration: number): Segment[] {
+  const sorted = [...speech].sort((a, b) => a.start - b.start);
+  const bridged = options.mergeGap > 0 ? mergeSegments(sorted, options.mergeGap) : sorted;
+  const filtered = bridged.filter(segment => segment.end - segment.start > options.minSpeechDuration);
+  const padded = filtered.map(segment => ({
+    start: Math.max(0, segment.start - options.preRoll),
+    end: Math.min(duration, segment.end + options.postRoll),
+  }));
+  return mergeSegments(padded, 0).filter(segment => segment.end > segment.start);
+}
+
+/**
+ * 由本機偵測結果預測剪輯後保留與移除的區間
+ * @param duration 媒體總時長 (秒)
+ */
+export function predictCuts(detection: SpeechDetectionResult, options: DetectionOptions, duration: number): CutPrediction {
+  const segments = postProcessSegments(detection.speech, options, duration);
+  return {
+    segments,
+    removed: complementSegments(segments, duration),
+    keptDuration: segments.reduce((total, segment) => total + segment.end - segment.start, 0),
+  };
+}
@@ -0,0 +1,75 @@
+// 語音偵測與剪輯參數 (與伺服器端 /upload 的欄位一致)
+export interface DetectionOptions {
+  silenceThreshold: number;   // 靜音偵測閾值 (dB)
+  minSilenceDuration: number; // 最小靜音持續時間 (秒)
+  minSpeechDuration: number;  // 最小語音段落長度 (秒)
+  preRoll: number;            // 語音段落之前保留長度 (秒)
+  postRoll: number;           // 語音段落之後保留長度 (秒)
+  mergeGap: number;           // 合併間隔短於此長度的段落 (秒)
+  fadeDuration: number;       // 剪輯時每個拼接點的音訊淡化長度 (秒)
+}
+
+export type DetectionPresetName = 'speech' | 'music' | 'precise' | 'custom';
+
+export interface DetectionPreset {
+  label: string;
+  description: string;
+  options: DetectionOptions;
+}
+
+// 預設分析模式
+export const DETECTION_PRESETS: Record<DetectionPresetName, DetectionPreset> = {
+  speech: {
+    label: '語音模式',
+    description: '適合播客與訪談，移除句子之間的停頓',
+    options: {
+      silenceThreshold: -30, minSilenceDuration: 0.5, minSpeechDuration: 0.1,
+      preRoll: 0.1, postRoll: 0.15, mergeGap: 0.2, fadeDuration: 0.01,
+    },
+  },
+  music: {
+    label: '音樂模式',
+    description: '只移除較長且安靜的空白，保留音樂的漸弱與尾音',
+    options: {
+      silenceThreshold: -50, minSilenceDuration: 2, minSpeechDuration: 1,
+      preRoll: 0.3, postRoll: 0.5, mergeGap: 1, fadeDuration: 0.05,
+    },
+  },
+  precise: {
+    label: '精確模式',
+    description: '適合講座與教學，連短暫停頓也會移除',
+    options: {
+      silenceThreshold: -35, minSilenceDuration: 0.25, minSpeechDuration: 0.05,
+      preRoll: 0.03, postRoll: 0.05, mergeGap: 0, fadeDuration: 0.005,
+    },
+  },
+  custom: {
+    label: '自定義模式',
+    description: '手動調整所有參數',
+    options: {
+      silenceThreshold: -30, minSilenceDuration: 0.5, minSpeechDuration: 0.1,
+      preRoll: 0, postRoll: 0, mergeGap: 0, fadeDuration: 0.01,
+    },
+  },
+};
+
+// 各參數允許的範圍，需與伺服器端的驗證範圍一致
+export const DETECTION_OPTION_BOUNDS: Record<keyof DetectionOptions, { min: number; max: number; step: number }> = {
+  silenceThreshold: { min: -90, max: 0, step: 1 },
+  minSilenceDuration: { min: 0.05, max: 30, step: 0.05 },
+  minSpeechDuration: { min: 0, max: 30, step: 0.05 },
+  preRoll: { min: 0, max: 5, step: 0.01 },
+  postRoll: { min: 0, max: 5, step: 0.01 },
+  mergeGap: { min: 0, max: 10, step: 0.05 },
+  fadeDuration: { min: 0, max: 0.5, step: 0.005 },
+};
+
+export const DETECTION_OPTION_LABELS: Record<keyof DetectionOptions, string> = {
+  silenceThreshold: '靜音閾值 (dB)',
+  minSilenceDuration: '最小靜音長度 (秒)',
+  minSpeechDuration: '最小語音長度 (秒)',
+  preRoll: '段落前保留 (秒)',
+  postRoll: '段落後保留 (秒)',
+  mergeGap: '合併間隔 (秒)',
+  fadeDuration: '拼接淡化 (秒)',
+};
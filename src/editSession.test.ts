@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import { DETECTION_PRESETS } from './detectionOptions';
+import {
+  applyEdit,
+  applyRangeChange,
+  createEditSession,
+  createHistory,
+  deleteRange,
+  EditSession,
+  keptSegments,
+  labelRange,
+  matchesSource,
+  mergeRanges,
+  moveBoundary,
+  nudgeBoundary,
+  parseProjectFile,
+  projectFileName,
+  redo,
+  serializeEditSession,
+  setRangeBounds,
+  splitRange,
+  toggleRange,
+  toOutputTime,
+  undo,
+} from './editSession';
+
+const detection = DETECTION_PRESETS.speech.options;
+const source = { fileName: 'interview.mp4', duration: 10, uploadId: 'abc' };
+
+// 0-1 移除、1-4 保留、4-6 移除、6-9 保留、9-10 移除
+const session = createEditSession(source, detection, [{ start: 1, end: 4 }, { start: 6, end: 9 }]);
+
+const actions = (s: EditSession) => s.ranges.map(range => `${range.action}:${range.start}-${range.end}`);
+
+describe('createEditSession', () => {
+  it('covers the whole timeline with keep and remove ranges', () => {
+    expect(actions(session)).toEqual(['remove:0-1', 'keep:1-4', 'remove:4-6', 'keep:6-9', 'remove:9-10']);
+    expect(new Set(session.ranges.map(range => range.id)).size).toBe(5);
+    expect(keptSegments(session)).toEqual([{ start: 1, end: 4 }, { start: 6, end: 9 }]);
+  });
+
+  it('handles segments touching the media edges and no speech at all', () => {
+    const full = createEditSession(source, detection, [{ start: 0, end: 12 }]);
+    expect(actions(full)).toEqual(['keep:0-10']);
+    expect(actions(createEditSession(source, detection, []))).toEqual(['remove:0-10']);
+  });
+});
+
+describe('edit operations', () => {
+  it('splits a range and keeps its action and label', () => {
+    const labelled = labelRange(session, 1, '開場');
+    const split = splitRange(labelled, 2.5);
+    expect(actions(split)).toEqual(['remove:0-1', 'keep:1-2.5', 'keep:2.5-4', 'remove:4-6', 'keep:6-9', 'remove:9-10']);
+    expect(split.ranges[2].label).toBe('開場');
+    expect(split.ranges[2].id).not.toBe(split.ranges[1].id);
+    // 分割後仍輸出同樣的段落
+    expect(keptSegments(split)).toEqual(keptSegments(session));
+  });
+
+  it('ignores splits at or too close to a boundary', () => {
+    expect(splitRange(session, 4)).toBe(session);
+    expect(splitRange(session, 4.01)).toBe(session);
+  });
+
+  it('merges with the next range using the first action', () => {
+    const merged = mergeRanges(session, 1);
+    expect(actions(merged)).toEqual(['remove:0-1', 'keep:1-6', 'keep:6-9', 'remove:9-10']);
+    expect(keptSegments(merged)).toEqual([{ start: 1, end: 9 }]);
+    expect(mergeRanges(session, 4)).toBe(session);
+  });
+
+  it('nudges boundaries within the neighbouring ranges', () => {
+    expect(actions(nudgeBoundary(session, 1, 0.5))).toContain('keep:1-4.5');
+    expect(actions(nudgeBoundary(session, 1, 0.5))).toContain('remove:4.5-6');
+    // 不能越過下一個區間
+    expect(moveBoundary(session, 1, 7).ranges[1].end).toBeCloseTo(5.95);
+    expect(moveBoundary(session, 0, -1).ranges[0].end).toBeCloseTo(0.05);
+    expect(nudgeBoundary(session, 4, 1)).toBe(session);
+  });
+
+  it('toggles ranges between keep and remove', () => {
+    const toggled = toggleRange(session, 2);
+    expect(keptSegments(toggled)).toEqual([{ start: 1, end: 9 }]);
+    expect(keptSegments(toggleRange(toggled, 2))).toEqual(keptSegments(session));
+  });
+
+  it('moves a whole range and resizes its neighbours', () => {
+    expect(actions(setRangeBounds(session, 1, 1.5, 4.5))).toEqual(
+      ['remove:0-1.5', 'keep:1.5-4.5', 'remove:4.5-6', 'keep:6-9', 'remove:9-10']
+    );
+    // 往後移動超過自身長度時仍能到達目標位置
+    expect(actions(setRangeBounds(session, 2, 6.5, 8.5))).toContain('remove:6.5-8.5');
+    expect(actions(setRangeBounds(session, 0, 0, 0.5))).toEqual(
+      ['remove:0-0.5', 'keep:0.5-4', 'remove:4-6', 'keep:6-9', 'remove:9-10']
+    );
+  });
+
+  it('deletes ranges by absorbing them into a neighbour', () => {
+    expect(actions(deleteRange(session, 2))).toEqual(['remove:0-1', 'keep:1-6', 'keep:6-9', 'remove:9-10']);
+    expect(actions(deleteRange(session, 0))).toEqual(['keep:0-4', 'remove:4-6', 'keep:6-9', 'remove:9-10']);
+    const single = createEditSession(source, detection, []);
+    expect(deleteRange(single, 0)).toBe(single);
+  });
+
+  it('applies region changes by range id', () => {
+    const [, speech] = session.ranges;
+    expect(keptSegments(applyRangeChange(session, { type: 'toggle', id: speech.id }))).toEqual([{ start: 6, end: 9 }]);
+    expect(applyRangeChange(session, { type: 'split', time: 2 }).ranges).toHaveLength(6);
+    expect(applyRangeChange(session, { type: 'resize', id: speech.id, start: 0.5, end: 4 }).ranges[1].start).toBe(0.5);
+    expect(applyRangeChange(session, { type: 'delete', id: speech.id }).ranges).toHaveLength(4);
+    expect(applyRangeChange(session, { type: 'toggle', id: 'missing' })).toBe(session);
+  });
+
+  it('maps source time to output time', () => {
+    expect(toOutputTime(session, 2)).toBe(1);
+    expect(toOutputTime(session, 7)).toBe(4);
+    expect(toOutputTime(session, 5)).toBeNull();
+    expect(toOutputTime(session, 9.5)).toBeNull();
+  });
+});
+
+describe('edit history', () => {
+  it('undoes and redoes any number of edits', () => {
+    let history = createHistory(session);
+    for (let i = 0; i < 50; i++) {
+      history = applyEdit(history, s => nudgeBoundary(s, 1, 0.01));
+    }
+    expect(history.present.ranges[1].end).toBeCloseTo(4.5);
+
+    for (let i = 0; i < 50; i++) history = undo(history);
+    expect(history.present).toBe(session);
+    expect(undo(history)).toBe(history);
+
+    history = redo(redo(history));
+    expect(history.present.ranges[1].end).toBeCloseTo(4.02);
+    expect(history.future).toHaveLength(48);
+  });
+
+  it('clears redo after a new edit and skips no-op edits', () => {
+    let history = applyEdit(createHistory(session), s => toggleRange(s, 0));
+    history = undo(history);
+    history = applyEdit(history, s => toggleRange(s, 4));
+    expect(history.future).toHaveLength(0);
+    expect(applyEdit(history, s => splitRange(s, 4))).toBe(history);
+  });
+});
+
+describe('project files', () => {
+  it('round-trips a session without transient ids and upload reference', () => {
+    const edited = labelRange(splitRange(session, 2), 1, '片頭');
+    const text = serializeEditSession(edited, new Date('2026-01-01T00:00:00Z'));
+    const file = JSON.parse(text);
+    expect(file).toMatchObject({ format: 'wellcut-project', version: 1, savedAt: '2026-01-01T00:00:00.000Z' });
+    expect(file.source).toEqual({ fileName: 'interview.mp4', duration: 10 });
+    expect(file.ranges[0]).not.toHaveProperty('id');
+
+    const reopened = parseProjectFile(text);
+    expect(actions(reopened)).toEqual(actions(edited));
+    expect(reopened.ranges[1].label).toBe('片頭');
+    expect(reopened.detection).toEqual(detection);
+    expect(keptSegments(reopened)).toEqual(keptSegments(edited));
+  });
+
+  it('fills in missing detection options and snaps boundaries', () => {
+    const text = JSON.stringify({
+      format: 'wellcut-project',
+      version: 1,
+      source: { fileName: 'a.wav', duration: 5 },
+      detection: { silenceThreshold: -40 },
+      ranges: [{ start: 0, end: 2.0004, action: 'keep' }, { start: 2, end: 4.9999, action: 'remove' }],
+    });
+    const parsed = parseProjectFile(text);
+    expect(parsed.detection).toEqual({ ...DETECTION_PRESETS.custom.options, silenceThreshold: -40 });
+    expect(actions(parsed)).toEqual(['keep:0-2.0004', 'remove:2.0004-5']);
+  });
+
+  it('rejects invalid or newer project files', () => {
+    const valid = JSON.parse(serializeEditSession(session));
+    expect(() => parseProjectFile('{')).toThrow('不是有效的 JSON');
+    expect(() => parseProjectFile(JSON.stringify({ ...valid, format: 'wellcut-edl' }))).toThrow('不是 WellCut 專案檔');
+    expect(() => parseProjectFile(JSON.stringify({ ...valid, version: 2 }))).toThrow('較新版本');
+    expect(() => parseProjectFile(JSON.stringify({ ...valid, ranges: valid.ranges.slice(1) }))).toThrow('沒有緊接前一個區間');
+    expect(() => parseProjectFile(JSON.stringify({ ...valid, ranges: valid.ranges.slice(0, -1) }))).toThrow('沒有涵蓋整個媒體時長');
+    expect(() => parseProjectFile(JSON.stringify({
+      ...valid,
+      ranges: [{ ...valid.ranges[0], action: 'mute' }, ...valid.ranges.slice(1)],
+    }))).toThrow('keep 或 remove');
+  });
+
+  it('names project files after the source and matches media by duration', () => {
+    expect(projectFileName(session)).toBe('interview.wellcut.json');
+    expect(matchesSource(session, 10.02)).toBe(true);
+    expect(matchesSource(session, 11)).toBe(false);
+  });
+});
@@ -0,0 +1,376 @@
+// 剪輯工作階段：來源媒體、偵測參數與依時間排序的保留 / 移除區間，支援復原與儲存為 .wellcut.json 專案檔
+// 區間首尾相接、涵蓋整個媒體時長；保留區間即為剪輯時輸出的段落
+import { Segment } from './api';
+import { DETECTION_PRESETS, DetectionOptions } from './detectionOptions';
+import { MIN_SEGMENT_LENGTH } from './segmentEditing';
+
+export type RangeAction = 'keep' | 'remove';
+
+export interface EditRange {
+  id: string;        // 工作階段內唯一，不寫入專案檔
+  start: number;
+  end: number;
+  action: RangeAction;
+  label?: string;
+}
+
+// 來源媒體；uploadId 是伺服器上暫存的上傳檔案，重新開啟專案時可能已過期
+export interface SourceMedia {
+  fileName: string;
+  duration: number;
+  size?: number;
+  uploadId?: string;
+}
+
+export interface EditSession {
+  source: SourceMedia;
+  detection: DetectionOptions;
+  ranges: EditRange[];
+}
+
+export const PROJECT_FORMAT = 'wellcut-project';
+export const PROJECT_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.wellcut.json';
+
+// 專案檔內容 (與伺服器端 /render 接受的 session 欄位一致)
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  source: Omit<SourceMedia, 'uploadId'>;
+  detection: DetectionOptions;
+  ranges: Array<Omit<EditRange, 'id'>>;
+}
+
+// 比對區間邊界與媒體時長時容許的誤差 (秒)，吸收 JSON 往返與浮點運算的誤差
+const TIME_TOLERANCE = 1e-3;
+
+// 依現有區間產生下一個 id
+const nextRangeId = (ranges: EditRange[]): string => {
+  const max = ranges.reduce((value, range) => Math.max(value, Number(range.id.slice(1)) || 0), 0);
+  return `r${max + 1}`;
+};
+
+const withIds = (ranges: Array<Omit<EditRange, 'id'>>): EditRange[] =>
+  ranges.map((range, index) => ({ ...range, id: `r${index + 1}` }));
+
+const replaceRanges = (session: EditSession, ranges: EditRange[]): EditSession => ({ ...session, ranges });
+
+/**
+ * 由偵測到的語音段落建立工作階段：語音段落為保留區間，其間的空白為移除區間
+ * @param segments 依時間排序且不重疊的段落
+ */
+export function createEditSession(source: SourceMedia, detection: DetectionOptions, segments: Segment[]): EditSession {
+  const ranges: Array<Omit<EditRange, 'id'>> = [];
+  let cursor = 0;
+  for (const segment of segments) {
+    const start = Math.max(cursor, segment.start);
+    const end = Math.min(source.duration, segment.end);
+    if (end <= start) continue;
+    if (start > cursor) ranges.push({ start: cursor, end: start, action: 'remove' });
+    ranges.push({ start, end, action: 'keep' });
+    cursor = end;
+  }
+  if (cursor < source.duration) ranges.push({ start: cursor, end: source.duration, action: 'remove' });
+  return { source, detection, ranges: withIds(ranges) };
+}
+
+/**
+ * 在指定時間將所在區間一分為二，兩段沿用原本的動作與標籤
+ * 分割點太靠近區間邊界 (短於 MIN_SEGMENT_LENGTH) 時不分割
+ */
+export function splitRange(session: EditSession, time: number): EditSession {
+  const index = session.ranges.findIndex(range => time > range.start && time < range.end);
+  const range = session.ranges[index];
+  if (!range || time - range.start < MIN_SEGMENT_LENGTH || range.end - time < MIN_SEGMENT_LENGTH) {
+    return session;
+  }
+  const ranges = [...session.ranges];
+  ranges.splice(index, 1, { ...range, end: time }, { ...range, start: time, id: nextRangeId(session.ranges) });
+  return replaceRanges(session, ranges);
+}
+
+/**
+ * 將指定區間與下一個區間合併，合併後沿用前者的動作，前者沒有標籤時沿用後者的標籤
+ */
+export function mergeRanges(session: EditSession, index: number): EditSession {
+  const { ranges } = session;
+  if (index < 0 || index >= ranges.length - 1) return session;
+  const merged = { ...ranges[index], end: ranges[index + 1].end, label: ranges[index].label ?? ranges[index + 1].label };
+  return replaceRanges(session, [...ranges.slice(0, index), merged, ...ranges.slice(index + 2)]);
+}
+
+/**
+ * 將指定區間與下一個區間之間的邊界移到新的時間，兩側都至少保留 MIN_SEGMENT_LENGTH
+ */
+export function moveBoundary(session: EditSession, index: number, time: number): EditSession {
+  const { ranges } = session;
+  if (index < 0 || index >= ranges.length - 1) return session;
+  const lower = ranges[index].start + MIN_SEGMENT_LENGTH;
+  const upper = ranges[index + 1].end - MIN_SEGMENT_LENGTH;
+  const boundary = Math.max(lower, Math.min(upper, time));
+  if (boundary === ranges[index].end) return session;
+  return replaceRanges(session, ranges.map((range, i) => {
+    if (i === index) return { ...range, end: boundary };
+    if (i === index + 1) return { ...range, start: boundary };
+    return range;
+  }));
+}
+
+/**
+ * 將指定區間的結束邊界 (即與下一個區間的交界) 前後移動
+ * @param delta 移動量 (秒)，負值往前
+ */
+export function nudgeBoundary(session: EditSession, index: number, delta: number): EditSession {
+  const range = session.ranges[index];
+  return range ? moveBoundary(session, index, range.end + delta) : session;
+}
+
+/**
+ * 同時設定區間的開始與結束 (例如在波形上拖曳整個區間)，相鄰區間隨之伸縮
+ * 往後移時先移動結束點、往前移時先移動開始點，避免被自身的長度限制擋住
+ */
+export function setRangeBounds(session: EditSession, index: number, start: number, end: number): EditSession {
+  const range = session.ranges[index];
+  if (!range) return session;
+  const moveStart = (s: EditSession) => (index > 0 ? moveBoundary(s, index - 1, start) : s);
+  const moveEnd = (s: EditSession) => moveBoundary(s, index, end);
+  return start > range.start ? moveStart(moveEnd(session)) : moveEnd(moveStart(session));
+}
+
+/**
+ * 刪除區間：區間的時間併入前一個區間，第一個區間併入下一個區間；只剩一個區間時不刪除
+ */
+export function deleteRange(session: EditSession, index: number): EditSession {
+  const { ranges } = session;
+  if (!ranges[index] || ranges.length === 1) return session;
+  if (index > 0) {
+    return replaceRanges(session, ranges.flatMap((range, i) => {
+      if (i === index) return [];
+      return i === index - 1 ? [{ ...range, end: ranges[index].end }] : [range];
+    }));
+  }
+  return replaceRanges(session, [{ ...ranges[1], start: ranges[0].start }, ...ranges.slice(2)]);
+}
+
+/**
+ * 切換區間的保留 / 移除
+ */
+export function toggleRange(session: EditSession, index: number): EditSession {
+  if (!session.ranges[index]) return session;
+  return replaceRanges(session, session.ranges.map((range, i) =>
+    i === index ? { ...range, action: range.action === 'keep' ? 'remove' : 'keep' } : range
+  ));
+}
+
+/**
+ * 設定區間標籤，空白標籤視為移除標籤
+ */
+export function labelRange(session: EditSession, index: number, label: string): EditSession {
+  const range = session.ranges[index];
+  if (!range) return session;
+  const trimmed = label.trim() || undefined;
+  if (trimmed === range.label) return session;
+  return replaceRanges(session, session.ranges.map((r, i) => (i === index ? { ...r, label: trimmed } : r)));
+}
+
+// 在波形上對區間的操作，以區間 id 指定對象
+export type RangeChange =
+  | { type: 'resize'; id: string; start: number; end: number }
+  | { type: 'toggle'; id: string }
+  | { type: 'split'; time: number }
+  | { type: 'delete'; id: string };
+
+/**
+ * 套用波形上的區間操作；找不到指定的區間時不變更
+ */
+export function applyRangeChange(session: EditSession, change: RangeChange): EditSession {
+  if (change.type === 'split') return splitRange(session, change.time);
+  const index = session.ranges.findIndex(range => range.id === change.id);
+  if (index < 0) return session;
+  switch (change.type) {
+    case 'resize':
+      return setRangeBounds(session, index, change.start, change.end);
+    case 'toggle':
+      return toggleRange(session, index);
+    case 'delete':
+      return deleteRange(session, index);
+  }
+}
+
+/**
+ * 取得要輸出的段落：相鄰的保留區間合併為一段
+ */
+export function keptSegments(session: EditSession): Segment[] {
+  const segments: Segment[] = [];
+  for (const range of session.ranges) {
+    if (range.action !== 'keep') continue;
+    const last = segments[segments.length - 1];
+    if (last && range.start - last.end <= TIME_TOLERANCE) {
+      last.end = range.end;
+    } else {
+      segments.push({ start: range.start, end: range.end });
+    }
+  }
+  return segments;
+}
+
+/**
+ * 將來源時間換算為輸出時間，位於移除區間內時返回 null
+ */
+export function toOutputTime(session: EditSession, time: number): number | null {
+  let offset = 0;
+  for (const segment of keptSegments(session)) {
+    if (time < segment.start) return null;
+    if (time <= segment.end) return offset + time - segment.start;
+    offset += segment.end - segment.start;
+  }
+  return null;
+}
+
+// 復原 / 重做紀錄，不限步數
+export interface EditHistory {
+  past: EditSession[];
+  present: EditSession;
+  future: EditSession[];
+}
+
+export const createHistory = (session: EditSession): EditHistory => ({ past: [], present: session, future: [] });
+
+/**
+ * 套用一次編輯並記錄到復原紀錄；編輯沒有改變工作階段時不記錄
+ */
+export function applyEdit(history: EditHistory, edit: (session: EditSession) => EditSession): EditHistory {
+  const next = edit(history.present);
+  if (next === history.present) return history;
+  return { past: [...history.past, history.present], present: next, future: [] };
+}
+
+// 復原上一次編輯
+export function undo(history: EditHistory): EditHistory {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+}
+
+// 重做被復原的編輯
+export function redo(history: EditHistory): EditHistory {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+}
+
+/**
+ * 轉換為專案檔內容；uploadId 與區間 id 只在目前的工作階段有效，不寫入
+ */
+export function toProjectFile(session: EditSession, savedAt = new Date()): ProjectFile {
+  const { fileName, duration, size } = session.source;
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: savedAt.toISOString(),
+    source: size === undefined ? { fileName, duration } : { fileName, duration, size },
+    detection: session.detection,
+    ranges: session.ranges.map(({ start, end, action, label }) => (label === undefined
+      ? { start, end, action }
+      : { start, end, action, label })),
+  };
+}
+
+export const serializeEditSession = (session: EditSession, savedAt?: Date): string =>
+  JSON.stringify(toProjectFile(session, savedAt), null, 2);
+
+// 專案檔的預設檔名：來源檔名 (不含副檔名) 加上 .wellcut.json
+export const projectFileName = (session: EditSession): string =>
+  `${session.source.fileName.replace(/\.[^.]+$/, '') || 'wellcut'}${PROJECT_FILE_EXTENSION}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * 解析 .wellcut.json 專案檔
+ * 較舊版本建立、缺少的偵測參數使用自定義模式的預設值；較新版本的專案檔無法開啟
+ * @throws 內容不是有效的專案檔時拋出錯誤，訊息可直接顯示給使用者
+ */
+export function parseProjectFile(text: string): EditSession {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('專案檔不是有效的 JSON');
+  }
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new Error('不是 WellCut 專案檔');
+  }
+  if (!Number.isInteger(raw.version) || (raw.version as number) < 1) {
+    throw new Error(`專案檔版本無效: ${String(raw.version)}`);
+  }
+  if ((raw.version as number) > PROJECT_VERSION) {
+    throw new Error(`專案檔由較新版本的 WellCut 建立 (版本 ${raw.version})，請更新後再開啟`);
+  }
+
+  const { source, detection, ranges } = raw;
+  if (!isRecord(source) || typeof source.fileName !== 'string' || !isFiniteNumber(source.duration) || source.duration <= 0) {
+    throw new Error('專案檔缺少來源媒體的檔名或時長');
+  }
+  const duration = source.duration;
+
+  const defaults = DETECTION_PRESETS.custom.options;
+  const detectionOptions = { ...defaults };
+  if (isRecord(detection)) {
+    for (const key of Object.keys(defaults) as Array<keyof DetectionOptions>) {
+      if (isFiniteNumber(detection[key])) detectionOptions[key] = detection[key];
+    }
+  }
+
+  if (!Array.isArray(ranges) || ranges.length === 0) {
+    throw new Error('專案檔缺少剪輯區間');
+  }
+  let cursor = 0;
+  const parsed = ranges.map((item, index): Omit<EditRange, 'id'> => {
+    const { start, end, action, label } = isRecord(item) ? item : {};
+    if (!isFiniteNumber(start) || !isFiniteNumber(end) || end <= start) {
+      throw new Error(`第 ${index + 1} 個區間的範圍無效`);
+    }
+    if (action !== 'keep' && action !== 'remove') {
+      throw new Error(`第 ${index + 1} 個區間的動作必須是 keep 或 remove`);
+    }
+    if (Math.abs(start - cursor) > TIME_TOLERANCE) {
+      throw new Error(`第 ${index + 1} 個區間沒有緊接前一個區間`);
+    }
+    cursor = end;
+    const trimmed = typeof label === 'string' ? label.trim() : '';
+    return trimmed ? { start, end, action, label: trimmed } : { start, end, action };
+  });
+  if (Math.abs(cursor - duration) > TIME_TOLERANCE) {
+    throw new Error(`剪輯區間沒有涵蓋整個媒體時長 ${duration} 秒`);
+  }
+  // 邊界對齊，吸收容許範圍內的誤差
+  parsed.forEach((range, index) => {
+    range.start = index === 0 ? 0 : parsed[index - 1].end;
+  });
+  parsed[parsed.length - 1].end = duration;
+
+  return {
+    source: isFiniteNumber(source.size) ? { fileName: source.fileName, duration, size: source.size } : { fileName: source.fileName, duration },
+    detection: detectionOptions,
+    ranges: withIds(parsed),
+  };
+}
+
+// 不同工具探測同一個檔案的時長可能略有差異
+const SOURCE_DURATION_TOLERANCE = 0.05;
+
+/**
+ * 判斷專案檔的來源是否為指定時長的媒體；只比對時長，檔案重新命名後仍可開啟
+ */
+export const matchesSource = (session: EditSession, duration: number): boolean =>
+  Math.abs(session.source.duration - duration) <= SOURCE_DURATION_TOLERANCE;
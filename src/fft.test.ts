@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { fft, nextPowerOfTwo, powerSpectrum } from './fft';
+
+describe('fft', () => {
+  it('puts a pure tone in its frequency bin', () => {
+    const size = 64;
+    const real = Float64Array.from({ length: size }, (_, i) => Math.cos((2 * Math.PI * 5 * i) / size));
+    const imag = new Float64Array(size);
+    fft(real, imag);
+    expect(real[5]).toBeCloseTo(size / 2);
+    expect(real[size - 5]).toBeCloseTo(size / 2);
+    expect(Math.abs(real[6])).toBeLessThan(1e-9);
+  });
+
+  it('inverts back to the input', () => {
+    const input = Float64Array.from({ length: 16 }, (_, i) => Math.sin(i) + i / 10);
+    const real = Float64Array.from(input);
+    const imag = new Float64Array(16);
+    fft(real, imag);
+    fft(real, imag, true);
+    real.forEach((value, i) => expect(value).toBeCloseTo(input[i]));
+  });
+
+  it('rejects lengths that are not powers of two', () => {
+    expect(() => fft(new Float64Array(12), new Float64Array(12))).toThrow();
+  });
+});
+
+describe('powerSpectrum', () => {
+  it('zero-pads to the FFT size', () => {
+    expect(nextPowerOfTwo(160)).toBe(256);
+    expect(powerSpectrum(new Float32Array(160).fill(1))).toHaveLength(129);
+  });
+});
@@ -0,0 +1,92 @@
+// 基本的頻譜分析工具：radix-2 FFT、Hann 窗與功率譜
+
+/**
+ * 大於或等於 value 的最小 2 的次方
+ */
+export const nextPowerOfTwo = (value: number): number => 2 ** Math.ceil(Math.log2(Math.max(1, value)));
+
+/**
+ * 原地計算複數 FFT (radix-2，長度需為 2 的次方)
+ * @param real 實部，計算後為頻域實部
+ * @param imag 虛部，計算後為頻域虛部
+ * @param inverse true 時計算反向 FFT (含 1/N 縮放)
+ */
+export function fft(real: Float64Array, imag: Float64Array, inverse = false): void {
+  const size = real.length;
+  if (size & (size - 1)) {
+    throw new Error(`FFT 長度必須是 2 的次方，收到 ${size}`);
+  }
+
+  // 位元反轉排列
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  const sign = inverse ? 1 : -1;
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (sign * 2 * Math.PI) / length;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    for (let start = 0; start < size; start += length) {
+      let wReal = 1;
+      let wImag = 0;
+      for (let k = 0; k < length / 2; k++) {
+        const a = start + k;
+        const b = a + length / 2;
+        const tReal = real[b] * wReal - imag[b] * wImag;
+        const tImag = real[b] * wImag + imag[b] * wReal;
+        real[b] = real[a] - tReal;
+        imag[b] = imag[a] - tImag;
+        real[a] += tReal;
+        imag[a] += tImag;
+        [wReal, wImag] = [wReal * stepReal - wImag * stepImag, wReal * stepImag + wImag * stepReal];
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < size; i++) {
+      real[i] /= size;
+      imag[i] /= size;
+    }
+  }
+}
+
+const windowCache = new Map<number, Float64Array>();
+
+/**
+ * 週期性 Hann 窗 (適用於 50% 重疊的 STFT 重建)
+ */
+export function hannWindow(size: number): Float64Array {
+  let window = windowCache.get(size);
+  if (!window) {
+    window = Float64Array.from({ length: size }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size));
+    windowCache.set(size, window);
+  }
+  return window;
+}
+
+/**
+ * 計算一段樣本套用 Hann 窗後的功率譜
+ * @param samples 樣本，長度不足 fftSize 時補零
+ * @param fftSize FFT 長度 (2 的次方)
+ * @returns fftSize / 2 + 1 個頻率格的功率
+ */
+export function powerSpectrum(samples: ArrayLike<number>, fftSize = nextPowerOfTwo(samples.length)): Float64Array {
+  const length = Math.min(samples.length, fftSize);
+  const window = hannWindow(length);
+  const real = new Float64Array(fftSize);
+  const imag = new Float64Array(fftSize);
+  for (let i = 0; i < length; i++) real[i] = samples[i] * window[i];
+  fft(real, imag);
+
+  const power = new Float64Array(fftSize / 2 + 1);
+  for (let i = 0; i < power.length; i++) power[i] = real[i] * real[i] + imag[i] * imag[i];
+  return power;
+}
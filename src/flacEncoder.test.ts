@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { crc16, crc8, encodeFlac } from './flacEncoder';
+
+// 測試用的最小 FLAC 解碼器：只支援本編碼器會產生的 CONSTANT / VERBATIM / FIXED 子幀
+class BitReader {
+  position = 0; // 以位元計
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  read(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      const bit = (this.bytes[this.position >> 3] >> (7 - (this.position & 7))) & 1;
+      value = value * 2 + bit;
+      this.position++;
+    }
+    return value;
+  }
+
+  readSigned(bits: number): number {
+    const value = this.read(bits);
+    return value >= 2 ** (bits - 1) ? value - 2 ** bits : value;
+  }
+
+  readUnary(): number {
+    let zeros = 0;
+    while (this.read(1) === 0) zeros++;
+    return zeros;
+  }
+
+  align(): void {
+    this.position = Math.ceil(this.position / 8) * 8;
+  }
+}
+
+const FIXED_COEFFICIENTS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]];
+
+function decodeSubframe(reader: BitReader, blockSize: number, bitsPerSample: number): Int32Array {
+  expect(reader.read(1)).toBe(0);
+  const type = reader.read(6);
+  expect(reader.read(1)).toBe(0); // 無 wasted bits
+  const samples = new Int32Array(blockSize);
+
+  if (type === 0) {
+    samples.fill(reader.readSigned(bitsPerSample));
+    return samples;
+  }
+  if (type === 1) {
+    for (let i = 0; i < blockSize; i++) samples[i] = reader.readSigned(bitsPerSample);
+    return samples;
+  }
+
+  expect(type & 0b111000).toBe(0b001000);
+  const order = type & 0b111;
+  for (let i = 0; i < order; i++) samples[i] = reader.readSigned(bitsPerSample);
+
+  expect(reader.read(2)).toBe(0);
+  const partitionOrder = reader.read(4);
+  const partitions = 2 ** partitionOrder;
+  let index = order;
+  for (let p = 0; p < partitions; p++) {
+    const parameter = reader.read(4);
+    const count = blockSize / partitions - (p === 0 ? order : 0);
+    for (let i = 0; i < count; i++) {
+      const value = reader.readUnary() * 2 ** parameter + reader.read(parameter);
+      const residual = value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+      const prediction = FIXED_COEFFICIENTS[order].reduce((sum, c, k) => sum + c * samples[index - k - 1], 0);
+      samples[index++] = prediction + residual;
+    }
+  }
+  return samples;
+}
+
+function decodeFlac(bytes: Uint8Array) {
+  const reader = new BitReader(bytes);
+  expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe('fLaC');
+  reader.read(32);
+  expect(reader.read(1)).toBe(1); // 最後一個中繼資料區塊
+  expect(reader.read(7)).toBe(0); // STREAMINFO
+  expect(reader.read(24)).toBe(34);
+  reader.read(16 + 16 + 24 + 24);
+  const sampleRate = reader.read(20);
+  const channelCount = reader.read(3) + 1;
+  const bitsPerSample = reader.read(5) + 1;
+  const totalSamples = reader.read(36);
+  reader.read(128);
+
+  const channels = Array.from({ length: channelCount }, () => new Int32Array(totalSamples));
+  let decoded = 0;
+  let frameNumber = 0;
+  while (decoded < totalSamples) {
+    const frameStart = reader.position / 8;
+    expect(reader.read(14)).toBe(0b11111111111110);
+    reader.read(2);
+    expect(reader.read(4)).toBe(0b0111);
+    reader.read(4);
+    expect(reader.read(4)).toBe(channelCount - 1);
+    reader.read(4);
+    // 幀編號 (類 UTF-8)
+    const first = reader.read(8);
+    let leadingOnes = 0;
+    while (first & (0x80 >> leadingOnes)) leadingOnes++;
+    let number = leadingOnes === 0 ? first : first & (0xff >> (leadingOnes + 1));
+    for (let i = 1; i < leadingOnes; i++) number = number * 64 + (reader.read(8) & 0x3f);
+    expect(number).toBe(frameNumber++);
+    const blockSize = reader.read(16) + 1;
+    const headerEnd = reader.position / 8;
+    expect(reader.read(8)).toBe(crc8(bytes.subarray(frameStart, headerEnd)));
+
+    for (const channel of channels) {
+      channel.set(decodeSubframe(reader, blockSize, bitsPerSample), decoded);
+    }
+    reader.align();
+    const frameEnd = reader.position / 8;
+    expect(reader.read(16)).toBe(crc16(bytes.subarray(frameStart, frameEnd)));
+    decoded += blockSize;
+  }
+  expect(reader.position / 8).toBe(bytes.length);
+  return { sampleRate, bitsPerSample, channels };
+}
+
+// 可重現的偽隨機數
+const random = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2 ** 31;
+  return seed / 2 ** 31;
+};
+
+describe('crc', () => {
+  it('matches the FLAC check values', () => {
+    const check = new TextEncoder().encode('123456789');
+    expect(crc8(check)).toBe(0xf4);
+    expect(crc16(check)).toBe(0xfee8);
+  });
+});
+
+describe('encodeFlac', () => {
+  it('round-trips 16-bit stereo PCM exactly', () => {
+    const next = random(1);
+    const length = 10000;
+    const left = Int32Array.from({ length }, (_, i) => Math.round(20000 * Math.sin(i / 20)));
+    const right = Int32Array.from({ length }, () => Math.round((next() * 2 - 1) * 32767));
+    const bytes = encodeFlac([left, right], 44100, 16, 4096);
+
+    const decoded = decodeFlac(bytes);
+    expect(decoded.sampleRate).toBe(44100);
+    expect(decoded.bitsPerSample).toBe(16);
+    expect(decoded.channels).toEqual([left, right]);
+  });
+
+  it('round-trips 24-bit extremes and silence', () => {
+    const length = 300;
+    const extremes = Int32Array.from({ length }, (_, i) => (i % 2 === 0 ? 8388607 : -8388608));
+    const silence = new Int32Array(length);
+    const decoded = decodeFlac(encodeFlac([extremes, silence, extremes.map(v => v >> 8)], 96000, 24, 256));
+    expect(decoded.channels).toEqual([extremes, silence, extremes.map(v => v >> 8)]);
+  });
+
+  it('compresses predictable signals', () => {
+    const ramp = Int32Array.from({ length: 8192 }, (_, i) => (i % 1000) - 500);
+    expect(encodeFlac([ramp], 48000).length).toBeLessThan(ramp.length * 2 / 4);
+  });
+
+  it('writes multi-byte frame numbers', () => {
+    const samples = Int32Array.from({ length: 16 * 200 }, (_, i) => i % 7);
+    expect(decodeFlac(encodeFlac([samples], 8000, 16, 16)).channels[0]).toEqual(samples);
+  });
+
+  it('rejects unsupported layouts', () => {
+    expect(() => encodeFlac([], 44100)).toThrow();
+    expect(() => encodeFlac([new Int32Array(4)], 44100, 32)).toThrow();
+  });
+});
@@ -0,0 +1,315 @@
+// FLAC 編碼器 (純 TypeScript，不依賴瀏覽器 API)
+// 使用固定預測器 (order 0–4) 與 Rice 編碼的殘差，無法壓縮的區塊改用 VERBATIM；解碼後與輸入的 PCM 完全相同
+
+export const FLAC_BLOCK_SIZE = 4096;
+// Rice 參數只有 4 位元，15 保留給 escape code
+const MAX_RICE_PARAMETER = 14;
+const MAX_PARTITION_ORDER = 8;
+const MAX_FIXED_ORDER = 4;
+
+// 逐位元寫入的緩衝區
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  private current = 0;
+  private bitCount = 0;
+
+  private pushByte(byte: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+
+  writeBit(bit: number): void {
+    this.current = (this.current << 1) | (bit & 1);
+    if (++this.bitCount === 8) {
+      this.pushByte(this.current);
+      this.current = 0;
+      this.bitCount = 0;
+    }
+  }
+
+  // 寫入無號整數的低 bits 位元 (最多 36 位元，以浮點運算避免 32 位元溢位)
+  writeBits(value: number, bits: number): void {
+    if (bits <= 30) {
+      for (let i = bits - 1; i >= 0; i--) this.writeBit(value >>> i);
+      return;
+    }
+    for (let i = bits - 1; i >= 0; i--) {
+      this.writeBit(Math.floor(value / 2 ** i) % 2);
+    }
+  }
+
+  // 以二補數寫入有號整數
+  writeSigned(value: number, bits: number): void {
+    this.writeBits(value < 0 ? value + 2 ** bits : value, bits);
+  }
+
+  writeUnary(zeros: number): void {
+    for (let i = 0; i < zeros; i++) this.writeBit(0);
+    this.writeBit(1);
+  }
+
+  // 補零到位元組邊界
+  alignToByte(): void {
+    while (this.bitCount !== 0) this.writeBit(0);
+  }
+
+  get byteLength(): number {
+    return this.length;
+  }
+
+  toBytes(from = 0): Uint8Array {
+    return this.bytes.slice(from, this.length);
+  }
+}
+
+const CRC8_TABLE = new Uint8Array(256).map((_, i) => {
+  let crc = i;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+});
+
+const CRC16_TABLE = new Uint16Array(256).map((_, i) => {
+  let crc = i << 8;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc;
+});
+
+/** CRC-8 (多項式 0x07)，用於幀標頭 */
+export function crc8(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) crc = CRC8_TABLE[crc ^ byte];
+  return crc;
+}
+
+/** CRC-16 (多項式 0x8005)，用於整個幀 */
+export function crc16(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ byte];
+  return crc;
+}
+
+// 幀編號以類 UTF-8 的可變長度編碼寫入
+function writeUtf8Number(writer: BitWriter, value: number): void {
+  if (value < 0x80) {
+    writer.writeBits(value, 8);
+    return;
+  }
+  let continuationBytes = 1;
+  // 第一個位元組可容納 6 - continuationBytes 位元，之後每個位元組 6 位元
+  while (value >= 2 ** (6 + 5 * continuationBytes) && continuationBytes < 6) continuationBytes++;
+  const prefix = (0xff << (7 - continuationBytes)) & 0xff;
+  writer.writeBits(prefix | Math.floor(value / 2 ** (6 * continuationBytes)), 8);
+  for (let i = continuationBytes - 1; i >= 0; i--) {
+    writer.writeBits(0x80 | (Math.floor(value / 2 ** (6 * i)) % 64), 8);
+  }
+}
+
+// 固定預測器的殘差
+function fixedResiduals(samples: Int32Array, order: number): number[] {
+  const residuals: number[] = [];
+  for (let i = order; i < samples.length; i++) {
+    const s = samples;
+    switch (order) {
+      case 0: residuals.push(s[i]); break;
+      case 1: residuals.push(s[i] - s[i - 1]); break;
+      case 2: residuals.push(s[i] - 2 * s[i - 1] + s[i - 2]); break;
+      case 3: residuals.push(s[i] - 3 * s[i - 1] + 3 * s[i - 2] - s[i - 3]); break;
+      default: residuals.push(s[i] - 4 * s[i - 1] + 6 * s[i - 2] - 4 * s[i - 3] + s[i - 4]); break;
+    }
+  }
+  return residuals;
+}
+
+const zigzag = (value: number) => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+// 選出一組殘差的最佳 Rice 參數與對應的位元數
+function bestRiceParameter(values: number[], from: number, to: number): { parameter: number; bits: number } {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += values[i];
+  const count = to - from;
+  // 由平均值估計起點，再比較相鄰參數
+  const mean = count > 0 ? sum / count : 0;
+  const estimate = Math.min(MAX_RICE_PARAMETER, Math.max(0, Math.floor(Math.log2(mean + 1))));
+  let best = { parameter: estimate, bits: Infinity };
+  for (let parameter = Math.max(0, estimate - 1); parameter <= Math.min(MAX_RICE_PARAMETER, estimate + 1); parameter++) {
+    let bits = count * (parameter + 1);
+    for (let i = from; i < to; i++) bits += Math.floor(values[i] / 2 ** parameter);
+    if (bits < best.bits) best = { parameter, bits };
+  }
+  return best;
+}
+
+interface ResidualPlan {
+  partitionOrder: number;
+  parameters: number[];
+  bits: number;
+}
+
+// 搜尋最佳的分割階數與各分割的 Rice 參數
+function planResidual(unsignedResiduals: number[], blockSize: number, order: number): ResidualPlan {
+  let best: ResidualPlan | null = null;
+  for (let partitionOrder = 0; partitionOrder <= MAX_PARTITION_ORDER; partitionOrder++) {
+    const partitions = 2 ** partitionOrder;
+    if (blockSize % partitions !== 0 || blockSize / partitions <= order) break;
+
+    const partitionSize = blockSize / partitions;
+    const parameters: number[] = [];
+    let bits = 2 + 4; // 編碼方式與分割階數
+    let offset = 0;
+    for (let p = 0; p < partitions; p++) {
+      const count = p === 0 ? partitionSize - order : partitionSize;
+      const rice = bestRiceParameter(unsignedResiduals, offset, offset + count);
+      parameters.push(rice.parameter);
+      bits += 4 + rice.bits;
+      offset += count;
+    }
+    if (!best || bits < best.bits) best = { partitionOrder, parameters, bits };
+  }
+  return best!;
+}
+
+function writeSubframe(writer: BitWriter, samples: Int32Array, bitsPerSample: number): void {
+  const blockSize = samples.length;
+
+  // 整個區塊為同一個值時使用 CONSTANT
+  if (samples.every(sample => sample === samples[0])) {
+    writer.writeBits(0b00000000, 8);
+    writer.writeSigned(samples[0], bitsPerSample);
+    return;
+  }
+
+  // 比較各階固定預測器的總位元數 (暖機樣本 + 殘差)，都不比 VERBATIM 小時就不壓縮
+  let bestOrder = 0;
+  let bestPlan: ResidualPlan | null = null;
+  let bestResiduals: number[] = [];
+  let bestBits = blockSize * bitsPerSample;
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, blockSize - 1); order++) {
+    const residuals = fixedResiduals(samples, order).map(zigzag);
+    const plan = planResidual(residuals, blockSize, order);
+    const bits = order * bitsPerSample + plan.bits;
+    if (bits < bestBits) {
+      bestOrder = order;
+      bestPlan = plan;
+      bestResiduals = residuals;
+      bestBits = bits;
+    }
+  }
+
+  if (!bestPlan) {
+    // 無法壓縮時使用 VERBATIM
+    writer.writeBits(0b00000010, 8);
+    for (const sample of samples) writer.writeSigned(sample, bitsPerSample);
+    return;
+  }
+
+  // FIXED 子幀：0 + 001xxx (預測階數) + 無 wasted bits
+  writer.writeBits(0b00010000 | (bestOrder << 1), 8);
+  for (let i = 0; i < bestOrder; i++) writer.writeSigned(samples[i], bitsPerSample);
+
+  writer.writeBits(0b00, 2); // Rice 編碼，4 位元參數
+  writer.writeBits(bestPlan.partitionOrder, 4);
+  const partitions = 2 ** bestPlan.partitionOrder;
+  const partitionSize = blockSize / partitions;
+  let offset = 0;
+  for (let p = 0; p < partitions; p++) {
+    const parameter = bestPlan.parameters[p];
+    const count = p === 0 ? partitionSize - bestOrder : partitionSize;
+    writer.writeBits(parameter, 4);
+    for (let i = offset; i < offset + count; i++) {
+      const value = bestResiduals[i];
+      const quotient = Math.floor(value / 2 ** parameter);
+      writer.writeUnary(quotient);
+      writer.writeBits(value - quotient * 2 ** parameter, parameter);
+    }
+    offset += count;
+  }
+}
+
+// 幀標頭中的樣本位元數代碼
+const SAMPLE_SIZE_CODES: Record<number, number> = { 8: 0b001, 12: 0b010, 16: 0b100, 20: 0b101, 24: 0b110 };
+
+function writeFrame(
+  writer: BitWriter,
+  channels: Int32Array[],
+  frameNumber: number,
+  bitsPerSample: number
+): void {
+  const start = writer.byteLength;
+  const blockSize = channels[0].length;
+
+  writer.writeBits(0b11111111111110, 14); // 同步碼
+  writer.writeBits(0, 1);                 // 保留
+  writer.writeBits(0, 1);                 // 固定區塊大小
+  writer.writeBits(0b0111, 4);            // 區塊大小於標頭結尾以 16 位元指定
+  writer.writeBits(0b0000, 4);            // 取樣率使用 STREAMINFO
+  writer.writeBits(channels.length - 1, 4); // 各聲道獨立編碼
+  writer.writeBits(SAMPLE_SIZE_CODES[bitsPerSample] ?? 0, 3);
+  writer.writeBits(0, 1);
+  writeUtf8Number(writer, frameNumber);
+  writer.writeBits(blockSize - 1, 16);
+  writer.writeBits(crc8(writer.toBytes(start)), 8);
+
+  for (const samples of channels) {
+    writeSubframe(writer, samples, bitsPerSample);
+  }
+  writer.alignToByte();
+  writer.writeBits(crc16(writer.toBytes(start)), 16);
+}
+
+/**
+ * 將整數 PCM 編碼為 FLAC 檔案
+ * @param channels 各聲道的整數樣本，範圍需在 bitsPerSample 的有號整數範圍內
+ * @param sampleRate 取樣率
+ * @param bitsPerSample 樣本位元數 (8、16 或 24)
+ * @param blockSize 每幀的樣本數
+ * @param onProgress 每編碼一幀回報一次進度 (0 ~ 100)
+ * @returns 完整的 FLAC 檔案內容
+ */
+export function encodeFlac(
+  channels: Int32Array[],
+  sampleRate: number,
+  bitsPerSample = 16,
+  blockSize = FLAC_BLOCK_SIZE,
+  onProgress?: (percent: number) => void
+): Uint8Array {
+  if (channels.length < 1 || channels.length > 8) {
+    throw new Error(`FLAC 只支援 1–8 個聲道，收到 ${channels.length} 個`);
+  }
+  if (![8, 16, 24].includes(bitsPerSample)) {
+    throw new Error(`FLAC 編碼只支援 8、16 或 24 位元，收到 ${bitsPerSample}`);
+  }
+  const totalSamples = channels[0].length;
+  const writer = new BitWriter();
+
+  // 串流標記與 STREAMINFO (最後一個中繼資料區塊)
+  writer.writeBits(0x664c6143, 32); // "fLaC"
+  writer.writeBits(1, 1);
+  writer.writeBits(0, 7);
+  writer.writeBits(34, 24);
+  writer.writeBits(Math.min(blockSize, Math.max(totalSamples, 16)), 16);
+  writer.writeBits(Math.min(blockSize, Math.max(totalSamples, 16)), 16);
+  writer.writeBits(0, 24); // 最小幀大小未知
+  writer.writeBits(0, 24); // 最大幀大小未知
+  writer.writeBits(sampleRate, 20);
+  writer.writeBits(channels.length - 1, 3);
+  writer.writeBits(bitsPerSample - 1, 5);
+  writer.writeBits(totalSamples, 36);
+  for (let i = 0; i < 4; i++) writer.writeBits(0, 32); // MD5 未計算
+
+  for (let offset = 0, frame = 0; offset < totalSamples; offset += blockSize, frame++) {
+    const end = Math.min(offset + blockSize, totalSamples);
+    writeFrame(writer, channels.map(samples => samples.subarray(offset, end)), frame, bitsPerSample);
+    onProgress?.((end / totalSamples) * 100);
+  }
+
+  return writer.toBytes();
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { computeLoudnessGain, kWeightingCoefficients, loudnessGainOf, measureLoudness, measureTruePeak } from './loudness';
+
+const SAMPLE_RATE = 48000;
+
+// 正弦波，振幅以 dBFS 表示
+const sine = (frequency: number, levelDb: number, duration: number, phase = 0) => {
+  const amplitude = Math.pow(10, levelDb / 20);
+  return Float32Array.from(
+    { length: Math.round(SAMPLE_RATE * duration) },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE + phase)
+  );
+};
+
+const concat = (...parts: Float32Array[]) => {
+  const data = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return data;
+};
+
+const stereo = (data: Float32Array) => ({ sampleRate: SAMPLE_RATE, channels: [data, data] });
+
+describe('kWeightingCoefficients', () => {
+  it('matches the BS.1770 coefficients at 48 kHz', () => {
+    const [shelf, highPass] = kWeightingCoefficients(48000);
+    expect(shelf[0]).toBeCloseTo(1.53512485958697, 8);
+    expect(shelf[1]).toBeCloseTo(-2.69169618940638, 8);
+    expect(shelf[2]).toBeCloseTo(1.19839281085285, 8);
+    expect(shelf[3]).toBeCloseTo(-1.69065929318241, 8);
+    expect(shelf[4]).toBeCloseTo(0.73248077421585, 8);
+    expect(highPass[3]).toBeCloseTo(-1.99004745483398, 8);
+    expect(highPass[4]).toBeCloseTo(0.99007225036621, 8);
+  });
+});
+
+describe('measureLoudness', () => {
+  it('measures a stereo 1 kHz sine at -23 dBFS as -23 LUFS', () => {
+    const report = measureLoudness(stereo(sine(1000, -23, 10)));
+    expect(report.integrated).toBeCloseTo(-23, 1);
+    expect(report.samplePeak).toBeCloseTo(-23, 1);
+    expect(report.range).toBeCloseTo(0, 1);
+  });
+
+  it('ignores silence through the absolute gate', () => {
+    const report = measureLoudness(stereo(concat(sine(1000, -23, 10), new Float32Array(SAMPLE_RATE * 10))));
+    // 跨越靜音邊界的區塊仍會計入，EBU Tech 3341 容許 ±0.1 LU
+    expect(Math.abs(report.integrated + 23)).toBeLessThan(0.1);
+  });
+
+  it('measures the loudness range between two levels', () => {
+    // EBU Tech 3342 測試訊號：-20 dBFS 與 -30 dBFS 各 20 秒，LRA 為 10 LU
+    const report = measureLoudness(stereo(concat(sine(1000, -20, 20), sine(1000, -30, 20))));
+    expect(report.range).toBeCloseTo(10, 0);
+    expect(report.integrated).toBeCloseTo(10 * Math.log10((0.01 + 0.001) / 2), 1);
+  });
+
+  it('excludes the LFE channel of 5.1 audio', () => {
+    const tone = sine(1000, -23, 5);
+    const silent = new Float32Array(tone.length);
+    const withLfe = measureLoudness({ sampleRate: SAMPLE_RATE, channels: [tone, tone, silent, tone, silent, silent] });
+    expect(withLfe.integrated).toBeCloseTo(-23, 1);
+  });
+
+  it('reports -Infinity for silence', () => {
+    expect(measureLoudness(stereo(new Float32Array(SAMPLE_RATE))).integrated).toBe(-Infinity);
+  });
+});
+
+describe('measureLoudness progress', () => {
+  it('reports increasing progress while filtering and oversampling', () => {
+    const progress: number[] = [];
+    measureLoudness(stereo(sine(1000, -20, 3)), percent => progress.push(percent));
+    expect(progress[progress.length - 1]).toBe(100);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    // K 加權與真峰值的進度都會回報，不只是最後的 100
+    expect(progress.filter(percent => percent > 0 && percent < 100).length).toBeGreaterThan(4);
+  });
+});
+
+describe('measureTruePeak', () => {
+  it('finds peaks between samples', () => {
+    // fs/4 的正弦波相位偏移 45° 時，樣本只落在振幅的 0.707 倍 (-3 dB)
+    const data = sine(SAMPLE_RATE / 4, -6, 1, Math.PI / 4);
+    const samplePeak = 20 * Math.log10(Math.max(...data.map(Math.abs)));
+    const truePeak = 20 * Math.log10(measureTruePeak([data], SAMPLE_RATE));
+    expect(samplePeak).toBeCloseTo(-9, 0);
+    expect(Math.abs(truePeak + 6)).toBeLessThan(0.5);
+  });
+});
+
+describe('computeLoudnessGain', () => {
+  it('reaches the target loudness', () => {
+    const audio = stereo(sine(1000, -30, 5));
+    const gain = computeLoudnessGain(audio, -23, 0);
+    expect(20 * Math.log10(gain)).toBeCloseTo(7, 1);
+  });
+
+  it('limits the gain to the true-peak ceiling', () => {
+    // 峰值 -6 dBFS 的立體聲正弦波約為 -6 LUFS，拉到 0 LUFS 會超過 -1 dBTP
+    const audio = stereo(sine(1000, -6, 5));
+    const gain = computeLoudnessGain(audio, 0, -1);
+    expect(20 * Math.log10(gain)).toBeCloseTo(5, 1);
+  });
+
+  it('leaves silence untouched', () => {
+    expect(computeLoudnessGain(stereo(new Float32Array(SAMPLE_RATE)), -16)).toBe(1);
+  });
+
+  it('matches loudnessGainOf on the measured report', () => {
+    const audio = stereo(sine(1000, -6, 5));
+    expect(loudnessGainOf(measureLoudness(audio), 0, -1)).toBe(computeLoudnessGain(audio, 0, -1));
+  });
+});
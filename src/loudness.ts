@@ -0,0 +1,267 @@
+// ITU-R BS.1770-4 / EBU R128 響度量測 (純函數，不依賴 Web Audio)
+// 整合響度與響度範圍以 K 加權後的均方值計算，真峰值以 4 倍超取樣估計
+import { PcmAudio, pcmFromBuffer, ProgressCallback } from './audioEncoders';
+
+// 響度量測結果 (伺服器的 loudnorm 回報相同的欄位，但沒有樣本峰值)
+export interface LoudnessReport {
+  integrated: number;   // 整合響度 (LUFS)，沒有通過閘控的區塊時為 -Infinity
+  range: number;        // 響度範圍 LRA (LU)
+  truePeak: number;     // 真峰值 (dBTP)
+  samplePeak?: number;  // 樣本峰值 (dBFS)
+}
+
+// 常用的整合響度目標
+export const LOUDNESS_TARGETS = {
+  podcast: -16,    // Apple Podcasts / Spotify 等平台建議值
+  broadcast: -23,  // EBU R128 廣播交付
+} as const;
+
+// 標準化到 LUFS 時預設的真峰值上限 (dBTP)
+export const DEFAULT_TRUE_PEAK_CEILING = -1;
+
+// 閘控區塊 400 ms、短期響度 3 s，皆以 100 ms 為步進 (75% 與 96.7% 重疊)
+const STEP_DURATION = 0.1;
+const BLOCK_STEPS = 4;
+const SHORT_TERM_STEPS = 30;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+const RANGE_RELATIVE_GATE = -20;
+
+// 超取樣內插的單側點數
+const INTERPOLATION_TAPS = 6;
+
+// 量測響度時 K 加權佔的進度，其餘為真峰值 (超取樣的運算量遠大於濾波)
+const WEIGHTING_PROGRESS = 20;
+// 真峰值每處理此數量的樣本回報一次進度
+const TRUE_PEAK_PROGRESS_SAMPLES = 1 << 16;
+
+type BiquadCoefficients = [b0: number, b1: number, b2: number, a1: number, a2: number];
+
+/**
+ * 計算 K 加權濾波器 (高頻擱架 + RLB 高通) 的係數
+ * 依 BS.1770 的類比原型換算，因此任何取樣率都適用 (48 kHz 時與標準中的係數相同)
+ */
+export function kWeightingCoefficients(sampleRate: number): [BiquadCoefficients, BiquadCoefficients] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: BiquadCoefficients = [
+    (Vh + (Vb * K) / Q + K * K) / a0,
+    (2 * (K * K - Vh)) / a0,
+    (Vh - (Vb * K) / Q + K * K) / a0,
+    (2 * (K * K - 1)) / a0,
+    (1 - K / Q + K * K) / a0,
+  ];
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass: BiquadCoefficients = [1, -2, 1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0];
+  return [shelf, highPass];
+}
+
+// 以直接型 II 轉置結構套用雙二階濾波器
+function biquad(input: Float64Array, [b0, b1, b2, a1, a2]: BiquadCoefficients): Float64Array {
+  const output = new Float64Array(input.length);
+  let z1 = 0;
+  let z2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + z1;
+    z1 = b1 * x - a1 * y + z2;
+    z2 = b2 * x - a2 * y;
+    output[i] = y;
+  }
+  return output;
+}
+
+/**
+ * 各聲道的加權：5.0 / 5.1 的環繞聲道為 1.41，LFE 不計入 (Web Audio 的聲道順序 L R C LFE SL SR)
+ */
+export function channelWeights(channelCount: number): number[] {
+  if (channelCount === 6) return [1, 1, 1, 0, 1.41, 1.41];
+  if (channelCount === 5) return [1, 1, 1, 1.41, 1.41];
+  return new Array(channelCount).fill(1);
+}
+
+// 均方值換算為響度
+const toLoudness = (power: number) => (power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity);
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * 計算每個 100 ms 步進的加權均方值總和 (已乘上聲道加權)
+ * @param onProgress 每處理完一個聲道回報一次
+ */
+function weightedStepPower(channels: Float32Array[], sampleRate: number, onProgress?: ProgressCallback): Float64Array {
+  const stepSize = Math.round(sampleRate * STEP_DURATION);
+  const stepCount = Math.floor((channels[0]?.length ?? 0) / stepSize);
+  const [shelf, highPass] = kWeightingCoefficients(sampleRate);
+  const weights = channelWeights(channels.length);
+  const power = new Float64Array(stepCount);
+
+  channels.forEach((data, channel) => {
+    if (weights[channel] !== 0) {
+      const filtered = biquad(biquad(Float64Array.from(data), shelf), highPass);
+      for (let step = 0; step < stepCount; step++) {
+        let sum = 0;
+        for (let i = step * stepSize; i < (step + 1) * stepSize; i++) sum += filtered[i] * filtered[i];
+        power[step] += (weights[channel] * sum) / stepSize;
+      }
+    }
+    onProgress?.(((channel + 1) / channels.length) * 100);
+  });
+  return power;
+}
+
+// 以連續 length 個步進組成區塊，返回每個區塊的均方值
+function blockPowers(stepPower: Float64Array, length: number): number[] {
+  const blocks: number[] = [];
+  let sum = 0;
+  for (let step = 0; step < stepPower.length; step++) {
+    sum += stepPower[step];
+    if (step >= length) sum -= stepPower[step - length];
+    if (step >= length - 1) blocks.push(Math.max(0, sum / length));
+  }
+  return blocks;
+}
+
+/**
+ * 以絕對與相對閘控計算整合響度
+ */
+function gatedLoudness(blocks: number[]): number {
+  const aboveAbsolute = blocks.filter(power => toLoudness(power) > ABSOLUTE_GATE);
+  if (aboveAbsolute.length === 0) return -Infinity;
+  const threshold = toLoudness(mean(aboveAbsolute)) + RELATIVE_GATE;
+  const gated = aboveAbsolute.filter(power => toLoudness(power) > threshold);
+  return toLoudness(mean(gated));
+}
+
+/**
+ * 以短期響度 (3 s) 的分佈計算響度範圍：閘控後第 95 與第 10 百分位數的差
+ */
+function loudnessRange(shortTermBlocks: number[]): number {
+  const aboveAbsolute = shortTermBlocks.filter(power => toLoudness(power) > ABSOLUTE_GATE);
+  if (aboveAbsolute.length === 0) return 0;
+  const threshold = toLoudness(mean(aboveAbsolute)) + RANGE_RELATIVE_GATE;
+  const levels = aboveAbsolute
+    .map(toLoudness)
+    .filter(level => level > threshold)
+    .sort((a, b) => a - b);
+  const percentile = (p: number) => levels[Math.round((levels.length - 1) * p)];
+  return percentile(0.95) - percentile(0.1);
+}
+
+// 各內插相位 (1/4、2/4、3/4) 的係數：Hann 窗的 sinc 內插，並正規化為直流增益 1
+const interpolationPhases = (factor: number): Float64Array[] =>
+  Array.from({ length: factor - 1 }, (_, index) => {
+    const fraction = (index + 1) / factor;
+    const coefficients = Float64Array.from({ length: 2 * INTERPOLATION_TAPS }, (_, tap) => {
+      const distance = fraction - (tap - INTERPOLATION_TAPS + 1);
+      const sinc = Math.sin(Math.PI * distance) / (Math.PI * distance);
+      const window = 0.5 * (1 + Math.cos((Math.PI * distance) / INTERPOLATION_TAPS));
+      return sinc * window;
+    });
+    const sum = coefficients.reduce((total, value) => total + value, 0);
+    return coefficients.map(value => value / sum);
+  });
+
+/**
+ * 計算所有聲道的真峰值 (線性值)
+ * 取樣率低於 96 kHz 時以 4 倍、低於 192 kHz 時以 2 倍超取樣，取內插後與原始樣本的最大絕對值
+ * @param onProgress 計算進度 (0 ~ 100)
+ */
+export function measureTruePeak(channels: Float32Array[], sampleRate: number, onProgress?: ProgressCallback): number {
+  const factor = sampleRate < 96000 ? 4 : sampleRate < 192000 ? 2 : 1;
+  const phases = interpolationPhases(factor);
+  let peak = 0;
+
+  channels.forEach((data, channel) => {
+    for (let i = 0; i < data.length; i++) {
+      if (onProgress && i % TRUE_PEAK_PROGRESS_SAMPLES === 0) onProgress(((channel + i / data.length) / channels.length) * 100);
+      const value = Math.abs(data[i]);
+      if (value > peak) peak = value;
+      // 介於 data[i] 與 data[i + 1] 之間的內插點
+      for (const coefficients of phases) {
+        let sum = 0;
+        for (let tap = 0; tap < coefficients.length; tap++) {
+          const index = i + tap - INTERPOLATION_TAPS + 1;
+          if (index >= 0 && index < data.length) sum += data[index] * coefficients[tap];
+        }
+        const interpolated = Math.abs(sum);
+        if (interpolated > peak) peak = interpolated;
+      }
+    }
+  });
+  onProgress?.(100);
+  return peak;
+}
+
+const toDecibels = (value: number) => (value > 0 ? 20 * Math.log10(value) : -Infinity);
+
+/**
+ * 量測整合響度、響度範圍與真峰值
+ * @param audio AudioBuffer 或 PCM 資料
+ * @param onProgress 量測進度 (0 ~ 100)
+ */
+export function measureLoudness(audio: AudioBuffer | PcmAudio, onProgress?: ProgressCallback): LoudnessReport {
+  const { sampleRate, channels } = 'getChannelData' in audio ? pcmFromBuffer(audio) : audio;
+  const stepPower = weightedStepPower(
+    channels,
+    sampleRate,
+    onProgress && (percent => onProgress((percent * WEIGHTING_PROGRESS) / 100))
+  );
+
+  let samplePeak = 0;
+  for (const data of channels) {
+    for (let i = 0; i < data.length; i++) samplePeak = Math.max(samplePeak, Math.abs(data[i]));
+  }
+
+  return {
+    integrated: gatedLoudness(blockPowers(stepPower, BLOCK_STEPS)),
+    range: loudnessRange(blockPowers(stepPower, SHORT_TERM_STEPS)),
+    truePeak: toDecibels(measureTruePeak(
+      channels,
+      sampleRate,
+      onProgress && (percent => onProgress(WEIGHTING_PROGRESS + (percent * (100 - WEIGHTING_PROGRESS)) / 100))
+    )),
+    samplePeak: toDecibels(samplePeak),
+  };
+}
+
+/**
+ * 計算將音頻標準化到目標整合響度所需的增益，並限制增益使真峰值不超過上限
+ * 無法量測響度 (靜音或短於 400 ms) 時返回 1
+ * @param targetLufs 目標整合響度 (LUFS)
+ * @param truePeakCeiling 真峰值上限 (dBTP)
+ */
+export function computeLoudnessGain(
+  audio: AudioBuffer | PcmAudio,
+  targetLufs: number = LOUDNESS_TARGETS.podcast,
+  truePeakCeiling = DEFAULT_TRUE_PEAK_CEILING
+): number {
+  return loudnessGainOf(measureLoudness(audio), targetLufs, truePeakCeiling);
+}
+
+/**
+ * 由量測結果計算標準化增益，規則同 computeLoudnessGain (可搭配在 Worker 中量測的結果)
+ */
+export function loudnessGainOf(
+  { integrated, truePeak }: LoudnessReport,
+  targetLufs: number = LOUDNESS_TARGETS.podcast,
+  truePeakCeiling = DEFAULT_TRUE_PEAK_CEILING
+): number {
+  if (!Number.isFinite(integrated)) return 1;
+  return limitToTruePeak(Math.pow(10, (targetLufs - integrated) / 20), truePeak, truePeakCeiling);
+}
+
+/**
+ * 限制增益使套用後的真峰值不超過上限
+ * @param truePeak 套用增益前的真峰值 (dBTP)
+ */
+export function limitToTruePeak(gain: number, truePeak: number, truePeakCeiling = DEFAULT_TRUE_PEAK_CEILING): number {
+  if (!Number.isFinite(truePeak)) return gain;
+  return Math.min(gain, Math.pow(10, (truePeakCeiling - truePeak) / 20));
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { applyNoiseReduction, learnNoiseProfile, reduceNoise } from './noiseReduction';
+import { noise } from './test/testUtils';
+
+const SAMPLE_RATE = 16000;
+
+const rms = (data: Float32Array, from = 0, to = data.length) => {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += data[i] * data[i];
+  return Math.sqrt(sum / (to - from));
+};
+
+const db = (ratio: number) => 20 * Math.log10(ratio);
+
+// 前 1 秒只有噪音，後 2 秒為 440 Hz 正弦波加上噪音
+const TONE_START = SAMPLE_RATE;
+const tone = Float32Array.from({ length: SAMPLE_RATE * 3 }, (_, i) =>
+  i >= TONE_START ? 0.3 * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE) : 0
+);
+const background = noise(tone.length, 0.05);
+const noisy = tone.map((value, i) => value + background[i]);
+
+describe('learnNoiseProfile', () => {
+  it('averages the magnitude of the given region', () => {
+    const profile = learnNoiseProfile({ sampleRate: SAMPLE_RATE, channels: [noisy] }, [{ start: 0, end: 1 }]);
+    expect(profile.channels).toHaveLength(1);
+    expect(profile.channels[0]).toHaveLength(1025);
+    // 白噪音的輪廓大致平坦
+    const magnitude = profile.channels[0];
+    expect(magnitude[800] / magnitude[100]).toBeGreaterThan(0.7);
+    expect(magnitude[800] / magnitude[100]).toBeLessThan(1.4);
+  });
+
+  it('uses detected silences when no region is given', () => {
+    const profile = learnNoiseProfile({ sampleRate: SAMPLE_RATE, channels: [noisy] });
+    const manual = learnNoiseProfile({ sampleRate: SAMPLE_RATE, channels: [noisy] }, [{ start: 0, end: 1 }]);
+    expect(profile.channels[0][500]).toBeCloseTo(manual.channels[0][500], 0);
+  });
+
+  it('fails when the region is too short', () => {
+    expect(() => learnNoiseProfile({ sampleRate: SAMPLE_RATE, channels: [noisy] }, [{ start: 0, end: 0.01 }]))
+      .toThrow('找不到足夠長的噪音區間');
+  });
+});
+
+describe('reduceNoise', () => {
+  const profile = learnNoiseProfile({ sampleRate: SAMPLE_RATE, channels: [noisy] }, [{ start: 0, end: 1 }]);
+
+  it('reconstructs the input when there is nothing to remove', () => {
+    // 噪音輪廓為零時每個頻率格的增益都是 1，只剩 STFT 分析與重建
+    const output = reduceNoise(noisy, new Float64Array(1025), 1);
+    output.forEach((value, i) => expect(value).toBeCloseTo(noisy[i], 5));
+  });
+
+  it('attenuates noise while keeping the tone', () => {
+    const [output] = applyNoiseReduction([noisy], profile, 1);
+    expect(output).toHaveLength(noisy.length);
+
+    // 只有噪音的部分大幅衰減
+    expect(db(rms(output, 2048, TONE_START - 2048) / rms(noisy, 2048, TONE_START - 2048))).toBeLessThan(-15);
+    // 正弦波的能量幾乎不變，且比原本更接近乾淨的訊號
+    const toneRange = [TONE_START + 2048, tone.length - 2048] as const;
+    expect(Math.abs(db(rms(output, ...toneRange) / rms(tone, ...toneRange)))).toBeLessThan(1);
+    const error = (signal: Float32Array) => rms(signal.map((value, i) => value - tone[i]), ...toneRange);
+    expect(error(output)).toBeLessThan(error(noisy) / 2);
+  });
+
+  it('reports progress across all channels', () => {
+    const progress: number[] = [];
+    applyNoiseReduction([noisy, noisy], profile, 1, percent => progress.push(percent));
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(progress).toContain(50);
+    expect(progress[progress.length - 1]).toBe(100);
+  });
+
+  it('scales the reduction with strength', () => {
+    const noiseOnly = (strength: number) => rms(reduceNoise(noisy, profile.channels[0], strength), 2048, TONE_START - 2048);
+    expect(noiseOnly(0.3)).toBeGreaterThan(noiseOnly(1));
+    expect(noiseOnly(0.3)).toBeLessThan(rms(noisy, 2048, TONE_START - 2048));
+  });
+});
@@ -0,0 +1,171 @@
+// 以噪音輪廓進行頻譜減法降噪 (STFT，純函數，不依賴 Web Audio)
+// 先從只有噪音的區間學習每個頻率格的平均振幅，再從每一幀的頻譜中扣除
+import { Segment } from './api';
+import { PcmAudio, ProgressCallback } from './audioEncoders';
+import { fft, hannWindow } from './fft';
+import { detectSpeechSegments } from './speechDetection';
+
+export interface NoiseReductionOptions {
+  noiseReduction?: number;      // 降噪強度 0 ~ 1，0 或未指定時不處理
+  noiseProfileRegion?: Segment; // 學習噪音的區間 (原始音頻時間)；未指定時使用 detectSpeechSegments 找到的靜音段落
+}
+
+export interface NoiseProfile {
+  sampleRate: number;
+  fftSize: number;
+  channels: Float64Array[];  // 各聲道每個頻率格 (fftSize / 2 + 1 個) 的平均振幅
+}
+
+export const NOISE_FFT_SIZE = 2048;
+// 強度為 1 時每個頻率格最多衰減的量
+export const MAX_NOISE_REDUCTION_DB = 30;
+// 自動學習時最多使用的靜音長度 (秒)，避免長檔案花太多時間
+const MAX_PROFILE_DURATION = 10;
+// 自動學習時偵測靜音佔的進度，其餘為累計噪音頻譜 (最多 MAX_PROFILE_DURATION 秒，運算量固定)
+const PROFILE_DETECTION_PROGRESS = 90;
+// 降噪每處理此數量的幀回報一次進度
+const PROGRESS_FRAMES = 256;
+
+/**
+ * 從指定區間學習噪音輪廓
+ * @param audio 原始音頻
+ * @param regions 只有噪音的區間 (秒)；未指定時自動使用偵測到的靜音段落
+ * @param fftSize FFT 長度 (2 的次方)
+ * @param onProgress 學習進度 (0 ~ 100)
+ */
+export function learnNoiseProfile(
+  audio: PcmAudio,
+  regions?: Segment[],
+  fftSize = NOISE_FFT_SIZE,
+  onProgress?: ProgressCallback
+): NoiseProfile {
+  const { sampleRate, channels } = audio;
+  const sources = regions ?? detectSpeechSegments(
+    audio,
+    {},
+    onProgress && (percent => onProgress((percent * PROFILE_DETECTION_PROGRESS) / 100))
+  ).silence;
+  const window = hannWindow(fftSize);
+  const hop = fftSize / 2;
+  const real = new Float64Array(fftSize);
+  const imag = new Float64Array(fftSize);
+  const profile = channels.map(() => new Float64Array(fftSize / 2 + 1));
+
+  let frames = 0;
+  const maxFrames = Math.ceil((MAX_PROFILE_DURATION * sampleRate) / hop);
+  for (const region of sources) {
+    const first = Math.max(0, Math.round(region.start * sampleRate));
+    const last = Math.min(channels[0].length, Math.round(region.end * sampleRate));
+    for (let start = first; start + fftSize <= last && frames < maxFrames; start += hop, frames++) {
+      channels.forEach((data, channel) => {
+        for (let i = 0; i < fftSize; i++) {
+          real[i] = data[start + i] * window[i];
+          imag[i] = 0;
+        }
+        fft(real, imag);
+        const magnitude = profile[channel];
+        for (let bin = 0; bin < magnitude.length; bin++) {
+          magnitude[bin] += Math.hypot(real[bin], imag[bin]);
+        }
+      });
+    }
+  }
+
+  if (frames === 0) {
+    throw new Error('找不到足夠長的噪音區間，請手動選擇只有背景噪音的區段');
+  }
+  for (const magnitude of profile) {
+    for (let bin = 0; bin < magnitude.length; bin++) magnitude[bin] /= frames;
+  }
+  onProgress?.(100);
+  return { sampleRate, fftSize, channels: profile };
+}
+
+/**
+ * 以頻譜減法降低單一聲道的噪音
+ * 每個頻率格的增益為 max(1 - α·N/|X|, floor)，α 與 floor 隨強度增加；相鄰頻率格的增益取平均以減少「音樂噪音」
+ * 使用 Hann 分析窗與合成窗、75% 重疊，強度為 0 時輸出與輸入相同
+ * @param data 聲道樣本
+ * @param noise 該聲道的噪音振幅 (NoiseProfile.channels 的其中一個)
+ * @param strength 強度 0 ~ 1
+ * @param fftSize 需與學習噪音輪廓時相同
+ * @param onProgress 處理進度 (0 ~ 100)
+ */
+export function reduceNoise(
+  data: Float32Array,
+  noise: Float64Array,
+  strength: number,
+  fftSize = NOISE_FFT_SIZE,
+  onProgress?: ProgressCallback
+): Float32Array {
+  if (strength <= 0) {
+    onProgress?.(100);
+    return Float32Array.from(data);
+  }
+
+  const overSubtraction = 1 + strength;
+  const floor = Math.pow(10, (-MAX_NOISE_REDUCTION_DB * strength) / 20);
+  const window = hannWindow(fftSize);
+  const hop = fftSize / 4;
+  // 前後補零使每個樣本都被四個完整的幀覆蓋
+  const paddedLength = Math.ceil((data.length + 2 * fftSize) / hop) * hop;
+  const padded = new Float64Array(paddedLength);
+  padded.set(data, fftSize);
+  const output = new Float64Array(paddedLength);
+  const real = new Float64Array(fftSize);
+  const imag = new Float64Array(fftSize);
+  const bins = fftSize / 2 + 1;
+  const gains = new Float64Array(bins);
+
+  for (let start = 0; start + fftSize <= paddedLength; start += hop) {
+    if (onProgress && (start / hop) % PROGRESS_FRAMES === 0) onProgress((start / paddedLength) * 100);
+    for (let i = 0; i < fftSize; i++) {
+      real[i] = padded[start + i] * window[i];
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    for (let bin = 0; bin < bins; bin++) {
+      const magnitude = Math.hypot(real[bin], imag[bin]);
+      gains[bin] = magnitude > 0 ? Math.max(floor, 1 - (overSubtraction * noise[bin]) / magnitude) : floor;
+    }
+    for (let bin = 0; bin < bins; bin++) {
+      const gain = (gains[Math.max(0, bin - 1)] + gains[bin] + gains[Math.min(bins - 1, bin + 1)]) / 3;
+      real[bin] *= gain;
+      imag[bin] *= gain;
+      // 負頻率與正頻率共軛對稱
+      if (bin > 0 && bin < fftSize / 2) {
+        real[fftSize - bin] *= gain;
+        imag[fftSize - bin] *= gain;
+      }
+    }
+
+    fft(real, imag, true);
+    for (let i = 0; i < fftSize; i++) {
+      output[start + i] += real[i] * window[i];
+    }
+  }
+
+  onProgress?.(100);
+  // 75% 重疊時 Hann 窗平方的總和為 1.5
+  return Float32Array.from(output.subarray(fftSize, fftSize + data.length), sample => sample / 1.5);
+}
+
+/**
+ * 以噪音輪廓處理所有聲道；輪廓的聲道數較少時，多出的聲道使用最後一個輪廓
+ * @param onProgress 處理進度 (0 ~ 100)
+ */
+export function applyNoiseReduction(
+  channels: Float32Array[],
+  profile: NoiseProfile,
+  strength: number,
+  onProgress?: ProgressCallback
+): Float32Array[] {
+  return channels.map((data, channel) => reduceNoise(
+    data,
+    profile.channels[Math.min(channel, profile.channels.length - 1)],
+    strength,
+    profile.fftSize,
+    onProgress && (percent => onProgress(((channel + percent / 100) / channels.length) * 100))
+  ));
+}
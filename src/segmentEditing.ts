@@ -0,0 +1,11 @@
+import { Segment } from './api';
+
+// 調整後段落的最小長度（秒）
+export const MIN_SEGMENT_LENGTH = 0.05;
+
+/**
+ * 計算段落總長度（秒）
+ */
+export function totalSegmentDuration(segments: Segment[]): number {
+  return segments.reduce((total, segment) => total + (segment.end - segment.start), 0);
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { computeSpectrogramInWorker } from './audioWorkerClient';
+import { computeSpectrogram, frequencyRowBins, spectrogramColor, spectrogramColumnAt } from './spectrogram';
+
+const SAMPLE_RATE = 16000;
+
+// 1 秒 50 Hz 嗡聲、1 秒 2 kHz 正弦波
+const audio = {
+  sampleRate: SAMPLE_RATE,
+  channels: [Float32Array.from({ length: SAMPLE_RATE * 2 }, (_, i) => {
+    const frequency = i < SAMPLE_RATE ? 50 : 2000;
+    return 0.5 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  })],
+};
+
+// 某欄最強的列所對應的頻率範圍
+const peakFrequency = (spectrogram: ReturnType<typeof computeSpectrogram>, time: number) => {
+  const column = spectrogramColumnAt(spectrogram, time);
+  const values = spectrogram.data.subarray(column * spectrogram.rows, (column + 1) * spectrogram.rows);
+  const row = values.indexOf(Math.max(...values));
+  const [from, to] = frequencyRowBins(spectrogram.rows, 2048, SAMPLE_RATE, spectrogram.minFrequency)[row];
+  const binWidth = SAMPLE_RATE / 2048;
+  return [from * binWidth, to * binWidth];
+};
+
+describe('computeSpectrogram', () => {
+  const spectrogram = computeSpectrogram(audio);
+
+  it('locates low hum and higher tones on a log frequency axis', () => {
+    const hum = peakFrequency(spectrogram, 0.5);
+    expect(hum[0]).toBeLessThanOrEqual(50);
+    expect(hum[1]).toBeGreaterThanOrEqual(50);
+    const tone = peakFrequency(spectrogram, 1.5);
+    expect(tone[0]).toBeLessThanOrEqual(2000);
+    expect(tone[1]).toBeGreaterThanOrEqual(2000);
+  });
+
+  it('limits the number of columns for long recordings', () => {
+    const limited = computeSpectrogram(audio, { maxColumns: 40 });
+    expect(limited.columns).toBe(40);
+    expect(limited.hopSize).toBe(800);
+    expect(spectrogramColumnAt(limited, 1.99)).toBe(39);
+    expect(spectrogramColumnAt(limited, 2.5)).toBe(-1);
+  });
+
+  it('covers every FFT bin up to Nyquist with increasing row ranges', () => {
+    const rows = frequencyRowBins(256, 2048, SAMPLE_RATE, 20);
+    expect(rows[rows.length - 1][1]).toBe(1025);
+    rows.forEach(([from, to], index) => {
+      expect(to).toBeGreaterThan(from);
+      if (index > 0) expect(from).toBeGreaterThanOrEqual(rows[index - 1][0]);
+    });
+  });
+
+  it('computes the same result through the worker client', async () => {
+    const progress: number[] = [];
+    const result = await computeSpectrogramInWorker(audio, {}, { onProgress: percent => progress.push(percent) });
+    expect(result.data).toEqual(spectrogram.data);
+    expect(progress[progress.length - 1]).toBe(100);
+  });
+});
+
+describe('spectrogramColor', () => {
+  it('maps intensity from black to white', () => {
+    expect(spectrogramColor(0)).toEqual([0, 0, 0]);
+    expect(spectrogramColor(255)).toEqual([255, 255, 255]);
+    expect(spectrogramColor(128)[0]).toBeGreaterThan(spectrogramColor(64)[0]);
+  });
+});
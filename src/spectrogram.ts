@@ -0,0 +1,116 @@
+// 離線計算整個檔案的頻譜圖，供波形下方的頻譜顯示使用 (可在 Worker 中執行)
+// 頻率軸為對數刻度，方便同時看到低頻嗡聲與人聲、音樂的頻帶
+import { PcmAudio, ProgressCallback } from './audioEncoders';
+import { powerSpectrum } from './fft';
+
+export interface SpectrogramOptions {
+  fftSize?: number;    // FFT 長度 (2 的次方)
+  rows?: number;       // 頻率方向的格數
+  maxColumns?: number; // 時間方向最多的欄數，長錄音會加大欄距以限制記憶體用量
+  minFrequency?: number;
+  floorDB?: number;    // 顯示的最低 dBFS，低於此值視為靜音
+}
+
+export interface Spectrogram {
+  sampleRate: number;
+  hopSize: number;      // 相鄰兩欄之間的取樣數
+  columns: number;
+  rows: number;
+  minFrequency: number;
+  maxFrequency: number;
+  data: Uint8Array;     // columns × rows 的強度 (0 ~ 255)，依欄存放，每欄由低頻到高頻
+}
+
+export const DEFAULT_SPECTROGRAM_OPTIONS: Required<SpectrogramOptions> = {
+  fftSize: 2048,
+  rows: 256,
+  maxColumns: 20000,
+  minFrequency: 20,
+  floorDB: -100,
+};
+
+// 短檔案的最小欄距 (FFT 長度的比例)
+const MIN_HOP_RATIO = 1 / 4;
+
+/**
+ * 各列對應的 FFT 頻率格範圍 [from, to)，以對數刻度由 minFrequency 分到奈奎斯特頻率
+ */
+export function frequencyRowBins(rows: number, fftSize: number, sampleRate: number, minFrequency: number): Array<[number, number]> {
+  const binWidth = sampleRate / fftSize;
+  const nyquist = sampleRate / 2;
+  const ratio = nyquist / minFrequency;
+  return Array.from({ length: rows }, (_, row): [number, number] => {
+    const from = Math.floor(minFrequency * ratio ** (row / rows) / binWidth);
+    // 最後一列包含奈奎斯特頻率格
+    const to = row === rows - 1 ? fftSize / 2 + 1 : Math.floor(minFrequency * ratio ** ((row + 1) / rows) / binWidth);
+    // 低頻處一列可能不到一個頻率格，至少取一格
+    return [Math.min(from, fftSize / 2), Math.min(Math.max(to, from + 1), fftSize / 2 + 1)];
+  });
+}
+
+/**
+ * 計算頻譜圖：多聲道先混為單聲道，每欄以該位置為中心取一個 FFT 視窗
+ * @param onProgress 計算進度 (0 ~ 100)
+ */
+export function computeSpectrogram(
+  audio: PcmAudio,
+  options: SpectrogramOptions = {},
+  onProgress?: ProgressCallback
+): Spectrogram {
+  const { fftSize, rows, maxColumns, minFrequency, floorDB } = { ...DEFAULT_SPECTROGRAM_OPTIONS, ...options };
+  const { sampleRate, channels } = audio;
+  const length = channels[0]?.length ?? 0;
+  const hopSize = Math.max(Math.round(fftSize * MIN_HOP_RATIO), Math.ceil(length / maxColumns));
+  const columns = Math.ceil(length / hopSize);
+  const rowBins = frequencyRowBins(rows, fftSize, sampleRate, minFrequency);
+  // 滿刻度正弦波在 Hann 窗下的峰值功率為 (fftSize / 4)²，以此作為 0 dBFS
+  const reference = (fftSize / 4) ** 2;
+
+  const data = new Uint8Array(columns * rows);
+  const frame = new Float64Array(fftSize);
+  for (let column = 0; column < columns; column++) {
+    const start = column * hopSize + Math.round(hopSize / 2) - fftSize / 2;
+    frame.fill(0);
+    for (let i = 0; i < fftSize; i++) {
+      const index = start + i;
+      if (index < 0 || index >= length) continue;
+      let sum = 0;
+      for (const channel of channels) sum += channel[index];
+      frame[i] = sum / channels.length;
+    }
+
+    const power = powerSpectrum(frame, fftSize);
+    rowBins.forEach(([from, to], row) => {
+      let peak = 0;
+      for (let bin = from; bin < to; bin++) peak = Math.max(peak, power[bin]);
+      const db = 10 * Math.log10(peak / reference + 1e-20);
+      data[column * rows + row] = Math.round(Math.max(0, Math.min(1, 1 - db / floorDB)) * 255);
+    });
+
+    if (onProgress && column % 256 === 0) onProgress((column / columns) * 100);
+  }
+  onProgress?.(100);
+
+  return { sampleRate, hopSize, columns, rows, minFrequency, maxFrequency: sampleRate / 2, data };
+}
+
+/**
+ * 取得 time 秒所在的欄 (超出範圍時傳回 -1)
+ */
+export const spectrogramColumnAt = (spectrogram: Spectrogram, time: number): number => {
+  const column = Math.floor((time * spectrogram.sampleRate) / spectrogram.hopSize);
+  return column >= 0 && column < spectrogram.columns ? column : -1;
+};
+
+/**
+ * 強度 (0 ~ 255) 對應的顏色：黑 → 紫 → 紅 → 黃 → 白
+ */
+export function spectrogramColor(value: number): [number, number, number] {
+  const t = Math.max(0, Math.min(255, value)) / 255;
+  const stops: Array<[number, number, number]> = [[0, 0, 0], [80, 18, 123], [221, 58, 60], [252, 196, 42], [255, 255, 255]];
+  const position = t * (stops.length - 1);
+  const index = Math.min(Math.floor(position), stops.length - 2);
+  const fraction = position - index;
+  const [from, to] = [stops[index], stops[index + 1]];
+  return [0, 1, 2].map(i => Math.round(from[i] + (to[i] - from[i]) * fraction)) as [number, number, number];
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeFrameEnergy,
+  detectSpeechSegments,
+  estimateNoiseFloor,
+  framesToSegments,
+  invertSegments,
+  SILENCE_FLOOR_DB
+} from './speechDetection';
+import { expectSegments, noise } from './test/testUtils';
+
+const SAMPLE_RATE = 8000;
+
+// 在雜訊上加入指定時間範圍 (秒) 的 300 Hz 正弦波
+const withTones = (data: Float32Array, ranges: Array<[number, number]>, amplitude = 0.3) => {
+  for (const [start, end] of ranges) {
+    for (let i = Math.round(start * SAMPLE_RATE); i < Math.round(end * SAMPLE_RATE); i++) {
+      data[i] += amplitude * Math.sin((2 * Math.PI * 300 * i) / SAMPLE_RATE);
+    }
+  }
+  return data;
+};
+
+describe('computeFrameEnergy', () => {
+  it('measures RMS per frame in dBFS', () => {
+    const energy = computeFrameEnergy([new Float32Array(160).fill(0.5)], SAMPLE_RATE, 0.01);
+    expect(energy).toHaveLength(2);
+    expect(energy[0]).toBeCloseTo(20 * Math.log10(0.5));
+  });
+
+  it('clamps digital silence to the floor', () => {
+    expect(computeFrameEnergy([new Float32Array(80)], SAMPLE_RATE, 0.01)[0]).toBe(SILENCE_FLOOR_DB);
+  });
+
+  it('can OR channels instead of mixing them down', () => {
+    const left = new Float32Array(80).fill(0.5);
+    const inverted = left.map(value => -value);
+    expect(computeFrameEnergy([left, inverted], SAMPLE_RATE, 0.01, 'mix')[0]).toBe(SILENCE_FLOOR_DB);
+    expect(computeFrameEnergy([left, inverted], SAMPLE_RATE, 0.01, 'any')[0]).toBeCloseTo(20 * Math.log10(0.5));
+  });
+});
+
+describe('estimateNoiseFloor', () => {
+  it('finds the quiet peak of the histogram', () => {
+    const energy = Float32Array.from([...Array(60).fill(-62), ...Array(10).fill(-70), ...Array(50).fill(-15)]);
+    expect(estimateNoiseFloor(energy)).toBe(-62);
+  });
+});
+
+describe('framesToSegments / invertSegments', () => {
+  it('merges short gaps and returns the complement', () => {
+    const active = [false, true, true, false, true, false, false, false, true];
+    const speech = framesToSegments(active, 0.1, 0.9, 0.15);
+    expectSegments(speech, [[0.1, 0.5], [0.8, 0.9]]);
+    expectSegments(invertSegments(speech, 1), [[0, 0.1], [0.5, 0.8], [0.9, 1]]);
+  });
+});
+
+describe('detectSpeechSegments', () => {
+  it('sets the threshold from the noise floor', () => {
+    const data = withTones(noise(SAMPLE_RATE * 6, 0.002), [[1, 2], [4, 5]]);
+    const result = detectSpeechSegments({ sampleRate: SAMPLE_RATE, channels: [data] });
+
+    // 均勻雜訊的 RMS 為 amplitude / √3
+    expect(result.noiseFloorDB).toBeCloseTo(20 * Math.log10(0.002 / Math.sqrt(3)), -1);
+    expect(result.openThresholdDB - result.closeThresholdDB).toBe(6);
+    expectSegments(result.speech, [[1, 2], [4, 5]]);
+    expectSegments(result.silence, [[0, 1], [2, 4], [5, 6]]);
+    expect(result.frameEnergy).toHaveLength(300);
+  });
+
+  it('adapts to a louder noise floor', () => {
+    const data = withTones(noise(SAMPLE_RATE * 4, 0.05), [[1, 3]], 0.5);
+    const { speech } = detectSpeechSegments({ sampleRate: SAMPLE_RATE, channels: [data] });
+    expectSegments(speech, [[1, 3]]);
+  });
+
+  it('detects speech on any channel', () => {
+    const quiet = noise(SAMPLE_RATE * 3, 0.001, 2);
+    const talking = withTones(noise(SAMPLE_RATE * 3, 0.001, 3), [[1, 2]]);
+    const { speech } = detectSpeechSegments({ sampleRate: SAMPLE_RATE, channels: [quiet, talking] }, { channelMode: 'any' });
+    expectSegments(speech, [[1, 2]]);
+  });
+
+  it('bridges dips shorter than the hold time', () => {
+    const data = withTones(noise(SAMPLE_RATE * 3, 0.001), [[0.5, 1.2], [1.3, 2]]);
+    const options = { minSilenceDuration: 0 };
+    expectSegments(detectSpeechSegments({ sampleRate: SAMPLE_RATE, channels: [data] }, options).speech, [[0.5, 2]]);
+    expectSegments(
+      detectSpeechSegments({ sampleRate: SAMPLE_RATE, channels: [data] }, { ...options, holdTime: 0 }).speech,
+      [[0.5, 1.2], [1.3, 2]]
+    );
+  });
+
+  it('ignores clicks shorter than the attack time', () => {
+    const data = noise(SAMPLE_RATE * 2, 0.001);
+    data.fill(0.5, SAMPLE_RATE, SAMPLE_RATE + 40);
+    expect(detectSpeechSegments({ sampleRate: SAMPLE_RATE, channels: [data] }).speech).toEqual([]);
+  });
+
+  it('accepts a fixed threshold', () => {
+    const data = withTones(noise(SAMPLE_RATE * 3, 0.001), [[1, 2]], 0.01);
+    const result = detectSpeechSegments({ sampleRate: SAMPLE_RATE, channels: [data] }, { thresholdDB: -20 });
+    expect(result.openThresholdDB).toBe(-20);
+    expect(result.speech).toEqual([]);
+    expectSegments(result.silence, [[0, 3]]);
+  });
+});
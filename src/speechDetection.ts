@@ -0,0 +1,213 @@
+// 客戶端語音偵測：以逐幀能量、自動估計的噪音底與遲滯門檻判斷語音段落 (純函數，不依賴 Web Audio)
+import { Segment } from './api';
+import { PcmAudio, ProgressCallback } from './audioEncoders';
+import { FrameAnalysis, resolveVoiceDetector, VoiceActivityDetector, VoiceDetectorName } from './voiceActivity';
+
+// mix 將所有聲道平均後計算能量；any 取各聲道能量的最大值，任一聲道有聲音即視為語音
+// (例如只有一支麥克風收音的雙聲道錄音，或左右聲道反相時平均會互相抵消)
+export type ChannelMode = 'mix' | 'any';
+
+export interface SpeechDetectionOptions {
+  detector?: VoiceDetectorName | VoiceActivityDetector;  // 逐幀判斷語音的方式，預設 energy
+  frameDuration?: number;       // 每幀長度 (秒)
+  channelMode?: ChannelMode;
+  thresholdDB?: number;         // 固定的開啟門檻 (dBFS)；未指定時依噪音底自動設定
+  openMarginDB?: number;        // 自動門檻：高於噪音底多少 dB 時開啟
+  closeMarginDB?: number;       // 自動門檻：低於噪音底加此值時開始關閉，需小於 openMarginDB
+  attackTime?: number;          // 能量需持續高於開啟門檻多久才開始語音 (秒)，避免短暫的雜音
+  holdTime?: number;            // 能量低於關閉門檻後仍維持語音狀態的時間 (秒)，避免字與字之間被切斷
+  minSilenceDuration?: number;  // 短於此長度的靜音併入前後的語音 (秒)
+}
+
+export interface SpeechDetectionResult {
+  speech: Segment[];            // 語音段落，依時間排序
+  silence: Segment[];           // 靜音段落，與語音段落互補並涵蓋整段音頻
+  frameEnergy: Float32Array;    // 每幀的能量 (dBFS)，最低為 SILENCE_FLOOR_DB，供繪製能量曲線
+  frameDuration: number;
+  noiseFloorDB: number;
+  openThresholdDB: number;
+  closeThresholdDB: number;
+}
+
+export const DEFAULT_SPEECH_DETECTION_OPTIONS: Required<Omit<SpeechDetectionOptions, 'thresholdDB'>> = {
+  detector: 'energy',
+  frameDuration: 0.02,
+  channelMode: 'mix',
+  openMarginDB: 12,
+  closeMarginDB: 6,
+  attackTime: 0.04,
+  holdTime: 0.2,
+  minSilenceDuration: 0.5,
+};
+
+// 逐幀能量在偵測進度中所佔的比例，其餘為偵測器
+const ENERGY_PROGRESS = 20;
+
+// 數位靜音的能量下限
+export const SILENCE_FLOOR_DB = -120;
+
+const toDb = (meanSquare: number) => Math.max(SILENCE_FLOOR_DB, 10 * Math.log10(meanSquare || Number.MIN_VALUE));
+
+/**
+ * 計算每幀的 RMS 能量 (dBFS)
+ */
+export function computeFrameEnergy(
+  channels: Float32Array[],
+  sampleRate: number,
+  frameDuration = DEFAULT_SPEECH_DETECTION_OPTIONS.frameDuration,
+  channelMode: ChannelMode = 'mix'
+): Float32Array {
+  const frameSize = Math.max(1, Math.round(sampleRate * frameDuration));
+  const length = channels[0]?.length ?? 0;
+  const energy = new Float32Array(Math.ceil(length / frameSize));
+
+  for (let frame = 0; frame < energy.length; frame++) {
+    const start = frame * frameSize;
+    const end = Math.min(start + frameSize, length);
+
+    if (channelMode === 'any') {
+      let loudest = 0;
+      for (const data of channels) {
+        let sumSquared = 0;
+        for (let i = start; i < end; i++) sumSquared += data[i] * data[i];
+        loudest = Math.max(loudest, sumSquared / (end - start));
+      }
+      energy[frame] = toDb(loudest);
+    } else {
+      let sumSquared = 0;
+      for (let i = start; i < end; i++) {
+        let mixed = 0;
+        for (const data of channels) mixed += data[i];
+        mixed /= channels.length;
+        sumSquared += mixed * mixed;
+      }
+      energy[frame] = toDb(sumSquared / (end - start));
+    }
+  }
+  return energy;
+}
+
+/**
+ * 以能量直方圖估計噪音底：取能量不高於中位數的幀中最常出現的能量 (1 dB 為一格，並以相鄰三格平滑)
+ * 語音之間的停頓通常集中在同一個能量附近，因此直方圖在較安靜的一側會形成明顯的峰
+ */
+export function estimateNoiseFloor(frameEnergy: Float32Array): number {
+  if (frameEnergy.length === 0) return SILENCE_FLOOR_DB;
+
+  const sorted = Float32Array.from(frameEnergy).sort();
+  const median = sorted[Math.floor((sorted.length - 1) / 2)];
+
+  const binCount = -SILENCE_FLOOR_DB + 1;
+  const histogram = new Float64Array(binCount);
+  for (const value of frameEnergy) {
+    if (value <= median) histogram[Math.round(value - SILENCE_FLOOR_DB)]++;
+  }
+
+  let bestBin = 0;
+  let bestCount = -1;
+  for (let bin = 0; bin < binCount; bin++) {
+    const smoothed = (histogram[bin - 1] ?? 0) + histogram[bin] * 2 + (histogram[bin + 1] ?? 0);
+    if (smoothed > bestCount) {
+      bestCount = smoothed;
+      bestBin = bin;
+    }
+  }
+  return bestBin + SILENCE_FLOOR_DB;
+}
+
+/**
+ * 將逐幀的語音判斷轉換為語音段落，並合併短於 minSilenceDuration 的靜音
+ */
+export function framesToSegments(
+  active: ArrayLike<boolean>,
+  frameDuration: number,
+  duration: number,
+  minSilenceDuration = 0
+): Segment[] {
+  const segments: Segment[] = [];
+  let start = -1;
+  for (let frame = 0; frame <= active.length; frame++) {
+    const isActive = frame < active.length && active[frame];
+    if (isActive && start < 0) {
+      start = frame;
+    } else if (!isActive && start >= 0) {
+      const segment = { start: start * frameDuration, end: Math.min(duration, frame * frameDuration) };
+      const previous = segments[segments.length - 1];
+      if (previous && segment.start - previous.end < minSilenceDuration) {
+        previous.end = segment.end;
+      } else {
+        segments.push(segment);
+      }
+      start = -1;
+    }
+  }
+  return segments;
+}
+
+/**
+ * 取得語音段落在 [0, duration] 中的補集
+ */
+export function invertSegments(segments: Segment[], duration: number): Segment[] {
+  const gaps: Segment[] = [];
+  let cursor = 0;
+  for (const segment of segments) {
+    if (segment.start > cursor) gaps.push({ start: cursor, end: segment.start });
+    cursor = Math.max(cursor, segment.end);
+  }
+  if (cursor < duration) gaps.push({ start: cursor, end: duration });
+  return gaps;
+}
+
+/**
+ * 檢測語音段落
+ * 以能量偵測器為例：能量連續 attackTime 高於開啟門檻時開始語音，低於關閉門檻超過 holdTime 時結束語音
+ * @param audio 音頻緩衝區或 PCM 資料
+ * @param options 偵測參數，未指定的欄位使用 DEFAULT_SPEECH_DETECTION_OPTIONS
+ * @param onProgress 偵測進度 (0 ~ 100)
+ * @returns 語音段落、靜音段落與逐幀能量
+ */
+export function detectSpeechSegments(
+  audio: AudioBuffer | PcmAudio,
+  options: SpeechDetectionOptions = {},
+  onProgress?: ProgressCallback
+): SpeechDetectionResult {
+  const settings = { ...DEFAULT_SPEECH_DETECTION_OPTIONS, ...options };
+  const { frameDuration } = settings;
+  const channels = 'getChannelData' in audio
+    ? Array.from({ length: audio.numberOfChannels }, (_, i) => audio.getChannelData(i))
+    : audio.channels;
+  const duration = (channels[0]?.length ?? 0) / audio.sampleRate;
+
+  const frameEnergy = computeFrameEnergy(channels, audio.sampleRate, frameDuration, settings.channelMode);
+  onProgress?.(ENERGY_PROGRESS);
+  const noiseFloorDB = estimateNoiseFloor(frameEnergy);
+  const hysteresis = Math.max(0, settings.openMarginDB - settings.closeMarginDB);
+  const openThresholdDB = options.thresholdDB ?? noiseFloorDB + settings.openMarginDB;
+  const closeThresholdDB = openThresholdDB - hysteresis;
+
+  const analysis: FrameAnalysis = {
+    channels,
+    sampleRate: audio.sampleRate,
+    frameSize: Math.max(1, Math.round(audio.sampleRate * frameDuration)),
+    channelMode: settings.channelMode,
+    frameEnergy,
+    openThresholdDB,
+    closeThresholdDB,
+    attackFrames: Math.max(1, Math.round(settings.attackTime / frameDuration)),
+    holdFrames: Math.round(settings.holdTime / frameDuration),
+    onProgress: onProgress && (percent => onProgress(ENERGY_PROGRESS + (percent * (100 - ENERGY_PROGRESS)) / 100)),
+  };
+  const active = resolveVoiceDetector(settings.detector).detect(analysis);
+  onProgress?.(100);
+
+  const speech = framesToSegments(Array.from(active, Boolean), frameDuration, duration, settings.minSilenceDuration);
+  return {
+    speech,
+    silence: invertSegments(speech, duration),
+    frameEnergy,
+    frameDuration,
+    noiseFloorDB,
+    openThresholdDB,
+    closeThresholdDB,
+  };
+}
@@ -0,0 +1,21 @@
+// 測試共用的訊號產生與斷言工具
+import { expect } from 'vitest';
+
+// 可重現的均勻分佈雜訊
+export const noise = (length: number, amplitude: number, seed = 1) => {
+  const data = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    data[i] = amplitude * ((seed / 2 ** 31) * 2 - 1);
+  }
+  return data;
+};
+
+// 比對段落的起訖時間 (秒)，容許 0.05 秒內的誤差
+export const expectSegments = (actual: Array<{ start: number; end: number }>, expected: Array<[number, number]>) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((segment, i) => {
+    expect(segment.start).toBeCloseTo(expected[i][0], 1);
+    expect(segment.end).toBeCloseTo(expected[i][1], 1);
+  });
+};
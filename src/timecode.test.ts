@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { chooseTickInterval, findZeroCrossing, formatTimecode, snapTime, tickPositions } from './timecode';
+
+const scale = { frameRate: 25, sampleRate: 48000 };
+
+describe('formatTimecode', () => {
+  it('formats milliseconds, SMPTE timecode and samples', () => {
+    expect(formatTimecode(83.4567, 'time', scale)).toBe('01:23.457');
+    expect(formatTimecode(3725.5, 'time', scale)).toBe('1:02:05.500');
+    expect(formatTimecode(3725.52, 'smpte', scale)).toBe('01:02:05:13');
+    expect(formatTimecode(1.5, 'samples', scale)).toBe('72000');
+  });
+
+  it('counts NTSC frame rates without drop frames', () => {
+    // 29.97 fps 的 30 幀顯示為 1 秒
+    expect(formatTimecode(30 / 29.97, 'smpte', { ...scale, frameRate: 29.97 })).toBe('00:00:01:00');
+  });
+});
+
+describe('chooseTickInterval', () => {
+  it('picks finer intervals as the view zooms in', () => {
+    expect(chooseTickInterval(1, 'time', scale)).toEqual({ major: 120, minor: 12 });
+    expect(chooseTickInterval(50, 'time', scale)).toEqual({ major: 2, minor: 0.2 });
+    expect(chooseTickInterval(20000, 'time', scale).major).toBe(0.005);
+  });
+
+  it('uses whole frames and samples as the smallest units', () => {
+    const frames = chooseTickInterval(2000, 'smpte', scale);
+    expect(frames).toEqual({ major: 1 / 25, minor: 1 / 25 });
+    expect(chooseTickInterval(200, 'smpte', scale).major).toBeCloseTo(10 / 25);
+    const samples = chooseTickInterval(48000 * 40, 'samples', scale);
+    expect(samples.major * 48000).toBeCloseTo(2);
+    expect(samples.minor * 48000).toBeCloseTo(1);
+  });
+
+  it('lists ticks within the visible range', () => {
+    expect(tickPositions(9.5, 12, 1)).toEqual([10, 11, 12]);
+    expect(tickPositions(0, 0.3, 0.1).map(tick => +tick.toFixed(3))).toEqual([0, 0.1, 0.2, 0.3]);
+  });
+});
+
+describe('snapping', () => {
+  it('snaps to the nearest frame', () => {
+    expect(snapTime(1.013, 'frame', scale)).toBeCloseTo(1);
+    expect(snapTime(1.03, 'frame', scale)).toBeCloseTo(1.04);
+    expect(snapTime(1.03, 'off', scale)).toBe(1.03);
+  });
+
+  it('finds the nearest zero crossing within the window', () => {
+    const sampleRate = 1000;
+    // 每 10 個取樣變換一次正負號
+    const samples = Float32Array.from({ length: 100 }, (_, index) => (Math.floor(index / 10) % 2 ? -0.5 : 0.5));
+    expect(findZeroCrossing(samples, sampleRate, 0.023)).toBe(0.02);
+    expect(findZeroCrossing(samples, sampleRate, 0.027)).toBe(0.03);
+    // 範圍內沒有過零點時不移動
+    expect(findZeroCrossing(samples, sampleRate, 0.025, 0.002)).toBe(0.025);
+    expect(snapTime(0.027, 'zero-crossing', { frameRate: 25, sampleRate }, samples)).toBe(0.03);
+    expect(snapTime(0.027, 'zero-crossing', { frameRate: 25, sampleRate }, null)).toBe(0.027);
+  });
+});
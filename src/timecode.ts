@@ -0,0 +1,161 @@
+// 時間顯示與對齊：mm:ss.ms、SMPTE 時間碼與取樣數三種顯示方式，時間尺刻度間隔與幀 / 過零點對齊
+
+export type TimeDisplayMode = 'time' | 'smpte' | 'samples';
+export type SnapMode = 'off' | 'frame' | 'zero-crossing';
+
+export const TIME_DISPLAY_LABELS: Record<TimeDisplayMode, string> = {
+  time: '分:秒.毫秒',
+  smpte: 'SMPTE 時間碼',
+  samples: '取樣數',
+};
+
+export const SNAP_MODE_LABELS: Record<SnapMode, string> = {
+  off: '不對齊',
+  frame: '對齊幀',
+  'zero-crossing': '對齊過零點',
+};
+
+// 純音訊或無法取得幀率時使用的時間碼幀率 (與伺服器 EDL 匯出相同)
+export const DEFAULT_FRAME_RATE = 25;
+
+// 尋找過零點的搜尋範圍 (秒，前後各此長度)
+export const ZERO_CROSSING_WINDOW = 0.005;
+
+export interface TimeScale {
+  frameRate: number;
+  sampleRate: number;
+}
+
+// 波形目前可見的時間範圍 (秒)，時間尺、頻譜圖與縮略圖依此對齊
+export interface Viewport {
+  start: number;
+  end: number;
+}
+
+export interface TickInterval {
+  major: number; // 有標籤的主要刻度間隔 (秒)
+  minor: number; // 次要刻度間隔 (秒)，可整除 major
+}
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+/**
+ * 依顯示方式格式化時間
+ * time: [時:]分:秒.毫秒；smpte: 時:分:秒:幀 (非丟幀計數)；samples: 取樣數
+ */
+export function formatTimecode(time: number, mode: TimeDisplayMode, scale: TimeScale): string {
+  const clamped = Math.max(0, time);
+  if (mode === 'samples') {
+    return Math.round(clamped * scale.sampleRate).toString();
+  }
+  if (mode === 'smpte') {
+    const timebase = Math.round(scale.frameRate);
+    const frames = Math.round(clamped * scale.frameRate);
+    const seconds = Math.floor(frames / timebase);
+    return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}:${pad(frames % timebase)}`;
+  }
+
+  const milliseconds = Math.round(clamped * 1000);
+  const seconds = Math.floor(milliseconds / 1000);
+  const hours = Math.floor(seconds / 3600);
+  const rest = `${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}.${pad(milliseconds % 1000, 3)}`;
+  return hours > 0 ? `${hours}:${rest}` : rest;
+}
+
+// 以 1、2、5 的倍數遞增的候選間隔 (單位為 unit)
+const niceSteps = (unit: number, max: number): number[] => {
+  const steps: number[] = [];
+  for (let magnitude = 1; magnitude * unit <= max * 10; magnitude *= 10) {
+    for (const factor of [1, 2, 5]) steps.push(factor * magnitude * unit);
+  }
+  return steps;
+};
+
+// 秒以上的間隔依時鐘單位選擇
+const CLOCK_STEPS = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600, 7200];
+
+// 各顯示方式可用的刻度間隔 (秒)，由小到大
+const candidateIntervals = (mode: TimeDisplayMode, scale: TimeScale): number[] => {
+  switch (mode) {
+    case 'samples':
+      return niceSteps(1 / scale.sampleRate, 7200);
+    case 'smpte': {
+      // 一秒以內以幀數為單位，超過一秒以時鐘單位
+      const timebase = Math.round(scale.frameRate);
+      const frames = [1, 2, 5, 10].filter(count => count < timebase).map(count => count / scale.frameRate);
+      return [...frames, ...CLOCK_STEPS];
+    }
+    default:
+      return [...niceSteps(0.001, 0.5).filter(step => step < 1), ...CLOCK_STEPS];
+  }
+};
+
+// 顯示方式的最小單位：一幀、一個取樣或一毫秒
+const minimumUnit = (mode: TimeDisplayMode, scale: TimeScale): number =>
+  mode === 'smpte' ? 1 / scale.frameRate : mode === 'samples' ? 1 / scale.sampleRate : 0.001;
+
+/**
+ * 依可見範圍每秒的像素數選擇刻度間隔，讓主要刻度標籤之間至少相隔 minLabelSpacing 像素
+ * 次要刻度取能整除主要間隔、且相隔至少 minTickSpacing 像素的最細分割
+ */
+export function chooseTickInterval(
+  pixelsPerSecond: number,
+  mode: TimeDisplayMode,
+  scale: TimeScale,
+  minLabelSpacing = 80,
+  minTickSpacing = 8
+): TickInterval {
+  const candidates = candidateIntervals(mode, scale);
+  const major = candidates.find(step => step * pixelsPerSecond >= minLabelSpacing) ?? candidates[candidates.length - 1];
+
+  const unit = minimumUnit(mode, scale);
+  const divisions = [10, 5, 4, 2].find(count => {
+    const minor = major / count;
+    const units = minor / unit;
+    return minor * pixelsPerSecond >= minTickSpacing && Math.abs(units - Math.round(units)) < 1e-6 && units >= 1 - 1e-6;
+  });
+  return { major, minor: divisions ? major / divisions : major };
+}
+
+/**
+ * 列出 [start, end] 範圍內間隔為 interval 的刻度位置
+ */
+export function tickPositions(start: number, end: number, interval: number): number[] {
+  const ticks: number[] = [];
+  const first = Math.max(0, Math.ceil(start / interval - 1e-9));
+  for (let index = first; index * interval <= end + 1e-9; index++) {
+    ticks.push(index * interval);
+  }
+  return ticks;
+}
+
+/**
+ * 尋找 time 附近最近的過零點 (取樣值正負號改變或為 0 的位置)，找不到時傳回原時間
+ * @param samples 單一聲道的取樣
+ */
+export function findZeroCrossing(samples: Float32Array, sampleRate: number, time: number, window = ZERO_CROSSING_WINDOW): number {
+  const center = Math.round(time * sampleRate);
+  const radius = Math.round(window * sampleRate);
+  const isCrossing = (index: number) =>
+    index > 0 && index < samples.length && (samples[index] === 0 || (samples[index - 1] < 0) !== (samples[index] < 0));
+
+  for (let offset = 0; offset <= radius; offset++) {
+    if (isCrossing(center - offset)) return (center - offset) / sampleRate;
+    if (isCrossing(center + offset)) return (center + offset) / sampleRate;
+  }
+  return time;
+}
+
+/**
+ * 依對齊方式調整時間；對齊過零點需要解碼後的取樣
+ */
+export function snapTime(
+  time: number,
+  mode: SnapMode,
+  scale: TimeScale,
+  samples?: Float32Array | null
+): number {
+  if (mode === 'frame') return Math.round(time * scale.frameRate) / scale.frameRate;
+  if (mode === 'zero-crossing' && samples) return findZeroCrossing(samples, scale.sampleRate, time);
+  return time;
+}
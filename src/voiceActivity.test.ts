@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { detectSpeechSegments } from './speechDetection';
+import {
+  applyHysteresis,
+  computeSpectralFeatures,
+  FrameAnalysis,
+  resolveVoiceDetector,
+  VoiceActivityDetector
+} from './voiceActivity';
+import { expectSegments, noise } from './test/testUtils';
+
+const SAMPLE_RATE = 16000;
+
+type Generator = (i: number) => number;
+
+// 共振峰 (700 Hz 與 1800 Hz 附近) 的增益
+const formantGain = (frequency: number) =>
+  1 + 4 * Math.exp(-(((frequency - 700) / 250) ** 2)) + 2 * Math.exp(-(((frequency - 1800) / 350) ** 2));
+
+// 近似母音的諧波：基頻 150 Hz，諧波振幅隨次數遞減並經過共振峰加強，以 4 Hz 的音節起伏調變
+const voice: Generator = i => {
+  const t = i / SAMPLE_RATE;
+  let value = 0;
+  for (let harmonic = 1; harmonic <= 20; harmonic++) {
+    value += (Math.sin(2 * Math.PI * 150 * harmonic * t) * formantGain(150 * harmonic)) / harmonic;
+  }
+  return 0.1 * value * (0.6 + 0.4 * Math.sin(2 * Math.PI * 4 * t));
+};
+// 電源與空調的低頻嗡聲
+const hum: Generator = i => 0.4 * Math.sin((2 * Math.PI * 60 * i) / SAMPLE_RATE) + 0.2 * Math.sin((2 * Math.PI * 120 * i) / SAMPLE_RATE);
+
+// 在背景雜訊上依序放入各段訊號 (秒)
+const compose = (duration: number, parts: Array<[number, number, Generator | Float32Array]>) => {
+  const data = noise(SAMPLE_RATE * duration, 0.001, 7);
+  for (const [start, end, source] of parts) {
+    for (let i = Math.round(start * SAMPLE_RATE); i < Math.round(end * SAMPLE_RATE); i++) {
+      data[i] += typeof source === 'function' ? source(i) : source[i];
+    }
+  }
+  return { sampleRate: SAMPLE_RATE, channels: [data] };
+};
+
+// 鍵盤聲與寬頻噪音：大聲的白噪音
+const clatter = noise(SAMPLE_RATE * 10, 0.5, 3);
+
+const speechOf = (audio: ReturnType<typeof compose>, detector: 'energy' | 'spectral' | 'voting') =>
+  detectSpeechSegments(audio, { detector, minSilenceDuration: 0.3 }).speech;
+
+const analysisOf = (data: Float32Array): FrameAnalysis => {
+  const frameSize = SAMPLE_RATE * 0.02;
+  return {
+    channels: [data],
+    sampleRate: SAMPLE_RATE,
+    frameSize,
+    channelMode: 'mix',
+    frameEnergy: new Float32Array(Math.ceil(data.length / frameSize)),
+    openThresholdDB: -40,
+    closeThresholdDB: -46,
+    attackFrames: 1,
+    holdFrames: 0,
+  };
+};
+
+describe('applyHysteresis', () => {
+  it('opens above the open threshold and closes below the close threshold', () => {
+    expect(Array.from(applyHysteresis([0, 5, 3, 3, 1, 5], 4, 2))).toEqual([0, 1, 1, 1, 0, 1]);
+  });
+
+  it('waits for the attack and bridges the hold', () => {
+    expect(Array.from(applyHysteresis([5, 0, 5, 5, 0, 5, 0, 0, 0], 4, 2, 2, 1))).toEqual([0, 0, 1, 1, 1, 1, 0, 0, 0]);
+  });
+});
+
+describe('computeSpectralFeatures', () => {
+  it('separates voiced sound, hum and broadband noise', () => {
+    const length = SAMPLE_RATE * 0.2;
+    const features = (generator: Generator) =>
+      computeSpectralFeatures(analysisOf(Float32Array.from({ length }, (_, i) => generator(i))));
+    const voiced = features(voice);
+    const humming = features(hum);
+    const broadband = computeSpectralFeatures(analysisOf(clatter.subarray(0, length)));
+
+    expect(voiced.flatness[3]).toBeLessThan(0.1);
+    expect(voiced.speechBandRatio[3]).toBeGreaterThan(0.5);
+    expect(voiced.zeroCrossingRate[3]).toBeLessThan(0.1);
+    expect(humming.speechBandRatio[3]).toBeLessThan(0.1);
+    expect(broadband.flatness[3]).toBeGreaterThan(0.4);
+    expect(broadband.zeroCrossingRate[3]).toBeGreaterThan(0.4);
+  });
+});
+
+describe('voice activity detectors', () => {
+  const audio = compose(10, [[1, 3, voice], [4, 6, hum], [7, 9, clatter]]);
+
+  it('energy detector treats every loud sound as speech', () => {
+    expectSegments(speechOf(audio, 'energy'), [[1, 3], [4, 6], [7, 9]]);
+  });
+
+  it('spectral detector keeps only the voice', () => {
+    expectSegments(speechOf(audio, 'spectral'), [[1, 3]]);
+  });
+
+  it('voting detector keeps only the voice', () => {
+    expectSegments(speechOf(audio, 'voting'), [[1, 3]]);
+  });
+
+  it('voting detector tolerates noisy speech', () => {
+    const noisy = compose(4, [[1, 3, voice], [1, 3, noise(SAMPLE_RATE * 4, 0.08, 5)]]);
+    expectSegments(speechOf(noisy, 'voting'), [[1, 3]]);
+    // 頻譜偵測器要求所有特徵都符合，噪音蓋過較弱的音節時會漏掉
+    const total = (segments: Array<{ start: number; end: number }>) =>
+      segments.reduce((sum, segment) => sum + segment.end - segment.start, 0);
+    expect(total(speechOf(noisy, 'spectral'))).toBeLessThan(total(speechOf(noisy, 'voting')) - 0.1);
+  });
+
+  it('accepts a custom detector', () => {
+    const everything: VoiceActivityDetector = {
+      name: 'everything',
+      label: '全部',
+      description: '',
+      detect: ({ frameEnergy }) => new Uint8Array(frameEnergy.length).fill(1),
+    };
+    expect(resolveVoiceDetector(everything)).toBe(everything);
+    expectSegments(detectSpeechSegments(compose(1, []), { detector: everything }).speech, [[0, 1]]);
+  });
+
+  it('rejects unknown detector names', () => {
+    expect(() => resolveVoiceDetector('neural' as never)).toThrow('未知的語音偵測器');
+  });
+});
@@ -0,0 +1,256 @@
+// 語音活動偵測器：能量、頻譜特徵 (頻譜平坦度、過零率、語音頻帶能量比) 與投票
+// 每個偵測器對每一幀輸出是否為語音，切段與合併由 detectSpeechSegments 統一處理
+import type { ProgressCallback } from './audioEncoders';
+import { nextPowerOfTwo, powerSpectrum } from './fft';
+import type { ChannelMode } from './speechDetection';
+
+export type VoiceDetectorName = 'energy' | 'spectral' | 'voting';
+
+// detectSpeechSegments 事先計算好、所有偵測器共用的資料
+export interface FrameAnalysis {
+  channels: Float32Array[];
+  sampleRate: number;
+  frameSize: number;            // 每幀樣本數
+  channelMode: ChannelMode;
+  frameEnergy: Float32Array;    // 每幀能量 (dBFS)
+  openThresholdDB: number;
+  closeThresholdDB: number;
+  attackFrames: number;
+  holdFrames: number;
+  onProgress?: ProgressCallback;  // 逐幀運算較重的偵測器回報進度 (0 ~ 100)
+}
+
+export interface VoiceActivityDetector {
+  name: string;
+  label: string;
+  description: string;
+  // 返回每幀的判斷結果，1 為語音
+  detect: (analysis: FrameAnalysis) => Uint8Array;
+}
+
+export interface SpectralFeatures {
+  flatness: Float32Array;          // 頻譜平坦度 0 ~ 1，白噪音接近 0.56，有諧波的人聲接近 0
+  zeroCrossingRate: Float32Array;  // 每個樣本的過零次數 0 ~ 1
+  speechBandRatio: Float32Array;   // 300–3400 Hz 的能量佔總能量的比例
+}
+
+export interface SpectralLimits {
+  maxFlatness: number;
+  maxZeroCrossingRate: number;
+  minSpeechBandRatio: number;
+}
+
+export const DEFAULT_SPECTRAL_LIMITS: SpectralLimits = {
+  maxFlatness: 0.3,
+  maxZeroCrossingRate: 0.3,
+  minSpeechBandRatio: 0.5,
+};
+
+// 電話語音頻帶，人聲的基頻與主要共振峰都在此範圍內
+export const SPEECH_BAND = { low: 300, high: 3400 };
+// 計算平坦度的頻率範圍，排除直流與人耳不敏感的高頻
+const FLATNESS_BAND = { low: 100, high: 8000 };
+
+/**
+ * 以遲滯門檻將逐幀分數轉換為語音判斷
+ * 分數連續 attackFrames 幀不低於 open 時開始語音 (從第一個超過的幀算起)，
+ * 低於 close 超過 holdFrames 幀時結束語音 (在第一個低於的幀結束)
+ */
+export function applyHysteresis(
+  scores: ArrayLike<number>,
+  open: number,
+  close: number,
+  attackFrames = 1,
+  holdFrames = 0
+): Uint8Array {
+  const active = new Uint8Array(scores.length);
+  let inSpeech = false;
+  let aboveOpen = 0;
+  let belowClose = 0;
+
+  for (let frame = 0; frame < scores.length; frame++) {
+    const score = scores[frame];
+    if (!inSpeech) {
+      aboveOpen = score >= open ? aboveOpen + 1 : 0;
+      if (aboveOpen >= attackFrames) {
+        active.fill(1, frame - aboveOpen + 1, frame + 1);
+        inSpeech = true;
+        belowClose = 0;
+      }
+    } else {
+      belowClose = score < close ? belowClose + 1 : 0;
+      if (belowClose > holdFrames) {
+        active.fill(0, frame - belowClose + 1, frame);
+        inSpeech = false;
+        aboveOpen = 0;
+      } else {
+        active[frame] = 1;
+      }
+    }
+  }
+  // 結尾仍在保持期間時，去掉尾端低於門檻的部分
+  if (inSpeech && belowClose > 0) {
+    active.fill(0, scores.length - belowClose);
+  }
+  return active;
+}
+
+// 每處理多少幀回報一次進度
+const PROGRESS_INTERVAL_FRAMES = 500;
+
+// 取得一幀的分析樣本：mix 模式為各聲道平均，any 模式為該幀能量最大的聲道
+const frameSamples = (analysis: FrameAnalysis, frame: number): Float64Array => {
+  const { channels, frameSize, channelMode } = analysis;
+  const start = frame * frameSize;
+  const end = Math.min(start + frameSize, channels[0].length);
+  const samples = new Float64Array(end - start);
+
+  if (channelMode === 'any') {
+    let loudest = channels[0];
+    let loudestEnergy = -1;
+    for (const data of channels) {
+      let energy = 0;
+      for (let i = start; i < end; i++) energy += data[i] * data[i];
+      if (energy > loudestEnergy) {
+        loudest = data;
+        loudestEnergy = energy;
+      }
+    }
+    for (let i = start; i < end; i++) samples[i - start] = loudest[i];
+  } else {
+    for (const data of channels) {
+      for (let i = start; i < end; i++) samples[i - start] += data[i] / channels.length;
+    }
+  }
+  return samples;
+};
+
+/**
+ * 計算每幀的頻譜特徵
+ */
+export function computeSpectralFeatures(analysis: FrameAnalysis): SpectralFeatures {
+  const frameCount = analysis.frameEnergy.length;
+  const fftSize = nextPowerOfTwo(analysis.frameSize);
+  const binWidth = analysis.sampleRate / fftSize;
+  const binOf = (frequency: number) => Math.min(fftSize / 2, Math.max(1, Math.round(frequency / binWidth)));
+
+  const features: SpectralFeatures = {
+    flatness: new Float32Array(frameCount),
+    zeroCrossingRate: new Float32Array(frameCount),
+    speechBandRatio: new Float32Array(frameCount),
+  };
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const samples = frameSamples(analysis, frame);
+
+    let crossings = 0;
+    for (let i = 1; i < samples.length; i++) {
+      if ((samples[i - 1] >= 0) !== (samples[i] >= 0)) crossings++;
+    }
+    features.zeroCrossingRate[frame] = samples.length > 1 ? crossings / (samples.length - 1) : 0;
+
+    const power = powerSpectrum(samples, fftSize);
+    let logSum = 0;
+    let sum = 0;
+    const [flatLow, flatHigh] = [binOf(FLATNESS_BAND.low), binOf(FLATNESS_BAND.high)];
+    for (let bin = flatLow; bin <= flatHigh; bin++) {
+      logSum += Math.log(power[bin] + 1e-20);
+      sum += power[bin];
+    }
+    const bins = flatHigh - flatLow + 1;
+    features.flatness[frame] = sum > 0 ? Math.exp(logSum / bins) / (sum / bins) : 1;
+
+    let total = 0;
+    let speech = 0;
+    const [speechLow, speechHigh] = [binOf(SPEECH_BAND.low), binOf(SPEECH_BAND.high)];
+    for (let bin = 1; bin < power.length; bin++) {
+      total += power[bin];
+      if (bin >= speechLow && bin <= speechHigh) speech += power[bin];
+    }
+    features.speechBandRatio[frame] = total > 0 ? speech / total : 0;
+    if (frame % PROGRESS_INTERVAL_FRAMES === PROGRESS_INTERVAL_FRAMES - 1) {
+      analysis.onProgress?.(((frame + 1) / frameCount) * 100);
+    }
+  }
+  return features;
+}
+
+export const energyDetector: VoiceActivityDetector = {
+  name: 'energy',
+  label: '能量',
+  description: '只比較音量與噪音底，速度最快，但音樂與環境噪音也會被當成語音',
+  detect: ({ frameEnergy, openThresholdDB, closeThresholdDB, attackFrames, holdFrames }) =>
+    applyHysteresis(frameEnergy, openThresholdDB, closeThresholdDB, attackFrames, holdFrames),
+};
+
+/**
+ * 頻譜偵測器：能量超過門檻，且頻譜平坦度、過零率與語音頻帶能量比都符合人聲特徵時才視為語音
+ * 可排除鍵盤聲等寬頻噪音 (平坦度高) 與空調、電源的低頻嗡聲 (語音頻帶能量比低)
+ */
+export function createSpectralDetector(limits: SpectralLimits = DEFAULT_SPECTRAL_LIMITS): VoiceActivityDetector {
+  return {
+    name: 'spectral',
+    label: '頻譜',
+    description: '同時檢查頻譜特徵，可排除鍵盤聲與空調嗡聲',
+    detect: analysis => {
+      const features = computeSpectralFeatures(analysis);
+      // 頻譜特徵不符合的幀視為無聲，其餘沿用能量的遲滯門檻
+      const scores = Float32Array.from(analysis.frameEnergy, (energy, frame) =>
+        features.flatness[frame] <= limits.maxFlatness &&
+        features.zeroCrossingRate[frame] <= limits.maxZeroCrossingRate &&
+        features.speechBandRatio[frame] >= limits.minSpeechBandRatio
+          ? energy
+          : -Infinity
+      );
+      return applyHysteresis(scores, analysis.openThresholdDB, analysis.closeThresholdDB, analysis.attackFrames, analysis.holdFrames);
+    },
+  };
+}
+
+// 投票權重：語音頻帶能量比最能區分人聲與噪音，因此計兩票
+const VOTE_WEIGHTS = { energy: 1, flatness: 1, zeroCrossingRate: 1, speechBandRatio: 2 };
+const MAX_VOTES = Object.values(VOTE_WEIGHTS).reduce((sum, weight) => sum + weight, 0);
+
+/**
+ * 投票偵測器：能量與各項頻譜特徵分別投票，票數達到 minVotes 即視為語音
+ * 比頻譜偵測器寬鬆，帶有噪音的人聲只要大部分特徵符合即可通過
+ * @param minVotes 開始語音所需的票數 (滿分 5)；少於 minVotes - 1 票時開始計算保持時間
+ */
+export function createVotingDetector(
+  minVotes = MAX_VOTES - 1,
+  limits: SpectralLimits = DEFAULT_SPECTRAL_LIMITS
+): VoiceActivityDetector {
+  return {
+    name: 'voting',
+    label: '投票',
+    description: '綜合能量與頻譜特徵投票，適合有背景噪音的錄音',
+    detect: analysis => {
+      const features = computeSpectralFeatures(analysis);
+      const votes = Float32Array.from(analysis.frameEnergy, (energy, frame) =>
+        (energy >= analysis.openThresholdDB ? VOTE_WEIGHTS.energy : 0) +
+        (features.flatness[frame] <= limits.maxFlatness ? VOTE_WEIGHTS.flatness : 0) +
+        (features.zeroCrossingRate[frame] <= limits.maxZeroCrossingRate ? VOTE_WEIGHTS.zeroCrossingRate : 0) +
+        (features.speechBandRatio[frame] >= limits.minSpeechBandRatio ? VOTE_WEIGHTS.speechBandRatio : 0)
+      );
+      return applyHysteresis(votes, minVotes, minVotes - 1, analysis.attackFrames, analysis.holdFrames);
+    },
+  };
+}
+
+export const VOICE_DETECTORS: Record<VoiceDetectorName, VoiceActivityDetector> = {
+  energy: energyDetector,
+  spectral: createSpectralDetector(),
+  voting: createVotingDetector(),
+};
+
+/**
+ * 依名稱取得內建偵測器；傳入自訂偵測器時原樣返回
+ */
+export function resolveVoiceDetector(detector: VoiceDetectorName | VoiceActivityDetector): VoiceActivityDetector {
+  if (typeof detector !== 'string') return detector;
+  const resolved = VOICE_DETECTORS[detector];
+  if (!resolved) {
+    throw new Error(`未知的語音偵測器: ${detector}`);
+  }
+  return resolved;
+}
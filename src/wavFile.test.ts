@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { markersFromSegments, parseWav, quantizeChannels, quantizeSample, writeWav } from './wavFile';
+
+const ramp = (length: number, scale = 1) =>
+  Float32Array.from({ length }, (_, i) => scale * ((i / (length - 1)) * 2 - 1));
+
+const chunkIds = (buffer: ArrayBuffer): string[] => {
+  const view = new DataView(buffer);
+  const ids: string[] = [];
+  for (let offset = 12; offset + 8 <= buffer.byteLength;) {
+    ids.push(String.fromCharCode(...new Uint8Array(buffer, offset, 4)));
+    const size = view.getUint32(offset + 4, true);
+    offset += 8 + size + (size % 2);
+  }
+  return ids;
+};
+
+describe('quantizeSample', () => {
+  it('maps the full float range to the integer range', () => {
+    expect(quantizeSample(1, 16)).toBe(32767);
+    expect(quantizeSample(-1, 16)).toBe(-32768);
+    expect(quantizeSample(2, 24)).toBe(8388607);
+    expect(quantizeSample(0, 16)).toBe(0);
+  });
+});
+
+describe('quantizeChannels', () => {
+  it('adds at most one LSB of TPDF dither', () => {
+    const [dithered] = quantizeChannels([new Float32Array(2000)], 16, true);
+    expect(dithered.every(value => Math.abs(value) <= 1)).toBe(true);
+    expect(dithered.some(value => value !== 0)).toBe(true);
+    const mean = dithered.reduce((sum, value) => sum + value, 0) / dithered.length;
+    expect(Math.abs(mean)).toBeLessThan(0.1);
+  });
+
+  it('is exact without dither', () => {
+    expect(quantizeChannels([new Float32Array([0.5, -0.5])], 16)).toEqual([Int32Array.from([16384, -16384])]);
+  });
+});
+
+describe('writeWav / parseWav', () => {
+  it('round-trips 16-bit and 24-bit integer samples', () => {
+    for (const [sampleFormat, bits] of [['int16', 16], ['int24', 24]] as const) {
+      const source = [ramp(101), ramp(101, -0.25)];
+      const written = writeWav(22050, source, { sampleFormat });
+      const parsed = parseWav(written);
+      expect(parsed).toMatchObject({ sampleRate: 22050, sampleFormat: 'int', bitsPerSample: bits, markers: [] });
+      expect(parsed.channels[0][0]).toBe(-1);
+      expect(parsed.channels[0][100]).toBe(1);
+      parsed.channels.forEach((channel, c) =>
+        channel.forEach((sample, i) => expect(sample).toBeCloseTo(source[c][i], bits === 16 ? 4 : 6))
+      );
+      // 解析後再寫出應得到相同的位元組
+      expect(new Uint8Array(writeWav(22050, parsed.channels, { sampleFormat }))).toEqual(new Uint8Array(written));
+    }
+  });
+
+  it('writes 32-bit float with a fact chunk', () => {
+    const source = [Float32Array.from([0.1, -1.5, 2])];
+    const written = writeWav(48000, source, { sampleFormat: 'float32', dither: true });
+    expect(chunkIds(written)).toEqual(['fmt ', 'fact', 'data']);
+    expect(new DataView(written).getUint16(20, true)).toBe(3);
+    const parsed = parseWav(written);
+    expect(parsed.sampleFormat).toBe('float');
+    // 浮點格式不裁切超出範圍的樣本
+    expect(parsed.channels).toEqual(source);
+  });
+
+  it('uses WAVE_FORMAT_EXTENSIBLE for more than two channels', () => {
+    const source = Array.from({ length: 6 }, (_, c) => Float32Array.from({ length: 10 }, () => c / 10));
+    const written = writeWav(44100, source, { sampleFormat: 'int24' });
+    const view = new DataView(written);
+    expect(view.getUint32(16, true)).toBe(40);
+    expect(view.getUint16(20, true)).toBe(0xfffe);
+    expect(view.getUint16(32, true)).toBe(18); // blockAlign
+    expect(view.getUint16(38, true)).toBe(24); // validBitsPerSample
+    const parsed = parseWav(written);
+    expect(parsed.channels).toHaveLength(6);
+    expect(parsed.channelMask).toBe(0x60f);
+    expect(parsed.channels[5][9]).toBeCloseTo(0.5, 6);
+  });
+
+  it('embeds markers as cue points and labelled regions', () => {
+    const markers = [
+      ...markersFromSegments([{ start: 0.5, end: 1.25 }, { start: 2, end: 3 }]),
+      { time: 3.5, label: '結尾' },
+      { time: 3.75 },
+    ];
+    const written = writeWav(8000, [new Float32Array(8000 * 4)], { markers });
+    expect(chunkIds(written)).toEqual(['fmt ', 'data', 'cue ', 'LIST']);
+    expect(parseWav(written).markers).toEqual([
+      { time: 0.5, duration: 0.75, label: '片段 1' },
+      { time: 2, duration: 1, label: '片段 2' },
+      { time: 3.5, label: '結尾' },
+      { time: 3.75 },
+    ]);
+  });
+
+  it('rejects files that are not WAV', () => {
+    expect(() => parseWav(new ArrayBuffer(4))).toThrow('不是有效的 WAV 檔案');
+  });
+});
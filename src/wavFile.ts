@@ -0,0 +1,355 @@
+// WAV 檔案讀寫：16/24 位元整數與 32 位元浮點、TPDF dither、多聲道 WAVE_FORMAT_EXTENSIBLE，
+// 以及 DAW 可讀取的 cue / LIST adtl 標記
+
+export type WavSampleFormat = 'int16' | 'int24' | 'float32';
+
+// 時間單位為秒；有 duration 的標記會寫成區段 (ltxt)，多數 DAW 顯示為區域
+export interface WavMarker {
+  time: number;
+  label?: string;
+  duration?: number;
+}
+
+export interface WavWriteOptions {
+  sampleFormat?: WavSampleFormat;  // 預設 int16
+  dither?: boolean;                // 轉換為整數前加入 TPDF dither，浮點格式忽略
+  markers?: WavMarker[];
+  channelMask?: number;            // 超過兩個聲道時的喇叭配置，未指定時依聲道數使用常見配置
+}
+
+export interface WavFile {
+  sampleRate: number;
+  channels: Float32Array[];
+  sampleFormat: 'int' | 'float';
+  bitsPerSample: number;
+  channelMask?: number;
+  markers: WavMarker[];
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// KSDATAFORMAT_SUBTYPE_* 的 GUID 中格式代碼之後的固定部分
+const SUBFORMAT_GUID_TAIL = [0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71];
+
+// 依 Web Audio 的聲道順序對應的 dwChannelMask (例如 6 聲道為 L R C LFE SL SR)
+const DEFAULT_CHANNEL_MASKS: Record<number, number> = {
+  3: 0x7,    // L R C
+  4: 0x33,   // L R BL BR
+  5: 0x37,   // L R C BL BR
+  6: 0x60f,  // L R C LFE SL SR
+  7: 0x70f,  // L R C LFE BC SL SR
+  8: 0x63f,  // L R C LFE BL BR SL SR
+};
+
+const BITS_PER_SAMPLE: Record<WavSampleFormat, number> = { int16: 16, int24: 24, float32: 32 };
+
+/**
+ * 將浮點樣本轉換為有號整數，正負兩側分別對應到整數範圍的兩端
+ */
+export const quantizeSample = (sample: number, bits: number): number => {
+  const clamped = Math.max(-1, Math.min(1, sample));
+  return Math.round(clamped < 0 ? clamped * 2 ** (bits - 1) : clamped * (2 ** (bits - 1) - 1));
+};
+
+// quantizeSample 的反向轉換
+const dequantizeSample = (value: number, bits: number): number =>
+  value < 0 ? value / 2 ** (bits - 1) : value / (2 ** (bits - 1) - 1);
+
+/**
+ * 將聲道轉換為整數樣本；開啟 dither 時加入振幅為 ±1 LSB 的三角分佈雜訊，避免低音量時的量化失真
+ */
+export const quantizeChannels = (channels: Float32Array[], bits: number, dither = false): Int32Array[] => {
+  const lsb = 1 / 2 ** (bits - 1);
+  return channels.map(data => Int32Array.from(data, sample =>
+    quantizeSample(dither ? sample + (Math.random() - Math.random()) * lsb : sample, bits)
+  ));
+};
+
+/**
+ * 將語音段落轉換為 WAV 區段標記
+ * @param prefix 標記名稱前綴，名稱為「前綴 + 序號」
+ */
+export const markersFromSegments = (segments: Array<{ start: number; end: number }>, prefix = '片段'): WavMarker[] =>
+  segments.map((segment, index) => ({
+    time: segment.start,
+    duration: segment.end - segment.start,
+    label: `${prefix} ${index + 1}`,
+  }));
+
+const writeString = (view: DataView, offset: number, value: string): void => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+const readString = (view: DataView, offset: number, length: number): string =>
+  String.fromCharCode(...new Uint8Array(view.buffer, view.byteOffset + offset, length));
+
+// RIFF 子區塊
+interface Chunk {
+  id: string;
+  data: Uint8Array;
+}
+
+// 組合區塊，奇數長度補一個位元組
+const concatChunks = (chunks: Chunk[]): Uint8Array => {
+  const size = chunks.reduce((total, chunk) => total + 8 + chunk.data.length + (chunk.data.length % 2), 0);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  for (const chunk of chunks) {
+    writeString(view, offset, chunk.id);
+    view.setUint32(offset + 4, chunk.data.length, true);
+    bytes.set(chunk.data, offset + 8);
+    offset += 8 + chunk.data.length + (chunk.data.length % 2);
+  }
+  return bytes;
+};
+
+const buildFormatChunk = (
+  channelCount: number,
+  sampleRate: number,
+  sampleFormat: WavSampleFormat,
+  channelMask?: number
+): Chunk => {
+  const bits = BITS_PER_SAMPLE[sampleFormat];
+  const formatCode = sampleFormat === 'float32' ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM;
+  const blockAlign = channelCount * bits / 8;
+  const extensible = channelCount > 2;
+  const view = new DataView(new ArrayBuffer(extensible ? 40 : formatCode === WAVE_FORMAT_PCM ? 16 : 18));
+
+  view.setUint16(0, extensible ? WAVE_FORMAT_EXTENSIBLE : formatCode, true);
+  view.setUint16(2, channelCount, true);
+  view.setUint32(4, sampleRate, true);
+  view.setUint32(8, sampleRate * blockAlign, true);
+  view.setUint16(12, blockAlign, true);
+  view.setUint16(14, bits, true);
+  if (extensible) {
+    view.setUint16(16, 22, true);
+    view.setUint16(18, bits, true);
+    view.setUint32(20, channelMask ?? DEFAULT_CHANNEL_MASKS[channelCount] ?? 0, true);
+    view.setUint32(24, formatCode, true);
+    SUBFORMAT_GUID_TAIL.forEach((byte, i) => view.setUint8(28 + i, byte));
+  } else if (formatCode !== WAVE_FORMAT_PCM) {
+    view.setUint16(16, 0, true);
+  }
+  return { id: 'fmt ', data: new Uint8Array(view.buffer) };
+};
+
+const buildDataChunk = (channels: Float32Array[], sampleFormat: WavSampleFormat, dither: boolean): Chunk => {
+  const bits = BITS_PER_SAMPLE[sampleFormat];
+  const frameCount = channels[0]?.length ?? 0;
+  const bytesPerSample = bits / 8;
+  const view = new DataView(new ArrayBuffer(frameCount * channels.length * bytesPerSample));
+
+  if (sampleFormat === 'float32') {
+    let offset = 0;
+    for (let i = 0; i < frameCount; i++) {
+      for (const data of channels) {
+        view.setFloat32(offset, data[i], true);
+        offset += 4;
+      }
+    }
+  } else {
+    const samples = quantizeChannels(channels, bits, dither);
+    let offset = 0;
+    for (let i = 0; i < frameCount; i++) {
+      for (const data of samples) {
+        if (bits === 16) {
+          view.setInt16(offset, data[i], true);
+        } else {
+          view.setUint8(offset, data[i] & 0xff);
+          view.setInt16(offset + 1, data[i] >> 8, true);
+        }
+        offset += bytesPerSample;
+      }
+    }
+  }
+  return { id: 'data', data: new Uint8Array(view.buffer) };
+};
+
+// cue 區塊記錄標記位置，LIST adtl 區塊記錄名稱 (labl) 與區段長度 (ltxt)
+const buildMarkerChunks = (markers: WavMarker[], sampleRate: number): Chunk[] => {
+  const cue = new DataView(new ArrayBuffer(4 + markers.length * 24));
+  cue.setUint32(0, markers.length, true);
+  const adtl: Chunk[] = [];
+  const encoder = new TextEncoder();
+
+  markers.forEach((marker, index) => {
+    const id = index + 1;
+    const position = Math.max(0, Math.round(marker.time * sampleRate));
+    const offset = 4 + index * 24;
+    cue.setUint32(offset, id, true);
+    cue.setUint32(offset + 4, position, true);
+    writeString(cue, offset + 8, 'data');
+    cue.setUint32(offset + 12, 0, true);
+    cue.setUint32(offset + 16, 0, true);
+    cue.setUint32(offset + 20, position, true);
+
+    if (marker.label) {
+      const text = encoder.encode(marker.label);
+      const label = new Uint8Array(4 + text.length + 1);
+      new DataView(label.buffer).setUint32(0, id, true);
+      label.set(text, 4);
+      adtl.push({ id: 'labl', data: label });
+    }
+    if (marker.duration !== undefined && marker.duration > 0) {
+      const region = new DataView(new ArrayBuffer(20));
+      region.setUint32(0, id, true);
+      region.setUint32(4, Math.round(marker.duration * sampleRate), true);
+      writeString(region, 8, 'rgn ');
+      adtl.push({ id: 'ltxt', data: new Uint8Array(region.buffer) });
+    }
+  });
+
+  const chunks: Chunk[] = [{ id: 'cue ', data: new Uint8Array(cue.buffer) }];
+  if (adtl.length > 0) {
+    const list = concatChunks(adtl);
+    const data = new Uint8Array(4 + list.length);
+    data.set([0x61, 0x64, 0x74, 0x6c]); // "adtl"
+    data.set(list, 4);
+    chunks.push({ id: 'LIST', data });
+  }
+  return chunks;
+};
+
+/**
+ * 產生 WAV 檔案
+ * @param sampleRate 取樣率
+ * @param channels 各聲道樣本，範圍 -1 ~ 1
+ * @param options 樣本格式、dither 與標記
+ * @returns WAV 檔案內容
+ */
+export function writeWav(sampleRate: number, channels: Float32Array[], options: WavWriteOptions = {}): ArrayBuffer {
+  const sampleFormat = options.sampleFormat ?? 'int16';
+  const chunks = [buildFormatChunk(channels.length, sampleRate, sampleFormat, options.channelMask)];
+
+  // 非 PCM 格式需要 fact 區塊記錄樣本數
+  if (sampleFormat === 'float32') {
+    const fact = new DataView(new ArrayBuffer(4));
+    fact.setUint32(0, channels[0]?.length ?? 0, true);
+    chunks.push({ id: 'fact', data: new Uint8Array(fact.buffer) });
+  }
+  chunks.push(buildDataChunk(channels, sampleFormat, options.dither ?? false));
+  if (options.markers && options.markers.length > 0) {
+    chunks.push(...buildMarkerChunks(options.markers, sampleRate));
+  }
+
+  const body = concatChunks(chunks);
+  const bytes = new Uint8Array(12 + body.length);
+  const view = new DataView(bytes.buffer);
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 4 + body.length, true);
+  writeString(view, 8, 'WAVE');
+  bytes.set(body, 12);
+  return bytes.buffer;
+}
+
+const readSample = (view: DataView, offset: number, sampleFormat: 'int' | 'float', bits: number): number => {
+  if (sampleFormat === 'float') {
+    return bits === 64 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+  }
+  switch (bits) {
+    case 8: return (view.getUint8(offset) - 128) / 128;  // 8 位元 WAV 為無號整數
+    case 16: return dequantizeSample(view.getInt16(offset, true), 16);
+    case 24: return dequantizeSample(view.getInt16(offset + 1, true) * 256 + view.getUint8(offset), 24);
+    default: return dequantizeSample(view.getInt32(offset, true), 32);
+  }
+};
+
+/**
+ * 解析 WAV 檔案，支援 8/16/24/32 位元整數、32/64 位元浮點、WAVE_FORMAT_EXTENSIBLE 與 cue / LIST adtl 標記
+ */
+export function parseWav(buffer: ArrayBuffer): WavFile {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12 || readString(view, 0, 4) !== 'RIFF' || readString(view, 8, 4) !== 'WAVE') {
+    throw new Error('不是有效的 WAV 檔案');
+  }
+
+  const found: {
+    format?: { code: number; channelCount: number; sampleRate: number; bits: number; channelMask?: number };
+    data?: { offset: number; length: number };
+  } = {};
+  const cuePositions = new Map<number, number>();
+  const labels = new Map<number, string>();
+  const lengths = new Map<number, number>();
+  const decoder = new TextDecoder();
+
+  const readChunks = (start: number, end: number, inList: boolean) => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      const id = readString(view, offset, 4);
+      const size = Math.min(view.getUint32(offset + 4, true), end - offset - 8);
+      const body = offset + 8;
+
+      if (id === 'fmt ') {
+        const code = view.getUint16(body, true);
+        found.format = {
+          code: code === WAVE_FORMAT_EXTENSIBLE ? view.getUint16(body + 24, true) : code,
+          channelCount: view.getUint16(body + 2, true),
+          sampleRate: view.getUint32(body + 4, true),
+          bits: view.getUint16(body + 14, true),
+          channelMask: code === WAVE_FORMAT_EXTENSIBLE ? view.getUint32(body + 20, true) : undefined,
+        };
+      } else if (id === 'data') {
+        found.data = { offset: body, length: size };
+      } else if (id === 'cue ') {
+        const count = view.getUint32(body, true);
+        for (let i = 0; i < count; i++) {
+          const point = body + 4 + i * 24;
+          cuePositions.set(view.getUint32(point, true), view.getUint32(point + 20, true));
+        }
+      } else if (id === 'LIST' && readString(view, body, 4) === 'adtl') {
+        readChunks(body + 4, body + size, true);
+      } else if (inList && id === 'labl') {
+        const text = new Uint8Array(buffer, body + 4, size - 4);
+        const terminator = text.indexOf(0);
+        labels.set(view.getUint32(body, true), decoder.decode(terminator >= 0 ? text.subarray(0, terminator) : text));
+      } else if (inList && id === 'ltxt') {
+        lengths.set(view.getUint32(body, true), view.getUint32(body + 4, true));
+      }
+      offset = body + size + (size % 2);
+    }
+  };
+  readChunks(12, buffer.byteLength, false);
+
+  const { format: fmt, data: dataChunk } = found;
+  if (!fmt || !dataChunk) {
+    throw new Error('WAV 檔案缺少 fmt 或 data 區塊');
+  }
+  if (fmt.code !== WAVE_FORMAT_PCM && fmt.code !== WAVE_FORMAT_IEEE_FLOAT) {
+    throw new Error(`不支援的 WAV 編碼格式: ${fmt.code}`);
+  }
+
+  const sampleFormat = fmt.code === WAVE_FORMAT_IEEE_FLOAT ? 'float' : 'int';
+  const bytesPerSample = fmt.bits / 8;
+  const frameCount = Math.floor(dataChunk.length / (bytesPerSample * fmt.channelCount));
+  const channels = Array.from({ length: fmt.channelCount }, () => new Float32Array(frameCount));
+  let offset = dataChunk.offset;
+  for (let i = 0; i < frameCount; i++) {
+    for (const channel of channels) {
+      channel[i] = readSample(view, offset, sampleFormat, fmt.bits);
+      offset += bytesPerSample;
+    }
+  }
+
+  const markers = [...cuePositions.entries()]
+    .sort(([, a], [, b]) => a - b)
+    .map(([id, position]) => {
+      const marker: WavMarker = { time: position / fmt.sampleRate };
+      if (labels.has(id)) marker.label = labels.get(id);
+      if (lengths.has(id)) marker.duration = lengths.get(id)! / fmt.sampleRate;
+      return marker;
+    });
+
+  return {
+    sampleRate: fmt.sampleRate,
+    channels,
+    sampleFormat,
+    bitsPerSample: fmt.bits,
+    channelMask: fmt.channelMask,
+    markers,
+  };
+}